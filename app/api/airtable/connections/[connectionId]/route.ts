@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AirtableConnectionError,
+  deleteAirtableConnection,
+  getAirtableConnection,
+  updateAirtableConnection,
+  type AirtableConnectionInput,
+} from "@/utils/airtableConnections";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ connectionId: string }> };
+
+function notFound(connectionId: string) {
+  return NextResponse.json(
+    { error: `Airtable connection ${connectionId} not found` },
+    { status: 404 }
+  );
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { connectionId } = await context.params;
+  try {
+    await requireAdmin(request);
+    const connection = await getAirtableConnection(connectionId);
+    if (!connection) return notFound(connectionId);
+    return NextResponse.json({ connection });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load Airtable connection", error);
+    return NextResponse.json(
+      { error: "Failed to load Airtable connection" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Updates the given fields; `token: null` falls back to the default token. */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const { connectionId } = await context.params;
+  let payload: AirtableConnectionInput;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    await requireAdmin(request);
+    const connection = await updateAirtableConnection(connectionId, payload ?? {});
+    if (!connection) return notFound(connectionId);
+    return NextResponse.json({ connection });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AirtableConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update Airtable connection", error);
+    return NextResponse.json(
+      { error: "Failed to update Airtable connection" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { connectionId } = await context.params;
+  try {
+    await requireAdmin(request);
+    const deleted = await deleteAirtableConnection(connectionId);
+    if (!deleted) return notFound(connectionId);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to delete Airtable connection", error);
+    return NextResponse.json(
+      { error: "Failed to delete Airtable connection" },
+      { status: 500 }
+    );
+  }
+}
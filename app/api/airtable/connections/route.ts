@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AirtableConnectionError,
+  createAirtableConnection,
+  listAirtableConnections,
+  type AirtableConnectionInput,
+} from "@/utils/airtableConnections";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const connections = await listAirtableConnections();
+    return NextResponse.json({ connections });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable connections", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable connections" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Registers a base: `{ baseId, projectTag, name?, token? | tokenEnv?,
+ * tablePrefix?, includeTables?, excludeTables?, schedule?, enabled? }`.
+ * A `token` is stored encrypted and never returned.
+ */
+export async function POST(request: NextRequest) {
+  let payload: AirtableConnectionInput;
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    await requireAdmin(request);
+    const connection = await createAirtableConnection(payload ?? {});
+    return NextResponse.json({ connection }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AirtableConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create Airtable connection", error);
+    return NextResponse.json(
+      { error: "Failed to create Airtable connection" },
+      { status: 500 }
+    );
+  }
+}
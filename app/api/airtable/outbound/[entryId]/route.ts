@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  resolveOutboundConflict,
+  type OutboundResolution,
+} from "@/utils/airtableOutbound";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+const RESOLUTIONS = new Set<OutboundResolution>(["keepLocal", "keepRemote"]);
+
+/** Settles a conflict with `{ resolution: "keepLocal" | "keepRemote" }`. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ entryId: string }> }
+) {
+  try {
+    await requireAdmin(request);
+    const { entryId } = await context.params;
+    const payload = await request.json();
+    const resolution = payload?.resolution;
+    if (!RESOLUTIONS.has(resolution)) {
+      return NextResponse.json(
+        { error: "resolution must be keepLocal or keepRemote" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await resolveOutboundConflict(entryId, resolution);
+    if (!entry) {
+      return NextResponse.json(
+        { error: `No open conflict ${entryId}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ entry, resolution });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to resolve Airtable conflict", error);
+    return NextResponse.json(
+      { error: "Failed to resolve Airtable conflict" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AirtableConnectionError } from "@/utils/airtableConnections";
+import {
+  listOutboundEntries,
+  type AirtableOutboundEntry,
+} from "@/utils/airtableOutbound";
+import { pushAirtableChanges } from "@/utils/airtableSync";
+import { AirtableSyncBusyError } from "@/utils/airtableSyncRuns";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES = new Set<AirtableOutboundEntry["status"]>([
+  "pending",
+  "failed",
+  "conflict",
+]);
+
+/**
+ * Lists queued local edits. `?status=conflict` is the review list: each
+ * conflict carries the Airtable values next to the current local row.
+ */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get("status");
+  const tableName = request.nextUrl.searchParams.get("table") ?? undefined;
+  if (status && !STATUSES.has(status as AirtableOutboundEntry["status"])) {
+    return NextResponse.json(
+      { error: `Unknown status: ${status}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await requireAdmin(request);
+    const entries = await listOutboundEntries({
+      status: (status as AirtableOutboundEntry["status"]) || undefined,
+      tableName: tableName || undefined,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable outbound changes", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable outbound changes" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Pushes the queued edits of `?baseId=` (or the default base) now. */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const baseId = request.nextUrl.searchParams.get("baseId") ?? undefined;
+    const result = await pushAirtableChanges({ baseId: baseId || undefined });
+    return NextResponse.json({ ok: true, ...result });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AirtableConnectionError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof AirtableSyncBusyError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
+    console.error("Airtable push failed", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to push Airtable changes";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { decideSchemaChange } from "@/utils/airtableSchemaChanges";
+import { startAirtableSync } from "@/utils/airtableSync";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Decides a held change with `{ decision: "approve" | "reject" }`. Approving
+ * starts a sync of the table's base to apply it unless `sync` is false.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ changeId: string }> }
+) {
+  try {
+    await requireAdmin(request);
+    const { changeId } = await context.params;
+    const payload = await request.json().catch(() => null);
+    const decision = payload?.decision;
+    if (decision !== "approve" && decision !== "reject") {
+      return NextResponse.json(
+        { error: "decision must be approve or reject" },
+        { status: 400 }
+      );
+    }
+
+    const change = await decideSchemaChange(
+      changeId,
+      decision === "approve" ? "approved" : "rejected"
+    );
+    if (!change) {
+      return NextResponse.json(
+        { error: `No open schema change ${changeId}` },
+        { status: 404 }
+      );
+    }
+
+    const { source_file: sourceFile, ...rest } = change;
+    const baseId = sourceFile?.match(/^airtable:\/\/([^/]+)\//)?.[1];
+    const run =
+      decision === "approve" && payload?.sync !== false && baseId
+        ? await startAirtableSync({ baseId })
+        : null;
+    return NextResponse.json({ change: rest, runId: run?.runId ?? null });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to decide Airtable schema change", error);
+    return NextResponse.json(
+      { error: "Failed to decide Airtable schema change" },
+      { status: 500 }
+    );
+  }
+}
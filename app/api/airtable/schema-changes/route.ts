@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listSchemaChanges,
+  type AirtableSchemaChangeStatus,
+} from "@/utils/airtableSchemaChanges";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES = new Set<AirtableSchemaChangeStatus>([
+  "pending",
+  "approved",
+  "rejected",
+  "applied",
+]);
+
+/**
+ * Lists Airtable schema changes found by syncs, pending review by default.
+ * `?status=all` includes decided and applied changes; `?table=` narrows to
+ * one table.
+ */
+export async function GET(request: NextRequest) {
+  const status = request.nextUrl.searchParams.get("status") ?? "pending";
+  const tableName = request.nextUrl.searchParams.get("table") ?? undefined;
+  if (status !== "all" && !STATUSES.has(status as AirtableSchemaChangeStatus)) {
+    return NextResponse.json(
+      { error: `Unknown status: ${status}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await requireAdmin(request);
+    const changes = await listSchemaChanges({
+      status: status === "all" ? undefined : (status as AirtableSchemaChangeStatus),
+      tableName: tableName || undefined,
+    });
+    return NextResponse.json({ changes });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable schema changes", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable schema changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AIRTABLE_SCHEMA_POLICIES,
+  listSchemaPolicies,
+  setSchemaPolicy,
+  type AirtableSchemaPolicy,
+} from "@/utils/airtableSchemaChanges";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const policies = await listSchemaPolicies();
+    return NextResponse.json({ policies });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable schema policies", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable schema policies" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Sets a synced table's policy with `{ table, policy }`. */
+export async function PUT(request: NextRequest) {
+  let payload: { table?: string; policy?: string };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const tableName = payload?.table?.trim();
+  const policy = payload?.policy as AirtableSchemaPolicy;
+  if (!tableName || !AIRTABLE_SCHEMA_POLICIES.includes(policy)) {
+    return NextResponse.json(
+      {
+        error: `table and policy (${AIRTABLE_SCHEMA_POLICIES.join(", ")}) are required`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await requireAdmin(request);
+    const updated = await setSchemaPolicy(tableName, policy);
+    if (!updated) {
+      return NextResponse.json(
+        { error: `${tableName} is not synced from Airtable` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ table: tableName, policy });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to set Airtable schema policy", error);
+    return NextResponse.json(
+      { error: "Failed to set Airtable schema policy" },
+      { status: 500 }
+    );
+  }
+}
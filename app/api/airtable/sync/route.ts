@@ -1,21 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
-import { syncAirtableBase } from "@/utils/airtableSync";
+import { AirtableConnectionError } from "@/utils/airtableConnections";
+import { startAirtableSync, syncAirtableBase } from "@/utils/airtableSync";
+import { AirtableSyncBusyError } from "@/utils/airtableSyncRuns";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
 
 export const dynamic = "force-dynamic";
 
+function readFlag(request: NextRequest, name: string): boolean {
+  const value = request.nextUrl.searchParams.get(name);
+  return value === "" || value === "1" || value === "true";
+}
+
+/**
+ * Starts a sync run and answers 202 with its id; poll
+ * `/api/airtable/sync/runs/[runId]` for progress. `?wait=1` blocks until the
+ * run finishes and returns its result instead. `?dryRun=1` reports the tables,
+ * columns and rows that would change without writing anything.
+ */
 export async function POST(request: NextRequest) {
   try {
+    await requireAdmin(request);
     const baseId = request.nextUrl.searchParams.get("baseId") ?? undefined;
     const projectTag =
       request.nextUrl.searchParams.get("projectTag") ?? undefined;
-
-    const result = await syncAirtableBase({
+    const options = {
       baseId: baseId || undefined,
       projectTag: projectTag || undefined,
-    });
+      dryRun: readFlag(request, "dryRun"),
+    };
+
+    if (readFlag(request, "wait")) {
+      const result = await syncAirtableBase(options);
+      return NextResponse.json({ ok: true, ...result });
+    }
 
-    return NextResponse.json({ ok: true, ...result });
+    const { runId } = await startAirtableSync(options);
+    return NextResponse.json({ ok: true, runId }, { status: 202 });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AirtableConnectionError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (error instanceof AirtableSyncBusyError) {
+      return NextResponse.json({ ok: false, error: error.message }, { status: 409 });
+    }
     console.error("Airtable sync failed", error);
     const message =
       error instanceof Error ? error.message : "Failed to sync Airtable base";
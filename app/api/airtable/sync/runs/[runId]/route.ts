@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSyncRun } from "@/utils/airtableSyncRuns";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ runId: string }> }
+) {
+  try {
+    await requireAdmin(request);
+    const { runId } = await context.params;
+    const run = await getSyncRun(runId);
+    if (!run) {
+      return NextResponse.json(
+        { error: `Sync run ${runId} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ run });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load Airtable sync run", error);
+    return NextResponse.json(
+      { error: "Failed to load Airtable sync run" },
+      { status: 500 }
+    );
+  }
+}
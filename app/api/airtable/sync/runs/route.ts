@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listSyncRuns } from "@/utils/airtableSyncRuns";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const baseId = request.nextUrl.searchParams.get("baseId") ?? undefined;
+    const limitParam = request.nextUrl.searchParams.get("limit");
+    const runs = await listSyncRuns({
+      baseId: baseId || undefined,
+      limit: limitParam ? Number.parseInt(limitParam, 10) : undefined,
+    });
+    return NextResponse.json({ runs });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable sync runs", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable sync runs" },
+      { status: 500 }
+    );
+  }
+}
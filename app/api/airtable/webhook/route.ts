@@ -1,6 +1,15 @@
 import { createHmac } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { syncAirtableBase } from "@/utils/airtableSync";
+import {
+  AirtableConnectionError,
+  resolveAirtableConnection,
+} from "@/utils/airtableConnections";
+import {
+  syncAirtableBase,
+  syncAirtableWebhookPayloads,
+} from "@/utils/airtableSync";
+import { AirtableSyncBusyError } from "@/utils/airtableSyncRuns";
+import { getWebhookState, verifyWebhookMac } from "@/utils/airtableWebhooks";
 
 export const dynamic = "force-dynamic";
 
@@ -35,21 +44,54 @@ export async function POST(request: NextRequest) {
   }
 
   const body = await request.text();
-  if (!verifySignature(request, body)) {
+  let notification: { base?: { id?: string }; webhook?: { id?: string } } = {};
+  try {
+    notification = body ? JSON.parse(body) : {};
+  } catch {
+    return NextResponse.json({ ok: false, error: "Invalid payload" }, { status: 400 });
+  }
+
+  const baseId = notification.base?.id;
+  const state = baseId ? await getWebhookState(baseId) : null;
+  const verified = state?.mac_secret_base64
+    ? state.webhook_id === notification.webhook?.id &&
+      verifyWebhookMac(
+        state.mac_secret_base64,
+        body,
+        request.headers.get("X-Airtable-Content-MAC")
+      )
+    : verifySignature(request, body);
+  if (!verified) {
     return NextResponse.json({ ok: false, error: "Invalid signature" }, { status: 401 });
   }
 
   try {
-    await syncAirtableBase();
+    // The base's connection supplies the token and project tag; pings for a
+    // disabled connection are acknowledged and ignored.
+    const connection = await resolveAirtableConnection({ baseId });
+
+    // Pings only say "something changed"; the payloads are fetched from the
+    // stored cursor. Without a registered webhook there is no cursor, so fall
+    // back to a full sync of the base.
+    const result = state
+      ? await syncAirtableWebhookPayloads({ baseId: connection.baseId })
+      : await syncAirtableBase({ baseId: connection.baseId });
+    return NextResponse.json({ ok: true, totals: result.totals });
   } catch (error) {
+    // Payloads the running sync did not read stay after the stored cursor
+    // and are applied on the next ping.
+    if (
+      error instanceof AirtableConnectionError ||
+      error instanceof AirtableSyncBusyError
+    ) {
+      return NextResponse.json({ ok: true, skipped: error.message });
+    }
     console.error("Failed to process Airtable webhook", error);
     return NextResponse.json(
       { ok: false, error: "Failed to sync Airtable base" },
       { status: 500 }
     );
   }
-
-  return NextResponse.json({ ok: true });
 }
 
 export async function GET(request: NextRequest) {
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AirtableConnectionError } from "@/utils/airtableConnections";
+import { syncAirtableWebhookPayloads } from "@/utils/airtableSync";
+import { AirtableSyncBusyError } from "@/utils/airtableSyncRuns";
+import {
+  listWebhookStates,
+  refreshAirtableWebhook,
+  registerAirtableWebhook,
+  type AirtableWebhookState,
+} from "@/utils/airtableWebhooks";
+import { requireAdmin } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export const dynamic = "force-dynamic";
+
+function toPublicState(state: AirtableWebhookState) {
+  // The MAC secret only ever leaves the server towards Airtable.
+  const { mac_secret_base64: macSecret, ...rest } = state;
+  return { ...rest, hasMacSecret: Boolean(macSecret) };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+    const webhooks = await listWebhookStates();
+    return NextResponse.json({ webhooks: webhooks.map(toPublicState) });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list Airtable webhooks", error);
+    return NextResponse.json(
+      { error: "Failed to list Airtable webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * `{ action: "register", baseId, notificationUrl, projectTag? }` creates (or
+ * replaces) the base's webhook, `{ action: "refresh", baseId }` extends its
+ * expiry and `{ action: "sync", baseId }` applies any queued payloads now.
+ */
+export async function POST(request: NextRequest) {
+  let payload: {
+    action?: string;
+    baseId?: string;
+    notificationUrl?: string;
+    projectTag?: string;
+  };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const action = payload?.action ?? "register";
+  const baseId = payload?.baseId?.trim();
+  if (!baseId) {
+    return NextResponse.json({ error: "baseId is required" }, { status: 400 });
+  }
+
+  try {
+    await requireAdmin(request);
+    switch (action) {
+      case "register": {
+        const notificationUrl = payload.notificationUrl?.trim();
+        if (!notificationUrl) {
+          return NextResponse.json(
+            { error: "notificationUrl is required" },
+            { status: 400 }
+          );
+        }
+        const state = await registerAirtableWebhook({
+          baseId,
+          notificationUrl,
+          projectTag: payload.projectTag?.trim() || undefined,
+        });
+        return NextResponse.json({ webhook: toPublicState(state) });
+      }
+      case "refresh": {
+        const state = await refreshAirtableWebhook(baseId);
+        return NextResponse.json({ webhook: toPublicState(state) });
+      }
+      case "sync": {
+        const result = await syncAirtableWebhookPayloads({ baseId });
+        return NextResponse.json({ ok: true, ...result });
+      }
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AirtableConnectionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof AirtableSyncBusyError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (
+      error instanceof Error &&
+      error.message.startsWith("No Airtable webhook registered")
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error(`Airtable webhook ${action} failed`, error);
+    const message =
+      error instanceof Error ? error.message : `Failed to ${action} webhook`;
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  authorizeScope,
+  listAccessGrants,
+  setAccessGrant,
+  UserValidationError,
+  type AccessScope,
+} from "@/utils/auth";
+import { AccessDeniedError, isRole } from "@/utils/permissions";
+
+function readScope(source: { table?: unknown; projectTag?: unknown }): AccessScope | null {
+  if (typeof source.table === "string" && source.table) {
+    return { type: "table", name: source.table };
+  }
+  if (typeof source.projectTag === "string" && source.projectTag) {
+    return { type: "project", name: source.projectTag };
+  }
+  return null;
+}
+
+/** Who has access to `?table=` or `?projectTag=`; owners and administrators only. */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const scope = readScope({
+      table: searchParams.get("table"),
+      projectTag: searchParams.get("projectTag"),
+    });
+    if (!scope) {
+      return NextResponse.json(
+        { error: "table or projectTag is required" },
+        { status: 400 }
+      );
+    }
+    await authorizeScope(request, scope);
+    const grants = await listAccessGrants({ scope });
+    return NextResponse.json({ grants });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list access grants", error);
+    return NextResponse.json(
+      { error: "Failed to list access grants" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Grants a role: `{ userId, table | projectTag, role }`. A null `role`
+ * removes the user's grant on that scope.
+ */
+export async function PUT(request: NextRequest) {
+  let payload: { userId?: unknown; table?: unknown; projectTag?: unknown; role?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const scope = readScope(payload ?? {});
+    if (!scope || typeof payload?.userId !== "string") {
+      return NextResponse.json(
+        { error: "userId and table or projectTag are required" },
+        { status: 400 }
+      );
+    }
+    if (payload.role !== null && !isRole(payload.role)) {
+      return NextResponse.json(
+        { error: "role must be viewer, editor, schemaEditor, owner or null" },
+        { status: 400 }
+      );
+    }
+    await authorizeScope(request, scope);
+    const grant = await setAccessGrant(payload.userId, scope, payload.role);
+    return NextResponse.json({ grant });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UserValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update access grant", error);
+    return NextResponse.json(
+      { error: "Failed to update access grant" },
+      { status: 500 }
+    );
+  }
+}
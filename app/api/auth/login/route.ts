@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, createSession, setSessionCookie } from "@/utils/auth";
+
+/** Signs in with `{ email, password }` and sets the session cookie. */
+export async function POST(request: NextRequest) {
+  let payload: { email?: unknown; password?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const email = typeof payload?.email === "string" ? payload.email : "";
+    const password = typeof payload?.password === "string" ? payload.password : "";
+    const user = email && password ? await authenticate(email, password) : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Incorrect email or password" },
+        { status: 401 }
+      );
+    }
+    const response = NextResponse.json({ user });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error) {
+    console.error("Failed to sign in", error);
+    return NextResponse.json(
+      { error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
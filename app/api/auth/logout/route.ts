@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteSession, SESSION_COOKIE, setSessionCookie } from "@/utils/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+    const response = NextResponse.json({ ok: true });
+    setSessionCookie(response, null);
+    return response;
+  } catch (error) {
+    console.error("Failed to sign out", error);
+    return NextResponse.json(
+      { error: "Failed to sign out" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAccessGrants, requireIdentity } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+/** The signed-in user and the roles they hold. */
+export async function GET(request: NextRequest) {
+  try {
+    const { user, via } = await requireIdentity(request);
+    const grants = via === "disabled" ? [] : await listAccessGrants({ userId: user.id });
+    return NextResponse.json({ user, via, grants });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load the current user", error);
+    return NextResponse.json(
+      { error: "Failed to load the current user" },
+      { status: 500 }
+    );
+  }
+}
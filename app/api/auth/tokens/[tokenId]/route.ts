@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireIdentity, revokeApiToken } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { tokenId } = await context.params;
+    const { user } = await requireIdentity(request);
+    if (!(await revokeApiToken(user.id, tokenId))) {
+      return NextResponse.json(
+        { error: `API token ${tokenId} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to revoke API token", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API token" },
+      { status: 500 }
+    );
+  }
+}
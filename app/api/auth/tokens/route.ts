@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createApiToken, listApiTokens, requireIdentity } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { user, via } = await requireIdentity(request);
+    const tokens = via === "disabled" ? [] : await listApiTokens(user.id);
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list API tokens", error);
+    return NextResponse.json(
+      { error: "Failed to list API tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates an API token for the caller: `{ name, expiresAt? }`. The token is
+ * only returned in this response; send it as `Authorization: Bearer <token>`.
+ */
+export async function POST(request: NextRequest) {
+  let payload: { name?: unknown; expiresAt?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const { user, via } = await requireIdentity(request);
+    if (via === "disabled") {
+      return NextResponse.json(
+        { error: "API tokens are not needed while authentication is disabled" },
+        { status: 400 }
+      );
+    }
+    const expiresAt =
+      typeof payload?.expiresAt === "string" ? new Date(payload.expiresAt) : null;
+    if (expiresAt && Number.isNaN(expiresAt.getTime())) {
+      return NextResponse.json(
+        { error: "expiresAt must be an ISO date" },
+        { status: 400 }
+      );
+    }
+    const result = await createApiToken(user.id, {
+      name: typeof payload?.name === "string" ? payload.name : "",
+      expiresAt,
+    });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to create API token", error);
+    return NextResponse.json(
+      { error: "Failed to create API token" },
+      { status: 500 }
+    );
+  }
+}
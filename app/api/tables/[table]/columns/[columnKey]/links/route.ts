@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError, type Role } from "@/utils/permissions";
+import {
+  createLinkedRecord,
+  getColumn,
+  searchLinkTargets,
+} from "@/utils/tableService";
+
+// The picker reads (and may create rows in) the link's target table, so the
+// caller needs access there as well as on the table holding the field.
+async function authorizeLinkTarget(
+  request: NextRequest,
+  table: string,
+  columnKey: string,
+  required: Role
+) {
+  await authorizeTable(request, table, required);
+  const column = await getColumn(table, columnKey);
+  const targetTable = column?.config?.linkToRecord?.targetTable;
+  if (!targetTable) return undefined;
+  return (await authorizeTable(request, targetTable, required)).access;
+}
+
+function isNotLinkError(error: unknown): error is Error {
+  return error instanceof Error && error.message.endsWith("is not a record link");
+}
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; columnKey: string }> }
+) {
+  try {
+    const { table, columnKey } = await context.params;
+    const targetAccess = await authorizeLinkTarget(request, table, columnKey, "viewer");
+    const { searchParams } = new URL(request.url);
+    const limitParam = searchParams.get("limit");
+    const records = await searchLinkTargets(table, columnKey, {
+      search: searchParams.get("q") ?? "",
+      limit: limitParam ? Number.parseInt(limitParam, 10) : undefined,
+      targetAccess,
+    });
+    return NextResponse.json({ records });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (isNotLinkError(error)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to search linked records", error);
+    return NextResponse.json(
+      { error: "Failed to search linked records" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; columnKey: string }> }
+) {
+  try {
+    const { table, columnKey } = await context.params;
+    const targetAccess = await authorizeLinkTarget(request, table, columnKey, "editor");
+    const payload = await request.json();
+    const title = typeof payload?.title === "string" ? payload.title.trim() : "";
+    const record = await createLinkedRecord(table, columnKey, title, targetAccess);
+    return NextResponse.json({ record });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (isNotLinkError(error)) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create linked record", error);
+    return NextResponse.json(
+      { error: "Failed to create linked record" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { ColumnConversionError } from "@/utils/columnStorage";
+import { FormulaValidationError } from "@/utils/formulaEngine";
+import { AccessDeniedError } from "@/utils/permissions";
 import { deleteColumn, updateColumn } from "@/utils/tableService";
 
 export async function PATCH(
@@ -7,16 +11,39 @@ export async function PATCH(
 ) {
   try {
     const { table, columnKey } = await context.params;
+    const { access } = await authorizeTable(request, table, "schemaEditor");
     const payload = await request.json();
-    const column = await updateColumn(table, columnKey, {
-      name: payload?.name,
-      type: payload?.type,
-      config: payload?.config,
-      width: payload?.width,
-    });
+    const { column, conversion } = await updateColumn(
+      table,
+      columnKey,
+      {
+        name: payload?.name,
+        type: payload?.type,
+        config: payload?.config,
+        width: payload?.width,
+        permissions: payload?.permissions,
+        allowDataLoss: payload?.allowDataLoss === true,
+      },
+      access
+    );
 
-    return NextResponse.json({ column });
+    return NextResponse.json({ column, conversion });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ColumnConversionError) {
+      return NextResponse.json(
+        { error: error.message, conversion: error.report },
+        { status: 422 }
+      );
+    }
+    if (error instanceof FormulaValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
     console.error(
       "Failed to update column",
       error
@@ -29,14 +56,18 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ table: string; columnKey: string }> }
 ) {
   try {
     const { table, columnKey } = await context.params;
-    await deleteColumn(table, columnKey);
+    const { access } = await authorizeTable(request, table, "schemaEditor");
+    await deleteColumn(table, columnKey, access);
     return NextResponse.json({ ok: true });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error(
       "Failed to delete column",
       error
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
 import { reorderColumns } from "@/utils/tableService";
 
 export async function PATCH(
@@ -7,11 +9,15 @@ export async function PATCH(
 ) {
   try {
     const { table } = await context.params;
+    await authorizeTable(request, table, "schemaEditor");
     const payload = await request.json();
     const order: string[] = Array.isArray(payload?.order) ? payload.order : [];
     await reorderColumns(table, order);
     return NextResponse.json({ ok: true });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Failed to reorder columns", error);
     return NextResponse.json(
       { error: "Failed to reorder columns" },
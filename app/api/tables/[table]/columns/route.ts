@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { FormulaValidationError } from "@/utils/formulaEngine";
+import { AccessDeniedError } from "@/utils/permissions";
 import { createColumn } from "@/utils/tableService";
 
 export async function POST(
@@ -7,18 +10,32 @@ export async function POST(
 ) {
   try {
     const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "schemaEditor");
     const payload = await request.json();
-    const column = await createColumn(table, {
-      name: payload?.name,
-      type: payload?.type,
-      config: payload?.config ?? {},
-      width: payload?.width,
-      position: payload?.position,
-      clientKey: payload?.clientKey,
-    });
+    const column = await createColumn(
+      table,
+      {
+        name: payload?.name,
+        type: payload?.type,
+        config: payload?.config ?? {},
+        width: payload?.width,
+        position: payload?.position,
+        clientKey: payload?.clientKey,
+      },
+      access
+    );
 
     return NextResponse.json({ column });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof FormulaValidationError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors },
+        { status: 422 }
+      );
+    }
     console.error("Failed to create column", error);
     return NextResponse.json(
       { error: "Failed to create column" },
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeProject, authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { duplicateTable, getTableMetadata, TableValidationError } from "@/utils/tableService";
+
+/**
+ * Copies the table: `{ displayName?, projectTag?, includeRecords? }`. Needs
+ * schemaEditor on the table and on the project the copy goes to (the table's
+ * own unless `projectTag` says otherwise).
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "schemaEditor");
+    const payload = await request.json().catch(() => null);
+    const projectTag =
+      payload?.projectTag !== undefined
+        ? String(payload.projectTag).trim()
+        : (await getTableMetadata(table))?.project_tag;
+    if (projectTag) {
+      await authorizeProject(request, projectTag, "schemaEditor");
+    }
+    const copy = await duplicateTable(
+      table,
+      {
+        displayName: payload?.displayName,
+        projectTag: payload?.projectTag,
+        includeRecords: payload?.includeRecords === true,
+      },
+      access
+    );
+    return NextResponse.json({ table: copy }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to duplicate table", error);
+    return NextResponse.json(
+      { error: "Failed to duplicate table" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { subscribeToTable } from "@/utils/realtime";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError, canReadField } from "@/utils/permissions";
+import { subscribeToTable, type TableChangeEvent } from "@/utils/realtime";
+import { listColumns } from "@/utils/tableService";
 
 const encoder = new TextEncoder();
 
@@ -9,6 +12,34 @@ export async function GET(
 ) {
   try {
     const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    // Fields the caller may not read are dropped from row payloads; the list is
+    // reloaded whenever the table's columns change.
+    const loadHiddenKeys = async () =>
+      (await listColumns(table))
+        .filter((column) => !canReadField(column, access))
+        .map((column) => String(column.key));
+    let hiddenKeys = loadHiddenKeys();
+    const redact = async (event: TableChangeEvent): Promise<TableChangeEvent> => {
+      if (event.type.startsWith("column")) {
+        hiddenKeys = loadHiddenKeys();
+      }
+      if (
+        (event.type === "rowCreated" ||
+          event.type === "rowUpdated" ||
+          event.type === "rowDeleted") &&
+        event.payload.values
+      ) {
+        const hidden = await hiddenKeys;
+        const values = Object.fromEntries(
+          Object.entries(event.payload.values).filter(([key]) => !hidden.includes(key))
+        );
+        return { ...event, payload: { ...event.payload, values } };
+      }
+      return event;
+    };
+    await hiddenKeys;
+
     const stream = new ReadableStream<Uint8Array>({
       start(controller) {
         const send = (data: unknown) => {
@@ -20,7 +51,9 @@ export async function GET(
         send({ type: "connected", table, timestamp: new Date().toISOString() });
 
         const unsubscribe = subscribeToTable(table, (event) => {
-          send(event);
+          redact(event).then(send, (error) => {
+            console.error("Failed to filter table event", error);
+          });
         });
 
         const heartbeat = setInterval(() => {
@@ -48,6 +81,9 @@ export async function GET(
       },
     });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Failed to open event stream", error);
     return NextResponse.json(
       { error: "Failed to open event stream" },
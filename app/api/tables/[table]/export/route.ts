@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { ExportError, exportTable, type ExportFormat } from "@/utils/tableExport";
+import { parseTableQuery } from "@/utils/tableQuery";
+import { TableValidationError } from "@/utils/tableService";
+
+/**
+ * Downloads the table as `format` (csv, xlsx or json, default csv). Takes the
+ * same `filters`, `sort` and `search` parameters as the table endpoint, and
+ * `fields`, a comma-separated list of field keys, to export only the view's
+ * visible fields in their order. The file is streamed as it is read.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+    const fields = searchParams
+      .get("fields")
+      ?.split(",")
+      .map((key) => key.trim())
+      .filter(Boolean);
+
+    let tableQuery;
+    try {
+      tableQuery = parseTableQuery(searchParams);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Invalid table query";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    const file = await exportTable(table, { format, query: tableQuery, fields, access });
+    return new Response(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName.replace(/[^\x20-\x7e]|["\\]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ExportError || error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to export table", error);
+    return NextResponse.json(
+      { error: "Failed to export table" },
+      { status: 500 }
+    );
+  }
+}
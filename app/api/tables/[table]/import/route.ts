@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { SpreadsheetError } from "@/utils/spreadsheet";
+import {
+  ImportError,
+  importRows,
+  MAX_IMPORT_BYTES,
+  previewImport,
+  type ImportOptions,
+} from "@/utils/tableImport";
+
+// Room for the multipart framing and the options field around the file.
+const MAX_REQUEST_BYTES = MAX_IMPORT_BYTES + 1024 * 1024;
+
+function tooLarge() {
+  return NextResponse.json(
+    { error: `Imports are limited to ${Math.floor(MAX_IMPORT_BYTES / 1024 / 1024)} MB` },
+    { status: 413 }
+  );
+}
+
+/**
+ * Imports a CSV or XLSX file, sent as multipart form data in `file`. Without
+ * `options` the file is only read, and the response previews its columns with
+ * a suggested type for each. With `options` (JSON: `{ columns, mode, keyField }`)
+ * the rows are imported; creating fields needs schemaEditor.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    // Refuse oversized uploads before buffering them.
+    if (Number(request.headers.get("content-length") ?? 0) > MAX_REQUEST_BYTES) {
+      return tooLarge();
+    }
+    const form = await request.formData();
+    const file = form.get("file");
+    const rawOptions = form.get("options");
+    let options: ImportOptions | null = null;
+    if (typeof rawOptions === "string" && rawOptions.trim()) {
+      try {
+        options = JSON.parse(rawOptions);
+      } catch {
+        return NextResponse.json({ error: "options must be JSON" }, { status: 400 });
+      }
+    }
+    const createsFields = Boolean(
+      options?.columns?.some((mapping) => mapping?.create)
+    );
+    const { access } = await authorizeTable(
+      request,
+      table,
+      createsFields ? "schemaEditor" : "editor"
+    );
+    if (!file || typeof file === "string") {
+      return NextResponse.json({ error: "file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return tooLarge();
+    }
+    const upload = { filename: file.name, body: Buffer.from(await file.arrayBuffer()) };
+
+    if (!options) {
+      return NextResponse.json({ preview: await previewImport(table, upload) });
+    }
+    const result = await importRows(table, upload, options, access);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof SpreadsheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to import rows", error);
+    return NextResponse.json(
+      { error: "Failed to import rows" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getTableData } from "@/utils/tableService";
+import { authorizeProject, authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { parseTableQuery } from "@/utils/tableQuery";
+import {
+  deleteTable,
+  getTableData,
+  TableValidationError,
+  updateTable,
+  type TableCountMode,
+} from "@/utils/tableService";
+
+const COUNT_MODES = new Set<TableCountMode>(["exact", "estimate", "none"]);
 
 export async function GET(
   request: NextRequest,
@@ -7,15 +18,45 @@ export async function GET(
 ) {
   try {
     const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
     const { searchParams } = new URL(request.url);
     const limitParam = searchParams.get("limit");
     const offsetParam = searchParams.get("offset");
     const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
     const offset = offsetParam ? Number.parseInt(offsetParam, 10) : undefined;
+    const cursor = searchParams.get("cursor");
+    const countParam = searchParams.get("count") as TableCountMode | null;
+    const count =
+      countParam && COUNT_MODES.has(countParam) ? countParam : undefined;
+
+    let tableQuery;
+    try {
+      tableQuery = parseTableQuery(searchParams);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Invalid table query";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
 
-    const data = await getTableData(table, { limit, offset });
-    return NextResponse.json(data);
+    const data = await getTableData(table, {
+      limit,
+      offset,
+      cursor,
+      count,
+      query: tableQuery,
+      access,
+    });
+    return NextResponse.json({ ...data, role: access.role });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof Error && error.message.startsWith("Invalid cursor")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Failed to load table", error);
     return NextResponse.json(
       { error: "Failed to load table" },
@@ -23,3 +64,64 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Renames the table (`displayName`, schemaEditor) and/or moves it to another
+ * project (`projectTag`, owner here and schemaEditor there).
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const payload = await request.json().catch(() => null);
+    const moving = payload?.projectTag !== undefined;
+    await authorizeTable(request, table, moving ? "owner" : "schemaEditor");
+    if (moving) {
+      await authorizeProject(request, String(payload.projectTag).trim(), "schemaEditor");
+    }
+    const updated = await updateTable(table, {
+      displayName: payload?.displayName,
+      projectTag: payload?.projectTag,
+    });
+    return NextResponse.json({ table: updated });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to update table", error);
+    return NextResponse.json(
+      { error: "Failed to update table" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Moves the table to the trash, from where an owner can restore it. */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "owner");
+    const trashItemId = await deleteTable(table, access);
+    return NextResponse.json({ ok: true, trashItemId });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to delete table", error);
+    return NextResponse.json(
+      { error: "Failed to delete table" },
+      { status: 500 }
+    );
+  }
+}
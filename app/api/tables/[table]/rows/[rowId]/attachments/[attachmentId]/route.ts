@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AttachmentError,
+  deleteAttachment,
+  readAttachment,
+  type AttachmentThumbnailSize,
+} from "@/utils/attachmentService";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+const THUMBNAIL_SIZES: AttachmentThumbnailSize[] = ["small", "large"];
+
+function contentDisposition(type: "inline" | "attachment", filename: string) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Serves an attachment. `?thumb=small|large` serves a thumbnail of an image
+ * and `?download=1` asks the browser to save the file instead of showing it.
+ */
+export async function GET(
+  request: NextRequest,
+  context: {
+    params: Promise<{ table: string; rowId: string; attachmentId: string }>;
+  }
+) {
+  try {
+    const { table, attachmentId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const thumb = request.nextUrl.searchParams.get("thumb");
+    if (thumb && !THUMBNAIL_SIZES.includes(thumb as AttachmentThumbnailSize)) {
+      return NextResponse.json(
+        { error: `thumb must be one of ${THUMBNAIL_SIZES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const file = await readAttachment(
+      table,
+      attachmentId,
+      (thumb as AttachmentThumbnailSize | null) ?? undefined,
+      access
+    );
+    const download = request.nextUrl.searchParams.get("download");
+    return new NextResponse(new Uint8Array(file.body), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.body.length),
+        "Content-Disposition": contentDisposition(
+          download === "1" || download === "true" ? "attachment" : "inline",
+          file.filename
+        ),
+        // Stored files never change; a replaced file gets a new id.
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to read attachment", error);
+    return NextResponse.json(
+      { error: "Failed to read attachment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: {
+    params: Promise<{ table: string; rowId: string; attachmentId: string }>;
+  }
+) {
+  try {
+    const { table, rowId, attachmentId } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
+    const row = await deleteAttachment(table, rowId, attachmentId, access);
+    return NextResponse.json({ row });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to delete attachment", error);
+    return NextResponse.json(
+      { error: "Failed to delete attachment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AttachmentError, listRowAttachments, uploadAttachments } from "@/utils/attachmentService";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; rowId: string }> }
+) {
+  try {
+    const { table, rowId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const attachments = await listRowAttachments(table, rowId, access);
+    return NextResponse.json({ attachments });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list attachments", error);
+    return NextResponse.json(
+      { error: "Failed to list attachments" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Uploads files to an attachment cell. Expects multipart form data with the
+ * column key in `column` and one or more files in `file`.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; rowId: string }> }
+) {
+  try {
+    const { table, rowId } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
+    const form = await request.formData();
+    const column = form.get("column");
+    if (typeof column !== "string" || !column) {
+      return NextResponse.json(
+        { error: "column is required" },
+        { status: 400 }
+      );
+    }
+    const files = await Promise.all(
+      form
+        .getAll("file")
+        .filter((entry): entry is File => typeof entry !== "string")
+        .map(async (file) => ({
+          filename: file.name,
+          contentType: file.type,
+          body: Buffer.from(await file.arrayBuffer()),
+        }))
+    );
+    const result = await uploadAttachments(table, rowId, column, files, access);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof AttachmentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to upload attachments", error);
+    return NextResponse.json(
+      { error: "Failed to upload attachments" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { getRowHistory } from "@/utils/tableService";
+
+/** The row's change log, newest first; `?limit=` caps it (default 100). */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; rowId: string }> }
+) {
+  try {
+    const { table, rowId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const limitParam = request.nextUrl.searchParams.get("limit");
+    const entries = await getRowHistory(table, rowId, {
+      access,
+      limit: limitParam ? Number.parseInt(limitParam, 10) || undefined : undefined,
+    });
+    return NextResponse.json({ entries });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load row history", error);
+    return NextResponse.json(
+      { error: "Failed to load row history" },
+      { status: 500 }
+    );
+  }
+}
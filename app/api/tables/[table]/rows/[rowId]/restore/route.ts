@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { parseRestorePoint, RestoreValidationError } from "@/utils/changeLog";
+import { AccessDeniedError } from "@/utils/permissions";
+import { LinkedRecordError } from "@/utils/recordLinks";
+import { restoreRows } from "@/utils/tableService";
+
+/** Restores the row to how it was at `{ at }`. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; rowId: string }> }
+) {
+  try {
+    const { table, rowId } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
+    const payload = await request.json().catch(() => null);
+    const at = parseRestorePoint(payload?.at);
+    const changes = await restoreRows(table, at, { rowId, access });
+    return NextResponse.json({ changes });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof RestoreValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof LinkedRecordError) {
+      return NextResponse.json(
+        { error: error.message, missingIds: error.missingIds },
+        { status: 422 }
+      );
+    }
+    console.error("Failed to restore row", error);
+    return NextResponse.json(
+      { error: "Failed to restore row" },
+      { status: 500 }
+    );
+  }
+}
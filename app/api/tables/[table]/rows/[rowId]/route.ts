@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { LinkedRecordError } from "@/utils/recordLinks";
 import { deleteRow, updateRow } from "@/utils/tableService";
 
 export async function PATCH(
@@ -7,10 +10,20 @@ export async function PATCH(
 ) {
   try {
     const { table, rowId } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
     const payload = await request.json();
-    const row = await updateRow(table, rowId, payload?.values ?? {});
+    const row = await updateRow(table, rowId, payload?.values ?? {}, access);
     return NextResponse.json({ row });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof LinkedRecordError) {
+      return NextResponse.json(
+        { error: error.message, missingIds: error.missingIds },
+        { status: 422 }
+      );
+    }
     console.error(
       "Failed to update row",
       error
@@ -23,14 +36,18 @@ export async function PATCH(
 }
 
 export async function DELETE(
-  _request: NextRequest,
+  request: NextRequest,
   context: { params: Promise<{ table: string; rowId: string }> }
 ) {
   try {
     const { table, rowId } = await context.params;
-    await deleteRow(table, rowId);
+    const { access } = await authorizeTable(request, table, "editor");
+    await deleteRow(table, rowId, access);
     return NextResponse.json({ ok: true });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error(
       "Failed to delete row",
       error
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import {
+  applyRowBatch,
+  TableValidationError,
+  type RowBatchOperation,
+} from "@/utils/tableService";
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
+    let payload;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+    const operations: RowBatchOperation[] = Array.isArray(payload?.operations)
+      ? payload.operations
+      : [];
+
+    if (!operations.length) {
+      return NextResponse.json(
+        { error: "operations must be a non-empty array" },
+        { status: 400 }
+      );
+    }
+
+    const result = await applyRowBatch(table, operations, {
+      atomic: payload?.atomic !== false,
+      access,
+    });
+
+    if (!result.ok) {
+      const failure = result.results.find((entry) => entry.status === "failed");
+      // A refused write answers 403, as it does for a single row; other
+      // failures conflict with the table's current state.
+      return NextResponse.json(
+        {
+          ...result,
+          error: failure?.error
+            ? `Operation ${failure.index + 1} failed: ${failure.error}`
+            : "Batch failed",
+        },
+        { status: failure?.denied ? 403 : 409 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to apply row batch", error);
+    return NextResponse.json(
+      { error: "Failed to apply row batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { LinkedRecordError } from "@/utils/recordLinks";
 import { createRow } from "@/utils/tableService";
 
 export async function POST(
@@ -7,10 +10,20 @@ export async function POST(
 ) {
   try {
     const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "editor");
     const payload = await request.json();
-    const row = await createRow(table, payload?.values ?? {});
+    const row = await createRow(table, payload?.values ?? {}, access);
     return NextResponse.json({ row });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof LinkedRecordError) {
+      return NextResponse.json(
+        { error: error.message, missingIds: error.missingIds },
+        { status: 422 }
+      );
+    }
     console.error("Failed to create row", error);
     return NextResponse.json(
       { error: "Failed to create row" },
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { deleteView, getView, updateView, ViewError } from "@/utils/tableViews";
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; viewId: string }> }
+) {
+  try {
+    const { table, viewId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const view = await getView(table, viewId, access);
+    return NextResponse.json({ view });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ViewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load view", error);
+    return NextResponse.json(
+      { error: "Failed to load view" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Updates any of `name`, `type`, `visibility` and `config`; a partial config
+ * is merged into the saved one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; viewId: string }> }
+) {
+  try {
+    const { table, viewId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const payload = await request.json().catch(() => null);
+    const view = await updateView(table, viewId, payload ?? {}, access);
+    return NextResponse.json({ view });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ViewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to update view", error);
+    return NextResponse.json(
+      { error: "Failed to update view" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ table: string; viewId: string }> }
+) {
+  try {
+    const { table, viewId } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    await deleteView(table, viewId, access);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ViewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to delete view", error);
+    return NextResponse.json(
+      { error: "Failed to delete view" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeTable } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { createView, listViews, ViewError } from "@/utils/tableViews";
+
+/** The table's collaborative views and the caller's personal views. */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const views = await listViews(table, access);
+    return NextResponse.json({ views });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ViewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list views", error);
+    return NextResponse.json(
+      { error: "Failed to list views" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Saves a view: `{ name, type, visibility, config }`. Anyone who can read the
+ * table may save personal views; collaborative views need editor access.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ table: string }> }
+) {
+  try {
+    const { table } = await context.params;
+    const { access } = await authorizeTable(request, table, "viewer");
+    const payload = await request.json().catch(() => null);
+    const view = await createView(table, payload ?? {}, access);
+    return NextResponse.json({ view }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof ViewError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to create view", error);
+    return NextResponse.json(
+      { error: "Failed to create view" },
+      { status: 500 }
+    );
+  }
+}
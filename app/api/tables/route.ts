@@ -1,14 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { listTables } from "@/utils/tableService";
+import projectTags from "@/config/projectTags.json";
+import { authorizeProject, requireIdentity, resolveTableRoles } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { createTable, listTables, TableValidationError } from "@/utils/tableService";
 
 export async function GET(request: NextRequest) {
   try {
+    const { user } = await requireIdentity(request);
     const projectTag = request.nextUrl.searchParams.get("projectTag") ?? undefined;
     const tables = await listTables(
       projectTag ? { projectTag } : undefined
     );
-    return NextResponse.json({ tables });
+    const roles = await resolveTableRoles(user, tables);
+    return NextResponse.json({
+      tables: tables
+        .filter((table) => roles.has(table.table_name))
+        .map((table) => ({ ...table, role: roles.get(table.table_name) })),
+    });
   } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error("Failed to list tables", error);
     return NextResponse.json(
       { error: "Failed to list tables" },
@@ -16,3 +28,37 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Creates an empty table: `{ displayName, projectTag?, primaryField?: { name?, type? } }`.
+ * Needs schemaEditor on the project.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const payload = await request.json().catch(() => null);
+    const projectTag =
+      typeof payload?.projectTag === "string" ? payload.projectTag.trim() : projectTags.defaultApp;
+    await authorizeProject(request, projectTag, "schemaEditor");
+    const table = await createTable({
+      displayName: payload?.displayName,
+      projectTag,
+      primaryField:
+        payload?.primaryField && typeof payload.primaryField === "object"
+          ? payload.primaryField
+          : undefined,
+    });
+    return NextResponse.json({ table }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TableValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to create table", error);
+    return NextResponse.json(
+      { error: "Failed to create table" },
+      { status: 500 }
+    );
+  }
+}
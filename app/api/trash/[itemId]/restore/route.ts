@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireIdentity, resolveTableRoles } from "@/utils/auth";
+import { AccessDeniedError, roleAtLeast } from "@/utils/permissions";
+import { LinkedRecordError } from "@/utils/recordLinks";
+import { restoreFromTrash } from "@/utils/tableService";
+import { getTrashItem, TRASH_ROLES, TrashRestoreError } from "@/utils/trash";
+
+/** Puts a trashed row, field or table back where it was. */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ itemId: string }> }
+) {
+  try {
+    const { itemId } = await context.params;
+    const { user } = await requireIdentity(request);
+    const item = await getTrashItem(itemId);
+    if (!item) {
+      return NextResponse.json({ error: "Trash item not found" }, { status: 404 });
+    }
+    // A trashed table has no metadata any more, so its role comes from the
+    // project tag kept on the item.
+    const role = (await resolveTableRoles(user, [item])).get(item.table_name);
+    const required = TRASH_ROLES[item.kind];
+    if (!roleAtLeast(role, required)) {
+      throw new AccessDeniedError(
+        role
+          ? `${required} access to ${item.table_name} is required`
+          : `You do not have access to ${item.table_name}`
+      );
+    }
+    const { id, name, email } = user;
+    const restored = await restoreFromTrash(itemId, {
+      role: role ?? required,
+      user: { id, name, email },
+    });
+    return NextResponse.json({ restored });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof TrashRestoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof LinkedRecordError) {
+      return NextResponse.json(
+        { error: error.message, missingIds: error.missingIds },
+        { status: 422 }
+      );
+    }
+    console.error("Failed to restore from trash", error);
+    return NextResponse.json(
+      { error: "Failed to restore from trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireIdentity, resolveTableRoles } from "@/utils/auth";
+import { AccessDeniedError, roleAtLeast } from "@/utils/permissions";
+import { listTrashItems, TRASH_ROLES, type TrashKind } from "@/utils/trash";
+
+const KINDS: TrashKind[] = ["row", "column", "table"];
+
+/**
+ * Deleted rows, fields and tables the caller may restore, newest first.
+ * Filter with `?table=` and `?kind=row|column|table`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireIdentity(request);
+    const { searchParams } = request.nextUrl;
+    const kindParam = searchParams.get("kind");
+    if (kindParam && !KINDS.includes(kindParam as TrashKind)) {
+      return NextResponse.json(
+        { error: `kind must be one of ${KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    const items = await listTrashItems({
+      tableName: searchParams.get("table") ?? undefined,
+      kind: (kindParam as TrashKind | null) ?? undefined,
+    });
+    const roles = await resolveTableRoles(user, items);
+    const visible = items.filter((item) =>
+      roleAtLeast(roles.get(item.table_name), TRASH_ROLES[item.kind])
+    );
+    return NextResponse.json({ items: visible });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list trash", error);
+    return NextResponse.json(
+      { error: "Failed to list trash" },
+      { status: 500 }
+    );
+  }
+}
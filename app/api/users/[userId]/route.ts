@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  checkUserPassword,
+  requireIdentity,
+  SESSION_COOKIE,
+  setUserPassword,
+  UserValidationError,
+} from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { updateUser } from "@/utils/users";
+
+/**
+ * Updates a user: `{ name?, avatarUrl?, password?, currentPassword?, isAdmin?,
+ * disabled? }`. People can change their own name, avatar and password (giving
+ * `currentPassword` too); everything else, and other users, need an
+ * administrator. A password change signs the user out of their other sessions.
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ userId: string }> }
+) {
+  let payload: {
+    name?: unknown;
+    avatarUrl?: unknown;
+    password?: unknown;
+    currentPassword?: unknown;
+    isAdmin?: unknown;
+    disabled?: unknown;
+  };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    const { userId } = await context.params;
+    const { user } = await requireIdentity(request);
+    const changesAccess = payload?.isAdmin !== undefined || payload?.disabled !== undefined;
+    if (!user.is_admin && (user.id !== userId || changesAccess)) {
+      throw new AccessDeniedError("Only administrators can change other users");
+    }
+    if (typeof payload?.password === "string") {
+      // A stolen session or token alone must not be enough to take over the account.
+      if (!user.is_admin) {
+        if (typeof payload.currentPassword !== "string" || !payload.currentPassword) {
+          throw new UserValidationError("currentPassword is required to change your password");
+        }
+        if (!(await checkUserPassword(userId, payload.currentPassword))) {
+          throw new AccessDeniedError("The current password is incorrect");
+        }
+      }
+      await setUserPassword(
+        userId,
+        payload.password,
+        request.cookies.get(SESSION_COOKIE)?.value
+      );
+    }
+    const updated = await updateUser(userId, {
+      name: typeof payload?.name === "string" ? payload.name : undefined,
+      avatarUrl:
+        typeof payload?.avatarUrl === "string" || payload?.avatarUrl === null
+          ? payload.avatarUrl
+          : undefined,
+      isAdmin: typeof payload?.isAdmin === "boolean" ? payload.isAdmin : undefined,
+      disabled: typeof payload?.disabled === "boolean" ? payload.disabled : undefined,
+    });
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UserValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to update user", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireIdentity } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { listNotifications, markNotificationsRead } from "@/utils/users";
+
+/** The caller's notifications, newest first; `?unread=1` leaves out read ones. */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireIdentity(request);
+    const { searchParams } = request.nextUrl;
+    const limitParam = searchParams.get("limit");
+    const notifications = await listNotifications(user.id, {
+      unreadOnly: ["1", "true"].includes(searchParams.get("unread") ?? ""),
+      limit: limitParam ? Number.parseInt(limitParam, 10) || undefined : undefined,
+    });
+    return NextResponse.json({ notifications });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list notifications", error);
+    return NextResponse.json(
+      { error: "Failed to list notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Marks notifications read: `{ ids }`, or every unread one without `ids`. */
+export async function POST(request: NextRequest) {
+  try {
+    const { user } = await requireIdentity(request);
+    const payload = await request.json().catch(() => null);
+    const ids = Array.isArray(payload?.ids)
+      ? payload.ids.filter((id: unknown): id is string => typeof id === "string")
+      : undefined;
+    const updated = await markNotificationsRead(user.id, ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to update notifications", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
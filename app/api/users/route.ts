@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createUser, requireAdmin, requireIdentity, UserValidationError } from "@/utils/auth";
+import { AccessDeniedError } from "@/utils/permissions";
+import { listDirectoryUsers } from "@/utils/users";
+
+/**
+ * The user directory for user fields. `?q=` filters by name or email;
+ * administrators can pass `?includeDisabled=1`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { user } = await requireIdentity(request);
+    const { searchParams } = request.nextUrl;
+    const includeDisabled =
+      user.is_admin && ["1", "true"].includes(searchParams.get("includeDisabled") ?? "");
+    const users = await listDirectoryUsers({
+      search: searchParams.get("q") ?? "",
+      includeDisabled,
+    });
+    return NextResponse.json({
+      users: user.is_admin
+        ? users
+        : users.map(({ id, name, email, avatarUrl }) => ({ id, name, email, avatarUrl })),
+    });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to list users", error);
+    return NextResponse.json(
+      { error: "Failed to list users" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Adds a user: `{ email, name?, password?, isAdmin? }`. Administrators only. */
+export async function POST(request: NextRequest) {
+  let payload: { email?: unknown; name?: unknown; password?: unknown; isAdmin?: unknown };
+  try {
+    payload = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  try {
+    await requireAdmin(request);
+    if (typeof payload?.email !== "string") {
+      return NextResponse.json({ error: "email is required" }, { status: 400 });
+    }
+    const user = await createUser({
+      email: payload.email,
+      name: typeof payload.name === "string" ? payload.name : undefined,
+      password: typeof payload.password === "string" ? payload.password : null,
+      isAdmin: payload.isAdmin === true,
+    });
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccessDeniedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UserValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Failed to create user", error);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+}
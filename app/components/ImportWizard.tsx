@@ -0,0 +1,377 @@
+"use client";
+
+import * as React from "react";
+import type { ColumnSpec, ColumnType } from "@/utils/tableUtils";
+import type {
+  ImportColumnMapping,
+  ImportMode,
+  ImportPreview,
+  ImportResult,
+} from "@/utils/tableImport";
+
+export interface ImportWizardProps {
+  table: string;
+  columns: ColumnSpec[];
+  onClose: () => void;
+  onImported: (result: ImportResult) => void;
+}
+
+// Field types a column can be imported as, in the order the picker lists them.
+const IMPORT_FIELD_TYPES: Array<{ type: ColumnType; label: string }> = [
+  { type: "singleLineText", label: "Single line text" },
+  { type: "longText", label: "Long text" },
+  { type: "number", label: "Number" },
+  { type: "currency", label: "Currency" },
+  { type: "percent", label: "Percent" },
+  { type: "date", label: "Date" },
+  { type: "checkbox", label: "Checkbox" },
+  { type: "singleSelect", label: "Single select" },
+  { type: "multipleSelect", label: "Multiple select" },
+  { type: "email", label: "Email" },
+  { type: "url", label: "URL" },
+  { type: "phone", label: "Phone" },
+  { type: "user", label: "User" },
+  { type: "linkToRecord", label: "Link to record" },
+];
+const IMPORTABLE = new Set<string>(IMPORT_FIELD_TYPES.map((option) => option.type));
+const KEY_TYPES = new Set<string>([
+  "singleLineText",
+  "longText",
+  "phone",
+  "email",
+  "url",
+  "singleSelect",
+  "number",
+  "currency",
+  "percent",
+  "duration",
+  "rating",
+]);
+
+// What a file column is written to: an existing field, a new field, or nothing.
+type ColumnChoice =
+  | { kind: "skip" }
+  | { kind: "field"; key: string }
+  | { kind: "create"; name: string; type: ColumnType; config?: Record<string, unknown> };
+
+async function postImport(table: string, file: File, options?: unknown) {
+  const form = new FormData();
+  form.append("file", file);
+  if (options) form.append("options", JSON.stringify(options));
+  const response = await fetch(`/api/tables/${encodeURIComponent(table)}/import`, {
+    method: "POST",
+    body: form,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(typeof data?.error === "string" ? data.error : response.statusText);
+  }
+  return data;
+}
+
+const selectClass =
+  "w-full rounded-md border border-zinc-300 bg-white px-2 py-1 text-sm text-zinc-700 focus:border-blue-500 focus:outline-none dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200";
+const buttonClass =
+  "inline-flex items-center justify-center rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800";
+const primaryButtonClass =
+  "inline-flex items-center justify-center rounded-lg border border-blue-500 bg-blue-600 px-3 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-blue-400 dark:bg-blue-500 dark:hover:bg-blue-400";
+
+/**
+ * Imports a CSV or XLSX file into the table: pick a file, check the suggested
+ * field for each column, choose append or upsert, then review the rows that
+ * could not be imported.
+ */
+export default function ImportWizard({ table, columns, onClose, onImported }: ImportWizardProps) {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [choices, setChoices] = React.useState<ColumnChoice[]>([]);
+  const [mode, setMode] = React.useState<ImportMode>("append");
+  const [keyField, setKeyField] = React.useState("");
+  const [result, setResult] = React.useState<ImportResult | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const targetFields = React.useMemo(
+    () => columns.filter((column) => IMPORTABLE.has(column.type) && !column.readOnly),
+    [columns]
+  );
+
+  const handleFile = React.useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = event.target.files?.[0];
+      if (!selected) return;
+      setFile(selected);
+      setResult(null);
+      setError(null);
+      setBusy(true);
+      try {
+        const data = await postImport(table, selected);
+        const next = data.preview as ImportPreview;
+        setPreview(next);
+        setChoices(
+          next.columns.map((column) => {
+            const match = column.match && targetFields.find((field) => field.key === column.match?.key);
+            if (match) return { kind: "field", key: String(match.key) };
+            return {
+              kind: "create",
+              name: column.source,
+              type: column.inferred.type,
+              config: column.inferred.config as Record<string, unknown> | undefined,
+            };
+          })
+        );
+      } catch (err) {
+        setPreview(null);
+        setError(err instanceof Error ? err.message : "Failed to read the file");
+      } finally {
+        setBusy(false);
+      }
+    },
+    [table, targetFields]
+  );
+
+  const updateChoice = React.useCallback((index: number, choice: ColumnChoice) => {
+    setChoices((current) => current.map((entry, position) => (position === index ? choice : entry)));
+  }, []);
+
+  const keyCandidates = React.useMemo(
+    () =>
+      choices
+        .map((choice) =>
+          choice.kind === "field" ? targetFields.find((field) => field.key === choice.key) : undefined
+        )
+        .filter((field): field is ColumnSpec => Boolean(field && KEY_TYPES.has(field.type))),
+    [choices, targetFields]
+  );
+
+  React.useEffect(() => {
+    if (keyField && !keyCandidates.some((field) => field.key === keyField)) setKeyField("");
+  }, [keyCandidates, keyField]);
+
+  const handleImport = React.useCallback(async () => {
+    if (!file || !preview) return;
+    const mappings: ImportColumnMapping[] = [];
+    choices.forEach((choice, index) => {
+      const source = preview.columns[index].source;
+      if (choice.kind === "field") mappings.push({ source, field: choice.key });
+      if (choice.kind === "create") {
+        mappings.push({
+          source,
+          create: { name: choice.name, type: choice.type, config: choice.config },
+        });
+      }
+    });
+    setBusy(true);
+    setError(null);
+    try {
+      const data = (await postImport(table, file, {
+        columns: mappings,
+        mode,
+        ...(mode === "upsert" ? { keyField } : {}),
+      })) as ImportResult;
+      setResult(data);
+      onImported(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import the file");
+    } finally {
+      setBusy(false);
+    }
+  }, [choices, file, keyField, mode, onImported, preview, table]);
+
+  const mappedCount = choices.filter((choice) => choice.kind !== "skip").length;
+  const canImport =
+    Boolean(preview) && mappedCount > 0 && !busy && (mode === "append" || Boolean(keyField));
+
+  return (
+    <div className="space-y-4 rounded-lg border border-zinc-200 bg-white px-4 py-3 text-sm dark:border-neutral-700 dark:bg-neutral-900">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="font-medium text-zinc-700 dark:text-zinc-200">Import CSV or Excel file</h2>
+        <button type="button" onClick={onClose} className={buttonClass}>
+          Close
+        </button>
+      </div>
+
+      <input
+        type="file"
+        accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        onChange={handleFile}
+        disabled={busy}
+        className="block text-sm text-zinc-600 dark:text-zinc-300"
+      />
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-red-700 dark:border-red-500/30 dark:bg-red-500/10 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {preview && !result && (
+        <>
+          <p className="text-zinc-500 dark:text-zinc-400">
+            {preview.rowCount} rows found. Choose where each column goes.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="text-xs uppercase text-zinc-500 dark:text-zinc-400">
+                <tr>
+                  <th className="py-1 pr-3">Column</th>
+                  <th className="py-1 pr-3">Sample</th>
+                  <th className="py-1 pr-3">Import into</th>
+                  <th className="py-1">New field</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-100 dark:divide-neutral-800">
+                {preview.columns.map((column, index) => {
+                  const choice = choices[index] ?? { kind: "skip" };
+                  return (
+                    <tr key={column.source} className="align-top">
+                      <td className="py-2 pr-3 font-medium text-zinc-700 dark:text-zinc-200">
+                        {column.source}
+                      </td>
+                      <td className="max-w-[220px] truncate py-2 pr-3 text-zinc-500 dark:text-zinc-400">
+                        {column.inferred.sampleValues.slice(0, 3).join(", ") || "—"}
+                      </td>
+                      <td className="py-2 pr-3">
+                        <select
+                          className={selectClass}
+                          value={
+                            choice.kind === "field" ? `field:${choice.key}` : choice.kind
+                          }
+                          onChange={(event) => {
+                            const value = event.target.value;
+                            if (value === "skip") updateChoice(index, { kind: "skip" });
+                            else if (value === "create") {
+                              updateChoice(index, {
+                                kind: "create",
+                                name: column.source,
+                                type: column.inferred.type,
+                                config: column.inferred.config as Record<string, unknown> | undefined,
+                              });
+                            } else {
+                              updateChoice(index, { kind: "field", key: value.slice("field:".length) });
+                            }
+                          }}
+                        >
+                          <option value="skip">Don&apos;t import</option>
+                          <option value="create">New field</option>
+                          {targetFields.map((field) => (
+                            <option key={String(field.key)} value={`field:${String(field.key)}`}>
+                              {field.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2">
+                        {choice.kind === "create" && (
+                          <div className="space-y-1">
+                            <input
+                              type="text"
+                              value={choice.name}
+                              onChange={(event) =>
+                                updateChoice(index, { ...choice, name: event.target.value })
+                              }
+                              className={selectClass}
+                            />
+                            <select
+                              className={selectClass}
+                              value={choice.type}
+                              onChange={(event) => {
+                                const type = event.target.value as ColumnType;
+                                updateChoice(index, {
+                                  ...choice,
+                                  type,
+                                  // The suggested config only fits the suggested type.
+                                  config:
+                                    type === column.inferred.type
+                                      ? (column.inferred.config as Record<string, unknown> | undefined)
+                                      : undefined,
+                                });
+                              }}
+                            >
+                              {IMPORT_FIELD_TYPES.map((option) => (
+                                <option key={option.type} value={option.type}>
+                                  {option.label}
+                                </option>
+                              ))}
+                            </select>
+                            {column.inferred.notes[0] && (
+                              <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                {column.inferred.notes[0]}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-zinc-700 dark:text-zinc-200">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === "append"}
+                onChange={() => setMode("append")}
+              />
+              Add every row
+            </label>
+            <label className="flex items-center gap-2 text-zinc-700 dark:text-zinc-200">
+              <input
+                type="radio"
+                name="import-mode"
+                checked={mode === "upsert"}
+                onChange={() => setMode("upsert")}
+              />
+              Update rows matching on
+            </label>
+            <select
+              className={`${selectClass} w-auto`}
+              value={keyField}
+              onChange={(event) => setKeyField(event.target.value)}
+              disabled={mode !== "upsert"}
+            >
+              <option value="">Choose a field</option>
+              {keyCandidates.map((field) => (
+                <option key={String(field.key)} value={String(field.key)}>
+                  {field.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={!canImport}
+              className={primaryButtonClass}
+            >
+              {busy ? "Importing…" : `Import ${preview.rowCount} rows`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-zinc-700 dark:text-zinc-200">
+            {result.created} rows added, {result.updated} updated
+            {result.fieldsCreated.length ? `, ${result.fieldsCreated.length} fields created` : ""}.
+            {result.failed ? ` ${result.failed} rows could not be imported:` : ""}
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto text-xs text-red-700 dark:text-red-300">
+              {result.errors.map((entry, index) => (
+                <li key={`${entry.row}-${index}`}>
+                  Row {entry.row}
+                  {entry.field ? `, ${entry.field}` : ""}: {entry.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
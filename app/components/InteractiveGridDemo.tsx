@@ -6,10 +6,21 @@ import {
   renderInteractiveTable,
   type ColumnSpec,
   type InteractiveTableProps,
+  type LinkedRecordOption,
   type LinkedTableOption,
+  type RowHistoryEntry,
   formatCountValue,
 } from "@/utils/tableUtils";
 import type { TableMetadata } from "@/utils/schema";
+import type { ImportResult } from "@/utils/tableImport";
+import type { TrashItem } from "@/utils/trash";
+import {
+  appendTableQueryParams,
+  EMPTY_TABLE_QUERY,
+  type TableQueryState,
+} from "@/utils/tableQuery";
+import { sameViewConfig, type SavedView, type TableViewConfig } from "@/utils/viewConfig";
+import ImportWizard from "./ImportWizard";
 
 export interface InteractiveGridState<T extends Record<string, unknown>> {
   rows: T[];
@@ -27,6 +38,19 @@ export interface InteractiveGridProps<T extends Record<string, unknown>> {
   hasMoreRows?: boolean;
   loadingMoreRows?: boolean;
   onLoadMoreRows?: () => void | Promise<void>;
+  onQueryChange?: (query: TableQueryState) => void;
+  onSearchLinkedRecords?: InteractiveTableProps<T>["onSearchLinkedRecords"];
+  onCreateLinkedRecord?: InteractiveTableProps<T>["onCreateLinkedRecord"];
+  onLoadRowHistory?: InteractiveTableProps<T>["onLoadRowHistory"];
+  onRestoreRow?: InteractiveTableProps<T>["onRestoreRow"];
+  onUpdateRow?: InteractiveTableProps<T>["onUpdateRow"];
+  savedViews?: InteractiveTableProps<T>["savedViews"];
+  activeViewId?: InteractiveTableProps<T>["activeViewId"];
+  onSelectView?: InteractiveTableProps<T>["onSelectView"];
+  onCreateView?: InteractiveTableProps<T>["onCreateView"];
+  onRenameView?: InteractiveTableProps<T>["onRenameView"];
+  onDeleteView?: InteractiveTableProps<T>["onDeleteView"];
+  onViewConfigChange?: InteractiveTableProps<T>["onViewConfigChange"];
   virtualizationOverscan?: number;
   renderTable?: (props: InteractiveTableProps<T>) => React.ReactElement;
 }
@@ -57,6 +81,29 @@ interface InteractiveGridDemoProps {
 
 const PAGE_SIZE = 100;
 
+// The view last open on each table, per browser.
+function activeViewStorageKey(tableName: string) {
+  return `grid-view:${tableName}`;
+}
+
+function buildTableUrl(
+  tableName: string,
+  query: TableQueryState,
+  cursor: string | null
+) {
+  // Only the first page asks for a (planner-estimated) count; later pages
+  // follow the keyset cursor and skip counting entirely.
+  const params = new URLSearchParams({
+    limit: String(PAGE_SIZE),
+    count: cursor ? "none" : "estimate",
+  });
+  if (cursor) {
+    params.set("cursor", cursor);
+  }
+  appendTableQueryParams(params, query);
+  return `/api/tables/${tableName}?${params.toString()}`;
+}
+
 function cloneState(state: GridState): GridState {
   return {
     rows: state.rows.map((row) => ({ ...row })),
@@ -106,6 +153,7 @@ function diffGridState(prev: GridState, next: GridState): GridDiff {
       previous.name !== column.name ||
       previous.type !== column.type ||
       (previous.width ?? 0) !== (column.width ?? 0) ||
+      (previous.permissions ?? "") !== (column.permissions ?? "") ||
       JSON.stringify(previousConfig) !== JSON.stringify(nextConfig)
     );
   });
@@ -205,6 +253,14 @@ function formatValuesForServer(
   return payload;
 }
 
+// Sends the browser to the sign-in page when the session has expired.
+function redirectIfSignedOut(response: Response) {
+  if (response.status === 401 && typeof window !== "undefined") {
+    const next = `${window.location.pathname}${window.location.search}`;
+    window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+  }
+}
+
 async function sendJSON(
   url: string,
   init: RequestInit = {},
@@ -219,6 +275,7 @@ async function sendJSON(
   });
 
   if (!response.ok) {
+    redirectIfSignedOut(response);
     let message = response.statusText;
     try {
       const data = await response.json();
@@ -251,6 +308,19 @@ export function InteractiveGrid<T extends Record<string, unknown>>({
   hasMoreRows,
   loadingMoreRows,
   onLoadMoreRows,
+  onQueryChange,
+  onSearchLinkedRecords,
+  onCreateLinkedRecord,
+  onLoadRowHistory,
+  onRestoreRow,
+  onUpdateRow,
+  savedViews,
+  activeViewId,
+  onSelectView,
+  onCreateView,
+  onRenameView,
+  onDeleteView,
+  onViewConfigChange,
   virtualizationOverscan,
   renderTable,
 }: InteractiveGridProps<T>) {
@@ -288,6 +358,19 @@ export function InteractiveGrid<T extends Record<string, unknown>>({
     hasMoreRows,
     loadingMoreRows,
     onLoadMoreRows,
+    onQueryChange,
+    onSearchLinkedRecords,
+    onCreateLinkedRecord,
+    onLoadRowHistory,
+    onRestoreRow,
+    onUpdateRow,
+    savedViews,
+    activeViewId,
+    onSelectView,
+    onCreateView,
+    onRenameView,
+    onDeleteView,
+    onViewConfigChange,
     virtualizationOverscan,
   });
 }
@@ -302,11 +385,23 @@ export default function InteractiveGridDemo({
   const [activeTable, setActiveTable] = React.useState<string | null>(null);
   const [gridState, setGridState] = React.useState<GridState | null>(null);
   const [totalRows, setTotalRows] = React.useState(0);
+  const [countIsEstimate, setCountIsEstimate] = React.useState(false);
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
   const [loadingMore, setLoadingMore] = React.useState(false);
   const [syncing, setSyncing] = React.useState(false);
   const [airtableSyncing, setAirtableSyncing] = React.useState(false);
+  const [airtableSyncProgress, setAirtableSyncProgress] = React.useState<
+    string | null
+  >(null);
   const [error, setError] = React.useState<string | null>(null);
+  const [trashItems, setTrashItems] = React.useState<TrashItem[] | null>(null);
+  const [importing, setImporting] = React.useState(false);
+  const [views, setViews] = React.useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
+  const [users, setUsers] = React.useState<
+    NonNullable<InteractiveGridProps<TableRow>["users"]>
+  >([]);
 
   const previousStateRef = React.useRef<GridState | null>(null);
   const suppressChangesRef = React.useRef(false);
@@ -319,6 +414,8 @@ export default function InteractiveGridDemo({
   const tableTabsContainerRef = React.useRef<HTMLDivElement | null>(null);
   const tableTabsSortableRef = React.useRef<ReturnType<typeof Sortable.create> | null>(null);
   const latestTablesRef = React.useRef<TableMetadata[]>(tables);
+  const tableQueryRef = React.useRef<TableQueryState>(EMPTY_TABLE_QUERY);
+  const viewConfigRef = React.useRef<TableViewConfig | null>(null);
   const linkedTableOptions = React.useMemo(
     () =>
       tables.map((table) => ({
@@ -344,9 +441,10 @@ export default function InteractiveGridDemo({
       if (showSpinner) setLoading(true);
       try {
         const response = await fetch(
-          `/api/tables/${tableName}?limit=${PAGE_SIZE}&offset=0`
+          buildTableUrl(tableName, tableQueryRef.current, null)
         );
         if (!response.ok) {
+          redirectIfSignedOut(response);
           const message = await response
             .json()
             .catch(() => ({ error: "Failed to load table" }));
@@ -363,7 +461,14 @@ export default function InteractiveGridDemo({
           ),
         };
         replaceState(nextState);
-        setTotalRows(Number(data.totalRows ?? nextState.rows.length));
+        setTotalRows(
+          Math.max(
+            Number(data.totalRows ?? nextState.rows.length),
+            nextState.rows.length
+          )
+        );
+        setCountIsEstimate(Boolean(data.countIsEstimate));
+        setNextCursor(data.nextCursor ?? null);
         setActiveTable(tableName);
         setError(null);
       } catch (err) {
@@ -379,6 +484,7 @@ export default function InteractiveGridDemo({
   const selectTable = React.useCallback(
     async (tableName: string) => {
       if (!tableName) return;
+      tableQueryRef.current = EMPTY_TABLE_QUERY;
       await loadTable(tableName);
     },
     [loadTable]
@@ -435,6 +541,7 @@ export default function InteractiveGridDemo({
               type: column.type,
               config: serializeConfig(column.config),
               width: column.width ?? 220,
+              permissions: column.permissions ?? null,
             }),
           }
         );
@@ -460,33 +567,33 @@ export default function InteractiveGridDemo({
       diff: GridDiff,
       allowedColumns: Set<string>
     ) => {
+      const operations: Array<Record<string, unknown>> = [];
+
       for (const id of diff.removedRowIds) {
-        await sendJSON(
-          `/api/tables/${tableName}/rows/${encodeURIComponent(id)}`,
-          { method: "DELETE" },
-          false
-        );
+        operations.push({ type: "delete", rowId: id });
       }
 
       for (const row of diff.addedRows) {
-        const values = formatValuesForServer(row, allowedColumns);
-        await sendJSON(`/api/tables/${tableName}/rows`, {
-          method: "POST",
-          body: JSON.stringify({ values }),
+        operations.push({
+          type: "create",
+          values: formatValuesForServer(row, allowedColumns),
         });
       }
 
       for (const update of diff.updatedRows) {
         const values = formatValuesForServer(update.values, allowedColumns);
         if (Object.keys(values).length === 0) continue;
-        await sendJSON(
-          `/api/tables/${tableName}/rows/${encodeURIComponent(update.id)}`,
-          {
-            method: "PATCH",
-            body: JSON.stringify({ values }),
-          }
-        );
+        operations.push({ type: "update", rowId: update.id, values });
       }
+
+      if (!operations.length) return;
+
+      // One request per edit batch (paste, range delete, fill) so a failure
+      // rolls back the whole change instead of leaving it half applied.
+      await sendJSON(`/api/tables/${tableName}/rows/batch`, {
+        method: "POST",
+        body: JSON.stringify({ operations }),
+      });
     },
     []
   );
@@ -566,13 +673,12 @@ export default function InteractiveGridDemo({
   );
 
   const handleLoadMoreRows = React.useCallback(async () => {
-    if (!activeTable || loadingMore || !gridState) return;
-    if (gridState.rows.length >= totalRows) return;
+    if (!activeTable || loadingMore || !gridState || !nextCursor) return;
 
     setLoadingMore(true);
     try {
       const response = await fetch(
-        `/api/tables/${activeTable}?limit=${PAGE_SIZE}&offset=${gridState.rows.length}`
+        buildTableUrl(activeTable, tableQueryRef.current, nextCursor)
       );
       if (!response.ok) {
         const message = await response
@@ -594,7 +700,8 @@ export default function InteractiveGridDemo({
         ),
       };
       replaceState(mergedState);
-      setTotalRows(Number(data.totalRows ?? mergedState.rows.length));
+      setTotalRows((previous) => Math.max(previous, mergedState.rows.length));
+      setNextCursor(data.nextCursor ?? null);
       setError(null);
     } catch (err) {
       console.error(err);
@@ -604,7 +711,335 @@ export default function InteractiveGridDemo({
     } finally {
       setLoadingMore(false);
     }
-  }, [activeTable, gridState, loadingMore, replaceState, totalRows]);
+  }, [activeTable, gridState, loadingMore, nextCursor, replaceState]);
+
+  const handleQueryChange = React.useCallback(
+    (nextQuery: TableQueryState) => {
+      if (
+        JSON.stringify(nextQuery) === JSON.stringify(tableQueryRef.current)
+      ) {
+        return;
+      }
+      tableQueryRef.current = nextQuery;
+      if (!activeTable) return;
+      void loadTable(activeTable, { showSpinner: false });
+    },
+    [activeTable, loadTable]
+  );
+
+  const handleSearchLinkedRecords = React.useCallback(
+    async (column: ColumnSpec<TableRow>, search: string) => {
+      if (!activeTable) return [];
+      const params = new URLSearchParams({ q: search });
+      const data = await sendJSON(
+        `/api/tables/${activeTable}/columns/${String(column.key)}/links?${params.toString()}`,
+        { method: "GET" }
+      );
+      return (data?.records ?? []) as LinkedRecordOption[];
+    },
+    [activeTable]
+  );
+
+  const handleCreateLinkedRecord = React.useCallback(
+    async (column: ColumnSpec<TableRow>, title: string) => {
+      if (!activeTable) throw new Error("No table selected");
+      const data = await sendJSON(
+        `/api/tables/${activeTable}/columns/${String(column.key)}/links`,
+        { method: "POST", body: JSON.stringify({ title }) }
+      );
+      return data.record as LinkedRecordOption;
+    },
+    [activeTable]
+  );
+
+  const handleLoadRowHistory = React.useCallback(
+    async (rowId: string) => {
+      if (!activeTable) return [];
+      const data = await sendJSON(
+        `/api/tables/${activeTable}/rows/${encodeURIComponent(rowId)}/history`,
+        { method: "GET" }
+      );
+      return (data?.entries ?? []) as RowHistoryEntry[];
+    },
+    [activeTable]
+  );
+
+  const handleRestoreRow = React.useCallback(
+    async (rowId: string, at: string) => {
+      if (!activeTable) return;
+      await sendJSON(
+        `/api/tables/${activeTable}/rows/${encodeURIComponent(rowId)}/restore`,
+        { method: "POST", body: JSON.stringify({ at }) }
+      );
+      await refreshTable();
+    },
+    [activeTable, refreshTable]
+  );
+
+  // Kanban moves save the one field straight away through the row endpoint.
+  const handleUpdateRow = React.useCallback(
+    async (rowId: string, values: Record<string, unknown>) => {
+      if (!activeTable) return;
+      ignoreEventsRef.current = true;
+      try {
+        const data = await sendJSON(
+          `/api/tables/${activeTable}/rows/${encodeURIComponent(rowId)}`,
+          { method: "PATCH", body: JSON.stringify({ values }) }
+        );
+        const saved = data.row as TableRow;
+        const current = previousStateRef.current ?? gridState;
+        if (current) {
+          replaceState({
+            ...current,
+            rows: current.rows.map((row) =>
+              row.id === saved.id ? { ...row, ...saved } : row
+            ),
+          });
+        }
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to move record");
+        throw err;
+      } finally {
+        setTimeout(() => {
+          ignoreEventsRef.current = false;
+        }, 300);
+      }
+    },
+    [activeTable, gridState, replaceState]
+  );
+
+  const handleRestoreTable = React.useCallback(async () => {
+    if (!activeTable || typeof window === "undefined") return;
+    const input = window.prompt(
+      "Restore every row of this table to how it was at (local time, e.g. 2024-05-01 14:30):"
+    );
+    if (!input?.trim()) return;
+    const at = new Date(input.trim().replace(" ", "T"));
+    if (Number.isNaN(at.getTime())) {
+      setError(`Could not read "${input}" as a date and time`);
+      return;
+    }
+    if (!window.confirm(`Restore all rows to ${at.toLocaleString()}? Later row changes are undone.`)) {
+      return;
+    }
+    setSyncing(true);
+    try {
+      await sendJSON(`/api/tables/${activeTable}/restore`, {
+        method: "POST",
+        body: JSON.stringify({ at: at.toISOString() }),
+      });
+      await refreshTable();
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to restore table");
+    } finally {
+      setSyncing(false);
+    }
+  }, [activeTable, refreshTable]);
+
+  const loadTrash = React.useCallback(async () => {
+    if (!activeTable) return;
+    const data = await sendJSON(
+      `/api/trash?table=${encodeURIComponent(activeTable)}`,
+      { method: "GET" }
+    );
+    setTrashItems((data?.items ?? []) as TrashItem[]);
+  }, [activeTable]);
+
+  const handleToggleTrash = React.useCallback(async () => {
+    if (trashItems) {
+      setTrashItems(null);
+      return;
+    }
+    try {
+      await loadTrash();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to load trash");
+    }
+  }, [loadTrash, trashItems]);
+
+  const handleRestoreFromTrash = React.useCallback(
+    async (item: TrashItem) => {
+      setSyncing(true);
+      try {
+        await sendJSON(`/api/trash/${item.id}/restore`, { method: "POST" });
+        await Promise.all([refreshTable(), loadTrash()]);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to restore from trash");
+      } finally {
+        setSyncing(false);
+      }
+    },
+    [loadTrash, refreshTable]
+  );
+
+  React.useEffect(() => {
+    setTrashItems(null);
+    setImporting(false);
+  }, [activeTable]);
+
+  const handleImported = React.useCallback(
+    async (result: ImportResult) => {
+      if (result.created || result.updated || result.fieldsCreated.length) {
+        await refreshTable();
+      }
+    },
+    [refreshTable]
+  );
+
+  // Downloads the table as the grid shows it: the visible fields in their
+  // current order, with the active filters, sort and search.
+  const handleExport = React.useCallback(
+    (format: string) => {
+      if (!activeTable || !format) return;
+      const config = viewConfigRef.current;
+      const hidden = new Set(config?.hiddenFields ?? []);
+      const fields = config?.fieldOrder.length
+        ? config.fieldOrder.filter((key) => !hidden.has(key))
+        : (previousStateRef.current?.columns ?? gridState?.columns ?? []).map((column) =>
+            String(column.key)
+          );
+      const params = new URLSearchParams({ format });
+      if (fields.length) {
+        params.set("fields", fields.join(","));
+      }
+      appendTableQueryParams(params, tableQueryRef.current);
+      window.location.assign(`/api/tables/${activeTable}/export?${params.toString()}`);
+    },
+    [activeTable, gridState]
+  );
+
+  React.useEffect(() => {
+    setViews([]);
+    setActiveViewId(null);
+    viewConfigRef.current = null;
+    if (!activeTable) return;
+    let cancelled = false;
+    sendJSON(`/api/tables/${activeTable}/views`, { method: "GET" })
+      .then((data) => {
+        if (cancelled) return;
+        const list = (data?.views ?? []) as SavedView[];
+        const remembered = window.localStorage.getItem(activeViewStorageKey(activeTable));
+        setViews(list);
+        setActiveViewId(
+          list.find((view) => view.id === remembered)?.id ?? list[0]?.id ?? null
+        );
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to load views");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeTable]);
+
+  const handleSelectView = React.useCallback(
+    (viewId: string) => {
+      setActiveViewId(viewId);
+      if (activeTable) {
+        window.localStorage.setItem(activeViewStorageKey(activeTable), viewId);
+      }
+    },
+    [activeTable]
+  );
+
+  const replaceView = React.useCallback((view: SavedView) => {
+    setViews((current) =>
+      current.map((candidate) => (candidate.id === view.id ? view : candidate))
+    );
+  }, []);
+
+  // Layout changes made in the grid are saved to the open view when the
+  // user may change it; otherwise they last until the page is reloaded.
+  const handleViewConfigChange = React.useCallback(
+    async (config: TableViewConfig) => {
+      viewConfigRef.current = config;
+      const view = views.find((candidate) => candidate.id === activeViewId);
+      if (!activeTable || !view?.editable || sameViewConfig(view.config, config)) {
+        return;
+      }
+      try {
+        const data = await sendJSON(`/api/tables/${activeTable}/views/${view.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ config }),
+        });
+        replaceView(data.view as SavedView);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to save view");
+      }
+    },
+    [activeTable, activeViewId, replaceView, views]
+  );
+
+  const handleCreateView = React.useCallback(
+    async (input: { name: string; type: SavedView["type"]; visibility: SavedView["visibility"]; config: TableViewConfig }) => {
+      if (!activeTable) return;
+      try {
+        const data = await sendJSON(`/api/tables/${activeTable}/views`, {
+          method: "POST",
+          body: JSON.stringify(input),
+        });
+        const view = data.view as SavedView;
+        setViews((current) => [...current, view]);
+        handleSelectView(view.id);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to create view");
+      }
+    },
+    [activeTable, handleSelectView]
+  );
+
+  const handleRenameView = React.useCallback(
+    async (viewId: string, name: string) => {
+      if (!activeTable) return;
+      try {
+        const data = await sendJSON(`/api/tables/${activeTable}/views/${viewId}`, {
+          method: "PATCH",
+          body: JSON.stringify({ name }),
+        });
+        replaceView(data.view as SavedView);
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to rename view");
+      }
+    },
+    [activeTable, replaceView]
+  );
+
+  const handleDeleteView = React.useCallback(
+    async (viewId: string) => {
+      if (!activeTable) return;
+      try {
+        await sendJSON(`/api/tables/${activeTable}/views/${viewId}`, {
+          method: "DELETE",
+        });
+        const remaining = views.filter((view) => view.id !== viewId);
+        setViews(remaining);
+        if (activeViewId === viewId) {
+          const next = remaining[0]?.id ?? null;
+          if (next) handleSelectView(next);
+          else setActiveViewId(null);
+        }
+        setError(null);
+      } catch (err) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : "Failed to delete view");
+      }
+    },
+    [activeTable, activeViewId, handleSelectView, views]
+  );
 
   const scheduleRefresh = React.useCallback(() => {
     if (!activeTable || loading || ignoreEventsRef.current) return;
@@ -622,6 +1057,7 @@ export default function InteractiveGridDemo({
       : "";
     const response = await fetch(`/api/tables${params}`);
     if (!response.ok) {
+      redirectIfSignedOut(response);
       const message = await response
         .json()
         .catch(() => ({ error: "Failed to load tables" }));
@@ -634,6 +1070,24 @@ export default function InteractiveGridDemo({
     return list;
   }, [projectTag]);
 
+  const handleCreateTable = React.useCallback(async () => {
+    if (typeof window === "undefined") return;
+    const displayName = window.prompt("Name of the new table:")?.trim();
+    if (!displayName) return;
+    try {
+      const data = await sendJSON("/api/tables", {
+        method: "POST",
+        body: JSON.stringify({ displayName, ...(projectTag ? { projectTag } : {}) }),
+      });
+      await fetchTablesList();
+      await selectTable(data.table.table_name);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "Failed to create table");
+    }
+  }, [fetchTablesList, projectTag, selectTable]);
+
   React.useEffect(() => {
     let cancelled = false;
     async function bootstrap() {
@@ -676,6 +1130,11 @@ export default function InteractiveGridDemo({
         try {
           const payload = JSON.parse(event.data);
           if (!payload || payload.type === "connected") return;
+          if (typeof payload.type === "string" && payload.type.startsWith("table")) {
+            // Renamed, moved or deleted: the tab list is what changes.
+            fetchTablesList().catch((err) => console.error(err));
+            return;
+          }
           if (ignoreEventsRef.current) return;
           scheduleRefresh();
         } catch {
@@ -718,12 +1177,25 @@ export default function InteractiveGridDemo({
         refreshTimeoutRef.current = null;
       }
     };
-  }, [activeTable, scheduleRefresh]);
+  }, [activeTable, fetchTablesList, scheduleRefresh]);
 
   React.useEffect(() => {
     syncingRef.current = syncing;
   }, [syncing]);
 
+  // The directory behind user fields: the cell picker and default users.
+  React.useEffect(() => {
+    let cancelled = false;
+    sendJSON("/api/users")
+      .then((data) => {
+        if (!cancelled && Array.isArray(data?.users)) setUsers(data.users);
+      })
+      .catch((err) => console.error("Failed to load users", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   React.useEffect(() => {
     latestTablesRef.current = tables;
   }, [tables]);
@@ -749,6 +1221,36 @@ export default function InteractiveGridDemo({
         throw new Error(message?.error ?? response.statusText);
       }
 
+      // The sync runs in the background; poll its run until it finishes.
+      const { runId } = (await response.json()) as { runId: string };
+      for (;;) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        const runResponse = await fetch(`/api/airtable/sync/runs/${runId}`, {
+          cache: "no-store",
+        });
+        if (!runResponse.ok) {
+          throw new Error("Failed to load Airtable sync progress");
+        }
+        const { run } = (await runResponse.json()) as {
+          run: {
+            status: "running" | "succeeded" | "failed";
+            progress: Record<string, { status: string }>;
+            error: string | null;
+          };
+        };
+        if (run.status === "failed") {
+          throw new Error(run.error ?? "Failed to sync with Airtable");
+        }
+        if (run.status === "succeeded") break;
+        const tableProgress = Object.values(run.progress ?? {});
+        if (tableProgress.length) {
+          const applied = tableProgress.filter(
+            (entry) => entry.status === "applied"
+          ).length;
+          setAirtableSyncProgress(`${applied}/${tableProgress.length} tables`);
+        }
+      }
+
       const list = await fetchTablesList();
       let nextTableName = activeTable ?? null;
       if (nextTableName) {
@@ -768,6 +1270,7 @@ export default function InteractiveGridDemo({
         setActiveTable(null);
         setGridState(null);
         setTotalRows(0);
+        setNextCursor(null);
       }
     } catch (err) {
       console.error(err);
@@ -778,6 +1281,7 @@ export default function InteractiveGridDemo({
       );
     } finally {
       setAirtableSyncing(false);
+      setAirtableSyncProgress(null);
     }
   }, [
     activeTable,
@@ -929,8 +1433,59 @@ export default function InteractiveGridDemo({
           >
             {airtableSyncing ? "Syncing..." : "Sync with Airtable"}
           </button>
+          <button
+            type="button"
+            onClick={handleCreateTable}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800"
+          >
+            New table…
+          </button>
+          <button
+            type="button"
+            onClick={handleRestoreTable}
+            disabled={!activeTable || loading || syncing}
+            className="inline-flex items-center justify-center rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800"
+          >
+            Restore table…
+          </button>
+          <button
+            type="button"
+            onClick={handleToggleTrash}
+            disabled={!activeTable || loading}
+            aria-pressed={trashItems !== null}
+            className="inline-flex items-center justify-center rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800"
+          >
+            Trash
+          </button>
+          <button
+            type="button"
+            onClick={() => setImporting((open) => !open)}
+            disabled={!activeTable || loading}
+            aria-pressed={importing}
+            className="inline-flex items-center justify-center rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800"
+          >
+            Import…
+          </button>
+          <select
+            value=""
+            onChange={(event) => handleExport(event.target.value)}
+            disabled={!activeTable || loading}
+            aria-label="Export table"
+            className="rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm font-medium text-zinc-700 transition hover:bg-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500/40 disabled:cursor-not-allowed disabled:opacity-50 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-200 dark:hover:bg-neutral-800"
+          >
+            <option value="">Export…</option>
+            <option value="csv">CSV</option>
+            <option value="xlsx">Excel (XLSX)</option>
+            <option value="json">JSON</option>
+          </select>
           <div className="flex items-center gap-4 text-xs text-zinc-500 dark:text-zinc-400">
-            {airtableSyncing && <span>Syncing with Airtable…</span>}
+            {airtableSyncing && (
+              <span>
+                Syncing with Airtable…
+                {airtableSyncProgress ? ` (${airtableSyncProgress})` : ""}
+              </span>
+            )}
             {!airtableSyncing && loading && <span>Loading…</span>}
             {!airtableSyncing && syncing && !loading && (
               <span>Syncing changes…</span>
@@ -938,6 +1493,7 @@ export default function InteractiveGridDemo({
             {!airtableSyncing && !loading && !syncing && gridState && (
               <span>
                 Showing {formatCountValue(gridState.rows.length)} of{" "}
+                {countIsEstimate ? "~" : ""}
                 {formatCountValue(totalRows)} rows
               </span>
             )}
@@ -951,16 +1507,73 @@ export default function InteractiveGridDemo({
         </div>
       )}
 
+      {trashItems && (
+        <div className="rounded-lg border border-zinc-200 bg-white px-4 py-3 text-sm dark:border-neutral-700 dark:bg-neutral-900">
+          {trashItems.length === 0 ? (
+            <p className="text-zinc-500 dark:text-zinc-400">Nothing from this table is in the trash.</p>
+          ) : (
+            <ul className="divide-y divide-zinc-100 dark:divide-neutral-800">
+              {trashItems.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-zinc-700 dark:text-zinc-200">
+                      {item.kind === "column" ? "Field" : item.kind === "row" ? "Row" : "Table"}{" "}
+                      <span className="font-medium">{item.label || item.item_key}</span>
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      Deleted {new Date(item.deleted_at).toLocaleString()}
+                      {item.deleted_by_name ? ` by ${item.deleted_by_name}` : ""}, kept until{" "}
+                      {new Date(item.expires_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRestoreFromTrash(item)}
+                    disabled={syncing}
+                    className="shrink-0 rounded-md border border-zinc-300 px-2 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-100 disabled:opacity-50 dark:border-neutral-700 dark:text-zinc-200 dark:hover:bg-neutral-800"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {importing && activeTable && gridState && (
+        <ImportWizard
+          table={activeTable}
+          columns={gridState.columns}
+          onClose={() => setImporting(false)}
+          onImported={handleImported}
+        />
+      )}
+
       {gridState ? (
         <InteractiveGrid<TableRow>
           key={activeTable ?? "grid"}
           initialRows={gridState.rows}
           initialColumns={gridState.columns}
+          users={users}
           linkedTableOptions={linkedTableOptions}
           onStateChange={handleStateChange}
-          hasMoreRows={gridState.rows.length < totalRows}
+          hasMoreRows={nextCursor !== null}
           loadingMoreRows={loadingMore}
           onLoadMoreRows={handleLoadMoreRows}
+          onQueryChange={handleQueryChange}
+          onSearchLinkedRecords={handleSearchLinkedRecords}
+          onCreateLinkedRecord={handleCreateLinkedRecord}
+          onLoadRowHistory={handleLoadRowHistory}
+          onRestoreRow={handleRestoreRow}
+          onUpdateRow={handleUpdateRow}
+          savedViews={views}
+          activeViewId={activeViewId}
+          onSelectView={handleSelectView}
+          onCreateView={handleCreateView}
+          onRenameView={handleRenameView}
+          onDeleteView={handleDeleteView}
+          onViewConfigChange={handleViewConfigChange}
           renderTable={renderTable}
         />
       ) : (
@@ -0,0 +1,73 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+export default function LoginPage() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? "Failed to sign in");
+      }
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.assign(next && next.startsWith("/") ? next : "/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to sign in");
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gradient-to-b from-zinc-100 via-white to-zinc-100 px-6 dark:from-neutral-950 dark:via-neutral-900 dark:to-neutral-950">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-3xl border border-zinc-200 bg-white p-6 shadow-xl dark:border-neutral-700 dark:bg-neutral-950/80"
+      >
+        <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">Sign in</h1>
+        <label className="block space-y-1 text-sm text-zinc-600 dark:text-zinc-300">
+          <span>Email</span>
+          <input
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-zinc-900 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-100"
+          />
+        </label>
+        <label className="block space-y-1 text-sm text-zinc-600 dark:text-zinc-300">
+          <span>Password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            className="w-full rounded-lg border border-zinc-300 px-3 py-2 text-zinc-900 dark:border-neutral-700 dark:bg-neutral-900 dark:text-zinc-100"
+          />
+        </label>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full rounded-lg bg-zinc-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60 dark:bg-zinc-100 dark:text-zinc-900"
+        >
+          {submitting ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
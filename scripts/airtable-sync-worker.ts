@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+
+import { argv, env, exit } from "node:process";
+import {
+  AirtableApiError,
+  backoffDelay,
+  isTransientError,
+  sleep,
+} from "../utils/airtableApi.ts";
+import {
+  listAirtableConnections,
+  recordConnectionRun,
+  type PublicAirtableConnection,
+} from "../utils/airtableConnections.ts";
+import { pushAirtableChanges, syncAirtableBase } from "../utils/airtableSync.ts";
+import { AirtableSyncBusyError } from "../utils/airtableSyncRuns.ts";
+import { cronMatches } from "../utils/cron.ts";
+
+// Usage:
+//   airtable-sync-worker          run each enabled connection on its schedule
+//   airtable-sync-worker --once   sync every enabled connection now and exit
+//
+// Each run pushes queued local edits and then pulls the base. Transient
+// failures (rate limits, 5xx, network errors) are retried with backoff; every
+// attempt is recorded in airtable_sync_runs and the outcome on the connection.
+const MAX_ATTEMPTS = Number(env.AIRTABLE_SYNC_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+
+function log(connection: PublicAirtableConnection, message: string) {
+  console.log(`[${new Date().toISOString()}] ${connection.name} (${connection.base_id}): ${message}`);
+}
+
+async function runConnection(connection: PublicAirtableConnection) {
+  const baseId = connection.base_id;
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const pushed = await pushAirtableChanges({ baseId });
+      if (pushed.created || pushed.updated || pushed.deleted || pushed.failed) {
+        log(
+          connection,
+          `pushed ${pushed.created} created, ${pushed.updated} updated, ${pushed.deleted} deleted, ${pushed.failed} failed`
+        );
+      }
+      const result = await syncAirtableBase({ baseId, trigger: "schedule", attempt });
+      log(
+        connection,
+        `synced ${result.totals.inserted} inserted, ${result.totals.updated} updated, ${result.totals.deleted} deleted`
+      );
+      await recordConnectionRun(connection.id, {
+        status: "succeeded",
+        runId: result.runId,
+      });
+      return;
+    } catch (error) {
+      if (error instanceof AirtableSyncBusyError) {
+        log(connection, "skipped, another sync is running");
+        await recordConnectionRun(connection.id, { status: "skipped", error });
+        return;
+      }
+      if (attempt >= MAX_ATTEMPTS || !isTransientError(error)) {
+        log(connection, `failed: ${error instanceof Error ? error.message : error}`);
+        await recordConnectionRun(connection.id, { status: "failed", error });
+        return;
+      }
+      const delay =
+        (error instanceof AirtableApiError ? error.retryAfterMs : null) ??
+        backoffDelay(attempt, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+      log(
+        connection,
+        `attempt ${attempt} failed, retrying in ${Math.round(delay / 1000)}s: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+async function main() {
+  if (argv.includes("--once")) {
+    const connections = (await listAirtableConnections()).filter(
+      (connection) => connection.enabled
+    );
+    for (const connection of connections) {
+      await runConnection(connection);
+    }
+    return;
+  }
+
+  const running = new Map<string, Promise<void>>();
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log("Airtable sync worker started");
+  while (!stopping) {
+    // Wake at the start of each minute, the resolution of a cron schedule.
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, 60_000 - (Date.now() % 60_000));
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    if (stopping) break;
+
+    const now = new Date();
+    let connections: PublicAirtableConnection[];
+    try {
+      // Re-read every minute so edits through the API apply without a restart.
+      connections = await listAirtableConnections();
+    } catch (error) {
+      console.error("Failed to load Airtable connections", error);
+      continue;
+    }
+
+    for (const connection of connections) {
+      if (!connection.enabled || !connection.schedule) continue;
+      if (running.has(connection.id)) continue;
+      let due = false;
+      try {
+        due = cronMatches(connection.schedule, now);
+      } catch (error) {
+        log(connection, `invalid schedule: ${error instanceof Error ? error.message : error}`);
+      }
+      if (!due) continue;
+
+      const run = runConnection(connection)
+        .catch((error) => console.error(`Sync of ${connection.base_id} crashed`, error))
+        .finally(() => running.delete(connection.id));
+      running.set(connection.id, run);
+    }
+  }
+
+  console.log(`Stopping; waiting for ${running.size} running syncs`);
+  await Promise.all(running.values());
+}
+
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error(error);
+    exit(1);
+  });
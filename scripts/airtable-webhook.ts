@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+import { argv, exit } from "node:process";
+import { syncAirtableWebhookPayloads } from "../utils/airtableSync.ts";
+import {
+  listWebhookStates,
+  refreshAirtableWebhook,
+  registerAirtableWebhook,
+} from "../utils/airtableWebhooks.ts";
+
+// Usage:
+//   airtable-webhook register --baseId=app... --url=https://host/api/airtable/webhook [--projectTag=...]
+//   airtable-webhook refresh --baseId=app...
+//   airtable-webhook sync --baseId=app...
+//   airtable-webhook list
+function readFlag(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return argv.find((value) => value.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function main() {
+  const command = argv[2];
+  const baseId = readFlag("baseId") ?? process.env.AIRTABLE_BASE_ID;
+
+  switch (command) {
+    case "register": {
+      const notificationUrl = readFlag("url");
+      if (!baseId || !notificationUrl) {
+        throw new Error("register requires --baseId and --url");
+      }
+      const state = await registerAirtableWebhook({
+        baseId,
+        notificationUrl,
+        projectTag: readFlag("projectTag"),
+      });
+      console.log(
+        JSON.stringify({ ...state, mac_secret_base64: undefined }, null, 2)
+      );
+      break;
+    }
+    case "refresh": {
+      if (!baseId) throw new Error("refresh requires --baseId");
+      const state = await refreshAirtableWebhook(baseId);
+      console.log(`Webhook ${state.webhook_id} expires ${state.expiration_time}`);
+      break;
+    }
+    case "sync": {
+      const result = await syncAirtableWebhookPayloads({
+        baseId,
+        logger: (message) => console.log(message),
+      });
+      console.log(JSON.stringify(result, null, 2));
+      break;
+    }
+    case "list": {
+      const states = await listWebhookStates();
+      for (const state of states) {
+        console.log(
+          `${state.base_id}\t${state.webhook_id}\tcursor=${state.cursor}\texpires=${state.expiration_time ?? "-"}`
+        );
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        `Unknown command "${command ?? ""}". Use register, refresh, sync or list.`
+      );
+  }
+}
+
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error(error);
+    exit(1);
+  });
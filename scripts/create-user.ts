@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+
+import { argv, env, exit } from "node:process";
+import { createApiToken, createUser } from "../utils/auth.ts";
+
+// Usage:
+//   create-user --email=ada@example.com [--name=Ada] [--admin] [--token=ci]
+//
+// The password is read from --password= or GRID_USER_PASSWORD; without one the
+// user can only call the API with a token. --token= also issues an API token
+// with that name and prints it once.
+function readArg(name: string): string | null {
+  return argv.find((value) => value.startsWith(`--${name}=`))?.slice(name.length + 3) ?? null;
+}
+
+async function main() {
+  const email = readArg("email");
+  if (!email) {
+    throw new Error("--email= is required");
+  }
+  const user = await createUser({
+    email,
+    name: readArg("name") ?? undefined,
+    password: readArg("password") ?? env.GRID_USER_PASSWORD ?? null,
+    isAdmin: argv.includes("--admin"),
+  });
+  console.log(`Created ${user.is_admin ? "administrator" : "user"} ${user.email} (${user.id})`);
+
+  const tokenName = readArg("token");
+  if (tokenName !== null) {
+    const { token } = await createApiToken(user.id, { name: tokenName });
+    console.log(`API token: ${token}`);
+  }
+}
+
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    exit(1);
+  });
@@ -91,7 +91,8 @@ async function ensureMetaTables(client) {
 
   await client.query(`
     ALTER TABLE column_metadata
-      ADD COLUMN IF NOT EXISTS width INTEGER NOT NULL DEFAULT 160;
+      ADD COLUMN IF NOT EXISTS width INTEGER NOT NULL DEFAULT 160,
+      ADD COLUMN IF NOT EXISTS permissions TEXT;
   `);
 
   await client.query(`
@@ -116,7 +117,12 @@ async function ensureMetaTables(client) {
       table_name TEXT NOT NULL,
       change_type TEXT NOT NULL,
       payload JSONB NOT NULL,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      seq BIGSERIAL,
+      row_id TEXT,
+      column_key TEXT,
+      actor_id TEXT,
+      actor_name TEXT
     );
   `);
 }
@@ -177,6 +183,8 @@ async function migrateSingleTable(client, filePath) {
   await client.query(`
     CREATE TABLE IF NOT EXISTS "${tableName}" (
       id UUID PRIMARY KEY,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
       ${columnDefinitions}
     );
   `);
@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+
+import { argv, env, exit } from "node:process";
+import { pruneDetachedAttachments } from "../utils/attachmentService.ts";
+import { purgeExpiredTrash } from "../utils/trash.ts";
+
+// Usage:
+//   purge-trash          purge expired trash items every hour
+//   purge-trash --once   purge once and exit
+//
+// Rows, fields and tables stay in the trash for TRASH_RETENTION_DAYS (30 by
+// default). Once expired they are deleted for good, along with the stored
+// attachment files nothing refers to any more.
+const INTERVAL_MS = Number(env.TRASH_PURGE_INTERVAL_MS) || 60 * 60_000;
+
+async function purge() {
+  const { purged, tables } = await purgeExpiredTrash();
+  const files = tables.length ? await pruneDetachedAttachments({ tables }) : 0;
+  if (purged.row || purged.column || purged.table || files) {
+    console.log(
+      `[${new Date().toISOString()}] purged ${purged.row} rows, ${purged.column} fields, ${purged.table} tables, ${files} attachment files`
+    );
+  }
+}
+
+async function main() {
+  if (argv.includes("--once")) {
+    await purge();
+    return;
+  }
+
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    stopping = true;
+    wake?.();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  console.log("Trash purge worker started");
+  while (!stopping) {
+    try {
+      await purge();
+    } catch (error) {
+      console.error("Failed to purge the trash", error);
+    }
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, INTERVAL_MS);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+  console.log("Stopping");
+}
+
+main()
+  .then(() => exit(0))
+  .catch((error) => {
+    console.error(error);
+    exit(1);
+  });
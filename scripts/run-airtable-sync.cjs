@@ -19,7 +19,7 @@ require("ts-node").register({
   transpileOnly: true,
 });
 
-const { syncAirtableBase } = require("../utils/airtableSync.ts");
+const { pushAirtableChanges, syncAirtableBase } = require("../utils/airtableSync.ts");
 
 function readFlag(name) {
   const prefix = `--${name}=`;
@@ -28,9 +28,15 @@ function readFlag(name) {
 }
 
 async function main() {
+  if (argv.includes("--push") && !argv.includes("--dry-run")) {
+    const pushed = await pushAirtableChanges({ baseId: readFlag("baseId") });
+    console.log(JSON.stringify(pushed, null, 2));
+  }
+
   const result = await syncAirtableBase({
     baseId: readFlag("baseId"),
     projectTag: readFlag("projectTag"),
+    dryRun: argv.includes("--dry-run"),
   });
 
   console.log(JSON.stringify(result, null, 2));
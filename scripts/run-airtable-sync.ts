@@ -1,7 +1,7 @@
 #!/usr/bin/env node
 
 import { argv, exit } from "node:process";
-import { syncAirtableBase } from "../utils/airtableSync.ts";
+import { pushAirtableChanges, syncAirtableBase } from "../utils/airtableSync.ts";
 
 async function main() {
   const baseIdArg =
@@ -11,9 +11,17 @@ async function main() {
       .find((value) => value.startsWith("--projectTag="))
       ?.split("=")[1] ?? null;
 
+  // --push sends queued local edits to Airtable before pulling its changes.
+  if (argv.includes("--push") && !argv.includes("--dry-run")) {
+    const pushed = await pushAirtableChanges({ baseId: baseIdArg ?? undefined });
+    console.log(JSON.stringify(pushed, null, 2));
+  }
+
   const result = await syncAirtableBase({
     baseId: baseIdArg ?? undefined,
     projectTag: projectTagArg ?? undefined,
+    // --dry-run reports what would be created, altered or dropped.
+    dryRun: argv.includes("--dry-run"),
   });
 
   console.log(JSON.stringify(result, null, 2));
@@ -1,5 +1,15 @@
 declare module "sortablejs" {
+  interface SortableEvent {
+    item: HTMLElement;
+    from: HTMLElement;
+    to: HTMLElement;
+    oldIndex?: number;
+    newIndex?: number;
+  }
+
   interface SortableOptions {
+    group?: string | { name: string; pull?: boolean | "clone"; put?: boolean };
+    sort?: boolean;
     animation?: number;
     draggable?: string;
     handle?: string;
@@ -20,7 +30,7 @@ declare module "sortablejs" {
     onChoose?: (event: unknown) => void;
     onUnchoose?: (event: unknown) => void;
     onStart?: (event: unknown) => void;
-    onEnd?: (event: unknown) => void;
+    onEnd?: (event: SortableEvent) => void;
     onSort?: (event: unknown) => void;
     onUpdate?: (event: unknown) => void;
   }
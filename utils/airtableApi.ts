@@ -0,0 +1,401 @@
+// Minimal Airtable REST client shared by the sync and webhook modules.
+
+export type Logger = (message: string) => void;
+
+export type AirtableField = {
+  id: string;
+  name: string;
+  type: string;
+  description?: string | null;
+  options?: Record<string, unknown> | null;
+};
+
+export type AirtableTable = {
+  id: string;
+  name: string;
+  primaryFieldId: string;
+  fields: AirtableField[];
+};
+
+export type AirtableRecord = {
+  id: string;
+  createdTime: string;
+  fields: Record<string, unknown>;
+};
+
+// Overridable so the sync can be pointed at a local mock Airtable server.
+export const AIRTABLE_API_BASE =
+  process.env.AIRTABLE_API_BASE_URL ?? "https://api.airtable.com/v0";
+const DEFAULT_AIRTABLE_BASE_ID = "appIBydxpXuSdssZW";
+export const AIRTABLE_BASE_ID =
+  process.env.AIRTABLE_BASE_ID ??
+  process.env.BASE_ID ??
+  DEFAULT_AIRTABLE_BASE_ID;
+const AIRTABLE_TOKEN =
+  process.env.AIRTABLE_ACCESS_TOKEN ??
+  process.env.AIRTABLE_PAT ??
+  process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN ??
+  process.env.AIRTABLE_API_KEY ??
+  "";
+
+let fetchReady: Promise<void> | null = null;
+
+async function ensureFetch(): Promise<void> {
+  if (typeof fetch === "function") {
+    return;
+  }
+
+  if (!fetchReady) {
+    fetchReady = import("undici")
+      .then((mod) => {
+        const globalScope = globalThis as unknown as Record<string, unknown>;
+        const maybeFetch = globalScope["fetch"];
+        if (typeof maybeFetch !== "function") {
+          globalScope["fetch"] = mod.fetch as unknown;
+        }
+      })
+      .catch((error) => {
+        fetchReady = null;
+        throw new Error(
+          `Global fetch is not available and failed to load undici: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      });
+  }
+
+  await fetchReady;
+}
+
+// Airtable asks clients to wait 30 seconds after a 429.
+const RATE_LIMIT_DELAY_MS = 30_000;
+const MAX_REQUEST_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1_000;
+const RETRY_MAX_DELAY_MS = 60_000;
+// Methods that are safe to resend after a 5xx or a dropped connection; a
+// repeated POST could create records twice.
+const IDEMPOTENT_METHODS = new Set(["GET", "PATCH", "PUT", "DELETE"]);
+
+export class AirtableApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly retryAfterMs: number | null
+  ) {
+    super(message);
+    this.name = "AirtableApiError";
+  }
+
+  get transient(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** Whether retrying later may succeed: rate limits, 5xx and network drops. */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof AirtableApiError) {
+    return error.transient;
+  }
+  const { code, cause } = (error ?? {}) as { code?: string; cause?: { code?: string } };
+  return (
+    TRANSIENT_NETWORK_CODES.has(code ?? cause?.code ?? "") ||
+    (error instanceof TypeError && error.message === "fetch failed")
+  );
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed and half is
+ * random, so clients that failed together do not retry together.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs = RETRY_BASE_DELAY_MS,
+  maxMs = RETRY_MAX_DELAY_MS
+): number {
+  const delay = Math.min(maxMs, baseMs * 2 ** Math.max(attempt - 1, 0));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? null : Math.max(at - Date.now(), 0);
+}
+
+/**
+ * Requests `input` as JSON. Rate-limited (429) requests are retried after
+ * `Retry-After` (or Airtable's 30 second penalty); 5xx responses and network
+ * errors are retried with backoff for idempotent methods.
+ */
+export async function fetchJson<T>(
+  input: string | URL,
+  token: string,
+  init?: { method?: string; body?: unknown }
+): Promise<T> {
+  await ensureFetch();
+
+  const method = init?.method ?? "GET";
+  const hasBody = init?.body !== undefined;
+  const target = input instanceof URL ? input.toString() : String(input);
+  let response: Response;
+  let body: string;
+
+  for (let attempt = 1; ; attempt += 1) {
+    const canRetry = attempt < MAX_REQUEST_ATTEMPTS;
+    try {
+      response = await fetch(input, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: "application/json",
+          ...(hasBody ? { "Content-Type": "application/json" } : {}),
+        },
+        body: hasBody ? JSON.stringify(init?.body) : undefined,
+        cache: "no-store",
+      });
+      body = await response.text();
+    } catch (error) {
+      if (!canRetry || !IDEMPOTENT_METHODS.has(method)) throw error;
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (response.ok) break;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    const error = new AirtableApiError(
+      `HTTP ${response.status} ${response.statusText}\nURL: ${target}\nBody: ${
+        body || "<empty>"
+      }`,
+      response.status,
+      retryAfterMs ?? (response.status === 429 ? RATE_LIMIT_DELAY_MS : null)
+    );
+    const retryable =
+      response.status === 429 ||
+      (error.transient && IDEMPOTENT_METHODS.has(method));
+    if (!canRetry || !retryable) throw error;
+    await sleep(error.retryAfterMs ?? backoffDelay(attempt));
+  }
+
+  if (!body) {
+    return {} as T;
+  }
+
+  try {
+    return JSON.parse(body) as T;
+  } catch {
+    throw new Error(
+      `Failed to parse JSON from Airtable.\nURL: ${target}\nBody: ${body}`
+    );
+  }
+}
+
+export function assertToken(): string {
+  if (!AIRTABLE_TOKEN) {
+    throw new Error(
+      "Missing Airtable access token. Set AIRTABLE_ACCESS_TOKEN (or AIRTABLE_PAT / AIRTABLE_API_KEY) in the environment."
+    );
+  }
+  return AIRTABLE_TOKEN;
+}
+
+export async function fetchAirtableTables(
+  baseId: string,
+  token: string
+): Promise<AirtableTable[]> {
+  const url = `${AIRTABLE_API_BASE}/meta/bases/${encodeURIComponent(
+    baseId
+  )}/tables`;
+  const payload = await fetchJson<{ tables?: AirtableTable[] }>(url, token);
+
+  const maybeTables = (payload as { tables?: unknown }).tables;
+
+  if (!Array.isArray(maybeTables)) {
+    throw new Error(
+      `Unexpected response when loading Airtable metadata.\nURL: ${url}\nPayload: ${JSON.stringify(
+        payload,
+        null,
+        2
+      )}`
+    );
+  }
+
+  return maybeTables as AirtableTable[];
+}
+
+export async function fetchAirtableRecords(
+  baseId: string,
+  tableId: string,
+  token: string,
+  logger?: Logger,
+  filterByFormula?: string
+): Promise<AirtableRecord[]> {
+  let offset: string | undefined;
+  const records: AirtableRecord[] = [];
+
+  do {
+    const url = new URL(
+      `${AIRTABLE_API_BASE}/${encodeURIComponent(
+        baseId
+      )}/${encodeURIComponent(tableId)}`
+    );
+    url.searchParams.set("pageSize", "100");
+    if (filterByFormula) {
+      url.searchParams.set("filterByFormula", filterByFormula);
+    }
+    if (offset) {
+      url.searchParams.set("offset", offset);
+    }
+
+    const payload = await fetchJson<{
+      records?: AirtableRecord[];
+      offset?: string;
+    }>(url, token);
+
+    if (
+      payload &&
+      Object.prototype.hasOwnProperty.call(payload, "records") &&
+      !Array.isArray(payload.records)
+    ) {
+      throw new Error(
+        `Unexpected records payload for table ${tableId}.\nURL: ${url.toString()}\nPayload: ${JSON.stringify(
+          payload,
+          null,
+          2
+        )}`
+      );
+    }
+
+    if (payload.records?.length) {
+      records.push(...payload.records);
+    }
+
+    offset = payload.offset;
+    if (logger) {
+      logger(
+        `Fetched ${records.length} records for table ${tableId}${
+          offset ? "..." : ""
+        }`
+      );
+    }
+  } while (offset);
+
+  return records;
+}
+
+/**
+ * Fetches specific records by id, in chunks small enough to keep the
+ * `filterByFormula` query string within Airtable's URL limits.
+ */
+export async function fetchAirtableRecordsById(
+  baseId: string,
+  tableId: string,
+  recordIds: string[],
+  token: string,
+  logger?: Logger
+): Promise<AirtableRecord[]> {
+  const records: AirtableRecord[] = [];
+  const chunkSize = 50;
+  for (let start = 0; start < recordIds.length; start += chunkSize) {
+    const formula = `OR(${recordIds
+      .slice(start, start + chunkSize)
+      .map((id) => `RECORD_ID()='${id.replace(/'/g, "\\'")}'`)
+      .join(",")})`;
+    records.push(
+      ...(await fetchAirtableRecords(baseId, tableId, token, logger, formula))
+    );
+  }
+  return records;
+}
+
+// Airtable allows 5 requests per second per base and 10 records per write.
+const WRITE_BATCH_SIZE = 10;
+const REQUEST_INTERVAL_MS = 220;
+const nextRequestAtByBase = new Map<string, number>();
+
+async function throttle(baseId: string) {
+  const now = Date.now();
+  const nextAt = Math.max(now, nextRequestAtByBase.get(baseId) ?? 0);
+  nextRequestAtByBase.set(baseId, nextAt + REQUEST_INTERVAL_MS);
+  if (nextAt > now) {
+    await new Promise((resolve) => setTimeout(resolve, nextAt - now));
+  }
+}
+
+function recordsUrl(baseId: string, tableId: string): URL {
+  return new URL(
+    `${AIRTABLE_API_BASE}/${encodeURIComponent(baseId)}/${encodeURIComponent(
+      tableId
+    )}`
+  );
+}
+
+/**
+ * Creates, updates or deletes records in batches of ten, spacing requests to
+ * stay under the per-base rate limit. `onBatch` runs after each successful
+ * request so callers can record progress before the next one; a failing
+ * batch throws with the records already written left in place.
+ */
+export async function writeAirtableRecords<T>(
+  baseId: string,
+  tableId: string,
+  token: string,
+  items: T[],
+  request:
+    | { method: "POST"; toRecord: (item: T) => { fields: Record<string, unknown> } }
+    | {
+        method: "PATCH";
+        toRecord: (item: T) => { id: string; fields: Record<string, unknown> };
+      },
+  onBatch: (items: T[], records: AirtableRecord[]) => Promise<void>
+) {
+  for (let start = 0; start < items.length; start += WRITE_BATCH_SIZE) {
+    const slice = items.slice(start, start + WRITE_BATCH_SIZE);
+    await throttle(baseId);
+    const payload = await fetchJson<{ records?: AirtableRecord[] }>(
+      recordsUrl(baseId, tableId),
+      token,
+      {
+        method: request.method,
+        body: {
+          records: slice.map((item) => request.toRecord(item)),
+          typecast: true,
+        },
+      }
+    );
+    await onBatch(slice, payload.records ?? []);
+  }
+}
+
+export async function deleteAirtableRecords(
+  baseId: string,
+  tableId: string,
+  token: string,
+  recordIds: string[],
+  onBatch: (recordIds: string[]) => Promise<void>
+) {
+  for (let start = 0; start < recordIds.length; start += WRITE_BATCH_SIZE) {
+    const slice = recordIds.slice(start, start + WRITE_BATCH_SIZE);
+    const url = recordsUrl(baseId, tableId);
+    slice.forEach((id) => url.searchParams.append("records[]", id));
+    await throttle(baseId);
+    await fetchJson(url, token, { method: "DELETE" });
+    await onBatch(slice);
+  }
+}
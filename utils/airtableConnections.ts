@@ -0,0 +1,462 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import projectTags from "../config/projectTags.json" assert { type: "json" };
+import { AIRTABLE_BASE_ID, assertToken, type AirtableTable } from "./airtableApi";
+import { parseCron } from "./cron";
+import { query } from "./db";
+
+/**
+ * A base registered for syncing. `token_ref` is either `env:NAME`, naming the
+ * environment variable that holds the token, or an `enc:` ciphertext of the
+ * token itself. Without a reference the deployment-wide token is used.
+ */
+export type AirtableConnection = {
+  id: string;
+  name: string;
+  base_id: string;
+  token_ref: string | null;
+  project_tag: string;
+  table_prefix: string | null;
+  include_tables: string[];
+  exclude_tables: string[];
+  schedule: string | null;
+  enabled: boolean;
+  // Outcome of the latest scheduled run, written by the sync worker.
+  last_run_at: string | null;
+  last_run_status: AirtableConnectionRunStatus | null;
+  last_run_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AirtableConnectionRunStatus = "succeeded" | "failed" | "skipped";
+
+export type PublicAirtableConnection = Omit<AirtableConnection, "token_ref"> & {
+  token_source: "default" | "env" | "encrypted";
+  token_env: string | null;
+};
+
+export type AirtableConnectionInput = {
+  name?: string;
+  baseId?: string;
+  // Stored encrypted; mutually exclusive with `tokenEnv`.
+  token?: string | null;
+  tokenEnv?: string | null;
+  projectTag?: string;
+  tablePrefix?: string | null;
+  includeTables?: string[];
+  excludeTables?: string[];
+  schedule?: string | null;
+  enabled?: boolean;
+};
+
+/** What a sync of one base runs with, whether or not it has a connection. */
+export type ResolvedAirtableConnection = {
+  connectionId: string | null;
+  baseId: string;
+  token: string;
+  projectTag: string;
+  tablePrefix: string | null;
+  includeTables: string[];
+  excludeTables: string[];
+};
+
+export class AirtableConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AirtableConnectionError";
+  }
+}
+
+const BASE_ID_PATTERN = /^app[A-Za-z0-9]+$/;
+const ENV_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+const PROJECT_TAG_PATTERN = /^[A-Za-z0-9_-]+$/;
+const TABLE_PREFIX_PATTERN = /^[a-z][a-z0-9_]*$/;
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+let ensureConnectionTablePromise: Promise<void> | null = null;
+
+async function ensureConnectionTable() {
+  if (ensureConnectionTablePromise) {
+    return ensureConnectionTablePromise;
+  }
+
+  ensureConnectionTablePromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS airtable_connections (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          name TEXT NOT NULL,
+          base_id TEXT NOT NULL UNIQUE,
+          token_ref TEXT,
+          project_tag TEXT NOT NULL UNIQUE,
+          table_prefix TEXT,
+          include_tables TEXT[] NOT NULL DEFAULT '{}',
+          exclude_tables TEXT[] NOT NULL DEFAULT '{}',
+          schedule TEXT,
+          enabled BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+        ALTER TABLE airtable_connections
+          ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ,
+          ADD COLUMN IF NOT EXISTS last_run_status TEXT,
+          ADD COLUMN IF NOT EXISTS last_run_id UUID,
+          ADD COLUMN IF NOT EXISTS last_error TEXT;
+      `);
+    } catch (error) {
+      console.error("Failed to ensure airtable_connections table", error);
+      ensureConnectionTablePromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureConnectionTablePromise;
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.AIRTABLE_TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new AirtableConnectionError(
+      "AIRTABLE_TOKEN_ENCRYPTION_KEY must be set to store Airtable tokens"
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+function encryptToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(":")}`;
+}
+
+function decryptToken(tokenRef: string): string {
+  const [iv, tag, ciphertext] = tokenRef
+    .slice(ENCRYPTED_PREFIX.length)
+    .split(":")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString(
+    "utf8"
+  );
+}
+
+function readToken(connection: AirtableConnection): string {
+  const ref = connection.token_ref;
+  if (!ref) {
+    return assertToken();
+  }
+  if (ref.startsWith(ENCRYPTED_PREFIX)) {
+    return decryptToken(ref);
+  }
+  const envName = ref.slice("env:".length);
+  const token = process.env[envName];
+  if (!token) {
+    throw new AirtableConnectionError(
+      `Environment variable ${envName} for base ${connection.base_id} is not set`
+    );
+  }
+  return token;
+}
+
+function toPublicConnection(connection: AirtableConnection): PublicAirtableConnection {
+  // Tokens never leave the server; callers only see where one comes from.
+  const { token_ref: ref, ...rest } = connection;
+  return {
+    ...rest,
+    token_source: !ref ? "default" : ref.startsWith(ENCRYPTED_PREFIX) ? "encrypted" : "env",
+    token_env: ref?.startsWith("env:") ? ref.slice("env:".length) : null,
+  };
+}
+
+function toTableList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new AirtableConnectionError(`${field} must be a list of table ids or names`);
+  }
+  return Array.from(new Set(value.map((item: string) => item.trim()).filter(Boolean)));
+}
+
+function validateSchedule(schedule: string): string {
+  try {
+    parseCron(schedule);
+  } catch (error) {
+    throw new AirtableConnectionError(
+      error instanceof Error ? error.message : `Invalid schedule "${schedule}"`
+    );
+  }
+  return schedule.trim().split(/\s+/).join(" ");
+}
+
+/** Column values for an insert or update; keys missing from `input` are left out. */
+function toColumnValues(input: AirtableConnectionInput): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  if (input.name !== undefined) {
+    const name = String(input.name).trim();
+    if (!name) throw new AirtableConnectionError("name must not be empty");
+    values.name = name;
+  }
+  if (input.baseId !== undefined) {
+    const baseId = String(input.baseId).trim();
+    if (!BASE_ID_PATTERN.test(baseId)) {
+      throw new AirtableConnectionError(`Invalid Airtable base id "${baseId}"`);
+    }
+    values.base_id = baseId;
+  }
+  if (input.projectTag !== undefined) {
+    const projectTag = String(input.projectTag).trim();
+    if (!PROJECT_TAG_PATTERN.test(projectTag)) {
+      throw new AirtableConnectionError(`Invalid project tag "${projectTag}"`);
+    }
+    if (projectTag === projectTags.defaultApp) {
+      throw new AirtableConnectionError(
+        "The default app project tag cannot be used for an Airtable connection"
+      );
+    }
+    values.project_tag = projectTag;
+  }
+  if (input.token !== undefined && input.tokenEnv !== undefined) {
+    throw new AirtableConnectionError("Provide either token or tokenEnv, not both");
+  }
+  if (input.token !== undefined) {
+    values.token_ref = input.token ? encryptToken(String(input.token).trim()) : null;
+  }
+  if (input.tokenEnv !== undefined) {
+    const envName = input.tokenEnv ? String(input.tokenEnv).trim() : "";
+    if (envName && !ENV_NAME_PATTERN.test(envName)) {
+      throw new AirtableConnectionError(`Invalid environment variable name "${envName}"`);
+    }
+    values.token_ref = envName ? `env:${envName}` : null;
+  }
+  if (input.tablePrefix !== undefined) {
+    const tablePrefix = input.tablePrefix ? String(input.tablePrefix).trim() : "";
+    if (tablePrefix && !TABLE_PREFIX_PATTERN.test(tablePrefix)) {
+      throw new AirtableConnectionError(
+        "tablePrefix may only contain lowercase letters, digits and underscores"
+      );
+    }
+    values.table_prefix = tablePrefix || null;
+  }
+  if (input.includeTables !== undefined) {
+    values.include_tables = toTableList(input.includeTables, "includeTables");
+  }
+  if (input.excludeTables !== undefined) {
+    values.exclude_tables = toTableList(input.excludeTables, "excludeTables");
+  }
+  if (input.schedule !== undefined) {
+    values.schedule = input.schedule ? validateSchedule(String(input.schedule)) : null;
+  }
+  if (input.enabled !== undefined) {
+    values.enabled = Boolean(input.enabled);
+  }
+
+  return values;
+}
+
+function toConnectionError(error: unknown): unknown {
+  const { code, constraint } = (error ?? {}) as { code?: string; constraint?: string };
+  if (code !== "23505") return error;
+  return new AirtableConnectionError(
+    constraint?.includes("project_tag")
+      ? "Another connection already uses this project tag"
+      : "A connection for this base already exists"
+  );
+}
+
+export async function listAirtableConnections(): Promise<PublicAirtableConnection[]> {
+  await ensureConnectionTable();
+  const { rows } = await query<AirtableConnection>(
+    `SELECT * FROM airtable_connections ORDER BY name ASC, base_id ASC;`
+  );
+  return rows.map(toPublicConnection);
+}
+
+export async function getAirtableConnection(
+  connectionId: string
+): Promise<PublicAirtableConnection | null> {
+  await ensureConnectionTable();
+  const { rows } = await query<AirtableConnection>(
+    `SELECT * FROM airtable_connections WHERE id::text = $1;`,
+    [connectionId]
+  );
+  return rows[0] ? toPublicConnection(rows[0]) : null;
+}
+
+export async function createAirtableConnection(
+  input: AirtableConnectionInput
+): Promise<PublicAirtableConnection> {
+  if (!input.baseId || !input.projectTag) {
+    throw new AirtableConnectionError("baseId and projectTag are required");
+  }
+  const values = toColumnValues({ ...input, name: input.name ?? input.baseId });
+  const columns = Object.keys(values);
+
+  await ensureConnectionTable();
+  try {
+    const { rows } = await query<AirtableConnection>(
+      `
+        INSERT INTO airtable_connections (${columns.join(", ")})
+        VALUES (${columns.map((_, index) => `$${index + 1}`).join(", ")})
+        RETURNING *;
+      `,
+      Object.values(values)
+    );
+    return toPublicConnection(rows[0]);
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+}
+
+export async function updateAirtableConnection(
+  connectionId: string,
+  input: AirtableConnectionInput
+): Promise<PublicAirtableConnection | null> {
+  const values = toColumnValues(input);
+  const columns = Object.keys(values);
+  if (!columns.length) {
+    return getAirtableConnection(connectionId);
+  }
+
+  await ensureConnectionTable();
+  try {
+    const { rows } = await query<AirtableConnection>(
+      `
+        UPDATE airtable_connections
+        SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(", ")},
+            updated_at = NOW()
+        WHERE id::text = $1
+        RETURNING *;
+      `,
+      [connectionId, ...Object.values(values)]
+    );
+    return rows[0] ? toPublicConnection(rows[0]) : null;
+  } catch (error) {
+    throw toConnectionError(error);
+  }
+}
+
+/** Removes the connection; tables it synced are kept. */
+export async function deleteAirtableConnection(connectionId: string): Promise<boolean> {
+  await ensureConnectionTable();
+  const { rowCount } = await query(
+    `DELETE FROM airtable_connections WHERE id::text = $1;`,
+    [connectionId]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function recordConnectionRun(
+  connectionId: string,
+  outcome: {
+    status: AirtableConnectionRunStatus;
+    runId?: string | null;
+    error?: unknown;
+  }
+) {
+  await ensureConnectionTable();
+  await query(
+    `
+      UPDATE airtable_connections
+      SET last_run_at = NOW(), last_run_status = $2, last_run_id = $3, last_error = $4
+      WHERE id = $1;
+    `,
+    [
+      connectionId,
+      outcome.status,
+      outcome.runId ?? null,
+      outcome.error === undefined
+        ? null
+        : outcome.error instanceof Error
+          ? outcome.error.message
+          : String(outcome.error),
+    ]
+  );
+}
+
+async function findConnection(
+  column: "base_id" | "project_tag",
+  value: string
+): Promise<AirtableConnection | null> {
+  await ensureConnectionTable();
+  const { rows } = await query<AirtableConnection>(
+    `SELECT * FROM airtable_connections WHERE ${column} = $1;`,
+    [value]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Finds the connection for `baseId` (or, without one, for `projectTag`).
+ * Bases without a connection sync with the deployment-wide token and base
+ * id, as they did before connections existed.
+ */
+export async function resolveAirtableConnection(options?: {
+  baseId?: string;
+  projectTag?: string;
+}): Promise<ResolvedAirtableConnection> {
+  const baseId = options?.baseId;
+  const projectTag = options?.projectTag;
+
+  let connection = baseId
+    ? await findConnection("base_id", baseId)
+    : projectTag
+      ? await findConnection("project_tag", projectTag)
+      : null;
+  if (!connection && !baseId) {
+    connection = await findConnection("base_id", AIRTABLE_BASE_ID);
+  }
+
+  if (!connection) {
+    return {
+      connectionId: null,
+      baseId: baseId ?? AIRTABLE_BASE_ID,
+      token: assertToken(),
+      projectTag: projectTag ?? projectTags.airtable,
+      tablePrefix: null,
+      includeTables: [],
+      excludeTables: [],
+    };
+  }
+
+  if (projectTag && projectTag !== connection.project_tag) {
+    throw new AirtableConnectionError(
+      `Base ${connection.base_id} syncs into project ${connection.project_tag}, not ${projectTag}`
+    );
+  }
+  if (!connection.enabled) {
+    throw new AirtableConnectionError(
+      `The Airtable connection for base ${connection.base_id} is disabled`
+    );
+  }
+
+  return {
+    connectionId: connection.id,
+    baseId: connection.base_id,
+    token: readToken(connection),
+    projectTag: connection.project_tag,
+    tablePrefix: connection.table_prefix,
+    includeTables: connection.include_tables,
+    excludeTables: connection.exclude_tables,
+  };
+}
+
+/**
+ * The tables a connection syncs. Lists match table ids or names; an empty
+ * include list means every table.
+ */
+export function selectConnectionTables(
+  tables: AirtableTable[],
+  connection: Pick<ResolvedAirtableConnection, "includeTables" | "excludeTables">
+): AirtableTable[] {
+  const matches = (list: string[], table: AirtableTable) =>
+    list.includes(table.id) || list.includes(table.name);
+  return tables.filter(
+    (table) =>
+      (!connection.includeTables.length || matches(connection.includeTables, table)) &&
+      !matches(connection.excludeTables, table)
+  );
+}
@@ -3,7 +3,17 @@
 
 import fs from "fs/promises";
 import path from "path";
-import { ColumnSpec, ColumnType, SelectOption } from "@/utils/tableUtils";
+import { ColumnSpec, ColumnType } from "@/utils/tableUtils";
+import {
+  createSelectOption,
+  evaluateBoolean,
+  findSelectOption,
+  inferFieldType,
+  parseNumber,
+  PERCENT_REGEX,
+  RECORD_ID_REGEX,
+  splitMultiValue,
+} from "@/utils/fieldInference";
 import type { TableMetadata } from "@/utils/schema";
 import type { TableRow as TableServiceRow } from "./tableService";
 
@@ -31,9 +41,6 @@ async function loadTableServiceModule(): Promise<TableServiceModule | null> {
 const DATA_DIR = path.join(process.cwd(), "airtable", "json");
 const AUTOMATIONS_DIR = path.join(process.cwd(), "airtable", "js");
 
-const RECORD_ID_REGEX = /^rec[0-9A-Za-z]{14}$/;
-const PERCENT_REGEX = /%$/;
-const SEPARATOR_REGEX = /[,;|]/;
 const DATABASE_ROW_BATCH_SIZE = 500;
 
 type GenericRow = Record<string, any>;
@@ -131,19 +138,6 @@ interface FieldInferenceResult {
   column: ColumnSpec<GenericRow>;
 }
 
-const SELECT_COLORS = [
-  "#0E7AFE",
-  "#E83A3A",
-  "#7A5BFF",
-  "#FF8A00",
-  "#00A985",
-  "#C23FFF",
-  "#FFB400",
-  "#0081F2",
-  "#F857A6",
-  "#3ECF8E"
-];
-
 async function generateAirtableProject(options?: {
   includeDatabaseTables?: boolean;
 }): Promise<AirtableProject> {
@@ -291,8 +285,7 @@ async function buildRawTableFromDatabase(
   const tableName = entry.table_name;
   if (!tableName) return null;
 
-  let offset = 0;
-  let totalRows = 0;
+  let cursor: string | null = null;
   let columns: ColumnSpec<TableServiceRow>[] | null = null;
   const records: GenericRow[] = [];
 
@@ -301,10 +294,11 @@ async function buildRawTableFromDatabase(
       const {
         columns: chunkColumns,
         rows,
-        totalRows: reportedTotal
+        nextCursor
       } = await getTableDataFn(tableName, {
         limit: DATABASE_ROW_BATCH_SIZE,
-        offset
+        cursor,
+        count: "none"
       });
 
       if (!columns || !columns.length) {
@@ -313,7 +307,6 @@ async function buildRawTableFromDatabase(
 
       const columnsToUse = columns ?? chunkColumns;
       if (!columnsToUse || !columnsToUse.length) {
-        totalRows = reportedTotal;
         break;
       }
 
@@ -327,9 +320,8 @@ async function buildRawTableFromDatabase(
         records.push(record);
       }
 
-      offset += rows.length;
-      totalRows = reportedTotal;
-    } while (offset < totalRows);
+      cursor = nextCursor;
+    } while (cursor);
   } catch {
     return null;
   }
@@ -542,133 +534,29 @@ function inferField(params: {
   isPrimaryId: boolean;
 }): FieldInferenceResult {
   const { fieldName, records, recordIdIndex, keyRegistry, isPrimaryId } = params;
-  const values = records.map((record) => record[fieldName]).filter((value) => value !== null && value !== undefined && value !== "");
-  const stringValues = values
-    .map((value) => (typeof value === "string" ? value.trim() : String(value)))
-    .filter((value) => value.length > 0);
-
-  const nonEmptyCount = values.length;
-  const emptyCount = records.length - nonEmptyCount;
-  const uniqueStrings = new Set(stringValues.map((value) => normalizeWhitespace(value)));
-  const uniqueValueCount = uniqueStrings.size;
-  const sampleValues = stringValues.slice(0, 5);
-  const avgLength =
-    stringValues.reduce((sum, value) => sum + value.length, 0) / Math.max(1, stringValues.length);
-
+  const inferred = inferFieldType(
+    fieldName,
+    records.map((record) => record[fieldName]),
+    recordIdIndex
+  );
+  const { config, width, sampleValues, nonEmptyCount, emptyCount, uniqueValueCount, notes, formattingRules } = inferred;
   const lowerField = fieldName.toLowerCase();
-  const notes: string[] = [];
-  const formattingRules: string[] = [];
 
-  let type: ColumnType = "singleLineText";
-  let readOnly = false;
-  let config: ColumnSpec<GenericRow>["config"] | undefined;
-  let width = 180;
+  let type: ColumnType = inferred.type;
+  let readOnly = inferred.readOnly;
   let relationship: FieldRelationship | undefined;
 
-  const selectOptions: SelectOption[] = [];
-
-  const boolMappings = stringValues.map((value) => evaluateBoolean(value)).filter((value) => value !== null);
-  const percentMatches = stringValues.filter((value) => PERCENT_REGEX.test(value) || lowerField.includes("percent") || lowerField.includes("%") || lowerField.includes("markup"));
-  const currencyMatches = stringValues.filter((value) => /^\s*[$€£]/.test(value) || lowerField.includes("price") || lowerField.includes("cost") || lowerField.includes("amount") || lowerField.includes("total"));
-
-  const numericParsed = stringValues.map((value) => parseNumber(value)).filter((value) => Number.isFinite(value));
-  const numericRatio = stringValues.length ? numericParsed.length / stringValues.length : 0;
-
-  const linkCandidates = stringValues.filter((value) => RECORD_ID_REGEX.test(value));
-  const linkRatio = stringValues.length ? linkCandidates.length / stringValues.length : 0;
-
-  const multiValueSplits = stringValues.map((value) => splitMultiValue(value)).filter((parts) => parts.length > 1);
-
-  if (nonEmptyCount === 0) {
-    type = "singleLineText";
-    notes.push("No sample data detected; defaulting to single line text.");
-  } else if (boolMappings.length === stringValues.length) {
-    type = "checkbox";
-    width = 110;
-    notes.push("All values map cleanly to boolean semantics.");
-  } else if (linkRatio >= 0.6 || (linkCandidates.length && lowerField.includes("record"))) {
-    type = "linkToRecord";
-    readOnly = true;
-    width = 220;
-    const targetTable = detectLinkTarget(linkCandidates, recordIdIndex);
+  if (type === "linkToRecord") {
     relationship = {
       fieldName,
-      fieldKey: "",
-      targetTable,
+      fieldKey: createFieldKey(fieldName, keyRegistry),
+      targetTable: inferred.linkTarget,
       type: "link",
-      confidence: linkRatio,
-      description: targetTable
-        ? `Values match Airtable record IDs from the ${targetTable} table.`
+      confidence: inferred.linkConfidence ?? 0,
+      description: inferred.linkTarget
+        ? `Values match Airtable record IDs from the ${inferred.linkTarget} table.`
         : "Values match Airtable record ID format."
     };
-    notes.push("Detected Airtable record IDs; treated as linked record field.");
-  } else if (detectDateConfidence(stringValues) > 0.6 || lowerField.includes("date")) {
-    type = "date";
-    width = 180;
-    notes.push("Values parse as dates.");
-  } else if (stringValues.every((value) => value.includes("@")) || lowerField.includes("email")) {
-    type = "email";
-    width = 220;
-    notes.push("All values contain '@'; treated as email field.");
-  } else if (stringValues.every((value) => /\d/.test(value) && value.length >= 7 && /^[\d\s().+-]+$/.test(value)) || lowerField.includes("phone")) {
-    type = "phone";
-    width = 170;
-    notes.push("Detected phone number patterns.");
-  } else if (stringValues.every((value) => value.includes("http://") || value.includes("https://")) || lowerField.includes("url")) {
-    type = "url";
-    width = 240;
-    formattingRules.push("Ensure values include protocol (https://).");
-  } else if (percentMatches.length >= Math.max(1, Math.floor(stringValues.length * 0.6))) {
-    type = "percent";
-    width = 140;
-    config = { percent: { decimals: detectDecimalPlaces(stringValues) } };
-    formattingRules.push("Store percent values as whole numbers (e.g., 45 for 45%).");
-    notes.push("Percent indicators detected in values or field name.");
-  } else if (currencyMatches.length >= Math.max(1, Math.floor(stringValues.length * 0.6))) {
-    type = "currency";
-    width = 160;
-    config = { currency: { currency: "USD", decimals: detectDecimalPlaces(stringValues) } };
-    formattingRules.push("Currency formatted as USD by default.");
-    notes.push("Currency symbols or price naming detected.");
-  } else if (numericRatio >= 0.8) {
-    type = "number";
-    width = 140;
-    config = { number: { decimals: detectDecimalPlaces(stringValues) } };
-    notes.push("Majority of values parse cleanly as numbers.");
-  } else if (multiValueSplits.length && averageSplitCount(multiValueSplits) > 1.2) {
-    type = "multipleSelect";
-    width = 220;
-    const flatOptions = multiValueSplits.flat().map((value) => sanitizeOptionValue(value));
-    const uniqueOptions = Array.from(new Set(flatOptions)).slice(0, 60);
-    selectOptions.push(...uniqueOptions.map((label, idx) => createSelectOption(label, idx)));
-    config = { multipleSelect: { options: selectOptions } };
-    formattingRules.push("Values normalized from comma or delimiter separated text.");
-    notes.push("Detected multi-value entries; modeled as multiple select.");
-  } else if (uniqueValueCount > 1 && uniqueValueCount <= 15 && avgLength < 45) {
-    type = "singleSelect";
-    width = 200;
-    const options = Array.from(uniqueStrings)
-      .slice(0, 60)
-      .map((label, idx) => createSelectOption(label, idx));
-    selectOptions.push(...options);
-    config = { singleSelect: { options } };
-    notes.push("Limited discrete value set detected; treated as single select.");
-  } else if (avgLength > 120 || lowerField.includes("description") || lowerField.includes("notes") || lowerField.includes("comment")) {
-    type = "longText";
-    width = 320;
-    notes.push("Average text length suggests long text field.");
-  }
-
-  if (!config && (type === "singleSelect" || type === "multipleSelect")) {
-    const options = Array.from(uniqueStrings)
-      .slice(0, 60)
-      .map((label, idx) => createSelectOption(label, idx));
-    if (type === "singleSelect") config = { singleSelect: { options } };
-    if (type === "multipleSelect") config = { multipleSelect: { options } };
-  }
-
-  if (relationship) {
-    relationship.fieldKey = createFieldKey(fieldName, keyRegistry);
   }
 
   if (!relationship && (lowerField.includes("composite key") || lowerField.includes("auto number") || lowerField.includes("calculation"))) {
@@ -775,29 +663,6 @@ function normalizeCellValue(value: unknown, meta: AirtableFieldMeta): unknown {
   }
 }
 
-function splitMultiValue(value: string): string[] {
-  if (!value) return [];
-  let normalized = value.trim();
-  normalized = normalized.replace(/^"+|"+$/g, "");
-  normalized = normalized.replace(/""/g, '"');
-  if (normalized.includes("\",\"")) {
-    return normalized
-      .split(/"\s*,\s*"/)
-      .map((part) => part.replace(/^"+|"+$/g, "").trim())
-      .filter(Boolean);
-  }
-  if (normalized.includes("\n")) {
-    return normalized
-      .split(/\r?\n/)
-      .map((part) => part.trim())
-      .filter(Boolean);
-  }
-  return normalized
-    .split(SEPARATOR_REGEX)
-    .map((part) => part.trim())
-    .filter(Boolean);
-}
-
 function resolveRowId(record: GenericRow, slug: string, index: number, primaryField: string | null): string {
   if (primaryField && typeof record[primaryField] === "string" && record[primaryField]) {
     return String(record[primaryField]);
@@ -808,64 +673,6 @@ function resolveRowId(record: GenericRow, slug: string, index: number, primaryFi
   return `${slug}-${index + 1}`;
 }
 
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function evaluateBoolean(value: string): boolean | null {
-  const normalized = value.trim().toLowerCase();
-  if (["true", "yes", "y", "1", "checked", "show"].includes(normalized)) return true;
-  if (["false", "no", "n", "0", "unchecked", "hide"].includes(normalized)) return false;
-  return null;
-}
-
-function parseNumber(value: string): number {
-  const sanitized = value.replace(/[^0-9.\-]/g, "");
-  if (!sanitized) return NaN;
-  const numeric = Number.parseFloat(sanitized);
-  return Number.isFinite(numeric) ? numeric : NaN;
-}
-
-function detectLinkTarget(values: string[], index: Map<string, string>): string | undefined {
-  const tally = new Map<string, number>();
-  for (const value of values) {
-    const table = index.get(value);
-    if (table) tally.set(table, (tally.get(table) ?? 0) + 1);
-  }
-  let top: string | undefined;
-  let best = 0;
-  for (const [tableName, score] of tally) {
-    if (score > best) {
-      best = score;
-      top = tableName;
-    }
-  }
-  return top;
-}
-
-function detectDecimalPlaces(values: string[]): number {
-  const decimals = values
-    .map((value) => {
-      const match = value.match(/\.([0-9]+)/);
-      return match ? match[1].length : 0;
-    })
-    .filter((count) => count > 0);
-  if (!decimals.length) return 0;
-  return Math.max(0, Math.min(4, Math.max(...decimals)));
-}
-
-function detectDateConfidence(values: string[]): number {
-  if (!values.length) return 0;
-  const valid = values.filter((value) => Number.isFinite(Date.parse(value))).length;
-  return valid / values.length;
-}
-
-function averageSplitCount(collection: string[][]): number {
-  if (!collection.length) return 0;
-  const total = collection.reduce((sum, parts) => sum + parts.length, 0);
-  return total / collection.length;
-}
-
 function createFieldKey(fieldName: string, registry: Set<string>): string {
   let candidate = fieldName.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_");
   if (!candidate) candidate = "field";
@@ -881,27 +688,6 @@ function createFieldKey(fieldName: string, registry: Set<string>): string {
   return key;
 }
 
-function createSelectOption(label: string, index: number): SelectOption {
-  const trimmed = label.trim();
-  const id = trimmed || `option_${index}`;
-  const color = SELECT_COLORS[index % SELECT_COLORS.length];
-  return { id, label: trimmed || id, color };
-}
-
-function sanitizeOptionValue(value: string): string {
-  return value.replace(/^"+|"+$/g, "").trim();
-}
-
-function findSelectOption(label: string, options: SelectOption[] | undefined) {
-  if (!options || !label) return undefined;
-  const lower = label.toLowerCase();
-  return options.find(
-    (option) =>
-      option.label.toLowerCase() === lower ||
-      (option.id && option.id.toLowerCase() === lower)
-  );
-}
-
 function slugify(value: string): string {
   return value
     .toLowerCase()
@@ -0,0 +1,459 @@
+import type { PoolClient } from "pg";
+import { loadColumnStorage, storagePlaceholder } from "./columnStorage";
+import { query, withTransaction } from "./db";
+import { emitTableChange } from "./realtime";
+import { rebuildLinksFromCache, removeRowLinks } from "./recordLinks";
+
+/**
+ * Local edits to synced Airtable tables wait in `airtable_outbound_queue`
+ * until they are pushed. Each row has at most one entry: later edits merge
+ * their columns into it and bump `revision`, so a push only clears an entry
+ * when nothing was edited while its request was in flight. Entries become
+ * conflicts when the Airtable record also changed since the last sync; those
+ * are left for review instead of being overwritten by either side.
+ */
+export const AIRTABLE_OUTBOUND_DDL = `
+  CREATE TABLE IF NOT EXISTS airtable_outbound_queue (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL,
+    row_id UUID NOT NULL,
+    operation TEXT NOT NULL,
+    column_keys TEXT[] NOT NULL DEFAULT '{}',
+    revision INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    conflict_reason TEXT,
+    remote_values JSONB,
+    remote_hash TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (table_name, row_id),
+    CONSTRAINT airtable_outbound_queue_table_fk
+      FOREIGN KEY (table_name) REFERENCES table_metadata(table_name) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS idx_airtable_outbound_queue_status
+    ON airtable_outbound_queue (status);
+`;
+
+export type OutboundOperation = "create" | "update" | "delete";
+
+export type OutboundConflictReason = "remoteChanged" | "remoteDeleted";
+
+export type AirtableOutboundEntry = {
+  id: string;
+  table_name: string;
+  row_id: string;
+  operation: OutboundOperation;
+  column_keys: string[];
+  revision: number;
+  status: "pending" | "failed" | "conflict";
+  attempts: number;
+  last_error: string | null;
+  conflict_reason: OutboundConflictReason | null;
+  remote_values: Record<string, unknown> | null;
+  remote_hash: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type OutboundConflict = {
+  rowId: string;
+  reason: OutboundConflictReason;
+  // Storage-ready column values of the Airtable record, keyed by column.
+  remoteValues: Record<string, unknown> | null;
+  remoteHash: string | null;
+};
+
+export type OutboundResolution = "keepLocal" | "keepRemote";
+
+const ENTRY_COLUMNS = `
+  id::text AS id, table_name, row_id::text AS row_id, operation, column_keys,
+  revision, status, attempts, last_error, conflict_reason, remote_values,
+  remote_hash, created_at, updated_at
+`;
+
+/**
+ * Queues a local row change for tables synced from Airtable; other tables are
+ * ignored. Deleting a row whose creation was never pushed just drops it.
+ */
+export async function enqueueOutboundChange(
+  client: PoolClient,
+  tableName: string,
+  rowId: string,
+  operation: OutboundOperation,
+  columnKeys: string[] = []
+) {
+  if (operation === "delete") {
+    const dropped = await client.query(
+      `
+        DELETE FROM airtable_outbound_queue
+        WHERE table_name = $1 AND row_id = $2 AND operation = 'create';
+      `,
+      [tableName, rowId]
+    );
+    if ((dropped.rowCount ?? 0) > 0) return;
+  }
+
+  // Deleting a row whose Airtable record is already gone settles the conflict.
+  await client.query(
+    `
+      INSERT INTO airtable_outbound_queue AS queue (table_name, row_id, operation, column_keys)
+      SELECT table_name, $2::uuid, $3, $4::text[]
+      FROM table_metadata
+      WHERE table_name = $1
+        AND source_file LIKE 'airtable://%'
+      ON CONFLICT (table_name, row_id)
+      DO UPDATE SET
+        operation = CASE WHEN queue.operation = 'create' THEN 'create' ELSE EXCLUDED.operation END,
+        column_keys = CASE
+          WHEN EXCLUDED.operation = 'delete' THEN '{}'::text[]
+          ELSE ARRAY(
+            SELECT DISTINCT key
+            FROM unnest(queue.column_keys || EXCLUDED.column_keys) AS key
+            ORDER BY key
+          )
+        END,
+        revision = queue.revision + 1,
+        status = CASE
+          WHEN queue.status = 'conflict'
+            AND NOT (EXCLUDED.operation = 'delete' AND queue.conflict_reason = 'remoteDeleted')
+          THEN 'conflict'
+          ELSE 'pending'
+        END,
+        updated_at = NOW();
+    `,
+    [tableName, rowId, operation, columnKeys]
+  );
+}
+
+/** Queue entries of the given tables, keyed by table and then row id. */
+export async function loadOutboundEntries(
+  client: PoolClient,
+  tableNames: string[]
+): Promise<Map<string, Map<string, AirtableOutboundEntry>>> {
+  const { rows } = await client.query<AirtableOutboundEntry>(
+    `
+      SELECT ${ENTRY_COLUMNS}
+      FROM airtable_outbound_queue
+      WHERE table_name = ANY($1::text[]);
+    `,
+    [tableNames]
+  );
+  const entries = new Map<string, Map<string, AirtableOutboundEntry>>();
+  for (const row of rows) {
+    const byRow = entries.get(row.table_name) ?? new Map();
+    byRow.set(row.row_id, row);
+    entries.set(row.table_name, byRow);
+  }
+  return entries;
+}
+
+/** Entries ready to push for a base: pending ones and earlier failures. */
+export async function listPushableEntries(
+  baseId: string
+): Promise<Array<AirtableOutboundEntry & { source_file: string }>> {
+  const { rows } = await query<AirtableOutboundEntry & { source_file: string }>(
+    `
+      SELECT entry.*, metadata.source_file
+      FROM (
+        SELECT ${ENTRY_COLUMNS}
+        FROM airtable_outbound_queue
+        WHERE status IN ('pending', 'failed')
+      ) entry
+      JOIN table_metadata metadata ON metadata.table_name = entry.table_name
+      WHERE metadata.source_file LIKE $1
+      ORDER BY entry.created_at ASC;
+    `,
+    [`airtable://${baseId}/%`]
+  );
+  return rows;
+}
+
+export async function markOutboundConflicts(
+  client: PoolClient,
+  tableName: string,
+  conflicts: OutboundConflict[]
+) {
+  for (const conflict of conflicts) {
+    await client.query(
+      `
+        UPDATE airtable_outbound_queue
+        SET status = 'conflict',
+            conflict_reason = $3,
+            remote_values = $4::jsonb,
+            remote_hash = $5,
+            updated_at = NOW()
+        WHERE table_name = $1 AND row_id = $2;
+      `,
+      [
+        tableName,
+        conflict.rowId,
+        conflict.reason,
+        conflict.remoteValues ? JSON.stringify(conflict.remoteValues) : null,
+        conflict.remoteHash,
+      ]
+    );
+  }
+}
+
+/**
+ * Removes pushed entries. An entry edited again since it was read keeps its
+ * newer columns queued and is left alone.
+ */
+export async function completeOutboundEntries(
+  client: PoolClient,
+  entries: Array<Pick<AirtableOutboundEntry, "id" | "revision">>
+) {
+  if (!entries.length) return;
+  await client.query(
+    `
+      DELETE FROM airtable_outbound_queue queue
+      USING unnest($1::uuid[], $2::int[]) AS done(id, revision)
+      WHERE queue.id = done.id AND queue.revision = done.revision;
+    `,
+    [entries.map((entry) => entry.id), entries.map((entry) => entry.revision)]
+  );
+}
+
+/**
+ * Once Airtable has created the record, the entry can only ever be an update:
+ * it keeps `linkKeys` (links that could not be sent with the create) and any
+ * columns edited since it was read, and is removed when there are none.
+ */
+export async function settleCreatedEntry(
+  client: PoolClient,
+  entry: Pick<AirtableOutboundEntry, "id" | "revision">,
+  linkKeys: string[]
+) {
+  await client.query(
+    `
+      UPDATE airtable_outbound_queue
+      SET operation = 'update',
+          column_keys = ARRAY(
+            SELECT DISTINCT key
+            FROM unnest(
+              CASE WHEN revision = $2 THEN '{}'::text[] ELSE column_keys END || $3::text[]
+            ) AS key
+            ORDER BY key
+          )
+      WHERE id = $1 AND operation = 'create';
+    `,
+    [entry.id, entry.revision, linkKeys]
+  );
+  await client.query(
+    `
+      DELETE FROM airtable_outbound_queue
+      WHERE id = $1 AND revision = $2 AND cardinality(column_keys) = 0;
+    `,
+    [entry.id, entry.revision]
+  );
+}
+
+export async function discardOutboundEntries(
+  client: PoolClient,
+  tableName: string,
+  rowIds: string[]
+) {
+  if (!rowIds.length) return;
+  await client.query(
+    `DELETE FROM airtable_outbound_queue WHERE table_name = $1 AND row_id = ANY($2::uuid[]);`,
+    [tableName, rowIds]
+  );
+}
+
+export async function failOutboundEntries(entryIds: string[], error: unknown) {
+  if (!entryIds.length) return;
+  await query(
+    `
+      UPDATE airtable_outbound_queue
+      SET status = 'failed',
+          attempts = attempts + 1,
+          last_error = $2,
+          updated_at = NOW()
+      WHERE id = ANY($1::uuid[]) AND status <> 'conflict';
+    `,
+    [entryIds, error instanceof Error ? error.message : String(error)]
+  );
+}
+
+/**
+ * Lists queue entries, newest first. Conflicts carry the current local row
+ * next to the Airtable values so both sides can be compared.
+ */
+export async function listOutboundEntries(options?: {
+  status?: AirtableOutboundEntry["status"];
+  tableName?: string;
+}): Promise<Array<AirtableOutboundEntry & { local_values?: Record<string, unknown> | null }>> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (options?.status) {
+    params.push(options.status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (options?.tableName) {
+    params.push(options.tableName);
+    conditions.push(`table_name = $${params.length}`);
+  }
+
+  const { rows } = await query<AirtableOutboundEntry>(
+    `
+      SELECT ${ENTRY_COLUMNS}
+      FROM airtable_outbound_queue
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY updated_at DESC;
+    `,
+    params
+  );
+
+  const conflictRowIds = new Map<string, string[]>();
+  rows
+    .filter((row) => row.status === "conflict")
+    .forEach((row) => {
+      conflictRowIds.set(row.table_name, [
+        ...(conflictRowIds.get(row.table_name) ?? []),
+        row.row_id,
+      ]);
+    });
+
+  const localRows = new Map<string, Record<string, unknown>>();
+  for (const [tableName, rowIds] of conflictRowIds) {
+    const { rows: current } = await query<Record<string, unknown>>(
+      `SELECT * FROM "${tableName}" WHERE id = ANY($1::uuid[]);`,
+      [rowIds]
+    );
+    current.forEach((row) => localRows.set(`${tableName}:${String(row.id)}`, row));
+  }
+
+  return rows.map((row) =>
+    row.status === "conflict"
+      ? { ...row, local_values: localRows.get(`${row.table_name}:${row.row_id}`) ?? null }
+      : row
+  );
+}
+
+async function writeRemoteValues(
+  client: PoolClient,
+  tableName: string,
+  rowId: string,
+  values: Record<string, unknown>
+) {
+  const storage = await loadColumnStorage(client, tableName);
+  const columns = Object.keys(values).filter((key) => storage.has(key));
+  const placeholders = columns.map((key, index) =>
+    storagePlaceholder(index + 2, storage.get(key) ?? "text")
+  );
+  await client.query(
+    `
+      INSERT INTO "${tableName}" (id${columns.map((key) => `, "${key}"`).join("")})
+      VALUES ($1${placeholders.map((placeholder) => `, ${placeholder}`).join("")})
+      ON CONFLICT (id) DO ${
+        columns.length
+          ? `UPDATE SET ${columns
+              .map((key) => `"${key}" = EXCLUDED."${key}"`)
+              .join(", ")}`
+          : "NOTHING"
+      };
+    `,
+    [rowId, ...columns.map((key) => values[key])]
+  );
+  await rebuildLinksFromCache(client, tableName);
+}
+
+/**
+ * Settles a conflict. `keepLocal` re-queues the local row so the next push
+ * overwrites (or re-creates) the Airtable record; `keepRemote` drops the local
+ * change and writes the Airtable values into the row. Returns null when the
+ * entry is not an open conflict.
+ */
+export async function resolveOutboundConflict(
+  entryId: string,
+  resolution: OutboundResolution
+): Promise<AirtableOutboundEntry | null> {
+  const outcome = await withTransaction(async (client) => {
+    const { rows } = await client.query<AirtableOutboundEntry>(
+      `
+        SELECT ${ENTRY_COLUMNS}
+        FROM airtable_outbound_queue
+        WHERE id = $1 AND status = 'conflict'
+        FOR UPDATE;
+      `,
+      [entryId]
+    );
+    const entry = rows[0];
+    if (!entry) return null;
+
+    const { table_name: tableName, row_id: rowId } = entry;
+    const clearMapping = () =>
+      client.query(
+        `DELETE FROM airtable_record_map WHERE table_name = $1 AND row_id = $2;`,
+        [tableName, rowId]
+      );
+    const dropEntry = () =>
+      client.query(`DELETE FROM airtable_outbound_queue WHERE id = $1;`, [entry.id]);
+
+    if (resolution === "keepLocal") {
+      if (entry.conflict_reason === "remoteDeleted") {
+        await clearMapping();
+        if (entry.operation === "delete") {
+          await dropEntry();
+          return { entry, change: null };
+        }
+        await client.query(
+          `
+            UPDATE airtable_outbound_queue
+            SET operation = 'create', column_keys = '{}', status = 'pending',
+                conflict_reason = NULL, remote_values = NULL, remote_hash = NULL,
+                revision = revision + 1, updated_at = NOW()
+            WHERE id = $1;
+          `,
+          [entry.id]
+        );
+        return { entry, change: null };
+      }
+      // Treat the Airtable values as seen, so the next push overwrites them.
+      await client.query(
+        `UPDATE airtable_record_map SET fields_hash = $3 WHERE table_name = $1 AND row_id = $2;`,
+        [tableName, rowId, entry.remote_hash]
+      );
+      await client.query(
+        `
+          UPDATE airtable_outbound_queue
+          SET status = 'pending', conflict_reason = NULL, remote_values = NULL,
+              remote_hash = NULL, revision = revision + 1, updated_at = NOW()
+          WHERE id = $1;
+        `,
+        [entry.id]
+      );
+      return { entry, change: null };
+    }
+
+    await dropEntry();
+    if (entry.conflict_reason === "remoteDeleted") {
+      await client.query(`DELETE FROM "${tableName}" WHERE id = $1;`, [rowId]);
+      await removeRowLinks(client, tableName, rowId);
+      await clearMapping();
+      return { entry, change: "rowDeleted" as const };
+    }
+    await writeRemoteValues(client, tableName, rowId, entry.remote_values ?? {});
+    await client.query(
+      `UPDATE airtable_record_map SET fields_hash = $3, synced_at = NOW() WHERE table_name = $1 AND row_id = $2;`,
+      [tableName, rowId, entry.remote_hash]
+    );
+    return {
+      entry,
+      change: entry.operation === "delete" ? ("rowCreated" as const) : ("rowUpdated" as const),
+    };
+  });
+
+  if (!outcome) return null;
+  if (outcome.change) {
+    emitTableChange({
+      table: outcome.entry.table_name,
+      type: outcome.change,
+      payload: { rowId: outcome.entry.row_id },
+      timestamp: new Date().toISOString(),
+    });
+  }
+  return outcome.entry;
+}
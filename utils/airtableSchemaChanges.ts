@@ -0,0 +1,525 @@
+import type { PoolClient } from "pg";
+import { query, withTransaction } from "./db";
+import { loadLinkFields, removeFieldLinks } from "./recordLinks";
+
+/**
+ * How a synced table takes Airtable schema changes: `auto` applies them,
+ * `keepLocal` adds new fields but never overwrites the local name, type or
+ * settings of an existing column, and `hold` queues every change for approval.
+ */
+export type AirtableSchemaPolicy = "auto" | "keepLocal" | "hold";
+
+export const AIRTABLE_SCHEMA_POLICIES: AirtableSchemaPolicy[] = [
+  "auto",
+  "keepLocal",
+  "hold",
+];
+
+export type AirtableSchemaChangeKind = "added" | "renamed" | "retyped" | "removed";
+
+export type AirtableSchemaChangeStatus = "pending" | "approved" | "rejected" | "applied";
+
+export type AirtableFieldSnapshot = {
+  name: string;
+  type: string;
+  mappedType: string;
+};
+
+/** The column a field was last synced into, and the field as it was then. */
+export type AirtableFieldMapping = {
+  table_name: string;
+  field_id: string;
+  column_key: string;
+  field_name: string;
+  field_type: string;
+  mapped_type: string;
+};
+
+export type AirtableSchemaChange = {
+  id: string;
+  table_name: string;
+  field_id: string;
+  column_key: string;
+  kind: AirtableSchemaChangeKind;
+  previous: AirtableFieldSnapshot | null;
+  current: AirtableFieldSnapshot | null;
+  status: AirtableSchemaChangeStatus;
+  created_at: string;
+  resolved_at: string | null;
+};
+
+export type SchemaField = {
+  fieldId: string;
+  columnKey: string;
+  snapshot: AirtableFieldSnapshot;
+};
+
+export type SchemaChangePlan = {
+  // Fields left out of this sync, i.e. additions that were not applied.
+  skippedFieldIds: Set<string>;
+  // Existing columns that keep their local name, type and settings.
+  preservedFieldIds: Set<string>;
+  // The field as the mapping should record it after this sync; changes that
+  // were not applied keep their old side so they are detected again.
+  mappedSnapshots: Map<string, AirtableFieldSnapshot>;
+  // Columns of removed fields to drop now.
+  removedColumns: AirtableFieldMapping[];
+  changes: Array<
+    Pick<AirtableSchemaChange, "field_id" | "column_key" | "kind" | "status">
+  >;
+};
+
+export const AIRTABLE_SCHEMA_DDL = `
+  CREATE TABLE IF NOT EXISTS airtable_field_map (
+    table_name TEXT NOT NULL REFERENCES table_metadata(table_name) ON DELETE CASCADE,
+    field_id TEXT NOT NULL,
+    column_key TEXT NOT NULL,
+    field_name TEXT NOT NULL,
+    field_type TEXT NOT NULL,
+    mapped_type TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (table_name, field_id)
+  );
+  CREATE TABLE IF NOT EXISTS airtable_schema_policies (
+    table_name TEXT PRIMARY KEY REFERENCES table_metadata(table_name) ON DELETE CASCADE,
+    policy TEXT NOT NULL DEFAULT 'auto',
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+  CREATE TABLE IF NOT EXISTS airtable_schema_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL REFERENCES table_metadata(table_name) ON DELETE CASCADE,
+    field_id TEXT NOT NULL,
+    column_key TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    previous JSONB,
+    current JSONB,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    resolved_at TIMESTAMPTZ
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_airtable_schema_changes_open
+    ON airtable_schema_changes (table_name, field_id, kind)
+    WHERE status IN ('pending', 'approved', 'rejected');
+`;
+
+const OPEN_STATUSES: AirtableSchemaChangeStatus[] = ["pending", "approved", "rejected"];
+
+let ensureSchemaTablesPromise: Promise<void> | null = null;
+
+async function ensureSchemaTables() {
+  if (ensureSchemaTablesPromise) {
+    return ensureSchemaTablesPromise;
+  }
+
+  ensureSchemaTablesPromise = (async () => {
+    try {
+      await query(AIRTABLE_SCHEMA_DDL);
+    } catch (error) {
+      console.error("Failed to ensure Airtable schema tables", error);
+      ensureSchemaTablesPromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureSchemaTablesPromise;
+}
+
+function sameSnapshot(
+  a: AirtableFieldSnapshot | null | undefined,
+  b: AirtableFieldSnapshot | null | undefined
+): boolean {
+  return (
+    a?.name === b?.name && a?.type === b?.type && a?.mappedType === b?.mappedType
+  );
+}
+
+function mappingSnapshot(mapping: AirtableFieldMapping): AirtableFieldSnapshot {
+  return {
+    name: mapping.field_name,
+    type: mapping.field_type,
+    mappedType: mapping.mapped_type,
+  };
+}
+
+export async function loadFieldMappings(
+  client: PoolClient,
+  tableNames: string[]
+): Promise<AirtableFieldMapping[]> {
+  const { rows } = await client.query<AirtableFieldMapping>(
+    `
+      SELECT table_name, field_id, column_key, field_name, field_type, mapped_type
+      FROM airtable_field_map
+      WHERE table_name = ANY($1::text[]);
+    `,
+    [tableNames]
+  );
+  return rows;
+}
+
+export async function loadSchemaPolicies(
+  client: PoolClient,
+  tableNames: string[]
+): Promise<Map<string, AirtableSchemaPolicy>> {
+  const { rows } = await client.query<{
+    table_name: string;
+    policy: AirtableSchemaPolicy;
+  }>(
+    `
+      SELECT table_name, policy
+      FROM airtable_schema_policies
+      WHERE table_name = ANY($1::text[]);
+    `,
+    [tableNames]
+  );
+  return new Map(rows.map((row) => [row.table_name, row.policy]));
+}
+
+/**
+ * Compares a table's Airtable fields with the fields it was last synced from
+ * and decides each change: an open decision (pending, approved or rejected)
+ * for the same target wins, otherwise the table's policy does. Decisions are
+ * written to `airtable_schema_changes`; the caller applies the plan and then
+ * saves the mappings with `saveFieldMappings`.
+ */
+export async function planSchemaChanges(
+  client: PoolClient,
+  params: {
+    tableName: string;
+    policy: AirtableSchemaPolicy;
+    fields: SchemaField[];
+    mappings: AirtableFieldMapping[];
+  }
+): Promise<SchemaChangePlan> {
+  const { tableName, policy, fields, mappings } = params;
+  const plan: SchemaChangePlan = {
+    skippedFieldIds: new Set(),
+    preservedFieldIds: new Set(),
+    mappedSnapshots: new Map(),
+    removedColumns: [],
+    changes: [],
+  };
+  // A table synced for the first time (or before mappings were kept) has
+  // nothing to compare against.
+  if (!mappings.length) {
+    fields.forEach((field) => plan.mappedSnapshots.set(field.fieldId, field.snapshot));
+    return plan;
+  }
+
+  const mappingsByFieldId = new Map(mappings.map((mapping) => [mapping.field_id, mapping]));
+  const detected: Array<
+    Pick<AirtableSchemaChange, "field_id" | "column_key" | "kind" | "previous" | "current">
+  > = [];
+  for (const field of fields) {
+    const mapping = mappingsByFieldId.get(field.fieldId);
+    if (!mapping) {
+      detected.push({
+        field_id: field.fieldId,
+        column_key: field.columnKey,
+        kind: "added",
+        previous: null,
+        current: field.snapshot,
+      });
+      continue;
+    }
+    const previous = mappingSnapshot(mapping);
+    if (previous.name !== field.snapshot.name) {
+      detected.push({
+        field_id: field.fieldId,
+        column_key: mapping.column_key,
+        kind: "renamed",
+        previous,
+        current: field.snapshot,
+      });
+    }
+    if (previous.type !== field.snapshot.type) {
+      detected.push({
+        field_id: field.fieldId,
+        column_key: mapping.column_key,
+        kind: "retyped",
+        previous,
+        current: field.snapshot,
+      });
+    }
+  }
+  const fieldIds = new Set(fields.map((field) => field.fieldId));
+  for (const mapping of mappings) {
+    if (fieldIds.has(mapping.field_id)) continue;
+    detected.push({
+      field_id: mapping.field_id,
+      column_key: mapping.column_key,
+      kind: "removed",
+      previous: mappingSnapshot(mapping),
+      current: null,
+    });
+  }
+
+  const { rows: openRows } = await client.query<AirtableSchemaChange>(
+    `
+      SELECT *
+      FROM airtable_schema_changes
+      WHERE table_name = $1 AND status = ANY($2::text[]);
+    `,
+    [tableName, OPEN_STATUSES]
+  );
+  const open = new Map(openRows.map((row) => [`${row.field_id}:${row.kind}`, row]));
+  const statuses = new Map<string, AirtableSchemaChangeStatus>();
+
+  for (const change of detected) {
+    const key = `${change.field_id}:${change.kind}`;
+    let decision = open.get(key);
+    open.delete(key);
+    if (decision && !sameSnapshot(decision.current, change.current)) {
+      // Airtable changed again since the decision was taken; decide anew.
+      await client.query(`DELETE FROM airtable_schema_changes WHERE id = $1;`, [
+        decision.id,
+      ]);
+      decision = undefined;
+    }
+
+    let status: AirtableSchemaChangeStatus;
+    if (decision) {
+      status = decision.status === "approved" ? "applied" : decision.status;
+      if (status === "applied") {
+        await client.query(
+          `
+            UPDATE airtable_schema_changes
+            SET status = 'applied', resolved_at = NOW()
+            WHERE id = $1;
+          `,
+          [decision.id]
+        );
+      }
+    } else {
+      status =
+        policy === "auto" || (policy === "keepLocal" && change.kind === "added")
+          ? "applied"
+          : policy === "keepLocal"
+            ? "rejected"
+            : "pending";
+      await client.query(
+        `
+          INSERT INTO airtable_schema_changes
+            (table_name, field_id, column_key, kind, previous, current, status, resolved_at)
+          VALUES ($1, $2, $3, $4, $5::jsonb, $6::jsonb, $7,
+                  CASE WHEN $7 = 'pending' THEN NULL ELSE NOW() END);
+        `,
+        [
+          tableName,
+          change.field_id,
+          change.column_key,
+          change.kind,
+          change.previous ? JSON.stringify(change.previous) : null,
+          change.current ? JSON.stringify(change.current) : null,
+          status,
+        ]
+      );
+    }
+
+    statuses.set(key, status);
+    plan.changes.push({
+      field_id: change.field_id,
+      column_key: change.column_key,
+      kind: change.kind,
+      status,
+    });
+    if (change.kind === "removed" && status === "applied") {
+      plan.removedColumns.push(mappingsByFieldId.get(change.field_id) as AirtableFieldMapping);
+    }
+  }
+
+  for (const field of fields) {
+    const mapping = mappingsByFieldId.get(field.fieldId);
+    if (!mapping) {
+      if (statuses.get(`${field.fieldId}:added`) === "applied") {
+        plan.mappedSnapshots.set(field.fieldId, field.snapshot);
+      } else {
+        plan.skippedFieldIds.add(field.fieldId);
+      }
+      continue;
+    }
+    const renamed = statuses.get(`${field.fieldId}:renamed`);
+    const retyped = statuses.get(`${field.fieldId}:retyped`);
+    const previous = mappingSnapshot(mapping);
+    plan.mappedSnapshots.set(field.fieldId, {
+      name: !renamed || renamed === "applied" ? field.snapshot.name : previous.name,
+      type: !retyped || retyped === "applied" ? field.snapshot.type : previous.type,
+      mappedType:
+        !retyped || retyped === "applied"
+          ? field.snapshot.mappedType
+          : previous.mappedType,
+    });
+    const held = [renamed, retyped].some((status) => status && status !== "applied");
+    const applied = renamed === "applied" || retyped === "applied";
+    if (held || (policy === "keepLocal" && !applied)) {
+      plan.preservedFieldIds.add(field.fieldId);
+    }
+  }
+
+  // What is left open no longer differs from Airtable.
+  const stale = Array.from(open.values(), (row) => row.id);
+  if (stale.length) {
+    await client.query(
+      `DELETE FROM airtable_schema_changes WHERE id = ANY($1::uuid[]);`,
+      [stale]
+    );
+  }
+
+  return plan;
+}
+
+/** Records the fields synced into the table as the plan describes them. */
+export async function saveFieldMappings(
+  client: PoolClient,
+  tableName: string,
+  fields: SchemaField[],
+  plan: SchemaChangePlan
+) {
+  const saved = fields.flatMap((field) => {
+    const snapshot = plan.mappedSnapshots.get(field.fieldId);
+    return snapshot ? [{ ...field, snapshot }] : [];
+  });
+  if (saved.length) {
+    await client.query(
+      `
+        INSERT INTO airtable_field_map
+          (table_name, field_id, column_key, field_name, field_type, mapped_type, updated_at)
+        SELECT $1, field_id, column_key, field_name, field_type, mapped_type, NOW()
+        FROM unnest($2::text[], $3::text[], $4::text[], $5::text[], $6::text[])
+          AS t(field_id, column_key, field_name, field_type, mapped_type)
+        ON CONFLICT (table_name, field_id)
+        DO UPDATE SET
+          column_key = EXCLUDED.column_key,
+          field_name = EXCLUDED.field_name,
+          field_type = EXCLUDED.field_type,
+          mapped_type = EXCLUDED.mapped_type,
+          updated_at = NOW();
+      `,
+      [
+        tableName,
+        saved.map((field) => field.fieldId),
+        saved.map((field) => field.columnKey),
+        saved.map((field) => field.snapshot.name),
+        saved.map((field) => field.snapshot.type),
+        saved.map((field) => field.snapshot.mappedType),
+      ]
+    );
+  }
+  if (plan.removedColumns.length) {
+    await client.query(
+      `DELETE FROM airtable_field_map WHERE table_name = $1 AND field_id = ANY($2::text[]);`,
+      [tableName, plan.removedColumns.map((mapping) => mapping.field_id)]
+    );
+  }
+}
+
+/** Drops the columns of fields whose removal was applied, with their links. */
+export async function dropRemovedColumns(
+  client: PoolClient,
+  tableName: string,
+  removed: AirtableFieldMapping[]
+) {
+  if (!removed.length) return;
+  const links = await loadLinkFields(client, tableName);
+  for (const { column_key: columnKey } of removed) {
+    const link = links.get(columnKey);
+    if (link) {
+      await removeFieldLinks(client, tableName, link);
+    }
+    await client.query(`ALTER TABLE "${tableName}" DROP COLUMN IF EXISTS "${columnKey}";`);
+    await client.query(
+      `DELETE FROM column_metadata WHERE table_name = $1 AND column_name = $2;`,
+      [tableName, columnKey]
+    );
+    await client.query(
+      `DELETE FROM column_type_settings WHERE table_name = $1 AND column_name = $2;`,
+      [tableName, columnKey]
+    );
+  }
+}
+
+export async function listSchemaChanges(options?: {
+  status?: AirtableSchemaChangeStatus;
+  tableName?: string;
+}): Promise<AirtableSchemaChange[]> {
+  await ensureSchemaTables();
+  const { rows } = await query<AirtableSchemaChange>(
+    `
+      SELECT *
+      FROM airtable_schema_changes
+      WHERE ($1::text IS NULL OR status = $1)
+        AND ($2::text IS NULL OR table_name = $2)
+      ORDER BY created_at DESC;
+    `,
+    [options?.status ?? null, options?.tableName ?? null]
+  );
+  return rows;
+}
+
+/**
+ * Approves or rejects a pending change (or reverses an earlier decision that
+ * is still open). Approved changes are applied by the table's next sync.
+ * Returns the change with the base it syncs from, or null when there is no
+ * open change with that id.
+ */
+export async function decideSchemaChange(
+  changeId: string,
+  decision: "approved" | "rejected"
+): Promise<(AirtableSchemaChange & { source_file: string | null }) | null> {
+  await ensureSchemaTables();
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<AirtableSchemaChange & { source_file: string | null }>(
+      `
+        UPDATE airtable_schema_changes AS change
+        SET status = $2, resolved_at = NOW()
+        FROM table_metadata AS meta
+        WHERE change.id::text = $1
+          AND change.status = ANY($3::text[])
+          AND meta.table_name = change.table_name
+        RETURNING change.*, meta.source_file;
+      `,
+      [changeId, decision, OPEN_STATUSES]
+    );
+    return rows[0] ?? null;
+  });
+}
+
+export async function listSchemaPolicies(): Promise<
+  Array<{ table_name: string; policy: AirtableSchemaPolicy; source_file: string | null }>
+> {
+  await ensureSchemaTables();
+  // Synced tables without a stored policy use `auto`.
+  const { rows } = await query<{
+    table_name: string;
+    policy: AirtableSchemaPolicy;
+    source_file: string | null;
+  }>(
+    `
+      SELECT meta.table_name, COALESCE(policy.policy, 'auto') AS policy, meta.source_file
+      FROM table_metadata AS meta
+      LEFT JOIN airtable_schema_policies AS policy ON policy.table_name = meta.table_name
+      WHERE meta.source_file LIKE 'airtable://%'
+      ORDER BY meta.table_name ASC;
+    `
+  );
+  return rows;
+}
+
+/** Returns false when the table is not synced from Airtable. */
+export async function setSchemaPolicy(
+  tableName: string,
+  policy: AirtableSchemaPolicy
+): Promise<boolean> {
+  await ensureSchemaTables();
+  const { rowCount } = await query(
+    `
+      INSERT INTO airtable_schema_policies (table_name, policy, updated_at)
+      SELECT table_name, $2, NOW()
+      FROM table_metadata
+      WHERE table_name = $1 AND source_file LIKE 'airtable://%'
+      ON CONFLICT (table_name)
+      DO UPDATE SET policy = EXCLUDED.policy, updated_at = NOW();
+    `,
+    [tableName, policy]
+  );
+  return (rowCount ?? 0) > 0;
+}
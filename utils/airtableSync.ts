@@ -1,113 +1,146 @@
 "use server";
 
-import { randomUUID } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import type { PoolClient } from "pg";
 import projectTags from "../config/projectTags.json" assert { type: "json" };
+import {
+  deleteAirtableRecords,
+  fetchAirtableRecords,
+  fetchAirtableRecordsById,
+  fetchAirtableTables,
+  writeAirtableRecords,
+  type AirtableField,
+  type AirtableRecord,
+  type AirtableTable,
+  type Logger,
+} from "./airtableApi";
+import {
+  resolveAirtableConnection,
+  selectConnectionTables,
+  type ResolvedAirtableConnection,
+} from "./airtableConnections";
+import {
+  AIRTABLE_OUTBOUND_DDL,
+  completeOutboundEntries,
+  discardOutboundEntries,
+  failOutboundEntries,
+  listPushableEntries,
+  loadOutboundEntries,
+  markOutboundConflicts,
+  settleCreatedEntry,
+  type AirtableOutboundEntry,
+  type OutboundConflict,
+} from "./airtableOutbound";
+import {
+  AIRTABLE_SCHEMA_DDL,
+  dropRemovedColumns,
+  loadFieldMappings,
+  loadSchemaPolicies,
+  planSchemaChanges,
+  saveFieldMappings,
+  type AirtableFieldMapping,
+  type AirtableSchemaChangeKind,
+  type AirtableSchemaChangeStatus,
+  type SchemaChangePlan,
+  type SchemaField,
+} from "./airtableSchemaChanges";
+import {
+  loadAttachmentFiles,
+  mirrorRemoteAttachments,
+  pruneDetachedAttachments,
+  saveAttachmentRecords,
+  toAttachmentValue,
+  type AttachmentFile,
+  type RemoteAttachment,
+} from "./attachmentService";
+import {
+  AirtableSyncBusyError,
+  createSyncRun,
+  createSyncRunLogger,
+  finishSyncRun,
+  updateSyncRunProgress,
+  type AirtableSyncRun,
+  type AirtableSyncTableProgress,
+  type AirtableSyncTrigger,
+} from "./airtableSyncRuns";
+import {
+  convertColumnStorage,
+  loadColumnStorage,
+  serializeForStorage,
+  storagePlaceholder,
+  storageTypeForColumn,
+  storageTypeFromUdt,
+  type StorageType,
+} from "./columnStorage";
+import {
+  collectPayloadChanges,
+  fetchWebhookPayloads,
+  getWebhookState,
+  saveWebhookCursor,
+} from "./airtableWebhooks";
+import { CHANGE_LOG_DDL } from "./changeLog";
 import { ensureExtensions } from "./db";
-import { withTransaction } from "./db";
+import { withAdvisoryLock, withTransaction } from "./db";
 import { emitTableChange } from "./realtime";
+import {
+  rebuildLinksFromCache,
+  RECORD_LINKS_DDL,
+  removeRowLinks,
+} from "./recordLinks";
 import { toColumnKey, toSlug } from "./schema";
-
-type Logger = (message: string) => void;
-
-type AirtableField = {
-  id: string;
-  name: string;
-  type: string;
-  description?: string | null;
-  options?: Record<string, unknown> | null;
+import { refreshRowTimestamps, trashTable } from "./tableService";
+
+export type AirtableSyncCounts = {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  // Records changed in Airtable while a local edit was waiting to be pushed.
+  conflicts: number;
 };
 
-type AirtableTable = {
-  id: string;
-  name: string;
-  primaryFieldId: string;
-  fields: AirtableField[];
-};
-
-type AirtableRecord = {
-  id: string;
-  createdTime: string;
-  fields: Record<string, unknown>;
+/**
+ * Schema changes a sync made (or, for a dry run, would make). Dropped tables
+ * include their row count since they are removed with `CASCADE`.
+ */
+export type AirtableSyncDiff = {
+  createdTables: string[];
+  droppedTables: Array<{ tableName: string; rowCount: number }>;
+  addedColumns: Array<{ tableName: string; columnKey: string; type: string }>;
+  alteredColumns: Array<{
+    tableName: string;
+    columnKey: string;
+    from: StorageType;
+    to: StorageType;
+  }>;
+  // Field-level changes found against the last synced schema, with the
+  // decision the table's policy (or an earlier review) took.
+  schemaChanges: Array<{
+    tableName: string;
+    fieldId: string;
+    columnKey: string;
+    kind: AirtableSchemaChangeKind;
+    status: AirtableSchemaChangeStatus;
+  }>;
 };
 
 export type AirtableSyncResult = {
   baseId: string;
   projectTag: string;
-  tables: Array<{
-    tableName: string;
-    displayName: string;
-    rowCount: number;
-  }>;
-};
-
-type LinkedRecordOption = {
-  id: string;
-  title: string;
-  meta?: Record<string, string>;
+  // Set when the run was persisted to `airtable_sync_runs`.
+  runId?: string;
+  dryRun: boolean;
+  totals: AirtableSyncCounts;
+  diff: AirtableSyncDiff;
+  tables: Array<
+    {
+      tableName: string;
+      displayName: string;
+      rowCount: number;
+    } & AirtableSyncCounts
+  >;
 };
 
-const AIRTABLE_API_BASE = "https://api.airtable.com/v0";
-const DEFAULT_AIRTABLE_BASE_ID = "appIBydxpXuSdssZW";
-const AIRTABLE_BASE_ID =
-  process.env.AIRTABLE_BASE_ID ??
-  process.env.BASE_ID ??
-  DEFAULT_AIRTABLE_BASE_ID;
-const AIRTABLE_TOKEN =
-  process.env.AIRTABLE_ACCESS_TOKEN ??
-  process.env.AIRTABLE_PAT ??
-  process.env.AIRTABLE_PERSONAL_ACCESS_TOKEN ??
-  process.env.AIRTABLE_API_KEY ??
-  "";
-
 const COLUMN_WIDTH = 220;
-const DEFAULT_TABLE_PROJECT_TAG = projectTags.airtable;
-
-type UndiciModule = typeof import("undici");
-
-let fetchReady: Promise<void> | null = null;
-
-function toDisplayString(value: unknown): string {
-  if (value === null || value === undefined) return "";
-  if (typeof value === "string") return value;
-  if (typeof value === "number" || typeof value === "boolean") {
-    return String(value);
-  }
-  if (Array.isArray(value)) {
-    return value.map((item) => toDisplayString(item)).filter(Boolean).join(", ");
-  }
-  if (typeof value === "object") {
-    const record = value as Record<string, unknown>;
-    if (typeof record.name === "string") return record.name;
-    if (typeof record.title === "string") return record.title;
-    if (typeof record.text === "string") return record.text;
-    try {
-      return JSON.stringify(record);
-    } catch {
-      return String(record);
-    }
-  }
-  return String(value);
-}
-
-function buildRecordMeta(
-  table: AirtableTable,
-  record: AirtableRecord,
-  primaryFieldId?: string
-): Record<string, string> | undefined {
-  const meta: Record<string, string> = {};
-  for (const field of table.fields) {
-    if (field.id === primaryFieldId) continue;
-    const raw = record.fields?.[field.name];
-    const text = toDisplayString(raw);
-    if (!text) continue;
-    meta[field.name] = text;
-    if (Object.keys(meta).length >= 3) {
-      break;
-    }
-  }
-  return Object.keys(meta).length ? meta : undefined;
-}
 
 function buildColumnConfigForField(
   field: AirtableField,
@@ -116,7 +149,7 @@ function buildColumnConfigForField(
     string,
     { table: AirtableTable; slug: string; primaryFieldName?: string }
   >,
-  recordSummariesByTableId: Map<string, LinkedRecordOption[]>
+  columnKeysByFieldId: Map<string, string>
 ): Record<string, unknown> | undefined {
   const config: Record<string, unknown> = {};
   const options = field.options ?? {};
@@ -216,10 +249,6 @@ function buildColumnConfigForField(
       const targetInfo = linkedTableId
         ? tableInfoById.get(linkedTableId)
         : undefined;
-      const records =
-        (linkedTableId
-          ? recordSummariesByTableId.get(linkedTableId)
-          : undefined) ?? [];
 
       config.linkToRecord = {
         targetTable: targetInfo?.slug ?? null,
@@ -234,7 +263,7 @@ function buildColumnConfigForField(
             : true,
         linkedFieldId:
           typeof linkOptions.inverseLinkFieldId === "string"
-            ? linkOptions.inverseLinkFieldId
+            ? columnKeysByFieldId.get(linkOptions.inverseLinkFieldId) ?? null
             : null,
         views: Array.isArray(linkOptions.recordLinkViewIdList)
           ? linkOptions.recordLinkViewIdList
@@ -246,7 +275,6 @@ function buildColumnConfigForField(
                   entry !== null
               )
           : [],
-        records,
       };
       break;
     }
@@ -258,77 +286,6 @@ function buildColumnConfigForField(
 }
 
 
-async function ensureFetch(): Promise<void> {
-  if (typeof fetch === "function") {
-    return;
-  }
-
-  if (!fetchReady) {
-    fetchReady = import("undici")
-      .then((mod) => {
-        const globalScope = globalThis as unknown as Record<string, unknown>;
-        const maybeFetch = globalScope["fetch"];
-        if (typeof maybeFetch !== "function") {
-          globalScope["fetch"] = mod.fetch as unknown;
-        }
-      })
-      .catch((error) => {
-        fetchReady = null;
-        throw new Error(
-          `Global fetch is not available and failed to load undici: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        );
-      });
-  }
-
-  await fetchReady;
-}
-
-async function fetchJson<T>(input: string | URL, token: string): Promise<T> {
-  await ensureFetch();
-
-  const response = await fetch(input, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      Accept: "application/json",
-    },
-    cache: "no-store",
-  });
-
-  const body = await response.text();
-  const target = input instanceof URL ? input.toString() : String(input);
-
-  if (!response.ok) {
-    throw new Error(
-      `HTTP ${response.status} ${response.statusText}\nURL: ${target}\nBody: ${
-        body || "<empty>"
-      }`
-    );
-  }
-
-  if (!body) {
-    return {} as T;
-  }
-
-  try {
-    return JSON.parse(body) as T;
-  } catch {
-    throw new Error(
-      `Failed to parse JSON from Airtable.\nURL: ${target}\nBody: ${body}`
-    );
-  }
-}
-
-function assertToken(): string {
-  if (!AIRTABLE_TOKEN) {
-    throw new Error(
-      "Missing Airtable access token. Set AIRTABLE_ACCESS_TOKEN (or AIRTABLE_PAT / AIRTABLE_API_KEY) in the environment."
-    );
-  }
-  return AIRTABLE_TOKEN;
-}
-
 async function ensureMetaTables(client: PoolClient) {
   await ensureExtensions(client);
 
@@ -359,6 +316,7 @@ async function ensureMetaTables(client: PoolClient) {
       CONSTRAINT column_metadata_table_fk
         FOREIGN KEY (table_name) REFERENCES table_metadata(table_name) ON DELETE CASCADE
     );
+    ALTER TABLE column_metadata ADD COLUMN IF NOT EXISTS permissions TEXT;
   `);
 
   await client.query(`
@@ -377,16 +335,26 @@ async function ensureMetaTables(client: PoolClient) {
     );
   `);
 
+  await client.query(CHANGE_LOG_DDL);
+
+  await client.query(RECORD_LINKS_DDL);
+
   await client.query(`
-    CREATE TABLE IF NOT EXISTS table_change_log (
-      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    CREATE TABLE IF NOT EXISTS airtable_record_map (
       table_name TEXT NOT NULL,
-      change_type TEXT NOT NULL,
-      payload JSONB NOT NULL,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      record_id TEXT NOT NULL,
+      row_id UUID NOT NULL,
+      fields_hash TEXT NOT NULL,
+      synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (table_name, record_id),
+      CONSTRAINT airtable_record_map_table_fk
+        FOREIGN KEY (table_name) REFERENCES table_metadata(table_name) ON DELETE CASCADE
     );
   `);
 
+  await client.query(AIRTABLE_OUTBOUND_DDL);
+  await client.query(AIRTABLE_SCHEMA_DDL);
+
   await client.query(`
     ALTER TABLE table_metadata
     ADD COLUMN IF NOT EXISTS project_tag TEXT NOT NULL DEFAULT '${projectTags.defaultApp}';
@@ -398,86 +366,6 @@ async function ensureMetaTables(client: PoolClient) {
   `);
 }
 
-async function fetchAirtableTables(
-  baseId: string,
-  token: string
-): Promise<AirtableTable[]> {
-  const url = `${AIRTABLE_API_BASE}/meta/bases/${encodeURIComponent(
-    baseId
-  )}/tables`;
-  const payload = await fetchJson<{ tables?: AirtableTable[] }>(url, token);
-
-  const maybeTables = (payload as { tables?: unknown }).tables;
-
-  if (!Array.isArray(maybeTables)) {
-    throw new Error(
-      `Unexpected response when loading Airtable metadata.\nURL: ${url}\nPayload: ${JSON.stringify(
-        payload,
-        null,
-        2
-      )}`
-    );
-  }
-
-  return maybeTables as AirtableTable[];
-}
-
-async function fetchAirtableRecords(
-  baseId: string,
-  tableId: string,
-  token: string,
-  logger?: Logger
-): Promise<AirtableRecord[]> {
-  let offset: string | undefined;
-  const records: AirtableRecord[] = [];
-
-  do {
-    const url = new URL(
-      `${AIRTABLE_API_BASE}/${encodeURIComponent(
-        baseId
-      )}/${encodeURIComponent(tableId)}`
-    );
-    url.searchParams.set("pageSize", "100");
-    if (offset) {
-      url.searchParams.set("offset", offset);
-    }
-
-    const payload = await fetchJson<{
-      records?: AirtableRecord[];
-      offset?: string;
-    }>(url, token);
-
-    if (
-      payload &&
-      Object.prototype.hasOwnProperty.call(payload, "records") &&
-      !Array.isArray(payload.records)
-    ) {
-      throw new Error(
-        `Unexpected records payload for table ${tableId}.\nURL: ${url.toString()}\nPayload: ${JSON.stringify(
-          payload,
-          null,
-          2
-        )}`
-      );
-    }
-
-    if (payload.records?.length) {
-      records.push(...payload.records);
-    }
-
-    offset = payload.offset;
-    if (logger) {
-      logger(
-        `Fetched ${records.length} records for table ${tableId}${
-          offset ? "..." : ""
-        }`
-      );
-    }
-  } while (offset);
-
-  return records;
-}
-
 function sanitizeValue(value: unknown): string | null {
   if (value === null || value === undefined) return null;
   if (Array.isArray(value)) {
@@ -494,6 +382,17 @@ function sanitizeValue(value: unknown): string | null {
   return String(value);
 }
 
+function toStorageValue(value: unknown, storage: StorageType): unknown {
+  if (storage === "text") return sanitizeValue(value);
+  try {
+    return serializeForStorage(value, storage);
+  } catch {
+    // Airtable occasionally returns error objects for computed fields; keep the
+    // row and leave the cell empty rather than failing the whole sync.
+    return null;
+  }
+}
+
 async function upsertTableMetadata(
   client: PoolClient,
   params: {
@@ -502,8 +401,8 @@ async function upsertTableMetadata(
     projectTag: string;
     source: string;
   }
-) {
-  await client.query(
+): Promise<boolean> {
+  const { rows } = await client.query<{ created: boolean }>(
     `
       INSERT INTO table_metadata (table_name, display_name, source_file, project_tag, created_at, updated_at)
       VALUES ($1, $2, $3, $4, NOW(), NOW())
@@ -512,10 +411,20 @@ async function upsertTableMetadata(
         display_name = EXCLUDED.display_name,
         source_file = EXCLUDED.source_file,
         project_tag = EXCLUDED.project_tag,
-        updated_at = NOW();
+        updated_at = NOW()
+      WHERE COALESCE(table_metadata.source_file, '') NOT LIKE 'airtable://%'
+        OR split_part(table_metadata.source_file, '/', 3) = split_part(EXCLUDED.source_file, '/', 3)
+      RETURNING (xmax = 0) AS created;
     `,
     [params.tableName, params.displayName, params.source, params.projectTag]
   );
+  if (!rows.length) {
+    // Another base already syncs into this table name.
+    throw new Error(
+      `Table ${params.tableName} is synced from another Airtable base; give this base's connection a table prefix`
+    );
+  }
+  return Boolean(rows[0].created);
 }
 
 async function ensureTableColumns(
@@ -534,18 +443,24 @@ async function ensureTableColumns(
       position: number;
       options?: Record<string, unknown> | null;
       config?: Record<string, unknown>;
+      preserveLocal?: boolean;
     }
   >
-) {
+): Promise<Pick<AirtableSyncDiff, "addedColumns" | "alteredColumns">> {
+  const changes: Pick<AirtableSyncDiff, "addedColumns" | "alteredColumns"> = {
+    addedColumns: [],
+    alteredColumns: [],
+  };
   await client.query(
     `CREATE TABLE IF NOT EXISTS "${tableName}" (id UUID PRIMARY KEY);`
   );
 
   const { rows: existingColumnRows } = await client.query<{
     column_name: string;
+    udt_name: string;
   }>(
     `
-      SELECT column_name
+      SELECT column_name, udt_name
       FROM information_schema.columns
       WHERE table_schema = 'public'
         AND table_name = $1;
@@ -553,18 +468,49 @@ async function ensureTableColumns(
     [tableName]
   );
 
-  const existingColumns = new Set(existingColumnRows.map((row) => row.column_name));
+  const existingColumns = new Map(
+    existingColumnRows.map((row) => [row.column_name, storageTypeFromUdt(row.udt_name)])
+  );
 
   for (const fieldName of fieldOrder) {
     const column = columnMap.get(fieldName);
     if (!column) continue;
 
-    if (!existingColumns.has(column.key)) {
+    const storageType = storageTypeForColumn(column.type);
+    const existingStorage = existingColumns.get(column.key);
+    if (existingStorage && column.preserveLocal) {
+      continue;
+    }
+    if (existingStorage && existingStorage !== storageType) {
+      // Rows are replaced right after this, so unconvertible values are not kept.
+      await convertColumnStorage(
+        client,
+        tableName,
+        column.key,
+        existingStorage,
+        storageType,
+        { allowDataLoss: true }
+      );
+      existingColumns.set(column.key, storageType);
+      changes.alteredColumns.push({
+        tableName,
+        columnKey: column.key,
+        from: existingStorage,
+        to: storageType,
+      });
+    }
+
+    if (!existingStorage) {
       try {
         await client.query(
-          `ALTER TABLE "${tableName}" ADD COLUMN "${column.key}" TEXT;`
+          `ALTER TABLE "${tableName}" ADD COLUMN "${column.key}" ${storageType};`
         );
-        existingColumns.add(column.key);
+        existingColumns.set(column.key, storageType);
+        changes.addedColumns.push({
+          tableName,
+          columnKey: column.key,
+          type: column.type,
+        });
       } catch (error) {
         if (
           !(
@@ -577,7 +523,7 @@ async function ensureTableColumns(
           throw error;
         }
         // Column already exists; proceed without failing the sync.
-        existingColumns.add(column.key);
+        existingColumns.set(column.key, storageType);
       }
     }
 
@@ -615,7 +561,10 @@ async function ensureTableColumns(
       ]
     );
 
+    // Readers take the type settings over `column_metadata.config`, so they
+    // carry the column config (link targets, select options) as well.
     const typeSettings = JSON.stringify({
+      ...(column.config ?? {}),
       airtableFieldType: column.originalType,
       mappedType: column.type,
       airtableOptions: column.options ?? null,
@@ -644,9 +593,179 @@ async function ensureTableColumns(
     `,
     [tableName, projectTag]
   );
+
+  return changes;
+}
+
+type RowChange = {
+  type: "rowCreated" | "rowUpdated" | "rowDeleted";
+  rowId: string;
+};
+
+type TableRowSyncResult = {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  changes: RowChange[];
+  conflicts: OutboundConflict[];
+  // Rows whose queued local delete Airtable has already carried out.
+  settledRowIds: string[];
+};
+
+type SyncColumn = {
+  key: string;
+  fieldId: string;
+  type: string;
+  originalType: string;
+  displayName: string;
+  position: number;
+  options?: Record<string, unknown> | null;
+  config?: Record<string, unknown>;
+  // The local column keeps its name, type and settings (see
+  // `AirtableSchemaPolicy`); only its values are synced.
+  preserveLocal?: boolean;
+};
+
+type FieldSequenceEntry = {
+  fieldId: string;
+  column: { key: string; displayName: string; type: string };
+};
+
+async function loadRecordRowIds(
+  client: PoolClient,
+  tableNames: string[]
+): Promise<Map<string, string>> {
+  const { rows } = await client.query<{ record_id: string; row_id: string }>(
+    `
+      SELECT record_id, row_id::text AS row_id
+      FROM airtable_record_map
+      WHERE table_name = ANY($1::text[]);
+    `,
+    [tableNames]
+  );
+  return new Map(rows.map((row) => [row.record_id, row.row_id]));
+}
+
+function buildFieldSequence(
+  columnOrder: string[],
+  columnMap: Map<string, { key: string; displayName: string; type: string }>
+): FieldSequenceEntry[] {
+  const fieldSequence: FieldSequenceEntry[] = [];
+  const seenColumns = new Set<string>();
+
+  for (const fieldId of columnOrder) {
+    const column = columnMap.get(fieldId);
+    if (!column || seenColumns.has(column.key)) {
+      continue;
+    }
+    seenColumns.add(column.key);
+    fieldSequence.push({
+      fieldId,
+      column: { key: column.key, displayName: column.displayName, type: column.type },
+    });
+  }
+
+  return fieldSequence;
+}
+
+function toRemoteAttachment(value: unknown): RemoteAttachment | null {
+  if (!value || typeof value !== "object") return null;
+  const { id, url, filename, type } = value as Record<string, unknown>;
+  if (typeof id !== "string" || typeof url !== "string") return null;
+  return {
+    id,
+    url,
+    filename: typeof filename === "string" ? filename : undefined,
+    type: typeof type === "string" ? type : undefined,
+  };
+}
+
+/**
+ * Storage values of a record in `fieldSequence` order, and the hash the record
+ * map keeps to tell whether the record changed since it was last synced.
+ * Mirrored attachments are stored with their local URLs, so the hash no
+ * longer changes every time Airtable hands out a fresh signed URL.
+ */
+function recordStorageValues(
+  record: AirtableRecord,
+  rowId: string,
+  fieldSequence: FieldSequenceEntry[],
+  columnStorage: StorageType[],
+  rowIdsByRecordId: Map<string, string>,
+  mirroredAttachments: Map<string, AttachmentFile>
+): {
+  values: unknown[];
+  hash: string;
+  attachments: Array<{ file: AttachmentFile; columnKey: string }>;
+} {
+  const attachments: Array<{ file: AttachmentFile; columnKey: string }> = [];
+  const values = fieldSequence.map(({ column }, columnIndex) => {
+    let raw = record.fields?.[column.displayName];
+    if (column.type === "linkToRecord" && Array.isArray(raw)) {
+      // Airtable links hold record ids; store the local row ids instead.
+      raw = raw.map((id) =>
+        typeof id === "string" ? rowIdsByRecordId.get(id) ?? id : id
+      );
+    }
+    if (column.type === "attachment" && Array.isArray(raw)) {
+      raw = raw.map((value) => {
+        const remote = toRemoteAttachment(value);
+        const file = remote ? mirroredAttachments.get(remote.id) : undefined;
+        if (!file) return value;
+        attachments.push({ file, columnKey: column.key });
+        return toAttachmentValue(file, rowId);
+      });
+    }
+    return toStorageValue(raw, columnStorage[columnIndex]);
+  });
+  const hash = createHash("sha1")
+    .update(JSON.stringify([fieldSequence.map(({ column }) => column.key), values]))
+    .digest("hex");
+  return { values, hash, attachments };
+}
+
+/**
+ * Copies the attachments of each plan's records into attachment storage
+ * before the sync transaction opens, so slow downloads never hold it. A dry
+ * run only looks up files mirrored earlier.
+ */
+async function mirrorPlanAttachments(
+  plans: TableSyncPlan[],
+  tablePrefix: string | null,
+  options: { download: boolean; logger?: Logger }
+): Promise<Map<string, Map<string, AttachmentFile>>> {
+  const mirrored = new Map<string, Map<string, AttachmentFile>>();
+  for (const { table, records } of plans) {
+    const fieldNames = table.fields
+      .filter((field) => mapFieldTypeToColumnType(field.type) === "attachment")
+      .map((field) => field.name);
+    const attachments = records.flatMap((record) =>
+      fieldNames.flatMap((name) => {
+        const value = record.fields?.[name];
+        return Array.isArray(value)
+          ? value
+              .map(toRemoteAttachment)
+              .filter((attachment): attachment is RemoteAttachment => attachment !== null)
+          : [];
+      })
+    );
+    if (!attachments.length) continue;
+    const slug = syncedTableSlug(table, tablePrefix);
+    mirrored.set(slug, await mirrorRemoteAttachments(slug, attachments, options));
+  }
+  return mirrored;
 }
 
-async function replaceTableRows(
+/**
+ * Upserts Airtable records by record id. Each row keeps the id it was first
+ * given and records whose values are unchanged since the last sync are left
+ * alone. For a complete record set, rows whose record disappeared from
+ * Airtable are deleted; otherwise only `destroyedRecordIds` are. Rows created
+ * locally (with no Airtable record) are not touched, and rows with a queued
+ * local change are kept as they are: if Airtable changed them too, a conflict
+ * is reported instead.
+ */
+async function upsertTableRows(
   client: PoolClient,
   tableName: string,
   columnOrder: string[],
@@ -660,51 +779,146 @@ async function replaceTableRows(
       displayName: string;
     }
   >,
-  records: AirtableRecord[]
-) {
-  await client.query(`DELETE FROM "${tableName}";`);
-  if (!records.length) return;
+  records: AirtableRecord[],
+  rowIdsByRecordId: Map<string, string>,
+  options: {
+    complete: boolean;
+    destroyedRecordIds?: string[];
+    outbound?: Map<string, AirtableOutboundEntry>;
+    attachments?: Map<string, AttachmentFile>;
+  }
+): Promise<TableRowSyncResult> {
+  const fieldSequence = buildFieldSequence(columnOrder, columnMap);
+  const columnList = fieldSequence.map(({ column }) => column.key);
+  const storage = await loadColumnStorage(client, tableName);
+  const columnStorage = columnList.map((key) => storage.get(key) ?? "text");
+  const outbound = options.outbound ?? new Map<string, AirtableOutboundEntry>();
+
+  const { rows: existingRows } = await client.query<{
+    record_id: string;
+    row_id: string;
+    fields_hash: string;
+    row_exists: boolean;
+  }>(
+    `
+      SELECT
+        map.record_id,
+        map.row_id::text AS row_id,
+        map.fields_hash,
+        (row_data.id IS NOT NULL) AS row_exists
+      FROM airtable_record_map map
+      LEFT JOIN "${tableName}" row_data ON row_data.id = map.row_id
+      WHERE map.table_name = $1;
+    `,
+    [tableName]
+  );
+  const existingByRecordId = new Map(
+    existingRows.map((row) => [row.record_id, row])
+  );
 
-  const fieldSequence: Array<{
-    fieldId: string;
-    column: { key: string; displayName: string };
-  }> = [];
-  const seenColumns = new Set<string>();
+  const result: TableRowSyncResult = {
+    inserted: 0,
+    updated: 0,
+    deleted: 0,
+    changes: [],
+    conflicts: [],
+    settledRowIds: [],
+  };
+
+  if (options.complete && !existingRows.length && records.length) {
+    // Tables from the earlier replace-everything sync have no record map yet;
+    // clear them once so their rows are not duplicated by the upsert below.
+    const { rows: legacyRows } = await client.query<{ id: string }>(
+      `DELETE FROM "${tableName}" WHERE NOT (id = ANY($1::uuid[])) RETURNING id::text AS id;`,
+      [Array.from(outbound.keys())]
+    );
+    if (legacyRows.length) {
+      await client.query(
+        `DELETE FROM record_links WHERE source_table = $1 OR target_table = $1;`,
+        [tableName]
+      );
+      result.deleted = legacyRows.length;
+      result.changes.push(
+        ...legacyRows.map((row) => ({ type: "rowDeleted" as const, rowId: row.id }))
+      );
+    }
+  }
+  const inserts: Array<{ rowId: string; values: unknown[] }> = [];
+  const mappings: Array<{ recordId: string; rowId: string; hash: string }> = [];
+  const attachmentRecords: Parameters<typeof saveAttachmentRecords>[0] = [];
+
+  for (const record of records) {
+    const existing = existingByRecordId.get(record.id);
+    const rowId =
+      existing?.row_id ?? rowIdsByRecordId.get(record.id) ?? randomUUID();
+    const { values, hash, attachments } = recordStorageValues(
+      record,
+      rowId,
+      fieldSequence,
+      columnStorage,
+      rowIdsByRecordId,
+      options.attachments ?? new Map()
+    );
 
-  for (const fieldId of columnOrder) {
-    const column = columnMap.get(fieldId);
-    if (!column || seenColumns.has(column.key)) {
+    const pending = existing ? outbound.get(existing.row_id) : undefined;
+    if (existing && pending) {
+      if (existing.fields_hash !== hash && pending.remote_hash !== hash) {
+        result.conflicts.push({
+          rowId,
+          reason: "remoteChanged",
+          remoteValues: Object.fromEntries(
+            columnList.map((column, index) => [column, values[index]])
+          ),
+          remoteHash: hash,
+        });
+      }
       continue;
     }
-    seenColumns.add(column.key);
-    fieldSequence.push({
-      fieldId,
-      column: { key: column.key, displayName: column.displayName },
-    });
-  }
 
-  const columnList = fieldSequence.map(({ column }) => column.key);
+    if (!existing || !existing.row_exists) {
+      inserts.push({ rowId, values });
+      mappings.push({ recordId: record.id, rowId, hash });
+      attachmentRecords.push(...attachments.map((entry) => ({ ...entry, rowId })));
+      continue;
+    }
+    if (existing.fields_hash === hash) continue;
+
+    if (columnList.length) {
+      const sets = columnList.map(
+        (column, index) =>
+          `"${column}" = ${storagePlaceholder(index + 2, columnStorage[index])}`
+      );
+      await client.query(
+        `UPDATE "${tableName}" SET ${sets.join(", ")} WHERE id = $1;`,
+        [rowId, ...values]
+      );
+    }
+    mappings.push({ recordId: record.id, rowId, hash });
+    attachmentRecords.push(...attachments.map((entry) => ({ ...entry, rowId })));
+    result.updated += 1;
+    result.changes.push({ type: "rowUpdated", rowId });
+  }
+  await saveAttachmentRecords(attachmentRecords, client);
 
   const columnsSql = ["id", ...columnList.map((column) => `"${column}"`)].join(
     ", "
   );
   const chunkSize = 200;
 
-  for (let start = 0; start < records.length; start += chunkSize) {
-    const slice = records.slice(start, start + chunkSize);
-    const values: Array<string | null> = [];
+  for (let start = 0; start < inserts.length; start += chunkSize) {
+    const slice = inserts.slice(start, start + chunkSize);
+    const values: unknown[] = [];
     const placeholders: string[] = [];
 
-    slice.forEach((record, sliceIndex) => {
-      const rowValues: Array<string | null> = [randomUUID()];
-      for (const { column } of fieldSequence) {
-        const raw = record.fields?.[column.displayName];
-        rowValues.push(sanitizeValue(raw));
-      }
-
+    slice.forEach((insert, sliceIndex) => {
+      const rowValues: unknown[] = [insert.rowId, ...insert.values];
       const offset = sliceIndex * (fieldSequence.length + 1);
       const placeholderRow = rowValues
-        .map((_, idx) => `$${offset + idx + 1}`)
+        .map((_, idx) =>
+          idx === 0
+            ? `$${offset + 1}`
+            : storagePlaceholder(offset + idx + 1, columnStorage[idx - 1])
+        )
         .join(", ");
       placeholders.push(`(${placeholderRow})`);
       values.push(...rowValues);
@@ -717,49 +931,156 @@ async function replaceTableRows(
       values
     );
   }
+  result.inserted = inserts.length;
+  result.changes.push(
+    ...inserts.map((insert) => ({ type: "rowCreated" as const, rowId: insert.rowId }))
+  );
+
+  for (let start = 0; start < mappings.length; start += chunkSize) {
+    const slice = mappings.slice(start, start + chunkSize);
+    await client.query(
+      `
+        INSERT INTO airtable_record_map (table_name, record_id, row_id, fields_hash)
+        SELECT $1, mapping.record_id, mapping.row_id::uuid, mapping.fields_hash
+        FROM unnest($2::text[], $3::text[], $4::text[])
+          AS mapping(record_id, row_id, fields_hash)
+        ON CONFLICT (table_name, record_id)
+        DO UPDATE SET row_id = EXCLUDED.row_id,
+                      fields_hash = EXCLUDED.fields_hash,
+                      synced_at = NOW();
+      `,
+      [
+        tableName,
+        slice.map((mapping) => mapping.recordId),
+        slice.map((mapping) => mapping.rowId),
+        slice.map((mapping) => mapping.hash),
+      ]
+    );
+  }
+
+  const currentRecordIds = new Set(records.map((record) => record.id));
+  const destroyedRecordIds = new Set(options.destroyedRecordIds ?? []);
+  const removed: typeof existingRows = [];
+  for (const row of existingRows) {
+    const gone = options.complete
+      ? !currentRecordIds.has(row.record_id)
+      : destroyedRecordIds.has(row.record_id);
+    if (!gone) continue;
+    const pending = outbound.get(row.row_id);
+    if (pending?.operation === "delete") {
+      result.settledRowIds.push(row.row_id);
+    } else if (pending) {
+      // Edited here but deleted in Airtable: keep the row until reviewed.
+      if (pending.conflict_reason !== "remoteDeleted") {
+        result.conflicts.push({
+          rowId: row.row_id,
+          reason: "remoteDeleted",
+          remoteValues: null,
+          remoteHash: null,
+        });
+      }
+      continue;
+    }
+    removed.push(row);
+  }
+  if (removed.length) {
+    const removedRowIds = removed.map((row) => row.row_id);
+    await client.query(`DELETE FROM "${tableName}" WHERE id = ANY($1::uuid[]);`, [
+      removedRowIds,
+    ]);
+    await client.query(
+      `DELETE FROM airtable_record_map WHERE table_name = $1 AND record_id = ANY($2::text[]);`,
+      [tableName, removed.map((row) => row.record_id)]
+    );
+    for (const row of removed) {
+      await removeRowLinks(client, tableName, row.row_id);
+      if (row.row_exists) {
+        result.deleted += 1;
+        result.changes.push({ type: "rowDeleted", rowId: row.row_id });
+      }
+    }
+  }
+
+  return result;
+}
+
+async function dropSyncedTable(
+  client: PoolClient,
+  tableName: string,
+  logger?: Logger
+): Promise<{ tableName: string; rowCount: number }> {
+  const { rows: countRows } = await client.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count FROM "${tableName}";`
+  );
+  await trashTable(client, tableName);
+  if (logger) {
+    logger(`Moved table ${tableName} to the trash (no longer present in Airtable)`);
+  }
+  return { tableName, rowCount: Number(countRows[0]?.count ?? 0) };
 }
 
 async function pruneMissingTables(
   client: PoolClient,
+  baseId: string,
   projectTag: string,
   existingTables: Set<string>,
   logger?: Logger
-) {
+): Promise<AirtableSyncDiff["droppedTables"]> {
+  // Only this base's tables are pruned: tables synced from other bases, and
+  // tables created or moved into the tag by hand, are left alone.
   const { rows } = await client.query<{ table_name: string }>(
     `
       SELECT table_name
       FROM table_metadata
-      WHERE project_tag = $1;
+      WHERE project_tag = $1
+        AND source_file LIKE $2;
     `,
-    [projectTag]
+    [projectTag, `airtable://${baseId}/%`]
   );
 
+  const dropped: AirtableSyncDiff["droppedTables"] = [];
   for (const row of rows) {
     if (existingTables.has(row.table_name)) continue;
-    await client.query(`DROP TABLE IF EXISTS "${row.table_name}" CASCADE;`);
-    await client.query(
-      `DELETE FROM table_metadata WHERE table_name = $1;`,
-      [row.table_name]
-    );
-    if (logger) {
-      logger(`Removed table ${row.table_name} (no longer present in Airtable)`);
-    }
+    dropped.push(await dropSyncedTable(client, row.table_name, logger));
   }
+  return dropped;
 }
 
-function mapFieldTypeToColumnType(fieldType: string): string {
-  switch (fieldType) {
-    case "singleLineText":
-    case "text":
-      return "singleLineText";
-    case "multilineText":
-    case "richText":
-      return "longText";
-    case "multipleAttachments":
-    case "singleAttachment":
-      return "attachment";
-    case "checkbox":
-      return "checkbox";
+async function dropSyncedTables(
+  client: PoolClient,
+  baseId: string,
+  tableIds: string[],
+  logger?: Logger
+): Promise<AirtableSyncDiff["droppedTables"]> {
+  const { rows } = await client.query<{ table_name: string }>(
+    `
+      SELECT table_name
+      FROM table_metadata
+      WHERE source_file = ANY($1::text[]);
+    `,
+    [tableIds.map((tableId) => `airtable://${baseId}/${tableId}`)]
+  );
+
+  const dropped: AirtableSyncDiff["droppedTables"] = [];
+  for (const row of rows) {
+    dropped.push(await dropSyncedTable(client, row.table_name, logger));
+  }
+  return dropped;
+}
+
+function mapFieldTypeToColumnType(fieldType: string): string {
+  switch (fieldType) {
+    case "singleLineText":
+    case "text":
+      return "singleLineText";
+    case "multilineText":
+    case "richText":
+      return "longText";
+    case "multipleAttachments":
+    case "singleAttachment":
+      return "attachment";
+    case "checkbox":
+      return "checkbox";
     case "multipleSelects":
       return "multipleSelect";
     case "singleSelect":
@@ -815,31 +1136,165 @@ function mapFieldTypeToColumnType(fieldType: string): string {
   }
 }
 
-export async function syncAirtableBase(options?: {
-  baseId?: string;
-  projectTag?: string;
-  logger?: Logger;
-}): Promise<AirtableSyncResult> {
-  const baseId = options?.baseId ?? AIRTABLE_BASE_ID;
-  const projectTag = options?.projectTag ?? DEFAULT_TABLE_PROJECT_TAG;
-  const logger = options?.logger;
-  const token = assertToken();
+// Fields Airtable computes itself; writes to them are rejected.
+const READ_ONLY_FIELD_TYPES = new Set([
+  "formula",
+  "rollup",
+  "count",
+  "lookup",
+  "multipleLookupValues",
+  "createdTime",
+  "lastModifiedTime",
+  "createdBy",
+  "lastModifiedBy",
+  "autoNumber",
+  "button",
+  "externalSyncSource",
+  "aiText",
+]);
+
+function toValueList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      /* fall through to a single value */
+    }
+  }
+  return [value];
+}
 
-  if (logger) {
-    logger(`Starting Airtable sync for base ${baseId}`);
+function toLabel(value: unknown): string {
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return String(record.label ?? record.name ?? record.id ?? "").trim();
   }
+  return value === null || value === undefined ? "" : String(value).trim();
+}
 
-  const tables = await fetchAirtableTables(baseId, token);
-  if (!tables.length) {
-    return { baseId, projectTag, tables: [] };
+/**
+ * Converts a stored column value into the shape Airtable's write API expects
+ * for `field`, the reverse of `mapFieldTypeToColumnType`. Returns undefined for
+ * fields that cannot be written. Links to rows that have no Airtable record
+ * yet are left out.
+ */
+function toAirtableFieldValue(
+  field: AirtableField,
+  value: unknown,
+  recordIdsByRowId: Map<string, string>
+): unknown {
+  if (READ_ONLY_FIELD_TYPES.has(field.type)) return undefined;
+  if (value === null || value === undefined || value === "") {
+    switch (field.type) {
+      case "checkbox":
+        return false;
+      case "multipleSelects":
+      case "multipleCollaborators":
+      case "multipleRecordLinks":
+      case "singleRecordLink":
+      case "multipleAttachments":
+        return [];
+      default:
+        return null;
+    }
   }
 
-  const tableInfoById = new Map<
-    string,
-    { table: AirtableTable; slug: string; primaryFieldName?: string }
-  >();
+  switch (field.type) {
+    case "number":
+    case "currency":
+    case "percent":
+    case "duration":
+    case "rating": {
+      const parsed = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    case "checkbox":
+      return value === true || value === "true";
+    case "date":
+    case "dateTime": {
+      const date = value instanceof Date ? value : new Date(String(value));
+      if (Number.isNaN(date.getTime())) return null;
+      return field.type === "date"
+        ? date.toISOString().slice(0, 10)
+        : date.toISOString();
+    }
+    case "singleSelect":
+      return toLabel(value) || null;
+    case "multipleSelects":
+      return toValueList(value).map(toLabel).filter(Boolean);
+    case "singleCollaborator":
+    case "multipleCollaborators": {
+      const users = toValueList(value)
+        .map((user) => {
+          if (user && typeof user === "object") {
+            const { id, email } = user as { id?: unknown; email?: unknown };
+            if (typeof id === "string" && id.startsWith("usr")) return { id };
+            if (typeof email === "string") return { email };
+            return null;
+          }
+          const text = toLabel(user);
+          if (!text) return null;
+          return text.includes("@") ? { email: text } : { id: text };
+        })
+        .filter((user): user is { id: string } | { email: string } => user !== null);
+      return field.type === "singleCollaborator" ? users[0] ?? null : users;
+    }
+    case "multipleRecordLinks":
+    case "singleRecordLink":
+      return toValueList(value)
+        .map((entry) =>
+          entry && typeof entry === "object" ? (entry as { id?: unknown }).id : entry
+        )
+        .filter((id): id is string => typeof id === "string")
+        .map((id) => recordIdsByRowId.get(id) ?? (id.startsWith("rec") ? id : null))
+        .filter((id): id is string => id !== null);
+    case "multipleAttachments":
+      return toValueList(value)
+        .filter(
+          (attachment): attachment is Record<string, unknown> =>
+            Boolean(attachment) && typeof attachment === "object"
+        )
+        .map((attachment) =>
+          typeof attachment.id === "string" && attachment.id.startsWith("att")
+            ? { id: attachment.id }
+            : { url: attachment.url, filename: attachment.filename ?? undefined }
+        )
+        .filter((attachment) => "id" in attachment || typeof attachment.url === "string");
+    case "barcode": {
+      const [barcode] = toValueList(value);
+      return barcode && typeof barcode === "object" ? barcode : { text: toLabel(barcode) };
+    }
+    default:
+      if (value instanceof Date) return value.toISOString();
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+  }
+}
+
+type TableInfo = { table: AirtableTable; slug: string; primaryFieldName?: string };
+
+function syncedTableSlug(table: AirtableTable, tablePrefix: string | null): string {
+  return toSlug(tablePrefix ? `${tablePrefix}_${table.name}` : table.name);
+}
+
+/**
+ * Local table names and column definitions for a base's schema. Column keys
+ * are assigned for every table up front so link fields can reference columns
+ * of tables that have not been written yet. Fields synced before keep the
+ * column recorded in `fieldMappings`, so a renamed field keeps its column.
+ */
+function buildSyncSchema(
+  tables: AirtableTable[],
+  tablePrefix: string | null,
+  fieldMappings: AirtableFieldMapping[]
+): {
+  tableInfoById: Map<string, TableInfo>;
+  columnMapsByTableId: Map<string, Map<string, SyncColumn>>;
+} {
+  const tableInfoById = new Map<string, TableInfo>();
   tables.forEach((table) => {
-    const slug = toSlug(table.name);
+    const slug = syncedTableSlug(table, tablePrefix);
     const primaryField =
       table.fields.find((field) => field.id === table.primaryFieldId) ?? null;
     tableInfoById.set(table.id, {
@@ -849,128 +1304,1091 @@ export async function syncAirtableBase(options?: {
     });
   });
 
-  const tableRecords = await Promise.all(
-    tables.map(async (table) => {
-      const records = await fetchAirtableRecords(baseId, table.id, token, logger);
-      return { table, records };
-    })
-  );
-
-  const recordSummariesByTableId = new Map<string, LinkedRecordOption[]>();
-  for (const entry of tableRecords) {
-    const { table, records } = entry;
-    const primaryFieldName =
-      tableInfoById.get(table.id)?.primaryFieldName ??
-      table.fields.find((field) => field.id === table.primaryFieldId)?.name ??
-      null;
-    const summaries = records.map((record) => {
-      const rawTitle = primaryFieldName
-        ? record.fields?.[primaryFieldName]
-        : undefined;
-      const titleCandidate = toDisplayString(rawTitle);
-      const title = titleCandidate || record.id;
-      const meta = buildRecordMeta(table, record, table.primaryFieldId);
-      return {
-        id: record.id,
-        title,
-        ...(meta ? { meta } : {}),
-      } as LinkedRecordOption;
+  const columnKeysByFieldId = new Map<string, string>();
+  for (const table of tables) {
+    const slug = tableInfoById.get(table.id)?.slug;
+    const mapped = new Map(
+      fieldMappings
+        .filter((mapping) => mapping.table_name === slug)
+        .map((mapping) => [mapping.field_id, mapping.column_key])
+    );
+    const usedColumnKeys = new Set(mapped.values());
+    table.fields.forEach((field) => {
+      const key = mapped.get(field.id) ?? toColumnKey(field.name, usedColumnKeys);
+      usedColumnKeys.add(key);
+      columnKeysByFieldId.set(field.id, key);
     });
-    recordSummariesByTableId.set(table.id, summaries);
   }
 
+  const columnMapsByTableId = new Map<string, Map<string, SyncColumn>>();
+  for (const table of tables) {
+    const columnMap = new Map<string, SyncColumn>();
+    table.fields.forEach((field, index) => {
+      const key = columnKeysByFieldId.get(field.id) as string;
+      const config = buildColumnConfigForField(
+        field,
+        table,
+        tableInfoById,
+        columnKeysByFieldId
+      );
+      columnMap.set(field.id, {
+        key,
+        fieldId: field.id,
+        type: mapFieldTypeToColumnType(field.type),
+        originalType: field.type,
+        displayName: field.name,
+        position: index + 1,
+        options: field.options
+          ? (field.options as Record<string, unknown>)
+          : null,
+        config,
+      });
+    });
+    columnMapsByTableId.set(table.id, columnMap);
+  }
+
+  return { tableInfoById, columnMapsByTableId };
+}
+
+function toSchemaFields(columnMap: Map<string, SyncColumn>): SchemaField[] {
+  return Array.from(columnMap.values(), (column) => ({
+    fieldId: column.fieldId,
+    columnKey: column.key,
+    snapshot: {
+      name: column.displayName,
+      type: column.originalType,
+      mappedType: column.type,
+    },
+  }));
+}
+
+/**
+ * The columns to sync once schema decisions are taken: held additions are
+ * left out and preserved columns keep the type they were last synced with.
+ */
+function applySchemaPlan(
+  columnMap: Map<string, SyncColumn>,
+  plan: SchemaChangePlan,
+  mappings: AirtableFieldMapping[]
+): Map<string, SyncColumn> {
+  const mappedTypes = new Map(
+    mappings.map((mapping) => [mapping.field_id, mapping.mapped_type])
+  );
+  const planned = new Map<string, SyncColumn>();
+  for (const [fieldId, column] of columnMap) {
+    if (plan.skippedFieldIds.has(fieldId)) continue;
+    planned.set(
+      fieldId,
+      plan.preservedFieldIds.has(fieldId)
+        ? {
+            ...column,
+            type: mappedTypes.get(fieldId) ?? column.type,
+            preserveLocal: true,
+          }
+        : column
+    );
+  }
+  return planned;
+}
+
+type TableSyncPlan = {
+  table: AirtableTable;
+  records: AirtableRecord[];
+  // A complete plan holds every record of the table; rows whose record is
+  // missing are deleted. Partial plans only delete `destroyedRecordIds`.
+  complete: boolean;
+  destroyedRecordIds?: string[];
+};
+
+function emptySyncDiff(): AirtableSyncDiff {
+  return {
+    createdTables: [],
+    droppedTables: [],
+    addedColumns: [],
+    alteredColumns: [],
+    schemaChanges: [],
+  };
+}
+
+function emptySyncResult(
+  baseId: string,
+  projectTag: string,
+  dryRun = false
+): AirtableSyncResult {
+  return {
+    baseId,
+    projectTag,
+    dryRun,
+    totals: { inserted: 0, updated: 0, deleted: 0, conflicts: 0 },
+    diff: emptySyncDiff(),
+    tables: [],
+  };
+}
+
+// Thrown at the end of a dry run's transaction so everything it wrote,
+// including dropped tables and altered columns, is rolled back.
+class DryRunRollback extends Error {}
+
+type SyncProgressReporter = (
+  progress: Record<string, AirtableSyncTableProgress>
+) => Promise<void>;
+
+/**
+ * Runs `fn` holding the base's sync lock, so syncs and pushes of one base never
+ * overlap across processes. A run created for `fn` is failed when the lock is
+ * taken.
+ */
+async function withBaseSyncLock<T>(
+  baseId: string,
+  runId: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const locked = await withAdvisoryLock(`airtable_sync:${baseId}`, fn);
+  if (locked.acquired) {
+    return locked.result;
+  }
+  const error = new AirtableSyncBusyError(baseId);
+  if (runId) {
+    await finishSyncRun(runId, { error });
+  }
+  throw error;
+}
+
+/**
+ * Runs `sync` as a persisted run in `airtable_sync_runs`: log lines and
+ * per-table progress are written as it goes, and the run is closed with the
+ * result summary or the error.
+ */
+async function recordSyncRun<T extends AirtableSyncResult>(
+  params: {
+    baseId: string;
+    projectTag: string;
+    kind: AirtableSyncRun["kind"];
+    trigger?: AirtableSyncTrigger;
+    attempt?: number;
+    dryRun: boolean;
+    runId?: string;
+    logger?: Logger;
+  },
+  sync: (hooks: { logger: Logger; onProgress: SyncProgressReporter }) => Promise<T>
+): Promise<T> {
+  const runId = params.runId ?? (await createSyncRun(params)).id;
+  const { log, flush } = createSyncRunLogger(runId, params.logger);
+  const onProgress: SyncProgressReporter = (progress) =>
+    updateSyncRunProgress(runId, progress).catch((error) =>
+      console.error(`Failed to record progress of sync run ${runId}`, error)
+    );
+
+  try {
+    const result = await sync({ logger: log, onProgress });
+    await flush();
+    await finishSyncRun(runId, {
+      summary: { totals: result.totals, tables: result.tables, diff: result.diff },
+    });
+    return { ...result, runId };
+  } catch (error) {
+    log(`Sync failed: ${error instanceof Error ? error.message : String(error)}`);
+    await flush();
+    await finishSyncRun(runId, { error });
+    throw error;
+  }
+}
+
+/**
+ * Writes the planned tables in one transaction. `tables` is every table the
+ * connection syncs so link fields resolve even when their target table is not
+ * part of the plan. A dry run does all the same work and rolls it back.
+ */
+async function applyTableSyncPlans(params: {
+  baseId: string;
+  projectTag: string;
+  tablePrefix: string | null;
+  tables: AirtableTable[];
+  plans: TableSyncPlan[];
+  prune: boolean;
+  droppedTableIds?: string[];
+  dryRun?: boolean;
+  logger?: Logger;
+  onProgress?: SyncProgressReporter;
+  beforeCommit?: (client: PoolClient) => Promise<void>;
+}): Promise<AirtableSyncResult> {
+  const { baseId, projectTag, tables, plans, logger } = params;
+  const dryRun = params.dryRun ?? false;
+
   const summary: AirtableSyncResult["tables"] = [];
+  const rowChanges: Array<{ table: string; change: RowChange }> = [];
+  const diff = emptySyncDiff();
+  const mirroredAttachments = await mirrorPlanAttachments(plans, params.tablePrefix, {
+    download: !dryRun,
+    logger,
+  });
+
+  try {
+    await withTransaction(async (client) => {
+      await ensureMetaTables(client);
+
+      const tableNames = tables.map((table) =>
+        syncedTableSlug(table, params.tablePrefix)
+      );
+      const fieldMappings = await loadFieldMappings(client, tableNames);
+      const schemaPolicies = await loadSchemaPolicies(client, tableNames);
+      const { tableInfoById, columnMapsByTableId } = buildSyncSchema(
+        tables,
+        params.tablePrefix,
+        fieldMappings
+      );
+
+      // Records keep the row id they were first synced with; new records get
+      // theirs now so links to them resolve regardless of table order.
+      const rowIdsByRecordId = await loadRecordRowIds(client, tableNames);
+      const outboundByTable = await loadOutboundEntries(client, tableNames);
+      for (const { records } of plans) {
+        records.forEach((record) => {
+          if (!rowIdsByRecordId.has(record.id)) {
+            rowIdsByRecordId.set(record.id, randomUUID());
+          }
+        });
+      }
+
+      const syncedTables = new Set<string>();
+
+      for (const plan of plans) {
+        const { table, records } = plan;
+        const slug = tableInfoById.get(table.id)?.slug as string;
+        const columnOrder = table.fields.map((field) => field.id);
+
+        const created = await upsertTableMetadata(client, {
+          tableName: slug,
+          displayName: table.name,
+          projectTag,
+          source: `airtable://${baseId}/${table.id}`,
+        });
+        if (created) diff.createdTables.push(slug);
+
+        const syncColumns = columnMapsByTableId.get(table.id) as Map<string, SyncColumn>;
+        const schemaFields = toSchemaFields(syncColumns);
+        const tableMappings = fieldMappings.filter(
+          (mapping) => mapping.table_name === slug
+        );
+        const schemaPlan = await planSchemaChanges(client, {
+          tableName: slug,
+          policy: schemaPolicies.get(slug) ?? "auto",
+          fields: schemaFields,
+          mappings: tableMappings,
+        });
+        diff.schemaChanges.push(
+          ...schemaPlan.changes.map((change) => ({
+            tableName: slug,
+            fieldId: change.field_id,
+            columnKey: change.column_key,
+            kind: change.kind,
+            status: change.status,
+          }))
+        );
+        const columnMap = applySchemaPlan(syncColumns, schemaPlan, tableMappings);
+
+        const columnChanges = await ensureTableColumns(
+          client,
+          slug,
+          projectTag,
+          columnOrder,
+          columnMap
+        );
+        diff.addedColumns.push(...columnChanges.addedColumns);
+        diff.alteredColumns.push(...columnChanges.alteredColumns);
+        await dropRemovedColumns(client, slug, schemaPlan.removedColumns);
+        await saveFieldMappings(client, slug, schemaFields, schemaPlan);
+        await refreshRowTimestamps(client, slug);
+
+        const rowSync = await upsertTableRows(
+          client,
+          slug,
+          columnOrder,
+          columnMap,
+          records,
+          rowIdsByRecordId,
+          {
+            complete: plan.complete,
+            destroyedRecordIds: plan.destroyedRecordIds,
+            outbound: outboundByTable.get(slug),
+            attachments: mirroredAttachments.get(slug),
+          }
+        );
+        await markOutboundConflicts(client, slug, rowSync.conflicts);
+        await discardOutboundEntries(client, slug, rowSync.settledRowIds);
+        const { rows: countRows } = await client.query<{ count: string }>(
+          `SELECT COUNT(*)::text AS count FROM "${slug}";`
+        );
+
+        syncedTables.add(slug);
+        summary.push({
+          tableName: slug,
+          displayName: table.name,
+          rowCount: Number(countRows[0]?.count ?? records.length),
+          inserted: rowSync.inserted,
+          updated: rowSync.updated,
+          deleted: rowSync.deleted,
+          conflicts: rowSync.conflicts.length,
+        });
+        rowSync.changes.forEach((change) => rowChanges.push({ table: slug, change }));
+        await params.onProgress?.({
+          [slug]: {
+            status: "applied",
+            records: records.length,
+            inserted: rowSync.inserted,
+            updated: rowSync.updated,
+            deleted: rowSync.deleted,
+            conflicts: rowSync.conflicts.length,
+          },
+        });
 
-  await withTransaction(async (client) => {
-    await ensureMetaTables(client);
-
-    const syncedTables = new Set<string>();
-
-    for (const entry of tableRecords) {
-      const { table, records } = entry;
-      const tableInfo = tableInfoById.get(table.id);
-      const slug = tableInfo?.slug ?? toSlug(table.name);
-      const columnMap = new Map<
-        string,
-        {
-          key: string;
-          fieldId: string;
-          type: string;
-          originalType: string;
-          displayName: string;
-          position: number;
-          options?: Record<string, unknown> | null;
-          config?: Record<string, unknown>;
+        if (logger) {
+          logger(
+            `Synced ${slug}: ${rowSync.inserted} inserted, ${rowSync.updated} updated, ${rowSync.deleted} deleted, ${rowSync.conflicts.length} conflicts`
+          );
         }
-      >();
-
-      const usedColumnKeys = new Set<string>();
-      table.fields.forEach((field, index) => {
-        const key = toColumnKey(field.name, usedColumnKeys);
-        const config = buildColumnConfigForField(
-          field,
-          table,
-          tableInfoById,
-          recordSummariesByTableId
+      }
+
+      for (const slug of syncedTables) {
+        await rebuildLinksFromCache(client, slug);
+      }
+
+      if (params.prune) {
+        diff.droppedTables.push(
+          ...(await pruneMissingTables(client, baseId, projectTag, syncedTables, logger))
         );
-        columnMap.set(field.id, {
-          key,
-          fieldId: field.id,
-          type: mapFieldTypeToColumnType(field.type),
-          originalType: field.type,
-          displayName: field.name,
-          position: index + 1,
-          options: field.options
-            ? (field.options as Record<string, unknown>)
-            : null,
-          config,
+      }
+      if (params.droppedTableIds?.length) {
+        diff.droppedTables.push(
+          ...(await dropSyncedTables(client, baseId, params.droppedTableIds, logger))
+        );
+      }
+
+      await params.beforeCommit?.(client);
+      if (dryRun) {
+        throw new DryRunRollback();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof DryRunRollback)) throw error;
+  }
+
+  // Emitted after commit so listeners never refetch rows that could still be
+  // rolled back.
+  const timestamp = new Date().toISOString();
+  for (const { table, change } of dryRun ? [] : rowChanges) {
+    emitTableChange({
+      table,
+      type: change.type,
+      payload: { rowId: change.rowId },
+      timestamp,
+    });
+  }
+
+  if (!dryRun) {
+    // Files of attachments removed in Airtable, of deleted rows and of dropped
+    // tables.
+    await pruneDetachedAttachments({
+      tables: [
+        ...summary.map((entry) => entry.tableName),
+        ...diff.droppedTables.map((entry) => entry.tableName),
+      ],
+    }).catch((error) => console.error("Failed to prune detached attachments", error));
+  }
+
+  const totals = summary.reduce<AirtableSyncCounts>(
+    (acc, entry) => ({
+      inserted: acc.inserted + entry.inserted,
+      updated: acc.updated + entry.updated,
+      deleted: acc.deleted + entry.deleted,
+      conflicts: acc.conflicts + entry.conflicts,
+    }),
+    { inserted: 0, updated: 0, deleted: 0, conflicts: 0 }
+  );
+
+  if (logger) {
+    logger(
+      `${dryRun ? "Dry run of" : "Completed"} Airtable sync for base ${baseId} (${summary.length} tables, ${totals.inserted} inserted, ${totals.updated} updated, ${totals.deleted} deleted, ${totals.conflicts} conflicts, ${diff.droppedTables.length} tables dropped)`
+    );
+  }
+
+  return { baseId, projectTag, dryRun, totals, diff, tables: summary };
+}
+
+export async function syncAirtableBase(options?: {
+  baseId?: string;
+  projectTag?: string;
+  logger?: Logger;
+  // Report what would change without writing anything.
+  dryRun?: boolean;
+  // Records into a run created earlier, e.g. by `startAirtableSync`.
+  runId?: string;
+  trigger?: AirtableSyncTrigger;
+  attempt?: number;
+}): Promise<AirtableSyncResult> {
+  const connection = await resolveAirtableConnection(options);
+  const { baseId, projectTag, token, tablePrefix } = connection;
+  const dryRun = options?.dryRun ?? false;
+
+  return withBaseSyncLock(baseId, options?.runId, () =>
+    recordSyncRun(
+      {
+        baseId,
+        projectTag,
+        kind: "full",
+        trigger: options?.trigger,
+        attempt: options?.attempt,
+        dryRun,
+        runId: options?.runId,
+        logger: options?.logger,
+      },
+      async ({ logger, onProgress }) => {
+        logger(`Starting Airtable sync for base ${baseId}${dryRun ? " (dry run)" : ""}`);
+
+        const tables = selectConnectionTables(
+          await fetchAirtableTables(baseId, token),
+          connection
+        );
+        if (!tables.length) {
+          return emptySyncResult(baseId, projectTag, dryRun);
+        }
+        await onProgress(
+          Object.fromEntries(
+            tables.map((table) => [
+              syncedTableSlug(table, tablePrefix),
+              { status: "pending" as const },
+            ])
+          )
+        );
+
+        const plans = await Promise.all(
+          tables.map(async (table) => {
+            const records = await fetchAirtableRecords(baseId, table.id, token, logger);
+            await onProgress({
+              [syncedTableSlug(table, tablePrefix)]: {
+                status: "fetched",
+                records: records.length,
+              },
+            });
+            return { table, records, complete: true };
+          })
+        );
+
+        return applyTableSyncPlans({
+          baseId,
+          projectTag,
+          tablePrefix,
+          tables,
+          plans,
+          prune: true,
+          dryRun,
+          logger,
+          onProgress,
+        });
+      }
+    )
+  );
+}
+
+/**
+ * Starts `syncAirtableBase` in the background and returns its run id right
+ * away; progress and the outcome are read from the run.
+ */
+export async function startAirtableSync(options?: {
+  baseId?: string;
+  projectTag?: string;
+  dryRun?: boolean;
+}): Promise<{ runId: string }> {
+  const { baseId, projectTag } = await resolveAirtableConnection(options);
+  const dryRun = options?.dryRun ?? false;
+
+  const run = await createSyncRun({ baseId, projectTag, kind: "full", dryRun });
+  syncAirtableBase({ baseId, projectTag, dryRun, runId: run.id }).catch((error) =>
+    console.error(`Airtable sync run ${run.id} failed`, error)
+  );
+  return { runId: run.id };
+}
+
+/**
+ * Applies the webhook payloads Airtable has queued since the stored cursor.
+ * Tables with schema changes are re-read in full; otherwise only the records
+ * named in the payloads are fetched or deleted. The cursor advances in the
+ * same transaction, so a failed run retries the same payloads.
+ */
+export async function syncAirtableWebhookPayloads(options?: {
+  baseId?: string;
+  logger?: Logger;
+}): Promise<AirtableSyncResult & { cursor: number; payloadCount: number }> {
+  const connection = await resolveAirtableConnection({ baseId: options?.baseId });
+  const { baseId, token, tablePrefix } = connection;
+
+  // Payloads are read inside the lock so two pings never apply the same
+  // cursor range at once.
+  return withBaseSyncLock(baseId, undefined, async () => {
+    const state = await getWebhookState(baseId);
+    if (!state) {
+      throw new Error(`No Airtable webhook registered for base ${baseId}`);
+    }
+    // A connection decides the tag; the tag stored at registration is only used
+    // for bases without one.
+    const projectTag = connection.connectionId
+      ? connection.projectTag
+      : state.project_tag ?? connection.projectTag;
+
+    const { payloads, cursor } = await fetchWebhookPayloads(state, token);
+    if (!payloads.length) {
+      return { ...emptySyncResult(baseId, projectTag), cursor, payloadCount: 0 };
+    }
+
+    return recordSyncRun(
+      { baseId, projectTag, kind: "webhook", dryRun: false, logger: options?.logger },
+      async ({ logger, onProgress }) => {
+        logger(`Applying ${payloads.length} webhook payloads for base ${baseId}`);
+
+        const changes = collectPayloadChanges(payloads);
+        const tables = selectConnectionTables(
+          await fetchAirtableTables(baseId, token),
+          connection
+        );
+        const plans: TableSyncPlan[] = [];
+
+        for (const table of tables) {
+          if (changes.schemaChangedTableIds.has(table.id)) {
+            const records = await fetchAirtableRecords(baseId, table.id, token, logger);
+            plans.push({ table, records, complete: true });
+            continue;
+          }
+          const upserted = Array.from(changes.upsertedRecordIds.get(table.id) ?? []);
+          const destroyed = Array.from(changes.destroyedRecordIds.get(table.id) ?? []);
+          if (!upserted.length && !destroyed.length) continue;
+          const records = upserted.length
+            ? await fetchAirtableRecordsById(baseId, table.id, upserted, token, logger)
+            : [];
+          plans.push({ table, records, complete: false, destroyedRecordIds: destroyed });
+        }
+
+        const result = await applyTableSyncPlans({
+          baseId,
+          projectTag,
+          tablePrefix,
+          tables,
+          plans,
+          prune: false,
+          droppedTableIds: Array.from(changes.destroyedTableIds),
+          logger,
+          onProgress,
+          beforeCommit: (client) => saveWebhookCursor(client, baseId, cursor),
         });
+
+        return { ...result, cursor, payloadCount: payloads.length };
+      }
+    );
+  });
+}
+
+export type AirtablePushResult = {
+  baseId: string;
+  created: number;
+  updated: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+};
+
+type PushEntry = AirtableOutboundEntry & { source_file: string };
+
+type PushContext = {
+  baseId: string;
+  token: string;
+  // Row <-> record ids across the base, kept current as records are created.
+  rowIdsByRecordId: Map<string, string>;
+  recordIdsByRowId: Map<string, string>;
+  hashesByRowId: Map<string, string>;
+  result: AirtablePushResult;
+  // Entries that were pushed, conflicted or otherwise need no retry.
+  settled: Set<string>;
+};
+
+type PushTable = {
+  table: AirtableTable;
+  slug: string;
+  columnMap: Map<string, SyncColumn>;
+  // Mirrored attachment files, so remote hashes match the ones a sync stores.
+  attachments: Map<string, AttachmentFile>;
+};
+
+async function readPushRows(slug: string, rowIds: string[]) {
+  return withTransaction(async (client) => {
+    const storage = await loadColumnStorage(client, slug);
+    const { rows } = await client.query<Record<string, unknown>>(
+      `SELECT * FROM "${slug}" WHERE id = ANY($1::uuid[]);`,
+      [rowIds]
+    );
+    return { rows: new Map(rows.map((row) => [String(row.id), row])), storage };
+  });
+}
+
+/**
+ * Airtable fields for a local row. With `columnKeys` set to "all" (a create),
+ * empty values and links are left out; links are returned in `linkKeys` so
+ * they can be sent once every new row has its record id.
+ */
+function toAirtableFields(
+  row: Record<string, unknown>,
+  target: PushTable,
+  columnKeys: string[] | "all",
+  recordIdsByRowId: Map<string, string>
+): { fields: Record<string, unknown>; linkKeys: string[] } {
+  const fields: Record<string, unknown> = {};
+  const linkKeys: string[] = [];
+
+  for (const field of target.table.fields) {
+    const column = target.columnMap.get(field.id);
+    if (!column || !(column.key in row)) continue;
+    if (columnKeys !== "all" && !columnKeys.includes(column.key)) continue;
+    const value = toAirtableFieldValue(field, row[column.key], recordIdsByRowId);
+    if (value === undefined) continue;
+    if (columnKeys === "all") {
+      const empty =
+        value === null || value === false || (Array.isArray(value) && !value.length);
+      if (empty) continue;
+      if (column.type === "linkToRecord") {
+        linkKeys.push(column.key);
+        continue;
+      }
+    }
+    fields[field.name] = value;
+  }
+
+  return { fields, linkKeys };
+}
+
+function remoteRecordState(
+  record: AirtableRecord,
+  target: PushTable,
+  storage: Map<string, StorageType>,
+  rowIdsByRecordId: Map<string, string>
+): { values: Record<string, unknown>; hash: string } {
+  const fieldSequence = buildFieldSequence(
+    target.table.fields.map((field) => field.id),
+    target.columnMap
+  );
+  const { values, hash } = recordStorageValues(
+    record,
+    rowIdsByRecordId.get(record.id) ?? record.id,
+    fieldSequence,
+    fieldSequence.map(({ column }) => storage.get(column.key) ?? "text"),
+    rowIdsByRecordId,
+    target.attachments
+  );
+  return {
+    values: Object.fromEntries(
+      fieldSequence.map(({ column }, index) => [column.key, values[index]])
+    ),
+    hash,
+  };
+}
+
+async function pushCreatedRows(
+  context: PushContext,
+  target: PushTable,
+  entries: PushEntry[],
+  deferred: PushEntry[]
+) {
+  const { rows, storage } = await readPushRows(
+    target.slug,
+    entries.map((entry) => entry.row_id)
+  );
+  const items = entries.flatMap((entry) => {
+    const row = rows.get(entry.row_id);
+    // The row was deleted after it was queued, which dropped the entry too.
+    if (!row) return [];
+    return [
+      {
+        entry,
+        ...toAirtableFields(row, target, "all", context.recordIdsByRowId),
+      },
+    ];
+  });
+
+  await writeAirtableRecords(
+    context.baseId,
+    target.table.id,
+    context.token,
+    items,
+    { method: "POST", toRecord: (item) => ({ fields: item.fields }) },
+    async (batch, records) => {
+      await withTransaction(async (client) => {
+        for (const [index, item] of batch.entries()) {
+          const record = records[index];
+          if (!record) continue;
+          const rowId = item.entry.row_id;
+          context.rowIdsByRecordId.set(record.id, rowId);
+          context.recordIdsByRowId.set(rowId, record.id);
+          const { hash } = remoteRecordState(
+            record,
+            target,
+            storage,
+            context.rowIdsByRecordId
+          );
+          context.hashesByRowId.set(rowId, hash);
+          await client.query(
+            `
+              INSERT INTO airtable_record_map (table_name, record_id, row_id, fields_hash)
+              VALUES ($1, $2, $3, $4)
+              ON CONFLICT (table_name, record_id)
+              DO UPDATE SET row_id = EXCLUDED.row_id,
+                            fields_hash = EXCLUDED.fields_hash,
+                            synced_at = NOW();
+            `,
+            [target.slug, record.id, rowId, hash]
+          );
+          await settleCreatedEntry(client, item.entry, item.linkKeys);
+        }
       });
+      for (const item of batch) {
+        context.settled.add(item.entry.id);
+        if (item.linkKeys.length) {
+          deferred.push({ ...item.entry, operation: "update", column_keys: item.linkKeys });
+        }
+      }
+      context.result.created += batch.length;
+    }
+  );
+}
 
-      const columnOrder = table.fields.map((field) => field.id);
+/**
+ * Fetches the Airtable records behind `entries` and splits off the ones that
+ * changed (or vanished) there since the last sync, recording them as
+ * conflicts. Returns the rest with their record ids.
+ */
+async function checkRemoteRecords(
+  context: PushContext,
+  target: PushTable,
+  entries: PushEntry[],
+  storage: Map<string, StorageType>
+): Promise<Array<{ entry: PushEntry; recordId: string | null }>> {
+  const recordIds = entries
+    .map((entry) => context.recordIdsByRowId.get(entry.row_id))
+    .filter((id): id is string => Boolean(id));
+  const remote = await fetchAirtableRecordsById(
+    context.baseId,
+    target.table.id,
+    recordIds,
+    context.token
+  );
+  const remoteById = new Map(remote.map((record) => [record.id, record]));
+
+  const checked: Array<{ entry: PushEntry; recordId: string | null }> = [];
+  const conflicts: OutboundConflict[] = [];
+  for (const entry of entries) {
+    const recordId = context.recordIdsByRowId.get(entry.row_id) ?? null;
+    const record = recordId ? remoteById.get(recordId) : undefined;
+    if (!recordId || !record) {
+      if (entry.operation === "delete") {
+        checked.push({ entry, recordId: null });
+      } else {
+        conflicts.push({
+          rowId: entry.row_id,
+          reason: "remoteDeleted",
+          remoteValues: null,
+          remoteHash: null,
+        });
+      }
+      continue;
+    }
+    const { values, hash } = remoteRecordState(
+      record,
+      target,
+      storage,
+      context.rowIdsByRecordId
+    );
+    if (hash !== context.hashesByRowId.get(entry.row_id)) {
+      conflicts.push({
+        rowId: entry.row_id,
+        reason: "remoteChanged",
+        remoteValues: values,
+        remoteHash: hash,
+      });
+      continue;
+    }
+    checked.push({ entry, recordId });
+  }
 
-      await upsertTableMetadata(client, {
-        tableName: slug,
-        displayName: table.name,
-        projectTag,
-        source: `airtable://${baseId}/${table.id}`,
+  if (conflicts.length) {
+    await withTransaction((client) =>
+      markOutboundConflicts(client, target.slug, conflicts)
+    );
+    const conflictRowIds = new Set(conflicts.map((conflict) => conflict.rowId));
+    entries
+      .filter((entry) => conflictRowIds.has(entry.row_id))
+      .forEach((entry) => context.settled.add(entry.id));
+    context.result.conflicts += conflicts.length;
+  }
+  return checked;
+}
+
+async function pushUpdatedRows(
+  context: PushContext,
+  target: PushTable,
+  entries: PushEntry[]
+) {
+  const { rows, storage } = await readPushRows(
+    target.slug,
+    entries.map((entry) => entry.row_id)
+  );
+  const present = entries.filter((entry) => rows.has(entry.row_id));
+  const checked = await checkRemoteRecords(context, target, present, storage);
+  const items = checked.map(({ entry, recordId }) => ({
+    entry,
+    recordId: recordId as string,
+    fields: toAirtableFields(
+      rows.get(entry.row_id) as Record<string, unknown>,
+      target,
+      entry.column_keys,
+      context.recordIdsByRowId
+    ).fields,
+  }));
+
+  // Only computed columns changed; there is nothing Airtable would accept.
+  const empty = items.filter((item) => !Object.keys(item.fields).length);
+  if (empty.length) {
+    await withTransaction((client) =>
+      completeOutboundEntries(client, empty.map((item) => item.entry))
+    );
+    empty.forEach((item) => context.settled.add(item.entry.id));
+  }
+
+  await writeAirtableRecords(
+    context.baseId,
+    target.table.id,
+    context.token,
+    items.filter((item) => Object.keys(item.fields).length),
+    {
+      method: "PATCH",
+      toRecord: (item) => ({ id: item.recordId, fields: item.fields }),
+    },
+    async (batch, records) => {
+      const recordsById = new Map(records.map((record) => [record.id, record]));
+      await withTransaction(async (client) => {
+        for (const item of batch) {
+          const record = recordsById.get(item.recordId);
+          if (!record) continue;
+          const { hash } = remoteRecordState(
+            record,
+            target,
+            storage,
+            context.rowIdsByRecordId
+          );
+          context.hashesByRowId.set(item.entry.row_id, hash);
+          await client.query(
+            `
+              UPDATE airtable_record_map
+              SET fields_hash = $3, synced_at = NOW()
+              WHERE table_name = $1 AND record_id = $2;
+            `,
+            [target.slug, item.recordId, hash]
+          );
+        }
+        await completeOutboundEntries(
+          client,
+          batch.map((item) => item.entry)
+        );
       });
+      batch.forEach((item) => context.settled.add(item.entry.id));
+      context.result.updated += batch.length;
+    }
+  );
+}
 
-      await ensureTableColumns(
+async function pushDeletedRows(
+  context: PushContext,
+  target: PushTable,
+  entries: PushEntry[]
+) {
+  const storage = await withTransaction((client) =>
+    loadColumnStorage(client, target.slug)
+  );
+  const checked = await checkRemoteRecords(context, target, entries, storage);
+
+  const forget = async (items: typeof checked) => {
+    await withTransaction(async (client) => {
+      await client.query(
+        `DELETE FROM airtable_record_map WHERE table_name = $1 AND row_id = ANY($2::uuid[]);`,
+        [target.slug, items.map((item) => item.entry.row_id)]
+      );
+      await completeOutboundEntries(
         client,
-        slug,
-        projectTag,
-        columnOrder,
-        columnMap
+        items.map((item) => item.entry)
       );
+    });
+    items.forEach((item) => context.settled.add(item.entry.id));
+  };
+
+  // Already gone from Airtable.
+  const missing = checked.filter((item) => !item.recordId);
+  if (missing.length) await forget(missing);
+
+  const items = checked.filter((item) => item.recordId);
+  const itemsByRecordId = new Map(items.map((item) => [item.recordId as string, item]));
+  await deleteAirtableRecords(
+    context.baseId,
+    target.table.id,
+    context.token,
+    Array.from(itemsByRecordId.keys()),
+    async (recordIds) => {
+      await forget(recordIds.map((id) => itemsByRecordId.get(id) as (typeof items)[number]));
+      context.result.deleted += recordIds.length;
+    }
+  );
+}
 
-      await replaceTableRows(client, slug, columnOrder, columnMap, records);
+/**
+ * Pushes queued local edits of a base's tables to Airtable: creates first so
+ * links to new rows resolve, then updates and deletes. A record that changed
+ * in Airtable since the last sync is not overwritten; its entry becomes a
+ * conflict. Entries of a failed request stay queued for the next push.
+ */
+export async function pushAirtableChanges(options?: {
+  baseId?: string;
+  logger?: Logger;
+}): Promise<AirtablePushResult> {
+  const connection = await resolveAirtableConnection({ baseId: options?.baseId });
+  return withBaseSyncLock(connection.baseId, undefined, () =>
+    pushBaseChanges(connection, options?.logger)
+  );
+}
 
-      syncedTables.add(slug);
-      summary.push({
-        tableName: slug,
-        displayName: table.name,
-        rowCount: records.length,
-      });
+async function pushBaseChanges(
+  connection: ResolvedAirtableConnection,
+  logger?: Logger
+): Promise<AirtablePushResult> {
+  const { baseId, token } = connection;
+  const result: AirtablePushResult = {
+    baseId,
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    conflicts: 0,
+    failed: 0,
+  };
+
+  const entries: PushEntry[] = await listPushableEntries(baseId);
+  if (!entries.length) {
+    return result;
+  }
+  if (logger) {
+    logger(`Pushing ${entries.length} local changes to base ${baseId}`);
+  }
 
-      emitTableChange({
-        table: slug,
-        type: "rowUpdated",
-        payload: { rowId: "*", values: {} },
-        timestamp: new Date().toISOString(),
-      });
+  const tables = selectConnectionTables(
+    await fetchAirtableTables(baseId, token),
+    connection
+  );
+  const tableNames = tables.map((table) =>
+    syncedTableSlug(table, connection.tablePrefix)
+  );
+  const { mappings, fieldMappings } = await withTransaction(async (client) => {
+    await client.query(AIRTABLE_SCHEMA_DDL);
+    const { rows } = await client.query<{
+      record_id: string;
+      row_id: string;
+      fields_hash: string;
+    }>(
+      `
+        SELECT record_id, row_id::text AS row_id, fields_hash
+        FROM airtable_record_map
+        WHERE table_name = ANY($1::text[]);
+      `,
+      [tableNames]
+    );
+    return {
+      mappings: rows,
+      fieldMappings: await loadFieldMappings(client, tableNames),
+    };
+  });
+  const { tableInfoById, columnMapsByTableId } = buildSyncSchema(
+    tables,
+    connection.tablePrefix,
+    fieldMappings
+  );
+  const context: PushContext = {
+    baseId,
+    token,
+    rowIdsByRecordId: new Map(mappings.map((row) => [row.record_id, row.row_id])),
+    recordIdsByRowId: new Map(mappings.map((row) => [row.row_id, row.record_id])),
+    hashesByRowId: new Map(mappings.map((row) => [row.row_id, row.fields_hash])),
+    result,
+    settled: new Set(),
+  };
+
+  const sourcePrefix = `airtable://${baseId}/`;
+  const entriesByTableId = new Map<string, PushEntry[]>();
+  for (const entry of entries) {
+    const tableId = entry.source_file.slice(sourcePrefix.length);
+    entriesByTableId.set(tableId, [...(entriesByTableId.get(tableId) ?? []), entry]);
+  }
+
+  const deferred = new Map<string, PushEntry[]>();
+  const pushPhase = async (
+    operation: "create" | "update" | "delete",
+    push: (target: PushTable, entries: PushEntry[]) => Promise<void>
+  ) => {
+    for (const [tableId, tableEntries] of entriesByTableId) {
+      const phaseEntries = [
+        ...tableEntries.filter((entry) => entry.operation === operation),
+        ...(operation === "update" ? deferred.get(tableId) ?? [] : []),
+      ];
+      if (!phaseEntries.length) continue;
+      const info = tableInfoById.get(tableId);
+      try {
+        if (!info) {
+          throw new Error(`Airtable table ${tableId} no longer exists or is not synced`);
+        }
+        await push(
+          {
+            table: info.table,
+            slug: info.slug,
+            columnMap: columnMapsByTableId.get(tableId) as Map<string, SyncColumn>,
+            attachments: await loadAttachmentFiles(info.slug),
+          },
+          phaseEntries
+        );
+      } catch (error) {
+        const failed = phaseEntries.filter((entry) => !context.settled.has(entry.id));
+        await failOutboundEntries(
+          failed.map((entry) => entry.id),
+          error
+        );
+        result.failed += failed.length;
+        if (logger) {
+          logger(
+            `Failed to push ${failed.length} ${operation}s for ${info?.slug ?? tableId}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
     }
+  };
 
-    await pruneMissingTables(client, projectTag, syncedTables, logger);
+  await pushPhase("create", (target, phaseEntries) => {
+    const tableDeferred: PushEntry[] = [];
+    deferred.set(target.table.id, tableDeferred);
+    return pushCreatedRows(context, target, phaseEntries, tableDeferred);
   });
+  await pushPhase("update", (target, phaseEntries) =>
+    pushUpdatedRows(context, target, phaseEntries)
+  );
+  await pushPhase("delete", (target, phaseEntries) =>
+    pushDeletedRows(context, target, phaseEntries)
+  );
 
   if (logger) {
     logger(
-      `Completed Airtable sync for base ${baseId} (${summary.length} tables)`
+      `Pushed local changes to base ${baseId} (${result.created} created, ${result.updated} updated, ${result.deleted} deleted, ${result.conflicts} conflicts, ${result.failed} failed)`
     );
   }
 
-  return { baseId, projectTag, tables: summary };
+  return result;
 }
-
-
@@ -0,0 +1,208 @@
+import type { Logger } from "./airtableApi";
+import { query } from "./db";
+
+export type AirtableSyncRunStatus = "running" | "succeeded" | "failed";
+
+export type AirtableSyncTrigger = "manual" | "schedule" | "webhook";
+
+export type AirtableSyncTableProgress = {
+  status: "pending" | "fetched" | "applied";
+  records?: number;
+  inserted?: number;
+  updated?: number;
+  deleted?: number;
+  conflicts?: number;
+};
+
+export type AirtableSyncRun = {
+  id: string;
+  base_id: string;
+  project_tag: string;
+  kind: "full" | "webhook";
+  trigger: AirtableSyncTrigger;
+  // Retries of a scheduled run are recorded as separate runs.
+  attempt: number;
+  dry_run: boolean;
+  status: AirtableSyncRunStatus;
+  progress: Record<string, AirtableSyncTableProgress>;
+  summary: Record<string, unknown> | null;
+  error: string | null;
+  log: Array<{ at: string; message: string }>;
+  started_at: string;
+  finished_at: string | null;
+};
+
+/** Another process is already syncing the base. */
+export class AirtableSyncBusyError extends Error {
+  constructor(readonly baseId: string) {
+    super(`Another sync of Airtable base ${baseId} is already running`);
+    this.name = "AirtableSyncBusyError";
+  }
+}
+
+// Keeps a runaway log (one line per fetched page) from bloating the row.
+const MAX_LOG_LINES = 2000;
+
+let ensureSyncRunTablePromise: Promise<void> | null = null;
+
+async function ensureSyncRunTable() {
+  if (ensureSyncRunTablePromise) {
+    return ensureSyncRunTablePromise;
+  }
+
+  ensureSyncRunTablePromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS airtable_sync_runs (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          base_id TEXT NOT NULL,
+          project_tag TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+          status TEXT NOT NULL DEFAULT 'running',
+          progress JSONB NOT NULL DEFAULT '{}'::jsonb,
+          summary JSONB,
+          error TEXT,
+          log JSONB NOT NULL DEFAULT '[]'::jsonb,
+          started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          finished_at TIMESTAMPTZ
+        );
+        CREATE INDEX IF NOT EXISTS idx_airtable_sync_runs_base
+          ON airtable_sync_runs (base_id, started_at DESC);
+        ALTER TABLE airtable_sync_runs
+          ADD COLUMN IF NOT EXISTS trigger TEXT NOT NULL DEFAULT 'manual',
+          ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 1;
+      `);
+    } catch (error) {
+      console.error("Failed to ensure airtable_sync_runs table", error);
+      ensureSyncRunTablePromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureSyncRunTablePromise;
+}
+
+export async function createSyncRun(params: {
+  baseId: string;
+  projectTag: string;
+  kind: AirtableSyncRun["kind"];
+  trigger?: AirtableSyncTrigger;
+  attempt?: number;
+  dryRun?: boolean;
+}): Promise<AirtableSyncRun> {
+  await ensureSyncRunTable();
+  const { rows } = await query<AirtableSyncRun>(
+    `
+      INSERT INTO airtable_sync_runs (base_id, project_tag, kind, trigger, attempt, dry_run)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *;
+    `,
+    [
+      params.baseId,
+      params.projectTag,
+      params.kind,
+      params.trigger ?? (params.kind === "webhook" ? "webhook" : "manual"),
+      params.attempt ?? 1,
+      params.dryRun ?? false,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * A logger that appends to the run's log (and forwards to `forward`). Lines
+ * are written in order in the background; `flush` waits for them.
+ */
+export function createSyncRunLogger(
+  runId: string,
+  forward?: Logger
+): { log: Logger; flush: () => Promise<void> } {
+  let pending: Promise<unknown> = Promise.resolve();
+  const log: Logger = (message) => {
+    forward?.(message);
+    pending = pending
+      .then(() =>
+        query(
+          `
+            UPDATE airtable_sync_runs
+            SET log = log || jsonb_build_array(
+              jsonb_build_object('at', NOW(), 'message', $2::text)
+            )
+            WHERE id = $1 AND jsonb_array_length(log) < ${MAX_LOG_LINES};
+          `,
+          [runId, message]
+        )
+      )
+      .catch((error) => console.error(`Failed to log sync run ${runId}`, error));
+  };
+  return { log, flush: () => pending.then(() => undefined) };
+}
+
+export async function updateSyncRunProgress(
+  runId: string,
+  progress: Record<string, AirtableSyncTableProgress>
+) {
+  await query(
+    `
+      UPDATE airtable_sync_runs
+      SET progress = progress || $2::jsonb
+      WHERE id = $1;
+    `,
+    [runId, JSON.stringify(progress)]
+  );
+}
+
+export async function finishSyncRun(
+  runId: string,
+  outcome: { summary: Record<string, unknown> } | { error: unknown }
+) {
+  const failed = "error" in outcome;
+  await query(
+    `
+      UPDATE airtable_sync_runs
+      SET status = $2, summary = $3::jsonb, error = $4, finished_at = NOW()
+      WHERE id = $1;
+    `,
+    [
+      runId,
+      failed ? "failed" : "succeeded",
+      failed ? null : JSON.stringify(outcome.summary),
+      failed
+        ? outcome.error instanceof Error
+          ? outcome.error.message
+          : String(outcome.error)
+        : null,
+    ]
+  );
+}
+
+export async function listSyncRuns(options?: {
+  baseId?: string;
+  limit?: number;
+}): Promise<AirtableSyncRun[]> {
+  await ensureSyncRunTable();
+  const limit = Math.min(Math.max(Number(options?.limit) || 20, 1), 100);
+  // The log is left out of listings; fetch a single run to read it.
+  const { rows } = await query<AirtableSyncRun>(
+    `
+      SELECT id, base_id, project_tag, kind, trigger, attempt, dry_run, status, progress,
+             summary, error, started_at, finished_at
+      FROM airtable_sync_runs
+      WHERE ($1::text IS NULL OR base_id = $1)
+      ORDER BY started_at DESC
+      LIMIT ${limit};
+    `,
+    [options?.baseId ?? null]
+  );
+  return rows;
+}
+
+export async function getSyncRun(runId: string): Promise<AirtableSyncRun | null> {
+  await ensureSyncRunTable();
+  const { rows } = await query<AirtableSyncRun>(
+    `SELECT * FROM airtable_sync_runs WHERE id::text = $1;`,
+    [runId]
+  );
+  return rows[0] ?? null;
+}
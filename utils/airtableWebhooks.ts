@@ -0,0 +1,329 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { PoolClient } from "pg";
+import { AIRTABLE_API_BASE, fetchJson } from "./airtableApi";
+import { resolveAirtableConnection } from "./airtableConnections";
+import { query } from "./db";
+
+export type AirtableWebhookState = {
+  base_id: string;
+  webhook_id: string;
+  mac_secret_base64: string | null;
+  notification_url: string;
+  project_tag: string | null;
+  cursor: number;
+  expiration_time: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type CellChange = { cellValuesByFieldId?: Record<string, unknown> };
+
+export type AirtableWebhookPayload = {
+  timestamp: string;
+  baseTransactionNumber: number;
+  payloadFormat?: string;
+  createdTablesById?: Record<string, unknown>;
+  destroyedTableIds?: string[];
+  changedTablesById?: Record<
+    string,
+    {
+      changedMetadata?: unknown;
+      createdFieldsById?: Record<string, unknown>;
+      changedFieldsById?: Record<string, unknown>;
+      destroyedFieldIds?: string[];
+      createdRecordsById?: Record<string, CellChange>;
+      changedRecordsById?: Record<string, { current?: CellChange }>;
+      destroyedRecordIds?: string[];
+    }
+  >;
+};
+
+/**
+ * What a run of webhook payloads changed, reduced to what the sync needs:
+ * tables whose schema must be re-read in full, and per-table record ids to
+ * re-fetch or delete.
+ */
+export type AirtableChangeSet = {
+  schemaChangedTableIds: Set<string>;
+  destroyedTableIds: Set<string>;
+  upsertedRecordIds: Map<string, Set<string>>;
+  destroyedRecordIds: Map<string, Set<string>>;
+};
+
+let ensureWebhookTablePromise: Promise<void> | null = null;
+
+async function ensureWebhookTable() {
+  if (ensureWebhookTablePromise) {
+    return ensureWebhookTablePromise;
+  }
+
+  ensureWebhookTablePromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS airtable_webhooks (
+          base_id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL,
+          mac_secret_base64 TEXT,
+          notification_url TEXT NOT NULL,
+          project_tag TEXT,
+          cursor INTEGER NOT NULL DEFAULT 1,
+          expiration_time TIMESTAMPTZ,
+          created_at TIMESTAMPTZ DEFAULT NOW(),
+          updated_at TIMESTAMPTZ DEFAULT NOW()
+        );
+      `);
+    } catch (error) {
+      console.error("Failed to ensure airtable_webhooks table", error);
+      ensureWebhookTablePromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureWebhookTablePromise;
+}
+
+function webhooksUrl(baseId: string, ...path: string[]): string {
+  return [
+    `${AIRTABLE_API_BASE}/bases/${encodeURIComponent(baseId)}/webhooks`,
+    ...path.map(encodeURIComponent),
+  ].join("/");
+}
+
+export async function listWebhookStates(): Promise<AirtableWebhookState[]> {
+  await ensureWebhookTable();
+  const { rows } = await query<AirtableWebhookState>(
+    `SELECT * FROM airtable_webhooks ORDER BY base_id ASC;`
+  );
+  return rows;
+}
+
+export async function getWebhookState(
+  baseId: string
+): Promise<AirtableWebhookState | null> {
+  await ensureWebhookTable();
+  const { rows } = await query<AirtableWebhookState>(
+    `SELECT * FROM airtable_webhooks WHERE base_id = $1;`,
+    [baseId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Creates a webhook for `baseId` that pings `notificationUrl` on table data,
+ * field and table metadata changes, replacing any webhook registered earlier.
+ */
+export async function registerAirtableWebhook(options: {
+  baseId: string;
+  notificationUrl: string;
+  projectTag?: string;
+}): Promise<AirtableWebhookState> {
+  const connection = await resolveAirtableConnection({ baseId: options.baseId });
+  const { token } = connection;
+  const existing = await getWebhookState(options.baseId);
+  if (existing) {
+    try {
+      await fetchJson(webhooksUrl(options.baseId, existing.webhook_id), token, {
+        method: "DELETE",
+      });
+    } catch (error) {
+      // The old webhook may already have expired or been removed in Airtable.
+      console.warn(`Failed to delete webhook ${existing.webhook_id}`, error);
+    }
+  }
+
+  const created = await fetchJson<{
+    id: string;
+    macSecretBase64?: string;
+    expirationTime?: string;
+  }>(webhooksUrl(options.baseId), token, {
+    method: "POST",
+    body: {
+      notificationUrl: options.notificationUrl,
+      specification: {
+        options: {
+          filters: {
+            dataTypes: ["tableData", "tableFields", "tableMetadata"],
+          },
+        },
+      },
+    },
+  });
+
+  const { rows } = await query<AirtableWebhookState>(
+    `
+      INSERT INTO airtable_webhooks
+        (base_id, webhook_id, mac_secret_base64, notification_url, project_tag, cursor, expiration_time)
+      VALUES ($1, $2, $3, $4, $5, 1, $6)
+      ON CONFLICT (base_id)
+      DO UPDATE SET webhook_id = EXCLUDED.webhook_id,
+                    mac_secret_base64 = EXCLUDED.mac_secret_base64,
+                    notification_url = EXCLUDED.notification_url,
+                    project_tag = COALESCE(EXCLUDED.project_tag, airtable_webhooks.project_tag),
+                    cursor = 1,
+                    expiration_time = EXCLUDED.expiration_time,
+                    updated_at = NOW()
+      RETURNING *;
+    `,
+    [
+      options.baseId,
+      created.id,
+      created.macSecretBase64 ?? null,
+      options.notificationUrl,
+      connection.connectionId ? connection.projectTag : options.projectTag ?? null,
+      created.expirationTime ?? null,
+    ]
+  );
+  return rows[0];
+}
+
+/**
+ * Extends the webhook's expiry. Airtable expires webhooks after seven days
+ * without a refresh or a payload list call.
+ */
+export async function refreshAirtableWebhook(
+  baseId: string
+): Promise<AirtableWebhookState> {
+  const { token } = await resolveAirtableConnection({ baseId });
+  const state = await getWebhookState(baseId);
+  if (!state) {
+    throw new Error(`No Airtable webhook registered for base ${baseId}`);
+  }
+
+  const refreshed = await fetchJson<{ expirationTime?: string | null }>(
+    webhooksUrl(baseId, state.webhook_id, "refresh"),
+    token,
+    { method: "POST" }
+  );
+
+  const { rows } = await query<AirtableWebhookState>(
+    `
+      UPDATE airtable_webhooks
+      SET expiration_time = $2, updated_at = NOW()
+      WHERE base_id = $1
+      RETURNING *;
+    `,
+    [baseId, refreshed.expirationTime ?? null]
+  );
+  return rows[0];
+}
+
+/**
+ * Lists every payload after the stored cursor. The returned cursor should be
+ * saved only once the payloads have been applied.
+ */
+export async function fetchWebhookPayloads(
+  state: AirtableWebhookState,
+  token: string
+): Promise<{ payloads: AirtableWebhookPayload[]; cursor: number }> {
+  const payloads: AirtableWebhookPayload[] = [];
+  let cursor = state.cursor;
+  let mightHaveMore = true;
+
+  while (mightHaveMore) {
+    const url = new URL(webhooksUrl(state.base_id, state.webhook_id, "payloads"));
+    url.searchParams.set("cursor", String(cursor));
+    const page = await fetchJson<{
+      payloads?: AirtableWebhookPayload[];
+      cursor?: number;
+      mightHaveMore?: boolean;
+    }>(url, token);
+    payloads.push(...(page.payloads ?? []));
+    mightHaveMore = Boolean(page.mightHaveMore) && page.cursor !== cursor;
+    cursor = page.cursor ?? cursor;
+  }
+
+  return { payloads, cursor };
+}
+
+export async function saveWebhookCursor(
+  client: PoolClient,
+  baseId: string,
+  cursor: number
+) {
+  await client.query(
+    `
+      UPDATE airtable_webhooks
+      SET cursor = $2, updated_at = NOW()
+      WHERE base_id = $1;
+    `,
+    [baseId, cursor]
+  );
+}
+
+/**
+ * Checks the `X-Airtable-Content-MAC` header, an HMAC-SHA256 of the raw body
+ * keyed with the secret Airtable returned when the webhook was created.
+ */
+export function verifyWebhookMac(
+  macSecretBase64: string,
+  body: string,
+  header: string | null
+): boolean {
+  if (!header) return false;
+  const expected = `hmac-sha256=${createHmac(
+    "sha256",
+    Buffer.from(macSecretBase64, "base64")
+  )
+    .update(body, "utf8")
+    .digest("hex")}`;
+  const received = Buffer.from(header);
+  const wanted = Buffer.from(expected);
+  return received.length === wanted.length && timingSafeEqual(received, wanted);
+}
+
+function addRecordIds(
+  target: Map<string, Set<string>>,
+  tableId: string,
+  recordIds: Iterable<string>
+) {
+  const ids = target.get(tableId) ?? new Set<string>();
+  for (const id of recordIds) ids.add(id);
+  target.set(tableId, ids);
+}
+
+export function collectPayloadChanges(
+  payloads: AirtableWebhookPayload[]
+): AirtableChangeSet {
+  const changes: AirtableChangeSet = {
+    schemaChangedTableIds: new Set(),
+    destroyedTableIds: new Set(),
+    upsertedRecordIds: new Map(),
+    destroyedRecordIds: new Map(),
+  };
+
+  for (const payload of payloads) {
+    for (const tableId of Object.keys(payload.createdTablesById ?? {})) {
+      changes.schemaChangedTableIds.add(tableId);
+    }
+    for (const tableId of payload.destroyedTableIds ?? []) {
+      changes.destroyedTableIds.add(tableId);
+    }
+    for (const [tableId, table] of Object.entries(payload.changedTablesById ?? {})) {
+      if (
+        table.changedMetadata ||
+        Object.keys(table.createdFieldsById ?? {}).length ||
+        Object.keys(table.changedFieldsById ?? {}).length ||
+        table.destroyedFieldIds?.length
+      ) {
+        changes.schemaChangedTableIds.add(tableId);
+      }
+      addRecordIds(changes.upsertedRecordIds, tableId, [
+        ...Object.keys(table.createdRecordsById ?? {}),
+        ...Object.keys(table.changedRecordsById ?? {}),
+      ]);
+      addRecordIds(changes.destroyedRecordIds, tableId, table.destroyedRecordIds ?? []);
+    }
+  }
+
+  for (const [tableId, destroyed] of changes.destroyedRecordIds) {
+    const upserted = changes.upsertedRecordIds.get(tableId);
+    destroyed.forEach((id) => upserted?.delete(id));
+  }
+  for (const tableId of changes.destroyedTableIds) {
+    changes.schemaChangedTableIds.delete(tableId);
+    changes.upsertedRecordIds.delete(tableId);
+    changes.destroyedRecordIds.delete(tableId);
+  }
+
+  return changes;
+}
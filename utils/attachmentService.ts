@@ -0,0 +1,705 @@
+import { randomUUID } from "crypto";
+import type { PoolClient } from "pg";
+import type { Logger } from "./airtableApi";
+import {
+  getAttachmentStorage,
+  getDefaultAttachmentStorage,
+  type AttachmentStorage,
+  type AttachmentStorageName,
+} from "./attachmentStorage";
+import { query } from "./db";
+import {
+  AccessDeniedError,
+  canReadField,
+  canWriteField,
+  type TableAccess,
+} from "./permissions";
+import { getColumn, updateRow, type TableRow } from "./tableService";
+import { ensureTrashTable } from "./trash";
+
+export type AttachmentThumbnailSize = "small" | "large";
+
+export type AttachmentThumbnail = { url: string; width: number; height: number };
+
+/** An attachment as stored in a row's cell; the shape Airtable uses. */
+export type AttachmentValue = {
+  id: string;
+  url: string;
+  filename: string;
+  size: number;
+  type: string;
+  width?: number;
+  height?: number;
+  thumbnails?: Partial<Record<AttachmentThumbnailSize, AttachmentThumbnail>>;
+};
+
+type StoredThumbnail = { key: string; width: number; height: number };
+
+/** A stored file, before it is tied to a row. */
+export type AttachmentFile = {
+  id: string;
+  table_name: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  storage: AttachmentStorageName;
+  storage_key: string;
+  width: number | null;
+  height: number | null;
+  thumbnails: Partial<Record<AttachmentThumbnailSize, StoredThumbnail>>;
+};
+
+export type StoredAttachment = AttachmentFile & {
+  row_id: string;
+  column_key: string;
+  created_at: string;
+};
+
+export type RemoteAttachment = {
+  id: string;
+  url: string;
+  filename?: string;
+  type?: string;
+};
+
+export class AttachmentError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+export const MAX_ATTACHMENT_BYTES =
+  Number(process.env.ATTACHMENT_MAX_BYTES) || 25 * 1024 * 1024;
+
+// Thumbnail heights, matching the sizes Airtable serves.
+const THUMBNAIL_HEIGHTS: Record<AttachmentThumbnailSize, number> = {
+  small: 36,
+  large: 512,
+};
+const SAFE_IDENTIFIER = /^[a-zA-Z_][0-9a-zA-Z_]*$/;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+let ensureAttachmentTablePromise: Promise<void> | null = null;
+
+async function ensureAttachmentTable() {
+  if (ensureAttachmentTablePromise) {
+    return ensureAttachmentTablePromise;
+  }
+
+  ensureAttachmentTablePromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS attachments (
+          table_name TEXT NOT NULL,
+          id TEXT NOT NULL,
+          row_id TEXT NOT NULL,
+          column_key TEXT NOT NULL,
+          filename TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          storage TEXT NOT NULL,
+          storage_key TEXT NOT NULL,
+          width INTEGER,
+          height INTEGER,
+          thumbnails JSONB NOT NULL DEFAULT '{}'::jsonb,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (table_name, id)
+        );
+        CREATE INDEX IF NOT EXISTS idx_attachments_row
+          ON attachments (table_name, row_id);
+      `);
+    } catch (error) {
+      console.error("Failed to ensure attachments table", error);
+      ensureAttachmentTablePromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureAttachmentTablePromise;
+}
+
+export function attachmentUrl(
+  tableName: string,
+  rowId: string,
+  attachmentId: string,
+  thumbnail?: AttachmentThumbnailSize
+): string {
+  const url = `/api/tables/${encodeURIComponent(tableName)}/rows/${encodeURIComponent(
+    rowId
+  )}/attachments/${encodeURIComponent(attachmentId)}`;
+  return thumbnail ? `${url}?thumb=${thumbnail}` : url;
+}
+
+export function toAttachmentValue(file: AttachmentFile, rowId: string): AttachmentValue {
+  const value: AttachmentValue = {
+    id: file.id,
+    url: attachmentUrl(file.table_name, rowId, file.id),
+    filename: file.filename,
+    size: file.size,
+    type: file.content_type,
+  };
+  if (file.width && file.height) {
+    value.width = file.width;
+    value.height = file.height;
+  }
+  const sizes = Object.keys(file.thumbnails) as AttachmentThumbnailSize[];
+  if (sizes.length) {
+    value.thumbnails = Object.fromEntries(
+      sizes.map((size) => {
+        const thumbnail = file.thumbnails[size] as StoredThumbnail;
+        return [
+          size,
+          {
+            url: attachmentUrl(file.table_name, rowId, file.id, size),
+            width: thumbnail.width,
+            height: thumbnail.height,
+          },
+        ];
+      })
+    );
+  }
+  return value;
+}
+
+function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, "").trim().slice(0, 255);
+  return cleaned || "file";
+}
+
+/**
+ * Whether a file passes the column's `accept` list: MIME types
+ * (`application/pdf`), wildcards (`image/*`) or extensions (`.csv`).
+ */
+export function matchesAccept(accept: string[], filename: string, contentType: string): boolean {
+  if (!accept.length) return true;
+  const name = filename.toLowerCase();
+  const type = contentType.toLowerCase();
+  return accept.some((entry) => {
+    const rule = entry.trim().toLowerCase();
+    if (!rule) return false;
+    if (rule.startsWith(".")) return name.endsWith(rule);
+    if (rule.endsWith("/*")) return type.startsWith(rule.slice(0, -1));
+    return type === rule;
+  });
+}
+
+type RenderedImage = {
+  width: number;
+  height: number;
+  thumbnails: Array<{ size: AttachmentThumbnailSize; body: Buffer; width: number; height: number }>;
+};
+
+/**
+ * Dimensions and thumbnails of an image, or null for other files. sharp is
+ * loaded lazily: it ships as an optional dependency of Next, and without it
+ * images are stored without thumbnails.
+ */
+async function renderImage(
+  body: Buffer,
+  contentType: string,
+  withThumbnails: boolean
+): Promise<RenderedImage | null> {
+  if (!contentType.startsWith("image/") || contentType === "image/svg+xml") {
+    return null;
+  }
+  let sharp: typeof import("sharp");
+  try {
+    sharp = (await import("sharp")).default;
+  } catch {
+    return null;
+  }
+
+  try {
+    const metadata = await sharp(body).metadata();
+    const rendered: RenderedImage = {
+      width: metadata.autoOrient?.width ?? metadata.width,
+      height: metadata.autoOrient?.height ?? metadata.height,
+      thumbnails: [],
+    };
+    if (!withThumbnails) return rendered;
+
+    for (const size of Object.keys(THUMBNAIL_HEIGHTS) as AttachmentThumbnailSize[]) {
+      const { data, info } = await sharp(body)
+        .autoOrient()
+        .resize({ height: THUMBNAIL_HEIGHTS[size], withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+      rendered.thumbnails.push({ size, body: data, width: info.width, height: info.height });
+    }
+    return rendered;
+  } catch (error) {
+    // A corrupt or unsupported image is still stored, just without previews.
+    console.warn("Failed to render attachment image", error);
+    return null;
+  }
+}
+
+function storageKey(tableName: string, attachmentId: string, variant: string): string {
+  return `${tableName}/${attachmentId}/${variant}`;
+}
+
+async function writeAttachmentFile(params: {
+  tableName: string;
+  id: string;
+  filename: string;
+  contentType: string;
+  body: Buffer;
+  storage: AttachmentStorage;
+  generateThumbnails: boolean;
+}): Promise<AttachmentFile> {
+  const { tableName, id, storage } = params;
+  const key = storageKey(tableName, id, "original");
+  const image = await renderImage(params.body, params.contentType, params.generateThumbnails);
+
+  await storage.put(key, params.body, params.contentType);
+  const thumbnails: AttachmentFile["thumbnails"] = {};
+  for (const thumbnail of image?.thumbnails ?? []) {
+    const thumbnailKey = storageKey(tableName, id, thumbnail.size);
+    await storage.put(thumbnailKey, thumbnail.body, "image/webp");
+    thumbnails[thumbnail.size] = {
+      key: thumbnailKey,
+      width: thumbnail.width,
+      height: thumbnail.height,
+    };
+  }
+
+  return {
+    id,
+    table_name: tableName,
+    filename: params.filename,
+    content_type: params.contentType,
+    size: params.body.length,
+    storage: storage.name,
+    storage_key: key,
+    width: image?.width ?? null,
+    height: image?.height ?? null,
+    thumbnails,
+  };
+}
+
+// Duplicated tables share stored files, so a file goes only once no
+// attachment record refers to it any more.
+async function deleteAttachmentFiles(file: AttachmentFile) {
+  const { rowCount } = await query(
+    `SELECT 1 FROM attachments WHERE storage = $1 AND storage_key = $2 LIMIT 1;`,
+    [file.storage, file.storage_key]
+  );
+  if (rowCount) return;
+  const storage = getAttachmentStorage(file.storage);
+  const keys = [file.storage_key, ...Object.values(file.thumbnails).map((thumb) => thumb!.key)];
+  for (const key of keys) {
+    await storage.delete(key);
+  }
+}
+
+/**
+ * Records which row and column each stored file belongs to. Pass `client` to
+ * write inside the caller's transaction.
+ */
+export async function saveAttachmentRecords(
+  entries: Array<{ file: AttachmentFile; rowId: string; columnKey: string }>,
+  client?: PoolClient
+) {
+  if (!entries.length) return;
+  const sql = `
+    INSERT INTO attachments (
+      table_name, id, row_id, column_key, filename, content_type, size,
+      storage, storage_key, width, height, thumbnails
+    )
+    SELECT entry.table_name, entry.id, entry.row_id, entry.column_key, entry.filename,
+           entry.content_type, entry.size, entry.storage, entry.storage_key,
+           entry.width, entry.height, entry.thumbnails
+    FROM jsonb_to_recordset($1::jsonb) AS entry(
+      table_name TEXT, id TEXT, row_id TEXT, column_key TEXT, filename TEXT,
+      content_type TEXT, size INTEGER, storage TEXT, storage_key TEXT,
+      width INTEGER, height INTEGER, thumbnails JSONB
+    )
+    ON CONFLICT (table_name, id)
+    DO UPDATE SET row_id = EXCLUDED.row_id,
+                  column_key = EXCLUDED.column_key,
+                  filename = EXCLUDED.filename;
+  `;
+  const params = [
+    JSON.stringify(
+      entries.map(({ file, rowId, columnKey }) => ({
+        ...file,
+        row_id: rowId,
+        column_key: columnKey,
+      }))
+    ),
+  ];
+  if (client) {
+    await client.query(sql, params);
+  } else {
+    await ensureAttachmentTable();
+    await query(sql, params);
+  }
+}
+
+async function getStoredAttachment(
+  tableName: string,
+  attachmentId: string
+): Promise<StoredAttachment | null> {
+  await ensureAttachmentTable();
+  const { rows } = await query<StoredAttachment>(
+    `SELECT * FROM attachments WHERE table_name = $1 AND id = $2;`,
+    [tableName, attachmentId]
+  );
+  return rows[0] ?? null;
+}
+
+async function loadAttachmentColumn(
+  tableName: string,
+  columnKey: string,
+  access?: TableAccess
+) {
+  if (!SAFE_IDENTIFIER.test(tableName)) {
+    throw new AttachmentError(`Table ${tableName} not found`, 404);
+  }
+  const column = await getColumn(tableName, columnKey);
+  if (!column || !canReadField(column, access)) {
+    throw new AttachmentError(`Column ${columnKey} not found on ${tableName}`, 404);
+  }
+  if (!canWriteField(column, access)) {
+    throw new AccessDeniedError(`You cannot edit ${column.key}`);
+  }
+  if (column.type !== "attachment") {
+    throw new AttachmentError(`Column ${columnKey} is not an attachment field`);
+  }
+  return column;
+}
+
+async function readAttachmentCell(
+  tableName: string,
+  rowId: string,
+  columnKey: string
+): Promise<AttachmentValue[]> {
+  const { rows } = await query<{ value: unknown }>(
+    `SELECT "${columnKey}" AS value FROM "${tableName}" WHERE id::text = $1;`,
+    [rowId]
+  );
+  if (!rows.length) {
+    throw new AttachmentError(`Row ${rowId} not found in ${tableName}`, 404);
+  }
+  let value = rows[0].value;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = null;
+    }
+  }
+  return Array.isArray(value)
+    ? value.filter(
+        (entry): entry is AttachmentValue => Boolean(entry) && typeof entry === "object"
+      )
+    : [];
+}
+
+/**
+ * Stores `files` and appends them to the row's attachment cell, enforcing the
+ * column's `accept`, `maxFiles` and storage settings.
+ */
+export async function uploadAttachments(
+  tableName: string,
+  rowId: string,
+  columnKey: string,
+  files: Array<{ filename: string; contentType: string; body: Buffer }>,
+  access?: TableAccess
+): Promise<{ attachments: AttachmentValue[]; row: TableRow }> {
+  const column = await loadAttachmentColumn(tableName, columnKey, access);
+  const config = column.config?.attachment ?? {};
+  const current = await readAttachmentCell(tableName, rowId, column.key);
+
+  if (!files.length) {
+    throw new AttachmentError("No files were uploaded");
+  }
+  if (typeof config.maxFiles === "number" && current.length + files.length > config.maxFiles) {
+    throw new AttachmentError(
+      `${column.name} holds at most ${config.maxFiles} file${config.maxFiles === 1 ? "" : "s"}`
+    );
+  }
+  const accept = Array.isArray(config.accept) ? config.accept : [];
+  for (const file of files) {
+    if (file.body.length > MAX_ATTACHMENT_BYTES) {
+      throw new AttachmentError(
+        `${file.filename} is larger than ${Math.floor(MAX_ATTACHMENT_BYTES / 1024 / 1024)} MB`,
+        413
+      );
+    }
+    if (!matchesAccept(accept, file.filename, file.contentType)) {
+      throw new AttachmentError(`${column.name} does not accept ${file.filename}`, 415);
+    }
+  }
+
+  await ensureAttachmentTable();
+  const storage =
+    config.storage === "inline" ? getAttachmentStorage("database") : getDefaultAttachmentStorage();
+  const stored: AttachmentFile[] = [];
+  try {
+    for (const file of files) {
+      stored.push(
+        await writeAttachmentFile({
+          tableName,
+          id: randomUUID(),
+          filename: sanitizeFilename(file.filename),
+          contentType: file.contentType || "application/octet-stream",
+          body: file.body,
+          storage,
+          generateThumbnails: config.generateThumbnails ?? true,
+        })
+      );
+    }
+    await saveAttachmentRecords(
+      stored.map((file) => ({ file, rowId, columnKey: column.key }))
+    );
+    const attachments = stored.map((file) => toAttachmentValue(file, rowId));
+    const row = await updateRow(
+      tableName,
+      rowId,
+      { [column.key]: [...current, ...attachments] },
+      access
+    );
+    return { attachments, row };
+  } catch (error) {
+    if (stored.length) {
+      await query(`DELETE FROM attachments WHERE table_name = $1 AND id = ANY($2::text[]);`, [
+        tableName,
+        stored.map((file) => file.id),
+      ]).catch(() => undefined);
+    }
+    for (const file of stored) {
+      await deleteAttachmentFiles(file).catch(() => undefined);
+    }
+    throw error;
+  }
+}
+
+/** Removes an attachment from its row and deletes the stored files. */
+export async function deleteAttachment(
+  tableName: string,
+  rowId: string,
+  attachmentId: string,
+  access?: TableAccess
+): Promise<TableRow> {
+  const stored = await getStoredAttachment(tableName, attachmentId);
+  if (!stored || stored.row_id !== rowId) {
+    throw new AttachmentError(`Attachment ${attachmentId} not found`, 404);
+  }
+  const column = await loadAttachmentColumn(tableName, stored.column_key, access);
+  const current = await readAttachmentCell(tableName, rowId, column.key);
+  const row = await updateRow(
+    tableName,
+    rowId,
+    { [column.key]: current.filter((entry) => entry.id !== attachmentId) },
+    access
+  );
+
+  await query(`DELETE FROM attachments WHERE table_name = $1 AND id = $2;`, [
+    tableName,
+    attachmentId,
+  ]);
+  await deleteAttachmentFiles(stored);
+  return row;
+}
+
+// Whether the caller may see files stored in `columnKey`.
+async function canReadAttachmentColumn(
+  tableName: string,
+  columnKey: string,
+  access?: TableAccess
+): Promise<boolean> {
+  if (!access) return true;
+  const column = await getColumn(tableName, columnKey);
+  return column !== null && canReadField(column, access);
+}
+
+export async function listRowAttachments(
+  tableName: string,
+  rowId: string,
+  access?: TableAccess
+): Promise<Array<AttachmentValue & { columnKey: string; createdAt: string }>> {
+  await ensureAttachmentTable();
+  const { rows } = await query<StoredAttachment>(
+    `
+      SELECT * FROM attachments
+      WHERE table_name = $1 AND row_id = $2
+      ORDER BY created_at ASC, id ASC;
+    `,
+    [tableName, rowId]
+  );
+  const readable = new Map<string, boolean>();
+  for (const columnKey of new Set(rows.map((stored) => stored.column_key))) {
+    readable.set(columnKey, await canReadAttachmentColumn(tableName, columnKey, access));
+  }
+  return rows.filter((stored) => readable.get(stored.column_key)).map((stored) => ({
+    ...toAttachmentValue(stored, rowId),
+    columnKey: stored.column_key,
+    createdAt: stored.created_at,
+  }));
+}
+
+/** The bytes of an attachment or of one of its thumbnails. */
+export async function readAttachment(
+  tableName: string,
+  attachmentId: string,
+  thumbnail?: AttachmentThumbnailSize,
+  access?: TableAccess
+): Promise<{ body: Buffer; contentType: string; filename: string }> {
+  const stored = await getStoredAttachment(tableName, attachmentId);
+  if (!stored || !(await canReadAttachmentColumn(tableName, stored.column_key, access))) {
+    throw new AttachmentError(`Attachment ${attachmentId} not found`, 404);
+  }
+  const thumb = thumbnail ? stored.thumbnails[thumbnail] : undefined;
+  if (thumbnail && !thumb) {
+    throw new AttachmentError(`Attachment ${attachmentId} has no ${thumbnail} thumbnail`, 404);
+  }
+  const body = await getAttachmentStorage(stored.storage).get(thumb?.key ?? stored.storage_key);
+  if (!body) {
+    throw new AttachmentError(`The file for attachment ${attachmentId} is missing`, 404);
+  }
+  return {
+    body,
+    contentType: thumb ? "image/webp" : stored.content_type,
+    filename: stored.filename,
+  };
+}
+
+/**
+ * Stored files of `tableName` by attachment id, limited to `ids` when given.
+ */
+export async function loadAttachmentFiles(
+  tableName: string,
+  ids?: string[]
+): Promise<Map<string, AttachmentFile>> {
+  await ensureAttachmentTable();
+  const { rows } = await query<StoredAttachment>(
+    `
+      SELECT * FROM attachments
+      WHERE table_name = $1 AND ($2::text[] IS NULL OR id = ANY($2::text[]));
+    `,
+    [tableName, ids ?? null]
+  );
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Copies remote attachments (Airtable's expiring URLs) into storage for
+ * `tableName`, keyed by their remote id. Files stored by an earlier run are
+ * reused. With `download: false` only those are returned. A file that fails
+ * to download is left out, so its remote value is kept and retried next run.
+ */
+export async function mirrorRemoteAttachments(
+  tableName: string,
+  attachments: RemoteAttachment[],
+  options?: { download?: boolean; logger?: Logger }
+): Promise<Map<string, AttachmentFile>> {
+  const mirrored = await loadAttachmentFiles(
+    tableName,
+    Array.from(new Set(attachments.map((attachment) => attachment.id)))
+  );
+  if (options?.download === false) return mirrored;
+
+  const storage = getDefaultAttachmentStorage();
+  let failed = 0;
+  for (const attachment of attachments) {
+    if (mirrored.has(attachment.id)) continue;
+    try {
+      const response = await fetch(attachment.url, {
+        signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`download failed with status ${response.status}`);
+      }
+      const body = Buffer.from(await response.arrayBuffer());
+      const contentType =
+        attachment.type || response.headers.get("content-type") || "application/octet-stream";
+      mirrored.set(
+        attachment.id,
+        await writeAttachmentFile({
+          tableName,
+          id: attachment.id,
+          filename: sanitizeFilename(attachment.filename ?? attachment.id),
+          contentType,
+          body,
+          storage,
+          generateThumbnails: true,
+        })
+      );
+    } catch (error) {
+      failed += 1;
+      console.warn(`Failed to mirror attachment ${attachment.id} of ${tableName}`, error);
+    }
+  }
+  if (failed) {
+    options?.logger?.(`Could not mirror ${failed} attachments of ${tableName}; keeping their remote URLs`);
+  }
+  return mirrored;
+}
+
+/**
+ * Deletes stored files no longer referenced by their row's cell (the row, the
+ * column or the whole table is gone, or the value was replaced). Files newer
+ * than `olderThanMs` are skipped so uploads still being attached survive, and
+ * so are files of rows, fields and tables waiting in the trash.
+ */
+export async function pruneDetachedAttachments(options?: {
+  tables?: string[];
+  olderThanMs?: number;
+}): Promise<number> {
+  await Promise.all([ensureAttachmentTable(), ensureTrashTable()]);
+  const olderThanMs = options?.olderThanMs ?? 10 * 60_000;
+  const { rows: groups } = await query<{ table_name: string; column_key: string; live: boolean }>(
+    `
+      SELECT DISTINCT a.table_name, a.column_key, (c.column_name IS NOT NULL) AS live
+      FROM attachments a
+      LEFT JOIN information_schema.columns c
+        ON c.table_schema = 'public'
+       AND c.table_name = a.table_name
+       AND c.column_name = a.column_key
+      WHERE ($1::text[] IS NULL OR a.table_name = ANY($1::text[]));
+    `,
+    [options?.tables ?? null]
+  );
+
+  let pruned = 0;
+  for (const group of groups) {
+    const live = group.live;
+    const safe =
+      SAFE_IDENTIFIER.test(group.table_name) && SAFE_IDENTIFIER.test(group.column_key);
+    if (live && !safe) continue;
+    const { rows } = await query<StoredAttachment>(
+      `
+        DELETE FROM attachments a
+        WHERE a.table_name = $1
+          AND a.column_key = $2
+          AND a.created_at < NOW() - $3 * INTERVAL '1 millisecond'
+          AND NOT EXISTS (
+            SELECT 1 FROM trash_items tr
+            WHERE tr.table_name = a.table_name
+              AND (tr.kind = 'table' OR strpos(tr.payload::text, a.id) > 0)
+          )
+          ${
+            live
+              ? `AND NOT EXISTS (
+                   SELECT 1 FROM "${group.table_name}" t
+                   WHERE t.id::text = a.row_id
+                     AND strpos(t."${group.column_key}"::text, a.id) > 0
+                 )`
+              : ""
+          }
+        RETURNING a.*;
+      `,
+      [group.table_name, group.column_key, olderThanMs]
+    );
+    for (const stored of rows) {
+      await deleteAttachmentFiles(stored).catch((error) =>
+        console.error(`Failed to delete files of attachment ${stored.id}`, error)
+      );
+    }
+    pruned += rows.length;
+  }
+  return pruned;
+}
@@ -0,0 +1,305 @@
+import { createHash, createHmac } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { query } from "./db";
+
+// Where attachment bytes live. Rows only keep metadata and a URL served by the
+// attachments route, so the backend can change without touching cell values;
+// each stored file records the backend it was written to.
+export type AttachmentStorageName = "local" | "s3" | "database";
+
+export interface AttachmentStorage {
+  readonly name: AttachmentStorageName;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** The stored bytes, or null when nothing is stored under `key`. */
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export type S3StorageConfig = {
+  /** e.g. `https://s3.eu-west-1.amazonaws.com` or a MinIO URL. */
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+};
+
+function assertStorageKey(key: string): string {
+  // Keys are built from table names and ids; refuse anything that could step
+  // outside the storage root.
+  const parts = key.split("/");
+  if (!key || parts.some((part) => !part || part === "." || part === "..")) {
+    throw new Error(`Invalid attachment storage key: ${key}`);
+  }
+  return key;
+}
+
+export function createLocalStorage(root: string): AttachmentStorage {
+  const resolvedRoot = path.resolve(root);
+  const filePath = (key: string) => path.join(resolvedRoot, assertStorageKey(key));
+
+  return {
+    name: "local",
+    async put(key, body) {
+      const target = filePath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, body);
+    },
+    async get(key) {
+      try {
+        return await readFile(filePath(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await rm(filePath(key), { force: true });
+    },
+  };
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// RFC 3986 encoding as SigV4 expects it; "/" is kept in object paths.
+function encodeS3Path(pathname: string): string {
+  return pathname
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+      )
+    )
+    .join("/");
+}
+
+/**
+ * Signs an S3 request with AWS Signature Version 4 and returns the headers to
+ * send. `headers` must not include `host`; it is taken from `url`.
+ */
+export function signS3Request(params: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  now?: Date;
+}): Record<string, string> {
+  const amzDate = (params.now ?? new Date())
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+  const date = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...params.headers,
+    host: params.url.host,
+    "x-amz-content-sha256": params.payloadHash,
+    "x-amz-date": amzDate,
+  };
+
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowered = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])
+  );
+  const canonicalQuery = Array.from(params.url.searchParams.entries())
+    .map(([key, value]) => [encodeS3Path(key), encodeS3Path(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    params.method,
+    encodeS3Path(decodeURIComponent(params.url.pathname)),
+    canonicalQuery,
+    names.map((name) => `${name}:${lowered[name]}\n`).join(""),
+    signedHeaders,
+    params.payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${params.region}/s3/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${params.secretAccessKey}`, date), params.region), "s3"),
+    "aws4_request"
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  // fetch sets the host header itself.
+  const sent: Record<string, string> = { ...headers };
+  delete sent.host;
+  return {
+    ...sent,
+    authorization: `AWS4-HMAC-SHA256 Credential=${params.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Any S3-compatible object store (AWS, MinIO, R2, ...), addressed path-style
+ * as `<endpoint>/<bucket>/<key>`.
+ */
+export function createS3Storage(config: S3StorageConfig): AttachmentStorage {
+  const endpoint = config.endpoint.replace(/\/+$/, "");
+
+  async function send(method: string, key: string, body?: Buffer, contentType?: string) {
+    const url = new URL(`${endpoint}/${config.bucket}/${encodeS3Path(assertStorageKey(key))}`);
+    const headers = signS3Request({
+      method,
+      url,
+      headers: contentType ? { "content-type": contentType } : {},
+      payloadHash: sha256Hex(body ?? ""),
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+    return fetch(url, {
+      method,
+      headers,
+      body: body ? new Uint8Array(body) : undefined,
+    });
+  }
+
+  async function fail(response: Response, action: string, key: string): Promise<never> {
+    const text = await response.text().catch(() => "");
+    throw new Error(
+      `S3 ${action} of ${key} failed (${response.status}): ${text.slice(0, 300)}`
+    );
+  }
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      const response = await send("PUT", key, body, contentType);
+      if (!response.ok) await fail(response, "upload", key);
+    },
+    async get(key) {
+      const response = await send("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) await fail(response, "download", key);
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await send("DELETE", key);
+      if (!response.ok && response.status !== 404) await fail(response, "delete", key);
+    },
+  };
+}
+
+let ensureBlobTablePromise: Promise<void> | null = null;
+
+async function ensureBlobTable() {
+  if (ensureBlobTablePromise) {
+    return ensureBlobTablePromise;
+  }
+
+  ensureBlobTablePromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS attachment_blobs (
+          key TEXT PRIMARY KEY,
+          content_type TEXT NOT NULL,
+          data BYTEA NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+      `);
+    } catch (error) {
+      console.error("Failed to ensure attachment_blobs table", error);
+      ensureBlobTablePromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureBlobTablePromise;
+}
+
+/** Keeps files in Postgres, for attachment columns set to inline storage. */
+export function createDatabaseStorage(): AttachmentStorage {
+  return {
+    name: "database",
+    async put(key, body, contentType) {
+      await ensureBlobTable();
+      await query(
+        `
+          INSERT INTO attachment_blobs (key, content_type, data)
+          VALUES ($1, $2, $3)
+          ON CONFLICT (key)
+          DO UPDATE SET content_type = EXCLUDED.content_type, data = EXCLUDED.data;
+        `,
+        [assertStorageKey(key), contentType, body]
+      );
+    },
+    async get(key) {
+      await ensureBlobTable();
+      const { rows } = await query<{ data: Buffer }>(
+        `SELECT data FROM attachment_blobs WHERE key = $1;`,
+        [key]
+      );
+      return rows[0]?.data ?? null;
+    },
+    async delete(key) {
+      await ensureBlobTable();
+      await query(`DELETE FROM attachment_blobs WHERE key = $1;`, [key]);
+    },
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set when ATTACHMENT_STORAGE is "s3"`);
+  }
+  return value;
+}
+
+const storages = new Map<AttachmentStorageName, AttachmentStorage>();
+
+/**
+ * The backend called `name`, configured from the environment:
+ * `ATTACHMENT_STORAGE_DIR` for local files (default `.data/attachments`) and
+ * `ATTACHMENT_S3_*` for S3.
+ */
+export function getAttachmentStorage(name: AttachmentStorageName): AttachmentStorage {
+  const cached = storages.get(name);
+  if (cached) return cached;
+
+  let storage: AttachmentStorage;
+  if (name === "s3") {
+    const region = process.env.ATTACHMENT_S3_REGION || "us-east-1";
+    storage = createS3Storage({
+      endpoint: process.env.ATTACHMENT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: requireEnv("ATTACHMENT_S3_BUCKET"),
+      accessKeyId: requireEnv("ATTACHMENT_S3_ACCESS_KEY_ID"),
+      secretAccessKey: requireEnv("ATTACHMENT_S3_SECRET_ACCESS_KEY"),
+    });
+  } else if (name === "database") {
+    storage = createDatabaseStorage();
+  } else {
+    storage = createLocalStorage(
+      process.env.ATTACHMENT_STORAGE_DIR || path.join(process.cwd(), ".data", "attachments")
+    );
+  }
+  storages.set(name, storage);
+  return storage;
+}
+
+/** The backend for new "cloud" attachments, chosen by `ATTACHMENT_STORAGE`. */
+export function getDefaultAttachmentStorage(): AttachmentStorage {
+  return getAttachmentStorage(process.env.ATTACHMENT_STORAGE === "s3" ? "s3" : "local");
+}
@@ -0,0 +1,564 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+import { promisify } from "util";
+import { query } from "./db";
+import {
+  AccessDeniedError,
+  isRole,
+  roleAtLeast,
+  type Role,
+  type TableAccess,
+} from "./permissions";
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string;
+  is_admin: boolean;
+};
+
+export type Identity = {
+  user: AuthUser;
+  // How the request authenticated; "disabled" when AUTH_DISABLED is set.
+  via: "session" | "token" | "disabled";
+};
+
+export type ApiToken = {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+};
+
+export type AccessScope = { type: "project" | "table"; name: string };
+
+export type AccessGrant = {
+  user_id: string;
+  scope_type: AccessScope["type"];
+  scope: string;
+  role: Role;
+  created_at: string;
+  updated_at: string;
+};
+
+/** Bad input for a user or grant, such as a malformed email. */
+export class UserValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserValidationError";
+  }
+}
+
+export const SESSION_COOKIE = "grid_session";
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+const API_TOKEN_PREFIX = "gtk_";
+const MIN_PASSWORD_LENGTH = 8;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// Stands in for every caller when authentication is switched off for local
+// development.
+const LOCAL_ADMIN: AuthUser = {
+  id: "local",
+  email: "local@localhost",
+  name: "Local admin",
+  is_admin: true,
+};
+
+let ensureAuthTablesPromise: Promise<void> | null = null;
+
+export async function ensureAuthTables() {
+  if (ensureAuthTablesPromise) {
+    return ensureAuthTablesPromise;
+  }
+
+  ensureAuthTablesPromise = (async () => {
+    try {
+      await query(`
+        CREATE TABLE IF NOT EXISTS users (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          email TEXT NOT NULL,
+          name TEXT NOT NULL,
+          password_hash TEXT,
+          is_admin BOOLEAN NOT NULL DEFAULT FALSE,
+          disabled BOOLEAN NOT NULL DEFAULT FALSE,
+          avatar_url TEXT,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+        ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar_url TEXT;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_users_email ON users (lower(email));
+
+        CREATE TABLE IF NOT EXISTS user_sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          expires_at TIMESTAMPTZ NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+        CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions (user_id);
+
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          last_used_at TIMESTAMPTZ,
+          expires_at TIMESTAMPTZ
+        );
+
+        CREATE TABLE IF NOT EXISTS access_grants (
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          scope_type TEXT NOT NULL CHECK (scope_type IN ('project', 'table')),
+          scope TEXT NOT NULL,
+          role TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (user_id, scope_type, scope)
+        );
+        CREATE INDEX IF NOT EXISTS idx_access_grants_scope
+          ON access_grants (scope_type, scope);
+
+        CREATE TABLE IF NOT EXISTS user_notifications (
+          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          table_name TEXT NOT NULL,
+          row_id TEXT NOT NULL,
+          column_key TEXT,
+          message TEXT NOT NULL,
+          actor_id TEXT,
+          read_at TIMESTAMPTZ,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        );
+        CREATE INDEX IF NOT EXISTS idx_user_notifications_user
+          ON user_notifications (user_id, created_at DESC);
+      `);
+    } catch (error) {
+      console.error("Failed to ensure auth tables", error);
+      ensureAuthTablesPromise = null;
+      throw error;
+    }
+  })();
+
+  return ensureAuthTablesPromise;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt.toString("base64")}:${hash.toString("base64")}`;
+}
+
+async function verifyPassword(password: string, stored: string | null): Promise<boolean> {
+  const [scheme, salt, hash] = (stored ?? "").split(":");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    // Hash anyway so unknown emails take as long as wrong passwords.
+    await scryptAsync(password, randomBytes(16), 64);
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === "true" || process.env.AUTH_DISABLED === "1";
+}
+
+export async function createUser(input: {
+  email: string;
+  name?: string;
+  password?: string | null;
+  isAdmin?: boolean;
+}): Promise<AuthUser> {
+  await ensureAuthTables();
+  const email = input.email.trim();
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    throw new UserValidationError(`Invalid email address: ${input.email}`);
+  }
+  if (input.password && input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserValidationError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  try {
+    const { rows } = await query<AuthUser>(
+      `
+        INSERT INTO users (email, name, password_hash, is_admin)
+        VALUES ($1, $2, $3, $4)
+        RETURNING id::text AS id, email, name, is_admin;
+      `,
+      [
+        email,
+        input.name?.trim() || email.split("@")[0],
+        input.password ? await hashPassword(input.password) : null,
+        input.isAdmin ?? false,
+      ]
+    );
+    return rows[0];
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      throw new UserValidationError(`A user with email ${email} already exists`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Sets the user's password and signs them out everywhere else. `keepSession`
+ * is the session token of the request making the change, which stays valid.
+ */
+export async function setUserPassword(
+  userId: string,
+  password: string,
+  keepSession?: string | null
+) {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserValidationError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  await ensureAuthTables();
+  await query(
+    `UPDATE users SET password_hash = $2, updated_at = NOW() WHERE id::text = $1;`,
+    [userId, await hashPassword(password)]
+  );
+  await query(
+    `DELETE FROM user_sessions WHERE user_id::text = $1 AND token_hash IS DISTINCT FROM $2;`,
+    [userId, keepSession ? hashToken(keepSession) : null]
+  );
+}
+
+/** Whether `password` is the user's current password. */
+export async function checkUserPassword(userId: string, password: string): Promise<boolean> {
+  await ensureAuthTables();
+  const { rows } = await query<{ password_hash: string | null }>(
+    `SELECT password_hash FROM users WHERE id::text = $1;`,
+    [userId]
+  );
+  return verifyPassword(password, rows[0]?.password_hash ?? null);
+}
+
+/** The user with this email and password, or null. */
+export async function authenticate(email: string, password: string): Promise<AuthUser | null> {
+  await ensureAuthTables();
+  const { rows } = await query<AuthUser & { password_hash: string | null }>(
+    `
+      SELECT id::text AS id, email, name, is_admin, password_hash
+      FROM users
+      WHERE lower(email) = lower($1) AND NOT disabled;
+    `,
+    [email.trim()]
+  );
+  const user = rows[0];
+  const valid = await verifyPassword(password, user?.password_hash ?? null);
+  if (!user || !valid) return null;
+  return { id: user.id, email: user.email, name: user.name, is_admin: user.is_admin };
+}
+
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  await ensureAuthTables();
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  await query(
+    `INSERT INTO user_sessions (token_hash, user_id, expires_at) VALUES ($1, $2, $3);`,
+    [hashToken(token), userId, expiresAt]
+  );
+  // Expired sessions are only ever read to be rejected; clear them while here.
+  await query(`DELETE FROM user_sessions WHERE user_id = $1 AND expires_at < NOW();`, [userId]);
+  return { token, expiresAt };
+}
+
+export async function deleteSession(token: string) {
+  await ensureAuthTables();
+  await query(`DELETE FROM user_sessions WHERE token_hash = $1;`, [hashToken(token)]);
+}
+
+export function setSessionCookie(
+  response: NextResponse,
+  session: { token: string; expiresAt: Date } | null
+) {
+  response.cookies.set(SESSION_COOKIE, session?.token ?? "", {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: session?.expiresAt ?? new Date(0),
+  });
+}
+
+/** Creates an API token for scripts. The token is only ever returned here. */
+export async function createApiToken(
+  userId: string,
+  input: { name: string; expiresAt?: Date | null }
+): Promise<{ token: string; apiToken: ApiToken }> {
+  await ensureAuthTables();
+  const token = `${API_TOKEN_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const { rows } = await query<ApiToken>(
+    `
+      INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, expires_at)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id::text AS id, user_id::text AS user_id, name, token_prefix,
+                created_at, last_used_at, expires_at;
+    `,
+    [
+      userId,
+      input.name.trim() || "API token",
+      hashToken(token),
+      token.slice(0, API_TOKEN_PREFIX.length + 6),
+      input.expiresAt ?? null,
+    ]
+  );
+  return { token, apiToken: rows[0] };
+}
+
+export async function listApiTokens(userId: string): Promise<ApiToken[]> {
+  await ensureAuthTables();
+  const { rows } = await query<ApiToken>(
+    `
+      SELECT id::text AS id, user_id::text AS user_id, name, token_prefix,
+             created_at, last_used_at, expires_at
+      FROM api_tokens
+      WHERE user_id::text = $1
+      ORDER BY created_at DESC;
+    `,
+    [userId]
+  );
+  return rows;
+}
+
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  await ensureAuthTables();
+  const { rowCount } = await query(
+    `DELETE FROM api_tokens WHERE id::text = $1 AND user_id::text = $2;`,
+    [tokenId, userId]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Who is calling: an `Authorization: Bearer` API token or the session cookie.
+ * Null for anonymous requests.
+ */
+export async function resolveIdentity(request: NextRequest): Promise<Identity | null> {
+  if (isAuthDisabled()) {
+    return { user: LOCAL_ADMIN, via: "disabled" };
+  }
+  await ensureAuthTables();
+
+  const authorization = request.headers.get("authorization") ?? "";
+  const bearer = /^Bearer\s+(\S+)$/i.exec(authorization)?.[1];
+  if (bearer) {
+    const { rows } = await query<AuthUser>(
+      `
+        UPDATE api_tokens t
+        SET last_used_at = NOW()
+        FROM users u
+        WHERE t.token_hash = $1
+          AND u.id = t.user_id
+          AND NOT u.disabled
+          AND (t.expires_at IS NULL OR t.expires_at > NOW())
+        RETURNING u.id::text AS id, u.email, u.name, u.is_admin;
+      `,
+      [hashToken(bearer)]
+    );
+    return rows[0] ? { user: rows[0], via: "token" } : null;
+  }
+
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!session) return null;
+  const { rows } = await query<AuthUser>(
+    `
+      SELECT u.id::text AS id, u.email, u.name, u.is_admin
+      FROM user_sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash = $1 AND s.expires_at > NOW() AND NOT u.disabled;
+    `,
+    [hashToken(session)]
+  );
+  return rows[0] ? { user: rows[0], via: "session" } : null;
+}
+
+export async function requireIdentity(request: NextRequest): Promise<Identity> {
+  const identity = await resolveIdentity(request);
+  if (!identity) {
+    throw new AccessDeniedError("Sign in or pass an API token", 401);
+  }
+  return identity;
+}
+
+export async function requireAdmin(request: NextRequest): Promise<Identity> {
+  const identity = await requireIdentity(request);
+  if (!identity.user.is_admin) {
+    throw new AccessDeniedError("Only administrators can do this");
+  }
+  return identity;
+}
+
+/**
+ * The user's role on each table: a table grant when there is one (so a table
+ * can be opened up or locked down within its project), otherwise the grant on
+ * the table's project tag. Administrators own everything.
+ */
+export async function resolveTableRoles(
+  user: AuthUser,
+  tables: Array<{ table_name: string; project_tag: string }>
+): Promise<Map<string, Role>> {
+  if (user.is_admin) {
+    return new Map(tables.map((table) => [table.table_name, "owner" as Role]));
+  }
+  await ensureAuthTables();
+  const { rows } = await query<Pick<AccessGrant, "scope_type" | "scope" | "role">>(
+    `SELECT scope_type, scope, role FROM access_grants WHERE user_id::text = $1;`,
+    [user.id]
+  );
+  const tableGrants = new Map<string, Role>();
+  const projectGrants = new Map<string, Role>();
+  for (const grant of rows) {
+    if (!isRole(grant.role)) continue;
+    (grant.scope_type === "table" ? tableGrants : projectGrants).set(grant.scope, grant.role);
+  }
+
+  const roles = new Map<string, Role>();
+  for (const table of tables) {
+    const role = tableGrants.get(table.table_name) ?? projectGrants.get(table.project_tag);
+    if (role) roles.set(table.table_name, role);
+  }
+  return roles;
+}
+
+async function resolveTableRole(user: AuthUser, tableName: string): Promise<Role | null> {
+  const { rows } = await query<{ table_name: string; project_tag: string }>(
+    `SELECT table_name, project_tag FROM table_metadata WHERE table_name = $1;`,
+    [tableName]
+  );
+  if (!rows.length) {
+    // Unknown tables are only reported as missing to administrators.
+    return user.is_admin ? "owner" : null;
+  }
+  return (await resolveTableRoles(user, rows)).get(tableName) ?? null;
+}
+
+/**
+ * Checks that the caller holds at least `required` on `tableName` and returns
+ * their identity and the access to hand to tableService.
+ */
+export async function authorizeTable(
+  request: NextRequest,
+  tableName: string,
+  required: Role
+): Promise<{ identity: Identity; access: TableAccess }> {
+  const identity = await requireIdentity(request);
+  const role = await resolveTableRole(identity.user, tableName);
+  if (!roleAtLeast(role, required)) {
+    throw new AccessDeniedError(
+      role
+        ? `${required} access to ${tableName} is required`
+        : `You do not have access to ${tableName}`
+    );
+  }
+  const { id, name, email } = identity.user;
+  return {
+    identity,
+    access: {
+      role: role as Role,
+      user: { id, name, email },
+      roleOn: (otherTable) => resolveTableRole(identity.user, otherTable),
+    },
+  };
+}
+
+/**
+ * Checks that the caller holds at least `required` on the project through a
+ * project grant, as creating a table in it or moving one into it needs.
+ */
+export async function authorizeProject(
+  request: NextRequest,
+  projectTag: string,
+  required: Role
+): Promise<Identity> {
+  const identity = await requireIdentity(request);
+  if (identity.user.is_admin) return identity;
+  const [grant] = await listAccessGrants({
+    userId: identity.user.id,
+    scope: { type: "project", name: projectTag },
+  });
+  if (!roleAtLeast(isRole(grant?.role) ? grant.role : null, required)) {
+    throw new AccessDeniedError(`${required} access to project ${projectTag} is required`);
+  }
+  return identity;
+}
+
+/** Administrators and owners of a scope manage who else can use it. */
+export async function authorizeScope(request: NextRequest, scope: AccessScope): Promise<Identity> {
+  const identity = await requireIdentity(request);
+  if (identity.user.is_admin) return identity;
+  const owner =
+    scope.type === "table"
+      ? (await resolveTableRole(identity.user, scope.name)) === "owner"
+      : (await listAccessGrants({ userId: identity.user.id })).some(
+          (grant) =>
+            grant.scope_type === "project" && grant.scope === scope.name && grant.role === "owner"
+        );
+  if (!owner) {
+    throw new AccessDeniedError(`Only owners of ${scope.name} can manage its access`);
+  }
+  return identity;
+}
+
+export async function listAccessGrants(filter: {
+  userId?: string;
+  scope?: AccessScope;
+}): Promise<AccessGrant[]> {
+  await ensureAuthTables();
+  const { rows } = await query<AccessGrant>(
+    `
+      SELECT user_id::text AS user_id, scope_type, scope, role, created_at, updated_at
+      FROM access_grants
+      WHERE ($1::text IS NULL OR user_id::text = $1)
+        AND ($2::text IS NULL OR (scope_type = $2 AND scope = $3))
+      ORDER BY scope_type, scope, user_id;
+    `,
+    [filter.userId ?? null, filter.scope?.type ?? null, filter.scope?.name ?? null]
+  );
+  return rows;
+}
+
+/** Grants `role` on `scope` to the user, or revokes their grant when `role` is null. */
+export async function setAccessGrant(
+  userId: string,
+  scope: AccessScope,
+  role: Role | null
+): Promise<AccessGrant | null> {
+  await ensureAuthTables();
+  if (!role) {
+    await query(
+      `DELETE FROM access_grants WHERE user_id::text = $1 AND scope_type = $2 AND scope = $3;`,
+      [userId, scope.type, scope.name]
+    );
+    return null;
+  }
+  const { rows } = await query<AccessGrant>(
+    `
+      INSERT INTO access_grants (user_id, scope_type, scope, role)
+      SELECT id, $2, $3, $4 FROM users WHERE id::text = $1
+      ON CONFLICT (user_id, scope_type, scope)
+      DO UPDATE SET role = EXCLUDED.role, updated_at = NOW()
+      RETURNING user_id::text AS user_id, scope_type, scope, role, created_at, updated_at;
+    `,
+    [userId, scope.type, scope.name, role]
+  );
+  if (!rows.length) {
+    throw new UserValidationError(`User ${userId} not found`);
+  }
+  return rows[0];
+}
@@ -0,0 +1,283 @@
+import type { ColumnSpec } from "./tableUtils";
+
+// Plain-text formatting of cell values, shared by the grid and by exports.
+
+export function createCurrencyFormatter(locale: string, currency: string) {
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 2
+  });
+}
+
+export function createDateFormatter(
+  locale: string,
+  options: Intl.DateTimeFormatOptions
+) {
+  return new Intl.DateTimeFormat(locale, options);
+}
+
+/**
+ * Formats a createdTime or lastModifiedTime value with the field's format. An
+ * empty timezone uses the viewer's own; an unknown one falls back to UTC.
+ */
+export function formatTimestamp(
+  value: unknown,
+  format?: {
+    dateStyle?: "short" | "medium" | "long";
+    timeStyle?: "short" | "medium" | "long";
+    timezone?: string;
+  }
+): string {
+  if (!value) return "";
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return "";
+  const options: Intl.DateTimeFormatOptions = {
+    dateStyle: format?.dateStyle ?? "short",
+    timeStyle: format?.timeStyle ?? "short",
+  };
+  try {
+    return createDateFormatter("en-US", { ...options, timeZone: format?.timezone || undefined }).format(date);
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    return createDateFormatter("en-US", { ...options, timeZone: "UTC" }).format(date);
+  }
+}
+
+export function formatPercentage(value: number, digits = 0) {
+  const pct = Math.max(-1, Math.min(1, Number.isFinite(value) ? value : 0));
+  return `${(pct * 100).toFixed(digits)}%`;
+}
+
+function abbreviateNumber(n: number) {
+  const abs = Math.abs(n);
+  if (abs >= 1e12) return `${(n / 1e12).toFixed(1)}T`;
+  if (abs >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return String(n);
+}
+
+export function formatNumber(
+  n: number,
+  cfg: NonNullable<ColumnSpec["config"]>["number"] | undefined
+) {
+  const decimals = cfg?.decimals ?? 0;
+  const thousands = cfg?.thousands ?? true;
+  const abbr = cfg?.abbreviate ?? false;
+  if (!Number.isFinite(n)) return "";
+  if (abbr) return abbreviateNumber(n);
+  const parts = n.toFixed(decimals).split(".");
+  if (thousands) parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return parts.join(decimals ? "." : "");
+}
+
+export function formatCountValue(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  const [integerPart, fractionalPart] = String(value).split(".");
+  const withSeparators = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  return fractionalPart ? `${withSeparators}.${fractionalPart}` : withSeparators;
+}
+
+export function formatCurrency(
+  n: number,
+  cfg: NonNullable<ColumnSpec["config"]>["currency"] | undefined
+) {
+  const locale = cfg?.locale ?? "en-US";
+  const currency = cfg?.currency ?? "USD";
+  const decimals = cfg?.decimals ?? 2;
+  const nf = new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: decimals });
+  const s = nf.format(n);
+  if (!cfg?.thousandSeparator || cfg.thousandSeparator === "local") return s;
+
+  // Re-map separators for the custom options.
+  const map: Record<string, { g: RegExp; repl: string; dec: string }> = {
+    "comma-period": { g: /\B(?=(\d{3})+(?!\d))/g, repl: ",", dec: "." },
+    "period-comma": { g: /\B(?=(\d{3})+(?!\d))/g, repl: ".", dec: "," },
+    "space-comma": { g: /\B(?=(\d{3})+(?!\d))/g, repl: " ", dec: "," },
+    "space-period": { g: /\B(?=(\d{3})+(?!\d))/g, repl: " ", dec: "." }
+  };
+
+  // naive rebuild: strip currency, rebuild numeric part
+  const m = s.match(/(-?[\d.,\s]+)(.*)/);
+  if (!m) return s;
+  const raw = m[1].replace(/[^\d.-]/g, "");
+  const { g, repl, dec } = map[cfg.thousandSeparator];
+  const parts = Number(raw).toFixed(decimals).split(".");
+  parts[0] = parts[0].replace(g, repl);
+  return s.replace(/-?[\d.,\s]+/, parts.join(dec));
+}
+
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "";
+  const total = Math.max(0, Math.floor(seconds));
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const parts = [
+    String(mins).padStart(2, "0"),
+    String(secs).padStart(2, "0")
+  ];
+  if (hrs > 0) parts.unshift(String(hrs));
+  return parts.join(":");
+}
+
+const MONTH_NAMES_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+const MONTH_NAMES_LONG = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December"
+];
+const WEEKDAY_NAMES_LONG = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday"
+];
+
+function formatUtcTimeShort(date: Date): string {
+  let hours = date.getUTCHours();
+  const minutes = String(date.getUTCMinutes()).padStart(2, "0");
+  const suffix = hours >= 12 ? "PM" : "AM";
+  hours = hours % 12 || 12;
+  return `${hours}:${minutes} ${suffix} UTC`;
+}
+
+export function formatDateValue(value: unknown, format?: string): string {
+  if (!value) return "";
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) return "";
+
+  const monthIndex = date.getUTCMonth();
+  const dayOfMonth = date.getUTCDate();
+  const yearFull = date.getUTCFullYear();
+  const yearShort = String(yearFull).slice(-2);
+  const monthShort = MONTH_NAMES_SHORT[monthIndex] ?? "";
+  const monthLong = MONTH_NAMES_LONG[monthIndex] ?? "";
+  const dayPadded = String(dayOfMonth).padStart(2, "0");
+  const shortDate = `${String(monthIndex + 1).padStart(2, "0")}/${dayPadded}/${yearShort}`;
+  const mediumDate = `${monthShort} ${dayOfMonth}, ${yearFull}`;
+  const longDate = `${monthLong} ${dayOfMonth}, ${yearFull}`;
+  const weekday = WEEKDAY_NAMES_LONG[date.getUTCDay()] ?? "";
+  const fullDate = `${weekday}, ${longDate}`;
+  const datetime = `${mediumDate} ${formatUtcTimeShort(date)}`;
+
+  if (!format) {
+    return mediumDate;
+  }
+
+  const token = format.toLowerCase();
+  switch (token) {
+    case "iso":
+      return date.toISOString();
+    case "iso-date":
+      return date.toISOString().split("T")[0] ?? date.toISOString();
+    case "short":
+      return shortDate;
+    case "medium":
+      return mediumDate;
+    case "long":
+      return longDate;
+    case "full":
+      return fullDate;
+    case "time":
+      return formatUtcTimeShort(date);
+    case "datetime":
+      return datetime;
+    default:
+      return mediumDate;
+  }
+}
+
+export function stringifyValue(value: unknown): string {
+  if (value == null) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((v) => stringifyValue(v)).filter(Boolean).join(", ");
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+function entryLabel(entry: unknown): string {
+  if (entry == null) return "";
+  if (typeof entry !== "object") return String(entry);
+  const record = entry as { label?: unknown; title?: unknown; name?: unknown; email?: unknown; id?: unknown };
+  const label = record.label ?? record.title ?? record.name ?? record.email ?? record.id;
+  return label == null ? stringifyValue(entry) : String(label);
+}
+
+function entries(value: unknown): unknown[] {
+  if (value == null || value === "") return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * A cell as text, formatted by its column's config the way the grid shows it:
+ * select labels, linked record titles and user names rather than raw values.
+ */
+export function formatCellText(value: unknown, column: ColumnSpec): string {
+  if (value == null || value === "") return "";
+  switch (column.type) {
+    case "checkbox":
+      return value ? "checked" : "";
+    case "number": {
+      const num = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(num) ? formatNumber(num, column.config?.number) : "";
+    }
+    case "currency": {
+      const num = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(num) ? formatCurrency(num, column.config?.currency) : "";
+    }
+    case "percent": {
+      const num = typeof value === "number" ? value : Number(value);
+      if (!Number.isFinite(num)) return "";
+      const normalized = Math.abs(num) <= 1 ? num : num / 100;
+      return formatPercentage(normalized, column.config?.percent?.decimals ?? 0);
+    }
+    case "duration": {
+      const num = typeof value === "number" ? value : Number(value);
+      return Number.isFinite(num) ? formatDuration(num) : "";
+    }
+    case "date":
+      return formatDateValue(value, column.config?.date?.format);
+    case "createdTime":
+      return formatTimestamp(value, column.config?.createdTime?.format);
+    case "lastModifiedTime":
+      return formatTimestamp(value, column.config?.lastModifiedTime?.format);
+    case "attachment":
+      return entries(value)
+        .map((file) => {
+          const record = file && typeof file === "object" ? (file as { filename?: unknown; url?: unknown }) : null;
+          if (!record) return stringifyValue(file);
+          const name = String(record.filename ?? "");
+          return typeof record.url === "string" ? `${name} (${record.url})` : name;
+        })
+        .filter(Boolean)
+        .join(", ");
+    case "singleSelect":
+    case "multipleSelect":
+    case "linkToRecord":
+    case "user":
+    case "createdBy":
+    case "lastModifiedBy":
+      return entries(value).map(entryLabel).filter(Boolean).join(", ");
+    default:
+      return stringifyValue(value);
+  }
+}
@@ -0,0 +1,224 @@
+import type { PoolClient } from "pg";
+import { query } from "./db";
+import { ROW_SYSTEM_COLUMNS } from "./rowTimestamps";
+
+// Append-only record of row and field changes made through tableService:
+// before/after snapshots plus who made the change. It backs the record
+// history panel and point-in-time restore. The table itself predates this
+// module (the Airtable sync and the migration script create it), so the
+// columns added here are applied with ALTER.
+
+export const CHANGE_LOG_DDL = `
+  CREATE TABLE IF NOT EXISTS table_change_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+
+  ALTER TABLE table_change_log
+    ADD COLUMN IF NOT EXISTS seq BIGSERIAL,
+    ADD COLUMN IF NOT EXISTS row_id TEXT,
+    ADD COLUMN IF NOT EXISTS column_key TEXT,
+    ADD COLUMN IF NOT EXISTS actor_id TEXT,
+    ADD COLUMN IF NOT EXISTS actor_name TEXT;
+
+  CREATE INDEX IF NOT EXISTS idx_table_change_log_row
+    ON table_change_log (table_name, row_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_table_change_log_table
+    ON table_change_log (table_name, created_at);
+
+  CREATE OR REPLACE FUNCTION grid_change_log_append_only() RETURNS trigger AS $$
+  BEGIN
+    RAISE EXCEPTION 'table_change_log is append-only';
+  END;
+  $$ LANGUAGE plpgsql;
+
+  DROP TRIGGER IF EXISTS grid_change_log_append_only ON table_change_log;
+  CREATE TRIGGER grid_change_log_append_only
+    BEFORE UPDATE OR DELETE ON table_change_log
+    FOR EACH ROW EXECUTE FUNCTION grid_change_log_append_only();
+`;
+
+export type RowChangeType = "rowCreated" | "rowUpdated" | "rowDeleted";
+export type ColumnChangeType = "columnCreated" | "columnUpdated" | "columnDeleted";
+
+export type ChangeActor = { id: string; name: string } | null;
+
+export type ChangeLogEntry = {
+  id: string;
+  table_name: string;
+  change_type: RowChangeType | ColumnChangeType;
+  row_id: string | null;
+  column_key: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_keys: string[];
+  created_at: string;
+};
+
+export class RestoreValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RestoreValidationError";
+  }
+}
+
+/** Parses the `at` of a restore request; the moment must be in the past. */
+export function parseRestorePoint(value: unknown): Date {
+  const at = typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+  if (!at || Number.isNaN(at.getTime())) {
+    throw new RestoreValidationError("`at` must be a timestamp");
+  }
+  if (at.getTime() > Date.now()) {
+    throw new RestoreValidationError("`at` cannot be in the future");
+  }
+  return at;
+}
+
+const SYSTEM_KEYS = new Set<string>(ROW_SYSTEM_COLUMNS);
+
+// Row snapshots go through JSON, so values compare the way they are stored.
+function snapshot(row: Record<string, unknown> | null): Record<string, unknown> | null {
+  return row ? JSON.parse(JSON.stringify(row)) : null;
+}
+
+function changedKeysBetween(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): string[] {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  return Array.from(keys).filter(
+    (key) =>
+      !SYSTEM_KEYS.has(key) &&
+      JSON.stringify(before?.[key] ?? null) !== JSON.stringify(after?.[key] ?? null)
+  );
+}
+
+/**
+ * Appends a row change. Updates that leave every field as it was are not
+ * recorded.
+ */
+export async function recordRowChange(
+  client: PoolClient,
+  input: {
+    tableName: string;
+    rowId: string;
+    type: RowChangeType;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    actor: ChangeActor;
+  }
+) {
+  const before = snapshot(input.before);
+  const after = snapshot(input.after);
+  const changedKeys = changedKeysBetween(before, after);
+  if (input.type === "rowUpdated" && !changedKeys.length) return;
+  await client.query(
+    `
+      INSERT INTO table_change_log
+        (table_name, change_type, row_id, actor_id, actor_name, payload)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb);
+    `,
+    [
+      input.tableName,
+      input.type,
+      input.rowId,
+      input.actor?.id ?? null,
+      input.actor?.name ?? null,
+      JSON.stringify({ before, after, changedKeys }),
+    ]
+  );
+}
+
+/** Appends a field change; `before`/`after` are the field definitions. */
+export async function recordColumnChange(
+  client: PoolClient,
+  input: {
+    tableName: string;
+    columnKey: string;
+    type: ColumnChangeType;
+    before: unknown;
+    after: unknown;
+    actor: ChangeActor;
+  }
+) {
+  await client.query(
+    `
+      INSERT INTO table_change_log
+        (table_name, change_type, column_key, actor_id, actor_name, payload)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb);
+    `,
+    [
+      input.tableName,
+      input.type,
+      input.columnKey,
+      input.actor?.id ?? null,
+      input.actor?.name ?? null,
+      JSON.stringify({ before: input.before ?? null, after: input.after ?? null }),
+    ]
+  );
+}
+
+const ENTRY_COLUMNS = `
+  id::text AS id, table_name, change_type, row_id, column_key, actor_id, actor_name,
+  payload->'before' AS before,
+  payload->'after' AS after,
+  COALESCE(payload->'changedKeys', '[]'::jsonb) AS changed_keys,
+  created_at
+`;
+
+/** A row's changes, newest first. */
+export async function listRowChanges(
+  tableName: string,
+  rowId: string,
+  options?: { limit?: number }
+): Promise<ChangeLogEntry[]> {
+  const { rows } = await query<ChangeLogEntry>(
+    `
+      SELECT ${ENTRY_COLUMNS}
+      FROM table_change_log
+      WHERE table_name = $1 AND row_id = $2
+      ORDER BY created_at DESC, seq DESC
+      LIMIT $3;
+    `,
+    [tableName, rowId, Math.max(1, Math.min(options?.limit ?? 100, 500))]
+  );
+  return rows;
+}
+
+/**
+ * What each row changed since `at` looked like at that moment: the `before`
+ * of its first change after `at`, or null when the row did not exist yet.
+ * Rows untouched since `at` are absent. Timestamps compare to the
+ * millisecond, the precision clients see them with.
+ */
+export async function rowStatesAt(
+  client: PoolClient,
+  tableName: string,
+  at: Date,
+  rowId?: string
+): Promise<Map<string, Record<string, unknown> | null>> {
+  const { rows } = await client.query<{
+    row_id: string;
+    state: Record<string, unknown> | null;
+  }>(
+    `
+      SELECT DISTINCT ON (row_id) row_id, payload->'before' AS state
+      FROM table_change_log
+      WHERE table_name = $1
+        AND row_id IS NOT NULL
+        AND change_type IN ('rowCreated', 'rowUpdated', 'rowDeleted')
+        AND date_trunc('milliseconds', created_at) > $2
+        AND ($3::text IS NULL OR row_id = $3)
+      ORDER BY row_id, created_at ASC, seq ASC;
+    `,
+    [tableName, at, rowId ?? null]
+  );
+  return new Map(
+    rows.map((row) => [row.row_id, row.state && typeof row.state === "object" ? row.state : null])
+  );
+}
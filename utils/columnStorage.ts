@@ -0,0 +1,402 @@
+import type { PoolClient } from "pg";
+import { getTableColumns } from "./db";
+import type { ColumnType } from "./tableUtils";
+
+export type StorageType =
+  | "text"
+  | "numeric"
+  | "timestamptz"
+  | "boolean"
+  | "jsonb"
+  | "text[]";
+
+const STORAGE_BY_COLUMN_TYPE: Record<ColumnType, StorageType> = {
+  singleLineText: "text",
+  longText: "text",
+  phone: "text",
+  email: "text",
+  url: "text",
+  singleSelect: "text",
+  formula: "text",
+  number: "numeric",
+  currency: "numeric",
+  percent: "numeric",
+  duration: "numeric",
+  rating: "numeric",
+  count: "numeric",
+  date: "timestamptz",
+  createdTime: "timestamptz",
+  lastModifiedTime: "timestamptz",
+  checkbox: "boolean",
+  multipleSelect: "text[]",
+  attachment: "jsonb",
+  user: "jsonb",
+  createdBy: "jsonb",
+  lastModifiedBy: "jsonb",
+  linkToRecord: "jsonb",
+  lookup: "jsonb",
+  rollup: "jsonb",
+};
+
+const TRUE_VALUES = new Set(["true", "1", "yes", "y", "on", "checked"]);
+const FALSE_VALUES = new Set(["false", "0", "no", "n", "off", "unchecked"]);
+
+export function storageTypeForColumn(type: string | null | undefined): StorageType {
+  if (!type) return "text";
+  return STORAGE_BY_COLUMN_TYPE[type as ColumnType] ?? "text";
+}
+
+export function storageTypeFromUdt(udtName: string | null | undefined): StorageType {
+  switch (udtName) {
+    case "numeric":
+    case "int2":
+    case "int4":
+    case "int8":
+    case "float4":
+    case "float8":
+      return "numeric";
+    case "timestamptz":
+    case "timestamp":
+    case "date":
+      return "timestamptz";
+    case "bool":
+      return "boolean";
+    case "jsonb":
+    case "json":
+      return "jsonb";
+    case "_text":
+    case "_varchar":
+      return "text[]";
+    default:
+      return "text";
+  }
+}
+
+export async function loadColumnStorage(
+  client: PoolClient,
+  tableName: string
+): Promise<Map<string, StorageType>> {
+  const columns = await getTableColumns(client, tableName);
+  return new Map(
+    columns.map((column) => [column.column_name, storageTypeFromUdt(column.udt_name)])
+  );
+}
+
+function labelOf(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const candidate = record.label ?? record.name ?? record.title ?? record.id;
+    if (candidate !== undefined && candidate !== null) return String(candidate);
+    return JSON.stringify(record);
+  }
+  return String(value);
+}
+
+function describe(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Converts an API/grid value into the parameter shape expected by a column of
+ * the given storage type. Throws when the value cannot be represented, so bad
+ * input is rejected instead of being written as NULL.
+ */
+export function serializeForStorage(
+  value: unknown,
+  storage: StorageType,
+  columnKey = "value"
+): unknown {
+  if (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "")
+  ) {
+    return null;
+  }
+
+  const invalid = () =>
+    new Error(`Invalid ${storage} value for ${columnKey}: ${describe(value)}`);
+
+  switch (storage) {
+    case "numeric": {
+      if (typeof value === "number") {
+        if (!Number.isFinite(value)) throw invalid();
+        return value;
+      }
+      if (typeof value === "string") {
+        const parsed = Number(value.replace(/,/g, "").trim());
+        if (!Number.isFinite(parsed)) throw invalid();
+        return parsed;
+      }
+      throw invalid();
+    }
+    case "timestamptz": {
+      const date =
+        value instanceof Date
+          ? value
+          : typeof value === "string" || typeof value === "number"
+            ? new Date(value)
+            : null;
+      if (!date || Number.isNaN(date.getTime())) throw invalid();
+      return date.toISOString();
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      if (typeof value === "number") return value !== 0;
+      if (typeof value === "string") {
+        const normalized = value.trim().toLowerCase();
+        if (TRUE_VALUES.has(normalized)) return true;
+        if (FALSE_VALUES.has(normalized)) return false;
+      }
+      throw invalid();
+    }
+    case "text[]": {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else if (typeof value === "string") {
+        const trimmed = value.trim();
+        let parsed: unknown = null;
+        if (trimmed.startsWith("[")) {
+          try {
+            parsed = JSON.parse(trimmed);
+          } catch {
+            parsed = null;
+          }
+        }
+        items = Array.isArray(parsed) ? parsed : trimmed.split(",");
+      } else {
+        items = [value];
+      }
+      const labels = items.map((item) => labelOf(item).trim()).filter(Boolean);
+      return labels.length ? labels : null;
+    }
+    case "jsonb": {
+      if (typeof value === "string") {
+        const trimmed = value.trim();
+        if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+          try {
+            JSON.parse(trimmed);
+            return trimmed;
+          } catch {
+            /* fall through to a JSON string scalar */
+          }
+        }
+      }
+      if (Array.isArray(value) && value.length === 0) return null;
+      return JSON.stringify(value);
+    }
+    case "text":
+    default: {
+      if (typeof value === "object") {
+        if (value instanceof Date) return value.toISOString();
+        return JSON.stringify(value);
+      }
+      return String(value);
+    }
+  }
+}
+
+/** SQL placeholder with the cast matching the column's storage type. */
+export function storagePlaceholder(index: number, storage: StorageType): string {
+  return storage === "text" ? `$${index}` : `$${index}::${storage}`;
+}
+
+const STORAGE_FUNCTIONS_SQL = `
+  CREATE OR REPLACE FUNCTION grid_try_numeric(value TEXT) RETURNS NUMERIC
+  LANGUAGE plpgsql IMMUTABLE AS $fn$
+  BEGIN
+    IF value IS NULL OR btrim(value) = '' THEN RETURN NULL; END IF;
+    RETURN replace(btrim(value), ',', '')::numeric;
+  EXCEPTION WHEN others THEN RETURN NULL;
+  END;
+  $fn$;
+
+  CREATE OR REPLACE FUNCTION grid_try_timestamptz(value TEXT) RETURNS TIMESTAMPTZ
+  LANGUAGE plpgsql STABLE AS $fn$
+  BEGIN
+    IF value IS NULL OR btrim(value) = '' THEN RETURN NULL; END IF;
+    RETURN btrim(value)::timestamptz;
+  EXCEPTION WHEN others THEN RETURN NULL;
+  END;
+  $fn$;
+
+  CREATE OR REPLACE FUNCTION grid_try_boolean(value TEXT) RETURNS BOOLEAN
+  LANGUAGE plpgsql IMMUTABLE AS $fn$
+  BEGIN
+    IF value IS NULL OR btrim(value) = '' THEN RETURN NULL; END IF;
+    IF lower(btrim(value)) IN ('true', '1', 'yes', 'y', 'on', 'checked') THEN RETURN TRUE; END IF;
+    IF lower(btrim(value)) IN ('false', '0', 'no', 'n', 'off', 'unchecked') THEN RETURN FALSE; END IF;
+    RETURN NULL;
+  END;
+  $fn$;
+
+  CREATE OR REPLACE FUNCTION grid_try_jsonb(value TEXT) RETURNS JSONB
+  LANGUAGE plpgsql IMMUTABLE AS $fn$
+  BEGIN
+    IF value IS NULL OR btrim(value) = '' THEN RETURN NULL; END IF;
+    RETURN value::jsonb;
+  EXCEPTION WHEN others THEN RETURN to_jsonb(value);
+  END;
+  $fn$;
+
+  CREATE OR REPLACE FUNCTION grid_to_text_array(value TEXT) RETURNS TEXT[]
+  LANGUAGE plpgsql IMMUTABLE AS $fn$
+  DECLARE
+    parsed JSONB;
+  BEGIN
+    IF value IS NULL OR btrim(value) = '' THEN RETURN NULL; END IF;
+    BEGIN
+      parsed := value::jsonb;
+    EXCEPTION WHEN others THEN
+      parsed := NULL;
+    END;
+    IF parsed IS NOT NULL AND jsonb_typeof(parsed) = 'array' THEN
+      RETURN ARRAY(
+        SELECT COALESCE(elem ->> 'label', elem ->> 'name', elem #>> '{}')
+        FROM jsonb_array_elements(parsed) AS elem
+      );
+    END IF;
+    RETURN ARRAY(
+      SELECT btrim(part)
+      FROM unnest(string_to_array(value, ',')) AS part
+      WHERE btrim(part) <> ''
+    );
+  END;
+  $fn$;
+`;
+
+export async function ensureStorageFunctions(
+  execute: (sql: string) => Promise<unknown>
+) {
+  await execute(STORAGE_FUNCTIONS_SQL);
+}
+
+/** Renders a column of any storage type as the text the converters accept. */
+export function storageAsText(column: string, from: StorageType): string {
+  switch (from) {
+    case "text":
+      return column;
+    case "timestamptz":
+      return `(to_json(${column}) #>> '{}')`;
+    case "jsonb":
+      return `(CASE WHEN jsonb_typeof(${column}) = 'string' THEN ${column} #>> '{}' ELSE ${column}::text END)`;
+    case "text[]":
+      return `(to_jsonb(${column})::text)`;
+    default:
+      return `(${column}::text)`;
+  }
+}
+
+/** Expression converting `column` from one storage type to another, NULL when it can't. */
+export function conversionExpression(
+  column: string,
+  from: StorageType,
+  to: StorageType
+): string {
+  const source = storageAsText(column, from);
+  switch (to) {
+    case "numeric":
+      return from === "boolean"
+        ? `(CASE WHEN ${column} THEN 1 WHEN NOT ${column} THEN 0 END)::numeric`
+        : `grid_try_numeric(${source})`;
+    case "timestamptz":
+      return `grid_try_timestamptz(${source})`;
+    case "boolean":
+      return from === "numeric"
+        ? `(${column} <> 0)`
+        : `grid_try_boolean(${source})`;
+    case "jsonb":
+      return `grid_try_jsonb(${source})`;
+    case "text[]":
+      return `grid_to_text_array(${source})`;
+    case "text":
+    default:
+      return source;
+  }
+}
+
+export type ColumnConversionFailure = { rowId: string; value: string };
+
+export type ColumnConversionReport = {
+  column: string;
+  from: StorageType;
+  to: StorageType;
+  failedRows: number;
+  failures: ColumnConversionFailure[];
+};
+
+export class ColumnConversionError extends Error {
+  report: ColumnConversionReport;
+
+  constructor(report: ColumnConversionReport) {
+    const sample = report.failures
+      .slice(0, 3)
+      .map((failure) => `"${failure.value}"`)
+      .join(", ");
+    super(
+      `Cannot convert ${report.column} to ${report.to}: ${report.failedRows} row(s) failed conversion (${sample})`
+    );
+    this.name = "ColumnConversionError";
+    this.report = report;
+  }
+}
+
+/**
+ * Changes the physical type of a column with `ALTER COLUMN ... USING`. Rows
+ * whose value cannot be converted are reported; unless `allowDataLoss` is set
+ * the conversion is refused with a `ColumnConversionError` and nothing changes.
+ */
+export async function convertColumnStorage(
+  client: PoolClient,
+  tableName: string,
+  columnName: string,
+  from: StorageType,
+  to: StorageType,
+  options?: { allowDataLoss?: boolean; sampleSize?: number }
+): Promise<ColumnConversionReport> {
+  const column = `"${columnName}"`;
+  const report: ColumnConversionReport = {
+    column: columnName,
+    from,
+    to,
+    failedRows: 0,
+    failures: [],
+  };
+  if (from === to) return report;
+
+  await ensureStorageFunctions((sql) => client.query(sql));
+
+  const source = storageAsText(column, from);
+  const converted = conversionExpression(column, from, to);
+  const failurePredicate = `NULLIF(btrim(${source}), '') IS NOT NULL AND ${converted} IS NULL`;
+
+  const { rows: countRows } = await client.query<{ count: string }>(
+    `SELECT COUNT(*)::text AS count FROM "${tableName}" WHERE ${failurePredicate};`
+  );
+  const { rows: sampleRows } = await client.query<{ row_id: string; value: string }>(
+    `
+      SELECT id::text AS row_id, ${source} AS value
+      FROM "${tableName}"
+      WHERE ${failurePredicate}
+      ORDER BY id
+      LIMIT $1;
+    `,
+    [options?.sampleSize ?? 50]
+  );
+
+  report.failedRows = Number(countRows[0]?.count ?? "0");
+  report.failures = sampleRows.map((row) => ({ rowId: row.row_id, value: row.value }));
+
+  if (report.failedRows > 0 && !options?.allowDataLoss) {
+    throw new ColumnConversionError(report);
+  }
+
+  await client.query(
+    `ALTER TABLE "${tableName}" ALTER COLUMN ${column} TYPE ${to} USING ${converted};`
+  );
+
+  return report;
+}
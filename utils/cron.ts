@@ -0,0 +1,83 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in the process's local time.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted.
+  restrictedDays: { dayOfMonth: boolean; dayOfWeek: boolean };
+};
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+const FIELD_NAMES = ["minute", "hour", "day of month", "month", "day of week"];
+
+function parseField(field: string, index: number): Set<number> {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${FIELD_NAMES[index]} "${part}"`);
+    }
+    const step = match[4] ? Number(match[4]) : 1;
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end =
+      match[1] === "*" ? max : match[3] ? Number(match[3]) : match[4] ? max : start;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron ${FIELD_NAMES[index]} "${part}" is out of range`);
+    }
+    for (let value = start; value <= end; value += step) {
+      // Sunday may be written as 0 or 7.
+      values.add(index === 4 && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Cron expressions need five fields (minute hour day month weekday), got "${expression}"`
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(parseField);
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    restrictedDays: { dayOfMonth: fields[2] !== "*", dayOfWeek: fields[4] !== "*" },
+  };
+}
+
+/** Whether `schedule` fires in the minute containing `date`. */
+export function cronMatches(schedule: CronSchedule | string, date: Date): boolean {
+  const cron = typeof schedule === "string" ? parseCron(schedule) : schedule;
+  if (
+    !cron.minutes.has(date.getMinutes()) ||
+    !cron.hours.has(date.getHours()) ||
+    !cron.months.has(date.getMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  const { restrictedDays } = cron;
+  return restrictedDays.dayOfMonth && restrictedDays.dayOfWeek
+    ? dayOfMonth || dayOfWeek
+    : dayOfMonth && dayOfWeek;
+}
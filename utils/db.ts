@@ -62,6 +62,34 @@ export async function withTransaction<T>(
   }
 }
 
+/**
+ * Runs `fn` while this process holds the advisory lock named `key`. Returns
+ * `{ acquired: false }` right away when another session holds it.
+ */
+export async function withAdvisoryLock<T>(
+  key: string,
+  fn: () => Promise<T>
+): Promise<{ acquired: true; result: T } | { acquired: false }> {
+  // Session-level locks belong to a connection, so one is held for the run.
+  const client = await pool.connect();
+  try {
+    const { rows } = await client.query<{ locked: boolean }>(
+      `SELECT pg_try_advisory_lock(hashtext($1)) AS locked;`,
+      [key]
+    );
+    if (!rows[0]?.locked) {
+      return { acquired: false };
+    }
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock(hashtext($1));`, [key]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
 export type DatabaseColumn = {
   column_name: string;
   data_type: string;
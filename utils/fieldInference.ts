@@ -0,0 +1,280 @@
+import type { ColumnSpec, ColumnType, SelectOption } from "@/utils/tableUtils";
+
+// Field type inference shared by the Airtable loader and spreadsheet import:
+// given a column's raw values, guess the grid type and its config.
+
+export const RECORD_ID_REGEX = /^rec[0-9A-Za-z]{14}$/;
+export const PERCENT_REGEX = /%$/;
+const SEPARATOR_REGEX = /[,;|]/;
+const PLAIN_NUMBER_REGEX = /^[-+]?[\d\s,.]+$/;
+
+const SELECT_COLORS = [
+  "#0E7AFE",
+  "#E83A3A",
+  "#7A5BFF",
+  "#FF8A00",
+  "#00A985",
+  "#C23FFF",
+  "#FFB400",
+  "#0081F2",
+  "#F857A6",
+  "#3ECF8E"
+];
+
+export type InferredField = {
+  type: ColumnType;
+  config?: ColumnSpec["config"];
+  readOnly: boolean;
+  width: number;
+  sampleValues: string[];
+  nonEmptyCount: number;
+  emptyCount: number;
+  uniqueValueCount: number;
+  notes: string[];
+  formattingRules: string[];
+  // Set for linkToRecord: the table most values were found in, and the share
+  // of values that looked like links.
+  linkTarget?: string;
+  linkConfidence?: number;
+};
+
+/**
+ * Guesses the type of a field from its values. `linkIndex` maps values known
+ * to identify records (Airtable record ids, or the primary values of existing
+ * rows) to the table they belong to.
+ */
+export function inferFieldType(
+  fieldName: string,
+  rawValues: unknown[],
+  linkIndex: Map<string, string> = new Map()
+): InferredField {
+  const values = rawValues.filter((value) => value !== null && value !== undefined && value !== "");
+  const stringValues = values
+    .map((value) => (typeof value === "string" ? value.trim() : String(value)))
+    .filter((value) => value.length > 0);
+
+  const nonEmptyCount = values.length;
+  const emptyCount = rawValues.length - nonEmptyCount;
+  const uniqueStrings = new Set(stringValues.map((value) => normalizeWhitespace(value)));
+  const uniqueValueCount = uniqueStrings.size;
+  const sampleValues = stringValues.slice(0, 5);
+  const avgLength =
+    stringValues.reduce((sum, value) => sum + value.length, 0) / Math.max(1, stringValues.length);
+
+  const lowerField = fieldName.toLowerCase();
+  const notes: string[] = [];
+  const formattingRules: string[] = [];
+
+  let type: ColumnType = "singleLineText";
+  let config: ColumnSpec["config"] | undefined;
+  let width = 180;
+  let readOnly = false;
+  let linkTarget: string | undefined;
+  let linkConfidence: number | undefined;
+
+  const boolMappings = stringValues.map((value) => evaluateBoolean(value)).filter((value) => value !== null);
+  const percentMatches = stringValues.filter((value) => PERCENT_REGEX.test(value) || lowerField.includes("percent") || lowerField.includes("%") || lowerField.includes("markup"));
+  const currencyMatches = stringValues.filter((value) => /^\s*[$€£]/.test(value) || lowerField.includes("price") || lowerField.includes("cost") || lowerField.includes("amount") || lowerField.includes("total"));
+
+  const numericParsed = stringValues.map((value) => parseNumber(value)).filter((value) => Number.isFinite(value));
+  const numericRatio = stringValues.length ? numericParsed.length / stringValues.length : 0;
+
+  const linkCandidates = stringValues.filter((value) => RECORD_ID_REGEX.test(value) || linkIndex.has(value));
+  const linkRatio = stringValues.length ? linkCandidates.length / stringValues.length : 0;
+
+  const multiValueSplits = stringValues.map((value) => splitMultiValue(value)).filter((parts) => parts.length > 1);
+
+  if (nonEmptyCount === 0) {
+    type = "singleLineText";
+    notes.push("No sample data detected; defaulting to single line text.");
+  } else if (boolMappings.length === stringValues.length) {
+    type = "checkbox";
+    width = 110;
+    notes.push("All values map cleanly to boolean semantics.");
+  } else if (linkRatio >= 0.6 || (linkCandidates.length && lowerField.includes("record"))) {
+    type = "linkToRecord";
+    readOnly = true;
+    width = 220;
+    linkTarget = detectLinkTarget(linkCandidates, linkIndex);
+    linkConfidence = linkRatio;
+    notes.push(
+      linkTarget
+        ? `Values match records in the ${linkTarget} table; treated as linked record field.`
+        : "Detected Airtable record IDs; treated as linked record field."
+    );
+  } else if (detectDateConfidence(stringValues) > 0.6 || lowerField.includes("date")) {
+    type = "date";
+    width = 180;
+    notes.push("Values parse as dates.");
+  } else if (stringValues.every((value) => value.includes("@")) || lowerField.includes("email")) {
+    type = "email";
+    width = 220;
+    notes.push("All values contain '@'; treated as email field.");
+  } else if (stringValues.every((value) => /\d/.test(value) && value.length >= 7 && /^[\d\s().+-]+$/.test(value)) || lowerField.includes("phone")) {
+    type = "phone";
+    width = 170;
+    notes.push("Detected phone number patterns.");
+  } else if (stringValues.every((value) => value.includes("http://") || value.includes("https://")) || lowerField.includes("url")) {
+    type = "url";
+    width = 240;
+    formattingRules.push("Ensure values include protocol (https://).");
+  } else if (percentMatches.length >= Math.max(1, Math.floor(stringValues.length * 0.6))) {
+    type = "percent";
+    width = 140;
+    config = { percent: { decimals: detectDecimalPlaces(stringValues) } };
+    formattingRules.push("Store percent values as whole numbers (e.g., 45 for 45%).");
+    notes.push("Percent indicators detected in values or field name.");
+  } else if (currencyMatches.length >= Math.max(1, Math.floor(stringValues.length * 0.6))) {
+    type = "currency";
+    width = 160;
+    config = { currency: { currency: "USD", decimals: detectDecimalPlaces(stringValues) } };
+    formattingRules.push("Currency formatted as USD by default.");
+    notes.push("Currency symbols or price naming detected.");
+  } else if (numericRatio >= 0.8) {
+    type = "number";
+    width = 140;
+    config = { number: { decimals: detectDecimalPlaces(stringValues) } };
+    notes.push("Majority of values parse cleanly as numbers.");
+  } else if (multiValueSplits.length && averageSplitCount(multiValueSplits) > 1.2) {
+    type = "multipleSelect";
+    width = 220;
+    const flatOptions = multiValueSplits.flat().map((value) => sanitizeOptionValue(value));
+    const uniqueOptions = Array.from(new Set(flatOptions)).slice(0, 60);
+    config = { multipleSelect: { options: uniqueOptions.map((label, idx) => createSelectOption(label, idx)) } };
+    formattingRules.push("Values normalized from comma or delimiter separated text.");
+    notes.push("Detected multi-value entries; modeled as multiple select.");
+  } else if (uniqueValueCount > 1 && uniqueValueCount <= 15 && avgLength < 45) {
+    type = "singleSelect";
+    width = 200;
+    const options = Array.from(uniqueStrings)
+      .slice(0, 60)
+      .map((label, idx) => createSelectOption(label, idx));
+    config = { singleSelect: { options } };
+    notes.push("Limited discrete value set detected; treated as single select.");
+  } else if (avgLength > 120 || lowerField.includes("description") || lowerField.includes("notes") || lowerField.includes("comment")) {
+    type = "longText";
+    width = 320;
+    notes.push("Average text length suggests long text field.");
+  }
+
+  return {
+    type,
+    config,
+    readOnly,
+    width,
+    sampleValues,
+    nonEmptyCount,
+    emptyCount,
+    uniqueValueCount,
+    notes,
+    formattingRules,
+    linkTarget,
+    linkConfidence
+  };
+}
+
+export function splitMultiValue(value: string): string[] {
+  if (!value) return [];
+  let normalized = value.trim();
+  normalized = normalized.replace(/^"+|"+$/g, "");
+  normalized = normalized.replace(/""/g, '"');
+  if (normalized.includes("\",\"")) {
+    return normalized
+      .split(/"\s*,\s*"/)
+      .map((part) => part.replace(/^"+|"+$/g, "").trim())
+      .filter(Boolean);
+  }
+  if (normalized.includes("\n")) {
+    return normalized
+      .split(/\r?\n/)
+      .map((part) => part.trim())
+      .filter(Boolean);
+  }
+  return normalized
+    .split(SEPARATOR_REGEX)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+export function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function evaluateBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1", "checked", "show"].includes(normalized)) return true;
+  if (["false", "no", "n", "0", "unchecked", "hide"].includes(normalized)) return false;
+  return null;
+}
+
+export function parseNumber(value: string): number {
+  const sanitized = value.replace(/[^0-9.\-]/g, "");
+  if (!sanitized) return NaN;
+  const numeric = Number.parseFloat(sanitized);
+  return Number.isFinite(numeric) ? numeric : NaN;
+}
+
+export function detectLinkTarget(values: string[], index: Map<string, string>): string | undefined {
+  const tally = new Map<string, number>();
+  for (const value of values) {
+    const table = index.get(value);
+    if (table) tally.set(table, (tally.get(table) ?? 0) + 1);
+  }
+  let top: string | undefined;
+  let best = 0;
+  for (const [tableName, score] of tally) {
+    if (score > best) {
+      best = score;
+      top = tableName;
+    }
+  }
+  return top;
+}
+
+export function detectDecimalPlaces(values: string[]): number {
+  const decimals = values
+    .map((value) => {
+      const match = value.match(/\.([0-9]+)/);
+      return match ? match[1].length : 0;
+    })
+    .filter((count) => count > 0);
+  if (!decimals.length) return 0;
+  return Math.max(0, Math.min(4, Math.max(...decimals)));
+}
+
+// Date.parse accepts bare numbers ("12" is December 2001), so those never
+// count as dates.
+export function detectDateConfidence(values: string[]): number {
+  if (!values.length) return 0;
+  const valid = values.filter(
+    (value) => !PLAIN_NUMBER_REGEX.test(value) && Number.isFinite(Date.parse(value))
+  ).length;
+  return valid / values.length;
+}
+
+function averageSplitCount(collection: string[][]): number {
+  if (!collection.length) return 0;
+  const total = collection.reduce((sum, parts) => sum + parts.length, 0);
+  return total / collection.length;
+}
+
+export function createSelectOption(label: string, index: number): SelectOption {
+  const trimmed = label.trim();
+  const id = trimmed || `option_${index}`;
+  const color = SELECT_COLORS[index % SELECT_COLORS.length];
+  return { id, label: trimmed || id, color };
+}
+
+function sanitizeOptionValue(value: string): string {
+  return value.replace(/^"+|"+$/g, "").trim();
+}
+
+export function findSelectOption(label: string, options: SelectOption[] | undefined) {
+  if (!options || !label) return undefined;
+  const lower = label.toLowerCase();
+  return options.find(
+    (option) =>
+      option.label.toLowerCase() === lower ||
+      (option.id && option.id.toLowerCase() === lower)
+  );
+}
@@ -0,0 +1,421 @@
+"use client";
+
+import * as React from "react";
+import Sortable from "sortablejs/modular/sortable.esm.js";
+import { FaImage, FaSlidersH } from "react-icons/fa";
+import type { AttachmentValue } from "./attachmentService";
+import type { ColumnSpec, SelectOption } from "./tableUtils";
+import type { TableViewConfig } from "./viewConfig";
+
+// Kanban view: one stack per option of a single select field (or per person of
+// a user field), plus an "Uncategorized" stack for rows with no value. Dragging
+// a card to another stack changes that field; dragging within a stack places
+// the card by hand, which the view remembers in `cardOrder`.
+
+export type KanbanConfig = Pick<TableViewConfig, "stackBy" | "cardFields" | "coverField" | "cardOrder">;
+
+/** A row as the board shows it: its id, its index in the grid's rows, and the row. */
+export type KanbanRecord<T> = { id: string; index: number; row: T };
+
+export interface KanbanBoardProps<T extends Record<string, unknown>> {
+  /** Rows to show, filtered and in the view's order */
+  records: KanbanRecord<T>[];
+  /** Every field in display order, hidden ones included; the first is the card title */
+  columns: ColumnSpec<T>[];
+  config: KanbanConfig;
+  users?: Array<{ id: string; name: string; email?: string }>;
+  /** The view is sorted: cards follow the sort and can't be placed by hand */
+  sorted?: boolean;
+  renderValue: (record: KanbanRecord<T>, column: ColumnSpec<T>) => React.ReactNode;
+  onConfigChange: (next: KanbanConfig) => void;
+  /** Saves `value` to the stack field of a card dropped on another stack */
+  onMoveCard: (record: KanbanRecord<T>, column: ColumnSpec<T>, value: unknown) => void;
+  onOpenCard?: (record: KanbanRecord<T>) => void;
+}
+
+type KanbanStack = {
+  key: string;
+  label: string;
+  color?: string;
+  // What the stack field is set to when a card is dropped here.
+  value: SelectOption | { id: string; name: string; email: string } | null;
+};
+
+type UserEntry = { id: string; name: string; email: string };
+
+const UNCATEGORIZED = "__uncategorized__";
+const STACK_TYPES = new Set(["singleSelect", "user"]);
+
+function isStackColumn<T extends Record<string, unknown>>(column: ColumnSpec<T>) {
+  return STACK_TYPES.has(column.type);
+}
+
+function selectOptions<T extends Record<string, unknown>>(column: ColumnSpec<T>): SelectOption[] {
+  return column.config?.singleSelect?.options ?? [];
+}
+
+// Option cells hold an option object, or the label as text when imported.
+function selectLabel(value: unknown): string {
+  if (value && typeof value === "object") {
+    const option = value as Partial<SelectOption>;
+    return String(option.label ?? option.id ?? "").trim();
+  }
+  return value == null ? "" : String(value).trim();
+}
+
+function matchOption(options: SelectOption[], value: unknown): SelectOption | null {
+  const id = value && typeof value === "object" ? String((value as Partial<SelectOption>).id ?? "").trim() : "";
+  const label = selectLabel(value).toLowerCase();
+  return (
+    options.find((option) => (id && option.id === id) || (label && option.label.toLowerCase() === label)) ?? null
+  );
+}
+
+// User cells hold one person or a list; a card is stacked under the first.
+function cellUsers(value: unknown): UserEntry[] {
+  const entries = Array.isArray(value) ? value : value == null || value === "" ? [] : [value];
+  return entries
+    .map((entry): UserEntry | null => {
+      if (typeof entry === "string") return entry ? { id: entry, name: entry, email: "" } : null;
+      if (!entry || typeof entry !== "object") return null;
+      const user = entry as Partial<UserEntry>;
+      const id = user.id ?? user.email;
+      return id ? { id, name: user.name ?? user.email ?? id, email: user.email ?? "" } : null;
+    })
+    .filter((user): user is UserEntry => user !== null);
+}
+
+function stackKeyOf<T extends Record<string, unknown>>(column: ColumnSpec<T>, value: unknown): string {
+  if (column.type === "user") return cellUsers(value)[0]?.id ?? UNCATEGORIZED;
+  const option = matchOption(selectOptions(column), value);
+  if (option) return option.id;
+  return selectLabel(value) || UNCATEGORIZED;
+}
+
+function buildStacks<T extends Record<string, unknown>>(
+  column: ColumnSpec<T>,
+  records: KanbanRecord<T>[],
+  users: KanbanBoardProps<T>["users"]
+): KanbanStack[] {
+  const stacks: KanbanStack[] = [{ key: UNCATEGORIZED, label: "Uncategorized", value: null }];
+  const seen = new Set([UNCATEGORIZED]);
+  const add = (stack: KanbanStack) => {
+    if (seen.has(stack.key)) return;
+    seen.add(stack.key);
+    stacks.push(stack);
+  };
+  const key = String(column.key);
+
+  if (column.type === "user") {
+    const toStack = (user: UserEntry): KanbanStack => ({
+      key: user.id,
+      label: user.name,
+      value: { id: user.id, name: user.name, email: user.email },
+    });
+    (users ?? []).forEach((user) => add(toStack({ id: user.id, name: user.name, email: user.email ?? "" })));
+    records.forEach((record) => cellUsers(record.row[key]).slice(0, 1).forEach((user) => add(toStack(user))));
+    return stacks;
+  }
+
+  selectOptions(column).forEach((option) =>
+    add({ key: option.id, label: option.label, color: option.color, value: { ...option } })
+  );
+  // Values that are no longer (or never were) options still get a stack.
+  records.forEach((record) => {
+    const label = selectLabel(record.row[key]);
+    if (label && !matchOption(selectOptions(column), record.row[key])) {
+      add({ key: label, label, value: { id: label, label } });
+    }
+  });
+  return stacks;
+}
+
+// The value a card gets when moved from one stack to another. A card with
+// several people loses the one it was stacked under and gains the new one.
+function movedValue<T extends Record<string, unknown>>(
+  column: ColumnSpec<T>,
+  current: unknown,
+  fromKey: string,
+  to: KanbanStack
+): unknown {
+  if (column.type !== "user" || !column.config?.user?.multiple) return to.value ? { ...to.value } : null;
+  if (!to.value) return [];
+  const target = to.value as UserEntry;
+  const others = cellUsers(current).filter((user) => user.id !== fromKey && user.id !== target.id);
+  return [target, ...others];
+}
+
+function coverImage(value: unknown): string | null {
+  if (!Array.isArray(value)) return null;
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const file = entry as Partial<AttachmentValue>;
+    const isImage = file.type?.startsWith("image/") || Boolean(file.thumbnails?.large ?? file.thumbnails?.small);
+    if (!isImage) continue;
+    const url = file.thumbnails?.large?.url ?? file.url ?? file.thumbnails?.small?.url;
+    if (url) return url;
+  }
+  return null;
+}
+
+export function KanbanBoard<T extends Record<string, unknown>>({
+  records,
+  columns,
+  config,
+  users,
+  sorted = false,
+  renderValue,
+  onConfigChange,
+  onMoveCard,
+  onOpenCard,
+}: KanbanBoardProps<T>) {
+  const [customizing, setCustomizing] = React.useState(false);
+  const boardId = React.useId();
+  const listRefs = React.useRef(new Map<string, HTMLDivElement>());
+
+  const stackColumn =
+    columns.find((column) => String(column.key) === config.stackBy && isStackColumn(column)) ??
+    columns.find((column) => column.type === "singleSelect") ??
+    columns.find((column) => column.type === "user") ??
+    null;
+  const titleColumn = columns.find((column) => column !== stackColumn) ?? columns[0];
+  const cardColumns = config.cardFields
+    .map((key) => columns.find((column) => String(column.key) === key))
+    .filter((column): column is ColumnSpec<T> => Boolean(column) && column !== titleColumn);
+  const coverColumn = columns.find(
+    (column) => String(column.key) === config.coverField && column.type === "attachment"
+  );
+  const canMove = Boolean(stackColumn && !stackColumn.readOnly);
+
+  const stacks = React.useMemo(
+    () => (stackColumn ? buildStacks(stackColumn, records, users) : []),
+    [stackColumn, records, users]
+  );
+
+  const cardsByStack = React.useMemo(() => {
+    const byStack = new Map<string, KanbanRecord<T>[]>(stacks.map((stack) => [stack.key, []]));
+    if (!stackColumn) return byStack;
+    const rank = new Map(config.cardOrder.map((id, index) => [id, index]));
+    const ordered = sorted
+      ? records
+      : records
+          .map((record, position) => ({ record, position }))
+          .sort((a, b) => {
+            const ra = rank.get(a.record.id) ?? rank.size + a.position;
+            const rb = rank.get(b.record.id) ?? rank.size + b.position;
+            return ra - rb;
+          })
+          .map(({ record }) => record);
+    ordered.forEach((record) => {
+      byStack.get(stackKeyOf(stackColumn, record.row[String(stackColumn.key)]))?.push(record);
+    });
+    return byStack;
+  }, [stacks, stackColumn, records, sorted, config.cardOrder]);
+
+  // Sortable's handlers are created once per stack layout; they read these.
+  const latestRef = React.useRef({ stacks, cardsByStack, stackColumn, config, sorted, onMoveCard, onConfigChange });
+  React.useEffect(() => {
+    latestRef.current = { stacks, cardsByStack, stackColumn, config, sorted, onMoveCard, onConfigChange };
+  });
+
+  const stackLayout = stacks.map((stack) => stack.key).join("\n");
+  React.useEffect(() => {
+    if (!canMove) return;
+    const instances = Array.from(listRefs.current.values()).map((list) =>
+      Sortable.create(list, {
+        group: boardId,
+        animation: 150,
+        sort: !sorted,
+        draggable: "[data-kanban-card]",
+        fallbackTolerance: 4,
+        onEnd: (event) => {
+          const { item, from, to, oldIndex, newIndex } = event;
+          const cardId = item.dataset.kanbanCard;
+          const fromKey = from.dataset.kanbanStack;
+          const toKey = to.dataset.kanbanStack;
+          const dropped = Array.from(to.querySelectorAll<HTMLElement>("[data-kanban-card]")).map(
+            (node) => node.dataset.kanbanCard ?? ""
+          );
+          // Put the node back where React rendered it; the state change moves it.
+          item.remove();
+          from.insertBefore(item, from.children[oldIndex ?? 0] ?? null);
+
+          const latest = latestRef.current;
+          if (from === to && oldIndex === newIndex) return;
+          if (!cardId || !fromKey || !toKey || !latest.stackColumn) return;
+          const record = latest.cardsByStack.get(fromKey)?.find((candidate) => candidate.id === cardId);
+          const target = latest.stacks.find((stack) => stack.key === toKey);
+          if (!record || !target) return;
+          if (fromKey !== toKey) {
+            const column = latest.stackColumn;
+            latest.onMoveCard(record, column, movedValue(column, record.row[String(column.key)], fromKey, target));
+          }
+          if (!latest.sorted) {
+            const placed = new Set(dropped);
+            latest.onConfigChange({
+              ...latest.config,
+              cardOrder: [...dropped, ...latest.config.cardOrder.filter((id) => !placed.has(id))],
+            });
+          }
+        },
+      })
+    );
+    return () => instances.forEach((instance) => instance.destroy());
+  }, [boardId, canMove, sorted, stackLayout]);
+
+  const selectClass =
+    "rounded-md border border-zinc-300 bg-white px-2 py-1 text-xs dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100";
+  const stackColumns = columns.filter(isStackColumn);
+  const attachmentColumns = columns.filter((column) => column.type === "attachment");
+
+  return (
+    <div className="flex flex-col gap-3 p-2" data-kanban-board="true">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-600 dark:text-zinc-300">
+        <label className="flex items-center gap-2">
+          Stacked by
+          <select
+            className={selectClass}
+            value={stackColumn ? String(stackColumn.key) : ""}
+            onChange={(event) => onConfigChange({ ...config, stackBy: event.target.value || null })}
+          >
+            {stackColumns.map((column) => (
+              <option key={String(column.key)} value={String(column.key)}>
+                {column.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <FaImage className="h-3 w-3" />
+          Cover
+          <select
+            className={selectClass}
+            value={coverColumn ? String(coverColumn.key) : ""}
+            onChange={(event) => onConfigChange({ ...config, coverField: event.target.value || null })}
+          >
+            <option value="">None</option>
+            {attachmentColumns.map((column) => (
+              <option key={String(column.key)} value={String(column.key)}>
+                {column.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          className="inline-flex items-center gap-2 rounded-md border border-zinc-300 px-2 py-1 hover:bg-zinc-100 dark:border-neutral-700 dark:hover:bg-neutral-800"
+          aria-expanded={customizing}
+          onClick={() => setCustomizing((open) => !open)}
+        >
+          <FaSlidersH className="h-3 w-3" />
+          Customize cards
+        </button>
+        {sorted ? <span className="text-zinc-400">Sorted: cards follow the sort</span> : null}
+      </div>
+
+      {customizing ? (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 rounded-lg border border-zinc-200 p-2 text-xs dark:border-neutral-700">
+          {columns
+            .filter((column) => column !== titleColumn && column !== stackColumn)
+            .map((column) => {
+              const key = String(column.key);
+              const checked = config.cardFields.includes(key);
+              return (
+                <label key={key} className="flex items-center gap-1 text-zinc-700 dark:text-zinc-200">
+                  <input
+                    type="checkbox"
+                    checked={checked}
+                    onChange={() =>
+                      onConfigChange({
+                        ...config,
+                        cardFields: checked
+                          ? config.cardFields.filter((field) => field !== key)
+                          : columns
+                              .map((candidate) => String(candidate.key))
+                              .filter((field) => field === key || config.cardFields.includes(field)),
+                      })
+                    }
+                  />
+                  {column.name}
+                </label>
+              );
+            })}
+        </div>
+      ) : null}
+
+      {!stackColumn ? (
+        <div className="rounded-xl border border-dashed border-zinc-300 px-4 py-10 text-center text-sm text-zinc-500 dark:border-neutral-700 dark:text-neutral-400">
+          Add a single select or user field to stack records by.
+        </div>
+      ) : (
+        <div className="flex items-start gap-3 overflow-x-auto pb-2">
+          {stacks.map((stack) => {
+            const cards = cardsByStack.get(stack.key) ?? [];
+            return (
+              <section
+                key={stack.key}
+                className="flex w-72 shrink-0 flex-col rounded-xl bg-zinc-100 dark:bg-neutral-900"
+                aria-label={stack.label}
+              >
+                <header className="flex items-center gap-2 px-3 py-2 text-sm font-semibold text-zinc-700 dark:text-zinc-200">
+                  {stack.color ? (
+                    <span className="h-2.5 w-2.5 shrink-0 rounded-full" style={{ backgroundColor: stack.color }} />
+                  ) : null}
+                  <span className={stack.key === UNCATEGORIZED ? "truncate italic text-zinc-500" : "truncate"}>
+                    {stack.label}
+                  </span>
+                  <span className="ml-auto text-xs font-normal text-zinc-500">{cards.length}</span>
+                </header>
+                <div
+                  ref={(node) => {
+                    if (node) listRefs.current.set(stack.key, node);
+                    else listRefs.current.delete(stack.key);
+                  }}
+                  data-kanban-stack={stack.key}
+                  className="flex max-h-[70vh] min-h-16 flex-col gap-2 overflow-y-auto px-2 pb-2"
+                >
+                  {cards.map((record) => {
+                    const cover = coverColumn ? coverImage(record.row[String(coverColumn.key)]) : null;
+                    return (
+                      <div
+                        key={record.id}
+                        data-kanban-card={record.id}
+                        role="button"
+                        tabIndex={0}
+                        className="cursor-pointer overflow-hidden rounded-lg border border-zinc-200 bg-white text-left shadow-sm hover:border-blue-300 dark:border-neutral-700 dark:bg-neutral-950"
+                        onClick={() => onOpenCard?.(record)}
+                        onKeyDown={(event) => {
+                          if (event.key === "Enter") onOpenCard?.(record);
+                        }}
+                      >
+                        {cover ? (
+                          <div
+                            className="h-32 w-full bg-zinc-100 bg-cover bg-center dark:bg-neutral-800"
+                            style={{ backgroundImage: `url(${JSON.stringify(cover)})` }}
+                          />
+                        ) : null}
+                        <div className="flex flex-col gap-1 p-2">
+                          <div className="truncate text-sm font-semibold text-zinc-800 dark:text-zinc-100">
+                            {titleColumn ? renderValue(record, titleColumn) || "Unnamed record" : record.id}
+                          </div>
+                          {cardColumns.map((column) => (
+                            <div key={String(column.key)} className="text-xs">
+                              <div className="text-[10px] uppercase tracking-wide text-zinc-400">{column.name}</div>
+                              <div className="truncate text-zinc-700 dark:text-zinc-300">
+                                {renderValue(record, column)}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+// Access roles and field-level permissions. Kept free of server imports so the
+// grid can use the same rules to show which fields are read-only.
+
+/** Roles from least to most access; each can do everything the ones before it can. */
+export const ROLES = ["viewer", "editor", "schemaEditor", "owner"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** The caller's role on a table, resolved by the route before calling tableService. */
+export type TableAccess = {
+  role: Role;
+  /** Who is writing; stamped into `created_by`/`updated_by` and user fields. */
+  user?: { id: string; name: string; email: string };
+  /**
+   * The caller's role on another table, for values read through record links.
+   * Without it, linked tables are treated as closed to the caller.
+   */
+  roleOn?: (tableName: string) => Promise<Role | null>;
+};
+
+export type FieldPermissions = {
+  /** Lowest role that sees the field. */
+  read: Role;
+  /** Lowest role that edits the field; null when nobody may. */
+  write: Role | null;
+};
+
+export const DEFAULT_FIELD_PERMISSIONS: FieldPermissions = {
+  read: "viewer",
+  write: "editor",
+};
+
+export class AccessDeniedError extends Error {
+  constructor(message: string, readonly status: 401 | 403 = 403) {
+    super(message);
+    this.name = "AccessDeniedError";
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function roleAtLeast(role: Role | null | undefined, required: Role): boolean {
+  return role ? ROLES.indexOf(role) >= ROLES.indexOf(required) : false;
+}
+
+/**
+ * Parses a column's `permissions` string: `read:<role>` and `write:<role>` (or
+ * `write:none`), separated by `;` or `,`. `read-only` is short for
+ * `write:none`. Anything else, such as the grid's old free-text "Read/write",
+ * keeps the defaults.
+ */
+export function parseFieldPermissions(value: string | null | undefined): FieldPermissions {
+  const permissions = { ...DEFAULT_FIELD_PERMISSIONS };
+  for (const part of (value ?? "").split(/[;,]/)) {
+    const token = part.trim();
+    if (/^read[-\s]?only$/i.test(token)) {
+      permissions.write = null;
+      continue;
+    }
+    const match = /^(read|write)\s*[:=]\s*(\w+)$/i.exec(token);
+    if (!match) continue;
+    const role = match[2];
+    if (match[1].toLowerCase() === "read") {
+      if (isRole(role)) permissions.read = role;
+    } else if (role.toLowerCase() === "none") {
+      permissions.write = null;
+    } else if (isRole(role)) {
+      permissions.write = role;
+    }
+  }
+  return permissions;
+}
+
+/** Without `access` (internal callers such as the Airtable sync) every field is readable. */
+export function canReadField(
+  column: { permissions?: string | null },
+  access?: TableAccess
+): boolean {
+  if (!access) return true;
+  return roleAtLeast(access.role, parseFieldPermissions(column.permissions).read);
+}
+
+export function canWriteField(
+  column: { permissions?: string | null },
+  access?: TableAccess
+): boolean {
+  if (!access) return true;
+  const { read, write } = parseFieldPermissions(column.permissions);
+  return write !== null && roleAtLeast(access.role, read) && roleAtLeast(access.role, write);
+}
@@ -7,11 +7,29 @@ export type TableChangeEvent =
       payload: { rowId: string; values?: Record<string, unknown> };
       timestamp: string;
     }
+  | {
+      table: string;
+      type: "rowsBatch";
+      payload: { created: string[]; updated: string[]; deleted: string[] };
+      timestamp: string;
+    }
+  | {
+      table: string;
+      type: "linkedRowsChanged";
+      payload: { sourceTable: string; rowIds: string[] };
+      timestamp: string;
+    }
   | {
       table: string;
       type: "columnCreated" | "columnUpdated" | "columnDeleted" | "columnReordered";
       payload: { columnKey?: string; columnKeys?: string[] };
       timestamp: string;
+    }
+  | {
+      table: string;
+      type: "tableCreated" | "tableUpdated" | "tableDeleted";
+      payload: { displayName?: string; projectTag?: string; sourceTable?: string };
+      timestamp: string;
     };
 
 type Listener = (event: TableChangeEvent) => void;
@@ -0,0 +1,388 @@
+import type { PoolClient } from "pg";
+import { loadColumnStorage } from "./columnStorage";
+
+/**
+ * Links between rows live in `record_links`, one row per (source field, source
+ * row, target row). When a link field has an inverse (`linkedFieldId`) on the
+ * target table, every link is stored once per direction so both sides can be
+ * read without scanning the other. The physical link column keeps a JSON array
+ * of target ids as a read cache and is rewritten whenever the links change.
+ */
+export const RECORD_LINKS_DDL = `
+  CREATE TABLE IF NOT EXISTS record_links (
+    source_table TEXT NOT NULL,
+    source_field TEXT NOT NULL,
+    source_row_id UUID NOT NULL,
+    target_table TEXT NOT NULL,
+    target_row_id UUID NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (source_table, source_field, source_row_id, target_row_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_record_links_target
+    ON record_links (target_table, target_row_id);
+`;
+
+export type LinkField = {
+  field: string;
+  targetTable: string;
+  inverseField: string | null;
+};
+
+export class LinkedRecordError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly missingIds: string[]
+  ) {
+    super(
+      `Unknown linked record${missingIds.length === 1 ? "" : "s"} for ${field}: ${missingIds.join(", ")}`
+    );
+    this.name = "LinkedRecordError";
+  }
+}
+
+const SAFE_IDENTIFIER = /^[a-zA-Z_][0-9a-zA-Z_]*$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isRowId(value: string): boolean {
+  return UUID_PATTERN.test(value);
+}
+
+/**
+ * Accepts the shapes the grid and API send for link cells (an id, an array of
+ * ids, `{ id, title }` objects or a JSON string of those) and returns the ids.
+ */
+export function linkTargetIds(value: unknown): string[] {
+  let entries: unknown[];
+  if (Array.isArray(value)) {
+    entries = value;
+  } else if (typeof value === "string" && value.trim().startsWith("[")) {
+    try {
+      const parsed = JSON.parse(value);
+      entries = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      entries = [value];
+    }
+  } else if (value === null || value === undefined || value === "") {
+    entries = [];
+  } else {
+    entries = [value];
+  }
+
+  const ids = entries
+    .map((entry) => {
+      if (typeof entry === "string") return entry.trim();
+      if (entry && typeof entry === "object" && "id" in entry) {
+        const id = (entry as { id?: unknown }).id;
+        return typeof id === "string" ? id.trim() : "";
+      }
+      return "";
+    })
+    .filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Returns the link fields of `tableName` keyed by column. A field only has an
+ * inverse when `linkedFieldId` names a link column on the target table that
+ * points back here.
+ */
+export async function loadLinkFields(
+  client: PoolClient,
+  tableName: string
+): Promise<Map<string, LinkField>> {
+  const { rows } = await client.query<{
+    column_name: string;
+    target_table: string;
+    inverse_field: string | null;
+  }>(
+    `
+      SELECT
+        cm.column_name,
+        COALESCE(cts.settings, cm.config) -> 'linkToRecord' ->> 'targetTable' AS target_table,
+        inverse.column_name AS inverse_field
+      FROM column_metadata cm
+      LEFT JOIN column_type_settings cts
+        ON cm.table_name = cts.table_name
+       AND cm.column_name = cts.column_name
+      JOIN table_metadata target
+        ON target.table_name = COALESCE(cts.settings, cm.config) -> 'linkToRecord' ->> 'targetTable'
+      LEFT JOIN LATERAL (
+        SELECT icm.column_name
+        FROM column_metadata icm
+        LEFT JOIN column_type_settings icts
+          ON icm.table_name = icts.table_name
+         AND icm.column_name = icts.column_name
+        WHERE icm.table_name = target.table_name
+          AND icm.column_name = COALESCE(cts.settings, cm.config) -> 'linkToRecord' ->> 'linkedFieldId'
+          AND COALESCE(icts.column_type, icm.data_type) = 'linkToRecord'
+          AND COALESCE(icts.settings, icm.config) -> 'linkToRecord' ->> 'targetTable' = cm.table_name
+          AND NOT (icm.table_name = cm.table_name AND icm.column_name = cm.column_name)
+      ) inverse ON TRUE
+      WHERE cm.table_name = $1
+        AND COALESCE(cts.column_type, cm.data_type) = 'linkToRecord';
+    `,
+    [tableName]
+  );
+
+  const fields = new Map<string, LinkField>();
+  for (const row of rows) {
+    if (!SAFE_IDENTIFIER.test(row.column_name) || !SAFE_IDENTIFIER.test(row.target_table)) {
+      continue;
+    }
+    fields.set(row.column_name, {
+      field: row.column_name,
+      targetTable: row.target_table,
+      inverseField:
+        row.inverse_field && SAFE_IDENTIFIER.test(row.inverse_field)
+          ? row.inverse_field
+          : null,
+    });
+  }
+  return fields;
+}
+
+/**
+ * Rewrites the link column cache for `rowIds` from `record_links`, preserving
+ * the order the links were made in.
+ */
+export async function refreshLinkCache(
+  client: PoolClient,
+  tableName: string,
+  field: string,
+  rowIds: string[]
+) {
+  if (!rowIds.length) return;
+  const storage = (await loadColumnStorage(client, tableName)).get(field);
+  if (storage !== "jsonb" && storage !== "text") return;
+  const aggregate = `
+    COALESCE((
+      SELECT jsonb_agg(link.target_row_id::text ORDER BY link.position, link.created_at)
+      FROM record_links link
+      WHERE link.source_table = $1
+        AND link.source_field = $2
+        AND link.source_row_id = cached.id
+    ), '[]'::jsonb)
+  `;
+  await client.query(
+    `
+      UPDATE "${tableName}" AS cached
+      SET "${field}" = ${storage === "text" ? `(${aggregate})::text` : aggregate}
+      WHERE cached.id = ANY($3::uuid[]);
+    `,
+    [tableName, field, Array.from(new Set(rowIds))]
+  );
+}
+
+/**
+ * Replaces the targets of one link cell, keeping the inverse field's links and
+ * cache in step. Every id must reference an existing row of the target table.
+ */
+export async function replaceRowLinks(
+  client: PoolClient,
+  tableName: string,
+  link: LinkField,
+  rowId: string,
+  value: unknown
+): Promise<string[]> {
+  const requested = linkTargetIds(value);
+  const malformed = requested.filter((id) => !isRowId(id));
+  if (malformed.length) {
+    throw new LinkedRecordError(link.field, malformed);
+  }
+
+  const { rows: existing } = await client.query<{ id: string }>(
+    `SELECT id::text AS id FROM "${link.targetTable}" WHERE id = ANY($1::uuid[]);`,
+    [requested]
+  );
+  const known = new Set(existing.map((row) => row.id.toLowerCase()));
+  const missing = requested.filter((id) => !known.has(id.toLowerCase()));
+  if (missing.length) {
+    throw new LinkedRecordError(link.field, missing);
+  }
+
+  const { rows: previous } = await client.query<{ target_row_id: string }>(
+    `
+      DELETE FROM record_links
+      WHERE source_table = $1 AND source_field = $2 AND source_row_id = $3
+      RETURNING target_row_id::text AS target_row_id;
+    `,
+    [tableName, link.field, rowId]
+  );
+
+  if (requested.length) {
+    await client.query(
+      `
+        INSERT INTO record_links
+          (source_table, source_field, source_row_id, target_table, target_row_id, position)
+        SELECT $1, $2, $3, $4, target.id::uuid, target.position
+        FROM unnest($5::text[]) WITH ORDINALITY AS target(id, position);
+      `,
+      [tableName, link.field, rowId, link.targetTable, requested]
+    );
+  }
+
+  await refreshLinkCache(client, tableName, link.field, [rowId]);
+
+  if (link.inverseField) {
+    const previousIds = previous.map((row) => row.target_row_id);
+    await client.query(
+      `
+        DELETE FROM record_links
+        WHERE source_table = $1
+          AND source_field = $2
+          AND target_table = $3
+          AND target_row_id = $4
+          AND NOT (source_row_id = ANY($5::uuid[]));
+      `,
+      [link.targetTable, link.inverseField, tableName, rowId, requested]
+    );
+    if (requested.length) {
+      await client.query(
+        `
+          INSERT INTO record_links
+            (source_table, source_field, source_row_id, target_table, target_row_id, position)
+          SELECT $1, $2, target.id::uuid, $3, $4,
+            COALESCE((
+              SELECT MAX(existing.position)
+              FROM record_links existing
+              WHERE existing.source_table = $1
+                AND existing.source_field = $2
+                AND existing.source_row_id = target.id::uuid
+            ), 0) + 1
+          FROM unnest($5::text[]) AS target(id)
+          ON CONFLICT (source_table, source_field, source_row_id, target_row_id) DO NOTHING;
+        `,
+        [link.targetTable, link.inverseField, tableName, rowId, requested]
+      );
+    }
+    await refreshLinkCache(client, link.targetTable, link.inverseField, [
+      ...previousIds,
+      ...requested,
+    ]);
+  }
+
+  return requested;
+}
+
+/**
+ * Removes every link from or to a row and refreshes the caches of the rows on
+ * the other side. Call before the row itself is deleted.
+ */
+export async function removeRowLinks(
+  client: PoolClient,
+  tableName: string,
+  rowId: string
+) {
+  const { rows } = await client.query<{
+    source_table: string;
+    source_field: string;
+    source_row_id: string;
+  }>(
+    `
+      DELETE FROM record_links
+      WHERE (source_table = $1 AND source_row_id = $2)
+         OR (target_table = $1 AND target_row_id = $2)
+      RETURNING source_table, source_field, source_row_id::text AS source_row_id;
+    `,
+    [tableName, rowId]
+  );
+
+  const affected = new Map<string, { table: string; field: string; rowIds: string[] }>();
+  for (const row of rows) {
+    if (row.source_table === tableName && row.source_row_id === rowId) continue;
+    const key = `${row.source_table}.${row.source_field}`;
+    const entry = affected.get(key) ?? {
+      table: row.source_table,
+      field: row.source_field,
+      rowIds: [],
+    };
+    entry.rowIds.push(row.source_row_id);
+    affected.set(key, entry);
+  }
+
+  for (const entry of affected.values()) {
+    if (!SAFE_IDENTIFIER.test(entry.table) || !SAFE_IDENTIFIER.test(entry.field)) continue;
+    await refreshLinkCache(client, entry.table, entry.field, entry.rowIds);
+  }
+}
+
+/**
+ * Drops the links stored for a field that is being deleted. The inverse field
+ * keeps its own links and becomes a one-way link.
+ */
+export async function removeFieldLinks(
+  client: PoolClient,
+  tableName: string,
+  link: LinkField
+) {
+  await client.query(
+    `DELETE FROM record_links WHERE source_table = $1 AND source_field = $2;`,
+    [tableName, link.field]
+  );
+  if (!link.inverseField) return;
+  await setLinkedFieldId(client, link.targetTable, link.inverseField, null);
+}
+
+/**
+ * Points a link field's `linkedFieldId` at its inverse column, or clears it.
+ */
+export async function setLinkedFieldId(
+  client: PoolClient,
+  tableName: string,
+  field: string,
+  linkedFieldId: string | null
+) {
+  await client.query(
+    `
+      UPDATE column_type_settings
+      SET settings = jsonb_set(settings, '{linkToRecord,linkedFieldId}', COALESCE(to_jsonb($3::text), 'null'::jsonb)),
+          updated_at = NOW()
+      WHERE table_name = $1 AND column_name = $2 AND settings ? 'linkToRecord';
+    `,
+    [tableName, field, linkedFieldId]
+  );
+  await client.query(
+    `
+      UPDATE column_metadata
+      SET config = jsonb_set(config, '{linkToRecord,linkedFieldId}', COALESCE(to_jsonb($3::text), 'null'::jsonb)),
+          updated_at = NOW()
+      WHERE table_name = $1 AND column_name = $2 AND config ? 'linkToRecord';
+    `,
+    [tableName, field, linkedFieldId]
+  );
+}
+
+/**
+ * Rebuilds `record_links` for every link field of `tableName` from the id
+ * arrays already stored in its link columns. Used after bulk loads that write
+ * the columns directly, such as the Airtable sync.
+ */
+export async function rebuildLinksFromCache(client: PoolClient, tableName: string) {
+  const fields = await loadLinkFields(client, tableName);
+  const storage = await loadColumnStorage(client, tableName);
+  await client.query(`DELETE FROM record_links WHERE source_table = $1;`, [tableName]);
+
+  for (const link of fields.values()) {
+    if (storage.get(link.field) !== "jsonb") continue;
+    await client.query(
+      `
+        INSERT INTO record_links
+          (source_table, source_field, source_row_id, target_table, target_row_id, position)
+        SELECT $1, $2, source.id, $3, target.id::uuid, target.position
+        FROM "${tableName}" AS source
+        CROSS JOIN LATERAL jsonb_array_elements_text(
+          CASE WHEN jsonb_typeof(source."${link.field}") = 'array'
+            THEN source."${link.field}" ELSE '[]'::jsonb END
+        ) WITH ORDINALITY AS target(id, position)
+        WHERE target.id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+          AND EXISTS (
+            SELECT 1 FROM "${link.targetTable}" linked WHERE linked.id = target.id::uuid
+          )
+        ON CONFLICT (source_table, source_field, source_row_id, target_row_id) DO NOTHING;
+      `,
+      [tableName, link.field, link.targetTable]
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import type { PoolClient } from "pg";
+import type { ColumnSpec } from "./tableUtils";
+
+// Row timestamps kept by the database rather than by whoever writes the row,
+// so API edits, the Airtable sync and plain SQL all stamp them the same way.
+// Every user table carries created_at/updated_at; createdTime and
+// lastModifiedTime fields are filled in by a trigger configured from the
+// table's field settings.
+
+/** Columns the trigger maintains and that never count as a field change. */
+export const ROW_SYSTEM_COLUMNS = [
+  "id",
+  "created_at",
+  "updated_at",
+  "created_by",
+  "updated_by",
+] as const;
+
+/**
+ * Fields whose values are derived rather than edited; a change to one of them
+ * does not make the row "modified" for an "all fields" lastModifiedTime.
+ */
+export const COMPUTED_FIELD_TYPES: ReadonlySet<string> = new Set<string>([
+  "formula",
+  "rollup",
+  "lookup",
+  "count",
+  "createdTime",
+  "lastModifiedTime",
+  "createdBy",
+  "lastModifiedBy",
+]);
+
+export type RowTimestampSpec = {
+  created: string[];
+  modified: Array<{ key: string; fields: string[] }>;
+};
+
+/**
+ * The generic trigger function. Its argument is a {@link RowTimestampSpec};
+ * a lastModifiedTime field the statement sets itself (as the Airtable sync
+ * does with Airtable's own value) is left alone.
+ */
+export const ROW_TIMESTAMPS_DDL = `
+  CREATE OR REPLACE FUNCTION grid_row_timestamps() RETURNS trigger AS $$
+  DECLARE
+    spec JSONB := COALESCE(TG_ARGV[0], '{}')::jsonb;
+    new_row JSONB := to_jsonb(NEW);
+    old_row JSONB;
+    stamps JSONB := '{}'::jsonb;
+    tracked JSONB;
+    field_key TEXT;
+  BEGIN
+    IF TG_OP = 'INSERT' THEN
+      FOR field_key IN SELECT jsonb_array_elements_text(COALESCE(spec->'created', '[]')) LOOP
+        IF new_row->field_key IS NULL OR new_row->field_key = 'null'::jsonb THEN
+          stamps := stamps || jsonb_build_object(field_key, new_row->'created_at');
+        END IF;
+      END LOOP;
+      FOR tracked IN SELECT jsonb_array_elements(COALESCE(spec->'modified', '[]')) LOOP
+        field_key := tracked->>'key';
+        IF new_row->field_key IS NULL OR new_row->field_key = 'null'::jsonb THEN
+          stamps := stamps || jsonb_build_object(field_key, new_row->'created_at');
+        END IF;
+      END LOOP;
+    ELSE
+      old_row := to_jsonb(OLD);
+      IF (new_row - 'updated_at') IS NOT DISTINCT FROM (old_row - 'updated_at') THEN
+        RETURN NEW;
+      END IF;
+      IF new_row->'updated_at' IS NOT DISTINCT FROM old_row->'updated_at' THEN
+        stamps := stamps || jsonb_build_object('updated_at', NOW());
+      END IF;
+      FOR tracked IN SELECT jsonb_array_elements(COALESCE(spec->'modified', '[]')) LOOP
+        field_key := tracked->>'key';
+        CONTINUE WHEN new_row->field_key IS DISTINCT FROM old_row->field_key;
+        IF EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements_text(tracked->'fields') AS field(name)
+          WHERE new_row->field.name IS DISTINCT FROM old_row->field.name
+        ) THEN
+          stamps := stamps || jsonb_build_object(field_key, NOW());
+        END IF;
+      END LOOP;
+    END IF;
+    IF stamps <> '{}'::jsonb THEN
+      NEW := jsonb_populate_record(NEW, stamps);
+    END IF;
+    RETURN NEW;
+  END;
+  $$ LANGUAGE plpgsql;
+`;
+
+/**
+ * Which fields the trigger fills in. A lastModifiedTime field watches every
+ * editable field, or only the ones picked under "specific fields" (stored
+ * by key; older configs stored field names).
+ */
+export function rowTimestampSpec(columns: ColumnSpec[]): RowTimestampSpec {
+  const system = new Set<string>(ROW_SYSTEM_COLUMNS);
+  const editable = columns.filter(
+    (column) => !COMPUTED_FIELD_TYPES.has(column.type) && !system.has(String(column.key))
+  );
+  const keyOf = (column: ColumnSpec) => String(column.key);
+
+  return {
+    created: columns.filter((column) => column.type === "createdTime").map(keyOf),
+    modified: columns
+      .filter((column) => column.type === "lastModifiedTime")
+      .map((column) => {
+        const config = column.config?.lastModifiedTime;
+        const picked = config?.include === "specific" ? config.fields ?? [] : null;
+        const watched = picked
+          ? editable.filter(
+              (candidate) =>
+                picked.includes(keyOf(candidate)) ||
+                (candidate.name !== undefined && picked.includes(candidate.name))
+            )
+          : editable;
+        return { key: keyOf(column), fields: watched.map(keyOf) };
+      }),
+  };
+}
+
+// The function body as pg_proc stores it, to tell whether a deploy changed it.
+const ROW_TIMESTAMPS_SOURCE = /\$\$([\s\S]*)\$\$/.exec(ROW_TIMESTAMPS_DDL)?.[1] ?? "";
+
+// Whether the table already has its columns and a trigger for `spec` running
+// the current function.
+async function rowTimestampsInstalled(
+  client: PoolClient,
+  tableName: string,
+  spec: string
+): Promise<boolean> {
+  const { rows } = await client.query<{ installed: boolean }>(
+    `
+      SELECT
+        (
+          SELECT COUNT(*) FROM pg_attribute
+          WHERE attrelid = to_regclass(quote_ident($1))
+            AND attname IN ('created_at', 'updated_at')
+            AND NOT attisdropped
+        ) = 2
+        AND EXISTS (
+          SELECT 1 FROM pg_trigger
+          WHERE tgrelid = to_regclass(quote_ident($1))
+            AND tgname = 'grid_row_timestamps'
+            AND tgargs = convert_to($2, 'UTF8') || '\\x00'::bytea
+        )
+        AND EXISTS (
+          SELECT 1 FROM pg_proc
+          WHERE proname = 'grid_row_timestamps' AND prosrc = $3
+        ) AS installed;
+    `,
+    [tableName, spec, ROW_TIMESTAMPS_SOURCE]
+  );
+  return Boolean(rows[0]?.installed);
+}
+
+/**
+ * Adds created_at/updated_at to `tableName` when missing and (re)installs its
+ * timestamp trigger. Run whenever the table's fields change; when nothing the
+ * trigger depends on changed, no DDL runs, so no table lock is taken.
+ */
+export async function installRowTimestamps(
+  client: PoolClient,
+  tableName: string,
+  columns: ColumnSpec[]
+) {
+  const json = JSON.stringify(rowTimestampSpec(columns));
+  if (await rowTimestampsInstalled(client, tableName, json)) return;
+  await client.query(ROW_TIMESTAMPS_DDL);
+  await client.query(`
+    ALTER TABLE "${tableName}"
+      ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+  `);
+  const spec = json.replace(/'/g, "''");
+  await client.query(`
+    DROP TRIGGER IF EXISTS grid_row_timestamps ON "${tableName}";
+    CREATE TRIGGER grid_row_timestamps
+      BEFORE INSERT OR UPDATE ON "${tableName}"
+      FOR EACH ROW EXECUTE FUNCTION grid_row_timestamps('${spec}');
+  `);
+}
@@ -27,6 +27,8 @@ export type ColumnMetadata = {
   position: number;
   is_nullable: boolean;
   width: number;
+  // Field-level access; see parseFieldPermissions.
+  permissions?: string | null;
   created_at?: string;
   updated_at?: string;
   type_settings?: ColumnTypeSettings | null;
@@ -0,0 +1,549 @@
+import { parse as parseCsv } from "csv-parse/sync";
+import { constants, crc32, deflateRawSync, inflateRawSync } from "zlib";
+
+// Reads the first sheet of an uploaded CSV or XLSX file into a header row and
+// string cells, and writes CSV lines and one-sheet XLSX workbooks for exports.
+// XLSX files are handled directly as a zip of XML parts, which is all import
+// and export need: values, not formatting.
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export type Spreadsheet = {
+  headers: string[];
+  // `number` is the row's position in the file (the header is row 1), so
+  // problems can be reported against the row the user sees.
+  rows: Array<{ number: number; cells: string[] }>;
+};
+
+// A value written to a CSV or XLSX cell; numbers and booleans keep their type
+// in XLSX.
+export type SpreadsheetCell = string | number | boolean | null;
+
+/** An upload that cannot be read as a spreadsheet. */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+const ZIP_SIGNATURE = 0x04034b50;
+
+export function detectSpreadsheetFormat(
+  buffer: Buffer,
+  fileName?: string | null
+): SpreadsheetFormat {
+  const extension = fileName?.toLowerCase().split(".").pop();
+  if (extension === "xlsx" || (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_SIGNATURE)) {
+    return "xlsx";
+  }
+  if (extension === "xls") {
+    throw new SpreadsheetError("Legacy .xls files are not supported; save the file as .xlsx or .csv");
+  }
+  return "csv";
+}
+
+export function parseSpreadsheet(buffer: Buffer, fileName?: string | null): Spreadsheet {
+  const cells =
+    detectSpreadsheetFormat(buffer, fileName) === "xlsx" ? readXlsx(buffer) : readCsv(buffer);
+  const rows = cells
+    .map((row, index) => ({ number: index + 1, cells: row }))
+    .filter((row) => row.cells.some((cell) => cell.trim() !== ""));
+  if (!rows.length) {
+    throw new SpreadsheetError("The file has no rows");
+  }
+  const [headerRow, ...dataRows] = rows;
+  const width = Math.max(...rows.map((row) => row.cells.length));
+  const headers = uniqueHeaders(
+    Array.from({ length: width }, (_, index) => headerRow.cells[index] ?? "")
+  );
+  return {
+    headers,
+    rows: dataRows.map((row) => ({
+      number: row.number,
+      cells: headers.map((_, index) => row.cells[index] ?? ""),
+    })),
+  };
+}
+
+// Blank headers get a column name and repeated ones a suffix, so every header
+// can identify its column in a mapping.
+function uniqueHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>();
+  return raw.map((header, index) => {
+    const base = header.replace(/\s+/g, " ").trim() || `Column ${index + 1}`;
+    const count = seen.get(base.toLowerCase()) ?? 0;
+    seen.set(base.toLowerCase(), count + 1);
+    return count ? `${base} (${count + 1})` : base;
+  });
+}
+
+function readCsv(buffer: Buffer): string[][] {
+  const text = buffer.toString("utf8");
+  try {
+    return parseCsv(text, {
+      bom: true,
+      delimiter: sniffDelimiter(text),
+      relax_column_count: true,
+      relax_quotes: true,
+    }) as string[][];
+  } catch (error) {
+    throw new SpreadsheetError(
+      `Could not read the CSV file: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Spreadsheet apps export with commas, semicolons or tabs depending on the
+// locale; the header line tells which.
+function sniffDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const unquoted = firstLine.replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((delimiter) => ({
+    delimiter,
+    count: unquoted.split(delimiter).length - 1,
+  }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ",";
+}
+
+// --- zip ----------------------------------------------------------------------
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+// Largest workbook part we unpack, so a small zip bomb cannot fill memory.
+const MAX_ZIP_ENTRY_BYTES = 256 * 1024 * 1024;
+
+function readZipEntries(buffer: Buffer): Map<string, () => Buffer> {
+  let end = -1;
+  // The end record sits in the last 22 bytes plus an optional 64KB comment.
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65_557); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetError("The file is not a valid XLSX workbook");
+  }
+
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const entries = new Map<string, () => Buffer>();
+  for (let index = 0; index < entryCount; index += 1) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new SpreadsheetError("The XLSX workbook is damaged");
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      const dataStart =
+        localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method !== 0 && method !== 8) {
+        throw new SpreadsheetError(`Unsupported compression in ${name}`);
+      }
+      if (uncompressedSize > MAX_ZIP_ENTRY_BYTES || data.length > MAX_ZIP_ENTRY_BYTES) {
+        throw new SpreadsheetError(`${name} is too large to import`);
+      }
+      if (method === 0) return data;
+      try {
+        return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+      } catch (error) {
+        // The declared size can lie; inflating past the limit fails here instead.
+        if (error instanceof RangeError) {
+          throw new SpreadsheetError(`${name} is too large to import`);
+        }
+        throw error;
+      }
+    });
+  }
+  return entries;
+}
+
+// --- xlsx ---------------------------------------------------------------------
+
+// Built-in number formats that display a date or time.
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+// Days between the spreadsheet epoch (1899-12-30) and 1970-01-01.
+const EXCEL_EPOCH_OFFSET = 25569;
+
+function readXlsx(buffer: Buffer): string[][] {
+  const entries = readZipEntries(buffer);
+  const readPart = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? entry().toString("utf8") : null;
+  };
+
+  const sheet = readPart(firstSheetPath(readPart));
+  if (!sheet) {
+    throw new SpreadsheetError("The XLSX workbook has no worksheets");
+  }
+  const sharedStrings = readSharedStrings(readPart("xl/sharedStrings.xml"));
+  const dateStyles = readDateStyles(readPart("xl/styles.xml"));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1], "r")) || rows.length + 1;
+    const cells: string[] = [];
+    let position = 0;
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const reference = attribute(attributes, "r");
+      const column = reference ? columnIndex(reference) : position;
+      position = column + 1;
+      cells[column] = cellText(
+        attribute(attributes, "t"),
+        Number(attribute(attributes, "s") ?? 0),
+        cellMatch[2] ?? "",
+        sharedStrings,
+        dateStyles
+      );
+    }
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "");
+  }
+  return Array.from(rows, (row) => row ?? []);
+}
+
+function firstSheetPath(readPart: (name: string) => string | null): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  const workbook = readPart("xl/workbook.xml");
+  const relationships = readPart("xl/_rels/workbook.xml.rels");
+  const sheetTag = workbook?.match(/<sheet\b[^>]*>/)?.[0];
+  const relationshipId = sheetTag ? attribute(sheetTag, "r:id") : null;
+  if (!relationships || !relationshipId) return fallback;
+  for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (attribute(match[0], "Id") !== relationshipId) continue;
+    const target = attribute(match[0], "Target");
+    if (!target) break;
+    return target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`;
+  }
+  return fallback;
+}
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  return Array.from(xml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => richText(match[1]));
+}
+
+// Text of a shared or inline string: all its runs, without phonetic guides.
+function richText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) =>
+    decodeXml(match[1])
+  ).join("");
+}
+
+// Indexes of the cell styles whose number format shows a date.
+function readDateStyles(xml: string | null): Set<number> {
+  const styles = new Set<number>();
+  if (!xml) return styles;
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const code = decodeXml(attribute(match[0], "formatCode") ?? "")
+      .replace(/"[^"]*"|\[[^\]]*\]|\\./g, "");
+    if (/[dmyhs]/i.test(code)) customDateFormats.add(Number(attribute(match[0], "numFmtId")));
+  }
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach((match, index) => {
+    const formatId = Number(attribute(match[0], "numFmtId") ?? 0);
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) styles.add(index);
+  });
+  return styles;
+}
+
+function cellText(
+  type: string | null,
+  style: number,
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>
+): string {
+  if (type === "inlineStr") return richText(xml);
+  const raw = decodeXml(xml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? "");
+  switch (type) {
+    case "s":
+      return sharedStrings[Number(raw)] ?? "";
+    case "b":
+      return raw === "1" ? "true" : raw === "0" ? "false" : raw;
+    case "str":
+    case "e":
+      return raw;
+    default: {
+      const serial = Number(raw);
+      if (raw === "" || !dateStyles.has(style) || !Number.isFinite(serial)) return raw;
+      const iso = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86_400_000)).toISOString();
+      return Number.isInteger(serial) ? iso.slice(0, 10) : iso;
+    }
+  }
+}
+
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`(?:^|\\s)${name.replace(":", "\\:")}="([^"]*)"`));
+  return match ? match[1] : null;
+}
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return String.fromCodePoint(
+          code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : Number(code.slice(1))
+        );
+    }
+  });
+}
+
+// --- writing --------------------------------------------------------------------
+
+// Spreadsheet apps run text starting with one of these as a formula. Plain
+// numbers such as "-12.5" are left alone; they cannot be formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?[\d.,]+(?:[eE][-+]?\d+)?%?$/;
+
+/**
+ * One RFC 4180 CSV record, CRLF-terminated. Text that a spreadsheet would read
+ * as a formula is prefixed with `'` so opening an export cannot run it.
+ */
+export function toCsvLine(cells: SpreadsheetCell[]): string {
+  return `${cells
+    .map((cell) => {
+      let text = cell === null ? "" : String(cell);
+      if (typeof cell === "string" && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",")}\r\n`;
+}
+
+type ZipEntryRecord = { name: Buffer; crc: number; size: number; compressedSize: number; offset: number };
+
+const LOCAL_FILE_FLAGS = 0x0808; // sizes follow the data; UTF-8 names
+const DOS_DATE_1980 = 0x21; // 1980-01-01, the earliest zip date
+const DATA_DESCRIPTOR = 0x08074b50;
+
+/**
+ * Writes a zip file entry by entry without knowing any entry's size up front:
+ * each entry is deflated in pieces and its CRC and sizes follow its data.
+ * Entries and the archive are limited to 4 GB (no zip64).
+ */
+class ZipStreamWriter {
+  private offset = 0;
+  private readonly entries: ZipEntryRecord[] = [];
+
+  private track(chunk: Buffer): Buffer {
+    this.offset += chunk.length;
+    return chunk;
+  }
+
+  async *entry(fileName: string, parts: AsyncIterable<string> | Iterable<string>): AsyncGenerator<Buffer> {
+    const name = Buffer.from(fileName, "utf8");
+    const record: ZipEntryRecord = { name, crc: 0, size: 0, compressedSize: 0, offset: this.offset };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(ZIP_SIGNATURE, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(LOCAL_FILE_FLAGS, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(DOS_DATE_1980, 12);
+    header.writeUInt16LE(name.length, 26);
+    yield this.track(Buffer.concat([header, name]));
+
+    for await (const part of parts) {
+      const raw = Buffer.from(part, "utf8");
+      if (!raw.length) continue;
+      record.crc = crc32(raw, record.crc);
+      record.size += raw.length;
+      // A sync flush ends each piece on a byte boundary without closing the
+      // stream, so independently deflated pieces concatenate into one.
+      const compressed = deflateRawSync(raw, { finishFlush: constants.Z_SYNC_FLUSH });
+      record.compressedSize += compressed.length;
+      yield this.track(compressed);
+    }
+    const last = deflateRawSync(Buffer.alloc(0));
+    record.compressedSize += last.length;
+    yield this.track(last);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    yield this.track(descriptor);
+    this.entries.push(record);
+  }
+
+  finish(): Buffer {
+    const directoryOffset = this.offset;
+    const directory = this.entries.map((record) => {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(LOCAL_FILE_FLAGS, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(DOS_DATE_1980, 14);
+      header.writeUInt32LE(record.crc, 16);
+      header.writeUInt32LE(record.compressedSize, 20);
+      header.writeUInt32LE(record.size, 24);
+      header.writeUInt16LE(record.name.length, 28);
+      header.writeUInt32LE(record.offset, 42);
+      return Buffer.concat([header, record.name]);
+    });
+    const directorySize = directory.reduce((sum, entry) => sum + entry.length, 0);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directorySize, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    return this.track(Buffer.concat([...directory, end]));
+  }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+const MAX_CELL_TEXT = 32_767;
+
+const XLSX_STATIC_PARTS: Array<[string, (sheetName: string) => string]> = [
+  [
+    "[Content_Types].xml",
+    () =>
+      `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    () =>
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      "</Relationships>",
+  ],
+  [
+    "xl/workbook.xml",
+    (sheetName) =>
+      `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">` +
+      `<sheets><sheet name="${encodeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    () =>
+      `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIPS_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="${RELATIONSHIPS_NS}/styles" Target="styles.xml"/>` +
+      "</Relationships>",
+  ],
+  [
+    // Style 1 is the bold header row.
+    "xl/styles.xml",
+    () =>
+      `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>",
+  ],
+];
+
+/**
+ * Writes a one-sheet workbook with a bold header row, yielding the file in
+ * pieces as `rows` produces batches, so a large table is never held whole.
+ */
+export async function* writeXlsx(
+  headers: string[],
+  rows: AsyncIterable<SpreadsheetCell[][]>,
+  sheetName = "Sheet1"
+): AsyncGenerator<Buffer> {
+  const zip = new ZipStreamWriter();
+  // Sheet names are at most 31 characters and cannot contain []:*?/\
+  const name = sheetName.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || "Sheet1";
+  for (const [partName, render] of XLSX_STATIC_PARTS) {
+    yield* zip.entry(partName, [render(name)]);
+  }
+  const letters = headers.map((_, index) => columnLetters(index));
+
+  async function* sheetParts() {
+    yield `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>`;
+    yield sheetRow(1, headers, letters, 1);
+    let rowNumber = 1;
+    for await (const batch of rows) {
+      yield batch.map((cells) => sheetRow((rowNumber += 1), cells, letters)).join("");
+    }
+    yield "</sheetData></worksheet>";
+  }
+  yield* zip.entry("xl/worksheets/sheet1.xml", sheetParts());
+  yield zip.finish();
+}
+
+function sheetRow(rowNumber: number, cells: SpreadsheetCell[], letters: string[], style = 0): string {
+  const styleAttribute = style ? ` s="${style}"` : "";
+  const xml = cells
+    .map((cell, index) => {
+      const reference = `${letters[index] ?? columnLetters(index)}${rowNumber}`;
+      if (cell === null || cell === "") return "";
+      if (typeof cell === "number" && Number.isFinite(cell)) {
+        return `<c r="${reference}"${styleAttribute}><v>${cell}</v></c>`;
+      }
+      if (typeof cell === "boolean") {
+        return `<c r="${reference}"${styleAttribute} t="b"><v>${cell ? 1 : 0}</v></c>`;
+      }
+      const text = encodeXml(String(cell).slice(0, MAX_CELL_TEXT));
+      return `<c r="${reference}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+    })
+    .join("");
+  return `<row r="${rowNumber}">${xml}</row>`;
+}
+
+function columnLetters(index: number): string {
+  let letters = "";
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((remaining - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Escapes text for XML, dropping the control characters XML cannot carry.
+function encodeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,231 @@
+import { formatCellText } from "./cellFormat";
+import type { TableAccess } from "./permissions";
+import { toCsvLine, writeXlsx, type SpreadsheetCell } from "./spreadsheet";
+import type { TableQueryState } from "./tableQuery";
+import { getTableData, type TableRow } from "./tableService";
+import type { ColumnSpec } from "./tableUtils";
+
+// Streams a table as CSV, XLSX or JSON. Rows are read a page at a time through
+// the same keyset paging as the grid, with the view's filters and sort, so the
+// whole table is never held in memory. CSV and XLSX cells are formatted the way
+// the grid shows them; JSON keeps typed values.
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "json"];
+
+export type ExportOptions = {
+  format: ExportFormat;
+  query?: TableQueryState;
+  // Keys of the fields to export, in order; defaults to every readable field.
+  fields?: string[];
+  access?: TableAccess;
+};
+
+export type TableExport = {
+  fileName: string;
+  contentType: string;
+  body: ReadableStream<Uint8Array>;
+};
+
+/** An export the request makes impossible. */
+export class ExportError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ExportError";
+  }
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+// Written as numeric XLSX cells; currency, percent and duration keep their
+// formatted text.
+const NUMERIC_TYPES = new Set<ColumnSpec["type"]>(["number", "rating", "count"]);
+const NUMBER_VALUE_TYPES = new Set<ColumnSpec["type"]>([
+  ...NUMERIC_TYPES,
+  "currency",
+  "percent",
+  "duration",
+]);
+const LABEL_TYPES = new Set<ColumnSpec["type"]>([
+  "singleSelect",
+  "multipleSelect",
+  "linkToRecord",
+  "user",
+  "createdBy",
+  "lastModifiedBy",
+]);
+
+/**
+ * Starts an export. The first page is read before returning so that an
+ * unknown table, field or invalid query fails the request rather than the
+ * stream; later pages are read as the client consumes the body.
+ */
+export async function exportTable(tableName: string, options: ExportOptions): Promise<TableExport> {
+  if (!EXPORT_FORMATS.includes(options.format)) {
+    throw new ExportError(`format must be one of ${EXPORT_FORMATS.join(", ")}`);
+  }
+  const first = await getTableData(tableName, {
+    limit: EXPORT_PAGE_SIZE,
+    count: "none",
+    query: options.query,
+    access: options.access,
+  });
+  const columns = selectColumns(first.columns, options.fields);
+
+  async function* batches(): AsyncGenerator<TableRow[]> {
+    yield first.rows;
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await getTableData(tableName, {
+        limit: EXPORT_PAGE_SIZE,
+        count: "none",
+        cursor,
+        query: options.query,
+        access: options.access,
+      });
+      yield page.rows;
+      cursor = page.nextCursor;
+    }
+  }
+
+  const baseName = (first.table.display_name || first.table.table_name).trim() || "export";
+  const chunks =
+    options.format === "csv"
+      ? csvChunks(columns, batches())
+      : options.format === "xlsx"
+        ? writeXlsx(
+            columns.map((column) => column.name),
+            mapBatches(batches(), (row) => columns.map((column) => xlsxCell(row[column.key], column))),
+            baseName
+          )
+        : jsonChunks(columns, batches());
+
+  return {
+    fileName: `${baseName}.${options.format}`,
+    contentType: CONTENT_TYPES[options.format],
+    body: toReadableStream(chunks),
+  };
+}
+
+function selectColumns(
+  readable: ColumnSpec<TableRow>[],
+  fields: string[] | undefined
+): ColumnSpec<TableRow>[] {
+  if (!fields?.length) return readable;
+  const byKey = new Map(readable.map((column) => [String(column.key), column]));
+  return fields.map((key) => {
+    const column = byKey.get(key);
+    if (!column) throw new ExportError(`Unknown field: ${key}`);
+    return column;
+  });
+}
+
+async function* mapBatches<T>(
+  batches: AsyncIterable<TableRow[]>,
+  map: (row: TableRow) => T
+): AsyncGenerator<T[]> {
+  for await (const rows of batches) yield rows.map(map);
+}
+
+async function* csvChunks(
+  columns: ColumnSpec<TableRow>[],
+  batches: AsyncIterable<TableRow[]>
+): AsyncGenerator<string> {
+  // The byte order mark makes Excel read the file as UTF-8.
+  yield `\uFEFF${toCsvLine(columns.map((column) => column.name))}`;
+  for await (const rows of batches) {
+    yield rows
+      .map((row) => toCsvLine(columns.map((column) => formatCellText(row[column.key], column))))
+      .join("");
+  }
+}
+
+async function* jsonChunks(
+  columns: ColumnSpec<TableRow>[],
+  batches: AsyncIterable<TableRow[]>
+): AsyncGenerator<string> {
+  const names = jsonKeys(columns);
+  let first = true;
+  yield "[";
+  for await (const rows of batches) {
+    if (!rows.length) continue;
+    yield rows
+      .map((row) => {
+        const record: Record<string, unknown> = { id: row.id };
+        columns.forEach((column, index) => {
+          record[names[index]] = jsonValue(row[column.key], column);
+        });
+        const text = `${first ? "\n" : ",\n"}${JSON.stringify(record)}`;
+        first = false;
+        return text;
+      })
+      .join("");
+  }
+  yield first ? "]\n" : "\n]\n";
+}
+
+// Records are keyed by field name; a name that repeats, or that is "id", falls
+// back to the field key.
+function jsonKeys(columns: ColumnSpec<TableRow>[]): string[] {
+  const seen = new Set(["id"]);
+  return columns.map((column) => {
+    const name = seen.has(column.name) ? String(column.key) : column.name;
+    seen.add(name);
+    return name;
+  });
+}
+
+function xlsxCell(value: unknown, column: ColumnSpec<TableRow>): SpreadsheetCell {
+  if (value == null || value === "") return null;
+  if (column.type === "checkbox") return Boolean(value);
+  if (NUMERIC_TYPES.has(column.type)) {
+    const num = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(num) ? num : formatCellText(value, column);
+  }
+  return formatCellText(value, column);
+}
+
+function jsonValue(value: unknown, column: ColumnSpec<TableRow>): unknown {
+  if (value == null || value === "") return null;
+  if (column.type === "checkbox") return Boolean(value);
+  if (value instanceof Date) return value.toISOString();
+  if (LABEL_TYPES.has(column.type)) {
+    // Select labels, linked record titles and user names; lists stay lists.
+    const label = (entry: unknown) => formatCellText(entry, { ...column, type: "singleSelect" });
+    return Array.isArray(value) ? value.map(label) : label(value);
+  }
+  if (typeof value === "string" && NUMBER_VALUE_TYPES.has(column.type)) {
+    const num = Number(value);
+    return Number.isFinite(num) ? num : value;
+  }
+  return value;
+}
+
+function toReadableStream(chunks: AsyncGenerator<string | Buffer>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(typeof value === "string" ? encoder.encode(value) : new Uint8Array(value));
+      } catch (error) {
+        console.error("Failed to stream export", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,585 @@
+import { query } from "./db";
+import {
+  createSelectOption,
+  evaluateBoolean,
+  findSelectOption,
+  inferFieldType,
+  splitMultiValue,
+  type InferredField,
+} from "./fieldInference";
+import { AccessDeniedError, canWriteField, type TableAccess } from "./permissions";
+import {
+  detectSpreadsheetFormat,
+  parseSpreadsheet,
+  type Spreadsheet,
+  type SpreadsheetFormat,
+} from "./spreadsheet";
+import {
+  applyRowBatch,
+  createColumn,
+  getTableMetadata,
+  listColumns,
+  listTables,
+  type RowBatchOperation,
+  type TableRow,
+} from "./tableService";
+import type { ColumnSpec, ColumnType, SelectOption } from "./tableUtils";
+import { listDirectoryUsers, toUserCellValue } from "./users";
+
+// Imports a CSV or XLSX file into an existing table. A preview reads the file
+// and suggests a type for each column; the import itself maps columns onto
+// existing fields or new ones and appends rows, or updates the rows whose key
+// field matches. Rows that fail validation are skipped and reported.
+
+export type ImportFile = { filename: string; body: Buffer };
+
+export type ImportPreviewColumn = {
+  source: string;
+  inferred: InferredField;
+  // The existing field with the same name, if any.
+  match: { key: string; name: string; type: ColumnType } | null;
+};
+
+export type ImportPreview = {
+  format: SpreadsheetFormat;
+  rowCount: number;
+  columns: ImportPreviewColumn[];
+  sampleRows: string[][];
+};
+
+export type ImportColumnMapping = {
+  source: string;
+  // Key of the existing field the column is written to...
+  field?: string;
+  // ...or the field to create for it.
+  create?: { name?: string; type: ColumnType; config?: Record<string, unknown> };
+};
+
+export type ImportMode = "append" | "upsert";
+
+export type ImportOptions = {
+  columns: ImportColumnMapping[];
+  mode: ImportMode;
+  // Existing field whose value identifies the row to update in upsert mode.
+  keyField?: string;
+};
+
+export type ImportRowError = { row: number; field?: string; error: string };
+
+export type ImportResult = {
+  created: number;
+  updated: number;
+  failed: number;
+  fieldsCreated: ColumnSpec<TableRow>[];
+  errors: ImportRowError[];
+};
+
+/** An import the file or the mapping makes impossible. */
+export class ImportError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+export const MAX_IMPORT_BYTES = Number(process.env.IMPORT_MAX_BYTES) || 20 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = Number(process.env.IMPORT_MAX_ROWS) || 50_000;
+
+const IMPORTABLE_TYPES = new Set<string>([
+  "singleLineText",
+  "longText",
+  "checkbox",
+  "multipleSelect",
+  "singleSelect",
+  "user",
+  "date",
+  "phone",
+  "email",
+  "url",
+  "number",
+  "currency",
+  "percent",
+  "duration",
+  "rating",
+  "linkToRecord",
+]);
+// Field types a row can be matched on in upsert mode.
+const KEY_FIELD_TYPES = new Set<string>([
+  "singleLineText",
+  "longText",
+  "phone",
+  "email",
+  "url",
+  "singleSelect",
+  "number",
+  "currency",
+  "percent",
+  "duration",
+  "rating",
+]);
+const NUMERIC_TYPES = new Set<string>(["number", "currency", "percent", "duration", "rating"]);
+const IMPORT_BATCH_SIZE = 500;
+const INFERENCE_SAMPLE_ROWS = 5000;
+const PREVIEW_ROWS = 20;
+const MAX_REPORTED_ERRORS = 1000;
+
+function readImportFile(file: ImportFile): Spreadsheet {
+  if (file.body.length > MAX_IMPORT_BYTES) {
+    throw new ImportError(
+      `${file.filename} is larger than ${Math.floor(MAX_IMPORT_BYTES / 1024 / 1024)} MB`,
+      413
+    );
+  }
+  const sheet = parseSpreadsheet(file.body, file.filename);
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(
+      `${file.filename} has ${sheet.rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+      413
+    );
+  }
+  return sheet;
+}
+
+/**
+ * Reads the file and suggests a field type for each of its columns. Values
+ * that name records in other tables of the project suggest a link field.
+ */
+export async function previewImport(tableName: string, file: ImportFile): Promise<ImportPreview> {
+  const sheet = readImportFile(file);
+  const columns = await listColumns(tableName);
+  const sample = sheet.rows.slice(0, INFERENCE_SAMPLE_ROWS);
+  const linkIndex = await buildLinkIndex(
+    tableName,
+    sample.flatMap((row) => row.cells)
+  );
+  const byName = new Map(columns.map((column) => [column.name.trim().toLowerCase(), column]));
+
+  return {
+    format: detectSpreadsheetFormat(file.body, file.filename),
+    rowCount: sheet.rows.length,
+    columns: sheet.headers.map((source, index) => {
+      const inferred = inferFieldType(
+        source,
+        sample.map((row) => row.cells[index]),
+        linkIndex
+      );
+      if (inferred.type === "linkToRecord") {
+        inferred.readOnly = false;
+        if (inferred.linkTarget) {
+          inferred.config = { linkToRecord: { targetTable: inferred.linkTarget, multiple: true } };
+        } else {
+          inferred.type = "singleLineText";
+          inferred.notes = ["Values look like Airtable record IDs from another base; kept as text."];
+        }
+      }
+      const match = byName.get(source.toLowerCase());
+      return {
+        source,
+        inferred,
+        match: match ? { key: String(match.key), name: match.name, type: match.type } : null,
+      };
+    }),
+    sampleRows: sheet.rows.slice(0, PREVIEW_ROWS).map((row) => row.cells),
+  };
+}
+
+/**
+ * Maps each value to the table holding a record with that primary value (or
+ * id), across the other tables of `tableName`'s project.
+ */
+async function buildLinkIndex(tableName: string, values: string[]): Promise<Map<string, string>> {
+  const index = new Map<string, string>();
+  const distinct = Array.from(new Set(values.map((value) => value.trim()).filter(Boolean))).slice(
+    0,
+    10_000
+  );
+  if (!distinct.length) return index;
+  const metadata = await getTableMetadata(tableName);
+  const tables = (await listTables({ projectTag: metadata?.project_tag })).filter(
+    (table) => table.table_name !== tableName
+  );
+  for (const table of tables) {
+    const [primary] = await listColumns(table.table_name);
+    const titles = await lookupRecords(table.table_name, primary, distinct);
+    for (const title of titles.keys()) {
+      if (!index.has(title)) index.set(title, table.table_name);
+    }
+  }
+  return index;
+}
+
+/**
+ * Finds the records of `tableName` whose id or primary value is one of
+ * `values`, keyed by the matching value.
+ */
+async function lookupRecords(
+  tableName: string,
+  primary: ColumnSpec<TableRow> | undefined,
+  values: string[]
+): Promise<Map<string, string[]>> {
+  const primaryKey = primary && primary.type !== "linkToRecord" ? String(primary.key) : null;
+  const { rows } = await query<{ id: string; title: string | null }>(
+    `
+      SELECT id::text AS id, ${primaryKey ? `"${primaryKey}"::text` : "NULL::text"} AS title
+      FROM "${tableName}"
+      WHERE id::text = ANY($1::text[])
+        ${primaryKey ? `OR btrim("${primaryKey}"::text) = ANY($1::text[])` : ""};
+    `,
+    [values]
+  );
+  const matches = new Map<string, string[]>();
+  const add = (value: string, id: string) => {
+    const ids = matches.get(value) ?? [];
+    if (!ids.includes(id)) ids.push(id);
+    matches.set(value, ids);
+  };
+  for (const row of rows) {
+    add(row.id, row.id);
+    if (row.title) add(row.title.trim(), row.id);
+  }
+  return matches;
+}
+
+type ResolvedMapping = { index: number; column: ColumnSpec<TableRow> };
+
+/**
+ * Imports the file's rows. New fields are created first; then every row is
+ * validated against its fields, and the valid ones are written in batches.
+ * A row that fails, in validation or when written, is reported by its row
+ * number in the file and does not stop the others.
+ */
+export async function importRows(
+  tableName: string,
+  file: ImportFile,
+  options: ImportOptions,
+  access?: TableAccess
+): Promise<ImportResult> {
+  const sheet = readImportFile(file);
+  const existing = await listColumns(tableName);
+  const plan = validateMapping(sheet, existing, options, access);
+
+  // Fields are created before any row is written, so a rejected field type
+  // leaves the table untouched.
+  const fieldsCreated: ColumnSpec<TableRow>[] = [];
+  const mappings: ResolvedMapping[] = [...plan.existing];
+  for (const { index, create } of plan.create) {
+    const values = sheet.rows.map((row) => row.cells[index]);
+    const column = await createColumn(
+      tableName,
+      {
+        name: create.name?.trim() || sheet.headers[index],
+        type: create.type,
+        config: withSelectOptions(create.type, create.config ?? {}, values),
+      },
+      access
+    );
+    fieldsCreated.push(column);
+    mappings.push({ index, column });
+  }
+
+  const converters = await buildConverters(mappings, sheet);
+  const keyMapping =
+    options.mode === "upsert"
+      ? mappings.find((mapping) => mapping.column.key === options.keyField)
+      : undefined;
+  const existingKeys = keyMapping ? await loadKeyedRows(tableName, keyMapping) : null;
+
+  const errors: ImportRowError[] = [];
+  const pending: Array<{ row: number; operation: RowBatchOperation }> = [];
+  const seenKeys = new Map<string, number>();
+
+  for (const row of sheet.rows) {
+    const values: Record<string, unknown> = {};
+    const rowErrors: ImportRowError[] = [];
+    for (const { index, column } of mappings) {
+      const text = row.cells[index]?.trim() ?? "";
+      try {
+        values[String(column.key)] = text ? converters.get(index)!(text) : null;
+      } catch (error) {
+        rowErrors.push({
+          row: row.number,
+          field: column.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    let rowId: string | undefined;
+    if (keyMapping && existingKeys && !rowErrors.length) {
+      const key = keyText(values[String(keyMapping.column.key)]);
+      if (key) {
+        const previous = seenKeys.get(key);
+        const matches = existingKeys.get(key) ?? [];
+        if (previous !== undefined) {
+          rowErrors.push({
+            row: row.number,
+            field: keyMapping.column.name,
+            error: `Duplicate key "${key}" (also on row ${previous})`,
+          });
+        } else if (matches.length > 1) {
+          rowErrors.push({
+            row: row.number,
+            field: keyMapping.column.name,
+            error: `"${key}" matches ${matches.length} records`,
+          });
+        }
+        seenKeys.set(key, previous ?? row.number);
+        rowId = matches[0];
+      }
+    }
+
+    if (rowErrors.length) {
+      errors.push(...rowErrors);
+      continue;
+    }
+    if (rowId) {
+      // Blank cells leave the matched record's value as it is.
+      const changes = Object.fromEntries(
+        Object.entries(values).filter(([, value]) => value !== null)
+      );
+      pending.push({ row: row.number, operation: { type: "update", rowId, values: changes } });
+    } else {
+      pending.push({ row: row.number, operation: { type: "create", values } });
+    }
+  }
+
+  let created = 0;
+  let updated = 0;
+  for (let start = 0; start < pending.length; start += IMPORT_BATCH_SIZE) {
+    const chunk = pending.slice(start, start + IMPORT_BATCH_SIZE);
+    const { results } = await applyRowBatch(
+      tableName,
+      chunk.map((entry) => entry.operation),
+      { atomic: false, access }
+    );
+    for (const result of results) {
+      if (result.status === "applied") {
+        if (result.type === "create") created += 1;
+        else updated += 1;
+      } else {
+        errors.push({ row: chunk[result.index].row, error: result.error ?? "Row was not written" });
+      }
+    }
+  }
+
+  const failedRows = new Set(errors.map((error) => error.row));
+  return {
+    created,
+    updated,
+    failed: failedRows.size,
+    fieldsCreated,
+    errors: errors.sort((a, b) => a.row - b.row).slice(0, MAX_REPORTED_ERRORS),
+  };
+}
+
+function validateMapping(
+  sheet: Spreadsheet,
+  columns: ColumnSpec<TableRow>[],
+  options: ImportOptions,
+  access?: TableAccess
+) {
+  if (options.mode !== "append" && options.mode !== "upsert") {
+    throw new ImportError("mode must be append or upsert");
+  }
+  const mappings = (options.columns ?? []).filter((mapping) => mapping.field || mapping.create);
+  if (!mappings.length) {
+    throw new ImportError("Map at least one column to a field");
+  }
+
+  const existing: ResolvedMapping[] = [];
+  const create: Array<{ index: number; create: NonNullable<ImportColumnMapping["create"]> }> = [];
+  const targets = new Set<string>();
+  const denied: string[] = [];
+  for (const mapping of mappings) {
+    const index = sheet.headers.indexOf(mapping.source);
+    if (index < 0) {
+      throw new ImportError(`The file has no column named "${mapping.source}"`);
+    }
+    if (mapping.create) {
+      if (!IMPORTABLE_TYPES.has(mapping.create.type)) {
+        throw new ImportError(`Cannot import "${mapping.source}" as a ${mapping.create.type} field`);
+      }
+      create.push({ index, create: mapping.create });
+      continue;
+    }
+    const column = columns.find((candidate) => candidate.key === mapping.field);
+    if (!column) {
+      throw new ImportError(`Unknown field ${mapping.field}`);
+    }
+    if (!IMPORTABLE_TYPES.has(column.type)) {
+      throw new ImportError(`${column.name} is a ${column.type} field and cannot be imported into`);
+    }
+    if (targets.has(String(column.key))) {
+      throw new ImportError(`More than one column is mapped to ${column.name}`);
+    }
+    if (!canWriteField(column, access)) denied.push(column.name);
+    targets.add(String(column.key));
+    existing.push({ index, column });
+  }
+  if (denied.length) {
+    throw new AccessDeniedError(`You cannot edit ${denied.join(", ")}`);
+  }
+
+  if (options.mode === "upsert") {
+    const key = existing.find((mapping) => mapping.column.key === options.keyField);
+    if (!key) {
+      throw new ImportError("Upsert needs a key field that a column is mapped to");
+    }
+    if (!KEY_FIELD_TYPES.has(key.column.type)) {
+      throw new ImportError(`${key.column.name} is a ${key.column.type} field and cannot be a key`);
+    }
+  }
+  return { existing, create };
+}
+
+// A new select field gets an option for every value in the file, on top of
+// any the mapping already lists.
+function withSelectOptions(
+  type: ColumnType,
+  config: Record<string, unknown>,
+  values: string[]
+): Record<string, unknown> {
+  if (type !== "singleSelect" && type !== "multipleSelect") return config;
+  const current = (config[type] as { options?: SelectOption[] } | undefined) ?? {};
+  const options = [...(current.options ?? [])];
+  for (const value of values) {
+    const labels = type === "multipleSelect" ? splitMultiValue(value ?? "") : [value?.trim() ?? ""];
+    for (const label of labels) {
+      if (label && !findSelectOption(label, options)) {
+        options.push(createSelectOption(label, options.length));
+      }
+    }
+  }
+  return { ...config, [type]: { ...current, options } };
+}
+
+type Converter = (text: string) => unknown;
+
+/**
+ * One converter per mapped column, turning cell text into the value its
+ * field stores and throwing a message for the row report when it cannot.
+ */
+async function buildConverters(
+  mappings: ResolvedMapping[],
+  sheet: Spreadsheet
+): Promise<Map<number, Converter>> {
+  const converters = new Map<number, Converter>();
+  let directory: Awaited<ReturnType<typeof listDirectoryUsers>> | null = null;
+
+  for (const { index, column } of mappings) {
+    const type = column.type;
+    if (NUMERIC_TYPES.has(type)) {
+      converters.set(index, (text) => {
+        const numeric = Number(text.replace(/[$€£¥%,\s]/g, ""));
+        if (!Number.isFinite(numeric)) throw new Error(`"${text}" is not a number`);
+        return numeric;
+      });
+    } else if (type === "checkbox") {
+      converters.set(index, (text) => {
+        const checked = evaluateBoolean(text);
+        if (checked === null) throw new Error(`"${text}" is not a yes/no value`);
+        return checked;
+      });
+    } else if (type === "date") {
+      converters.set(index, (text) => {
+        const parsed = Date.parse(text);
+        if (!Number.isFinite(parsed)) throw new Error(`"${text}" is not a date`);
+        return new Date(parsed).toISOString();
+      });
+    } else if (type === "email") {
+      converters.set(index, (text) => {
+        if (!/^[^\s@]+@[^\s@]+$/.test(text)) throw new Error(`"${text}" is not an email address`);
+        return text;
+      });
+    } else if (type === "singleSelect" || type === "multipleSelect") {
+      const settings = column.config?.[type];
+      const option = (label: string) => {
+        const found = findSelectOption(label, settings?.options);
+        if (found) return found.label;
+        if (settings?.allowCustom) return label;
+        throw new Error(`"${label}" is not an option of ${column.name}`);
+      };
+      converters.set(
+        index,
+        type === "singleSelect" ? option : (text) => splitMultiValue(text).map(option)
+      );
+    } else if (type === "user") {
+      directory ??= await listDirectoryUsers();
+      const users = directory;
+      const multiple = Boolean(column.config?.user?.multiple);
+      converters.set(index, (text) => {
+        const parts = multiple ? splitMultiValue(text) : [text];
+        const found = parts.map((part) => {
+          const lower = part.toLowerCase();
+          const user =
+            users.find((candidate) => candidate.email.toLowerCase() === lower) ??
+            users.find((candidate) => candidate.name.toLowerCase() === lower);
+          if (!user) throw new Error(`No user "${part}"`);
+          return toUserCellValue(user);
+        });
+        return multiple ? found : found[0];
+      });
+    } else if (type === "linkToRecord") {
+      converters.set(index, await linkConverter(column, sheet.rows.map((row) => row.cells[index])));
+    } else {
+      converters.set(index, (text) => text);
+    }
+  }
+  return converters;
+}
+
+// Link cells name records of the target table by primary value or id; one
+// cell may name several, separated like a multiple select.
+async function linkConverter(column: ColumnSpec<TableRow>, values: string[]): Promise<Converter> {
+  const targetTable = column.config?.linkToRecord?.targetTable;
+  if (!targetTable) {
+    throw new ImportError(`${column.name} does not link to a table`);
+  }
+  const targetColumns = await listColumns(targetTable);
+  const primaryName = column.config?.linkToRecord?.targetPrimaryFieldName;
+  const primary =
+    targetColumns.find((candidate) => candidate.key === primaryName || candidate.name === primaryName) ??
+    targetColumns[0];
+  const candidates = values.flatMap((value) => {
+    const text = value?.trim() ?? "";
+    return text ? [text, ...splitMultiValue(text)] : [];
+  });
+  const records = await lookupRecords(targetTable, primary, Array.from(new Set(candidates)));
+  const single = column.config?.linkToRecord?.multiple === false;
+
+  return (text) => {
+    const parts = records.has(text) ? [text] : splitMultiValue(text);
+    const ids = parts.map((part) => {
+      const matches = records.get(part) ?? [];
+      if (!matches.length) throw new Error(`No record "${part}" in ${targetTable}`);
+      if (matches.length > 1) throw new Error(`"${part}" matches ${matches.length} records in ${targetTable}`);
+      return matches[0];
+    });
+    if (single && ids.length > 1) throw new Error(`${column.name} links to one record only`);
+    return ids;
+  };
+}
+
+function keyText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "number" ? String(value) : String(value).trim();
+}
+
+// Existing rows by the text of their key value, for upsert matching.
+async function loadKeyedRows(
+  tableName: string,
+  { column }: ResolvedMapping
+): Promise<Map<string, string[]>> {
+  const key = String(column.key);
+  const numeric = NUMERIC_TYPES.has(column.type);
+  const { rows } = await query<{ id: string; key: string | null }>(
+    `SELECT id::text AS id, "${key}"::text AS key FROM "${tableName}" WHERE "${key}" IS NOT NULL;`
+  );
+  const keyed = new Map<string, string[]>();
+  for (const row of rows) {
+    const text = numeric ? String(Number(row.key)) : (row.key ?? "").trim();
+    if (!text) continue;
+    keyed.set(text, [...(keyed.get(text) ?? []), row.id]);
+  }
+  return keyed;
+}
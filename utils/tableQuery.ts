@@ -0,0 +1,679 @@
+import type { StorageType } from "./columnStorage";
+import type { ColumnSpec, ColumnType } from "./tableUtils";
+
+export type TableFilterOperator =
+  | "contains"
+  | "notContains"
+  | "equals"
+  | "notEquals"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "isEmpty"
+  | "isNotEmpty";
+
+export type TableFilter = {
+  columnKey: string;
+  operator: TableFilterOperator;
+  term: string;
+};
+
+export type TableSort = {
+  columnKey: string;
+  direction: "asc" | "desc";
+};
+
+export type TableQueryState = {
+  filters: TableFilter[];
+  sorts: TableSort[];
+  search: string;
+};
+
+export type TableSortKey = {
+  expression: string;
+  direction: "ASC" | "DESC";
+  nullable: boolean;
+  // A timestamptz key: it travels in cursors as text, since a JS Date would
+  // drop the microseconds and rows sharing a millisecond would repeat or skip.
+  timestamp?: boolean;
+};
+
+export type CompiledTableQuery = {
+  conditions: string[];
+  where: string;
+  orderBy: string;
+  sortKeys: TableSortKey[];
+  params: unknown[];
+};
+
+export const TABLE_FILTER_OPERATORS: Array<{
+  value: TableFilterOperator;
+  label: string;
+  symbol: string;
+  needsTerm: boolean;
+}> = [
+  { value: "contains", label: "Contains", symbol: "contains", needsTerm: true },
+  { value: "notContains", label: "Does not contain", symbol: "does not contain", needsTerm: true },
+  { value: "equals", label: "Equals", symbol: "=", needsTerm: true },
+  { value: "notEquals", label: "Does not equal", symbol: "≠", needsTerm: true },
+  { value: "gt", label: "Greater than", symbol: ">", needsTerm: true },
+  { value: "gte", label: "Greater than or equal", symbol: "≥", needsTerm: true },
+  { value: "lt", label: "Less than", symbol: "<", needsTerm: true },
+  { value: "lte", label: "Less than or equal", symbol: "≤", needsTerm: true },
+  { value: "isEmpty", label: "Is empty", symbol: "is empty", needsTerm: false },
+  { value: "isNotEmpty", label: "Is not empty", symbol: "is not empty", needsTerm: false },
+];
+
+const OPERATOR_SET = new Set<string>(TABLE_FILTER_OPERATORS.map((op) => op.value));
+const SAFE_IDENTIFIER = /^[a-zA-Z_][0-9a-zA-Z_]*$/;
+const MAX_FILTERS = 25;
+const MAX_SORTS = 5;
+
+const NUMERIC_TYPES = new Set<ColumnType>([
+  "number",
+  "currency",
+  "percent",
+  "rating",
+  "duration",
+  "count",
+]);
+const DATE_TYPES = new Set<ColumnType>(["date", "createdTime", "lastModifiedTime"]);
+const ARRAY_TYPES = new Set<ColumnType>([
+  "multipleSelect",
+  "attachment",
+  "user",
+  "linkToRecord",
+  "lookup",
+  "rollup",
+]);
+
+export const EMPTY_TABLE_QUERY: TableQueryState = { filters: [], sorts: [], search: "" };
+
+export function operatorNeedsTerm(operator: TableFilterOperator): boolean {
+  return TABLE_FILTER_OPERATORS.find((op) => op.value === operator)?.needsTerm ?? true;
+}
+
+export function isTableQueryEmpty(query: TableQueryState | null | undefined): boolean {
+  if (!query) return true;
+  return !query.filters.length && !query.sorts.length && !query.search.trim();
+}
+
+export function normalizeTableQuery(input: unknown): TableQueryState {
+  const source = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const filters = (Array.isArray(source.filters) ? source.filters : [])
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null;
+      const record = entry as Record<string, unknown>;
+      const columnKey = typeof record.columnKey === "string" ? record.columnKey : "";
+      const operator = typeof record.operator === "string" ? record.operator : "contains";
+      const term = record.term == null ? "" : String(record.term);
+      if (!SAFE_IDENTIFIER.test(columnKey) || !OPERATOR_SET.has(operator)) return null;
+      const typedOperator = operator as TableFilterOperator;
+      if (operatorNeedsTerm(typedOperator) && !term.trim()) return null;
+      return { columnKey, operator: typedOperator, term: term.trim() };
+    })
+    .filter((entry): entry is TableFilter => entry !== null)
+    .slice(0, MAX_FILTERS);
+
+  const sorts = (Array.isArray(source.sorts) ? source.sorts : [])
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null;
+      const record = entry as Record<string, unknown>;
+      const columnKey = typeof record.columnKey === "string" ? record.columnKey : "";
+      if (!SAFE_IDENTIFIER.test(columnKey)) return null;
+      const direction: TableSort["direction"] = record.direction === "desc" ? "desc" : "asc";
+      return { columnKey, direction };
+    })
+    .filter((entry): entry is TableSort => entry !== null)
+    .slice(0, MAX_SORTS);
+
+  const search = typeof source.search === "string" ? source.search.trim() : "";
+  return { filters, sorts, search };
+}
+
+/**
+ * Writes the query onto URL search params using the format understood by
+ * `parseTableQuery`: `filters` as JSON, `sort` as `key:dir,key:dir` and `search`.
+ */
+export function appendTableQueryParams(params: URLSearchParams, query: TableQueryState | null | undefined) {
+  if (!query) return params;
+  if (query.filters.length) {
+    params.set("filters", JSON.stringify(query.filters));
+  }
+  if (query.sorts.length) {
+    params.set(
+      "sort",
+      query.sorts.map((sort) => `${sort.columnKey}:${sort.direction}`).join(",")
+    );
+  }
+  if (query.search.trim()) {
+    params.set("search", query.search.trim());
+  }
+  return params;
+}
+
+export function parseTableQuery(searchParams: URLSearchParams): TableQueryState {
+  let filters: unknown = [];
+  const rawFilters = searchParams.get("filters");
+  if (rawFilters) {
+    try {
+      filters = JSON.parse(rawFilters);
+    } catch {
+      throw new Error("Invalid filters parameter: expected a JSON array");
+    }
+  }
+
+  const sorts = (searchParams.get("sort") ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [columnKey, direction] = part.split(":");
+      return { columnKey, direction: direction === "desc" ? "desc" : "asc" };
+    });
+
+  return normalizeTableQuery({
+    filters,
+    sorts,
+    search: searchParams.get("search") ?? "",
+  });
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
+
+function quoteColumn(columnKey: string): string {
+  if (!SAFE_IDENTIFIER.test(columnKey)) {
+    throw new Error(`Unsafe identifier: ${columnKey}`);
+  }
+  return `"${columnKey}"`;
+}
+
+// Columns created before typed storage (or synced from a source we could not
+// convert) are still TEXT, so every expression has a text fallback.
+function numericExpression(column: string, storage: StorageType): string {
+  if (storage === "numeric") return column;
+  return `(CASE WHEN btrim(${column}::text) ~ '^[-+]?[0-9]*\\.?[0-9]+([eE][-+]?[0-9]+)?$' THEN btrim(${column}::text)::numeric END)`;
+}
+
+function dateExpression(column: string, storage: StorageType): string {
+  if (storage === "timestamptz") return column;
+  // ISO-8601 strings order lexicographically, so comparisons stay text-based and
+  // never fail on malformed values.
+  return `(CASE WHEN ${column}::text ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}' THEN ${column}::text END)`;
+}
+
+// Text values with a time are moved into a configured timezone too; without
+// one they are taken as written, as they always were.
+const TEXT_TIMESTAMP_PATTERN =
+  "^[0-9]{4}-(0[1-9]|1[0-2])-(0[1-9]|[12][0-9]|3[01])[T ]([01][0-9]|2[0-3]):[0-5][0-9]";
+
+/**
+ * The day of a date value in `timeZone`, the SQL for the field's configured
+ * timezone (see fieldTimeZone), or null when it has none and UTC applies.
+ */
+function dateDayExpression(
+  column: string,
+  storage: StorageType,
+  timeZone: string | null
+): string {
+  if (storage === "timestamptz") {
+    return `to_char(${column} AT TIME ZONE ${timeZone ?? "'UTC'"}, 'YYYY-MM-DD')`;
+  }
+  const day = `left(${dateExpression(column, storage)}, 10)`;
+  if (!timeZone) return day;
+  return `(CASE WHEN ${column}::text ~ '${TEXT_TIMESTAMP_PATTERN}' THEN to_char(${column}::text::timestamptz AT TIME ZONE ${timeZone}, 'YYYY-MM-DD') ELSE ${day} END)`;
+}
+
+/**
+ * The timezone a date field's days are counted in for day filters: the
+ * timezone set in a createdTime or lastModifiedTime format, else UTC.
+ */
+export function fieldTimeZone(column: ColumnSpec | undefined): string {
+  const zone =
+    column?.type === "createdTime"
+      ? column.config?.createdTime?.format?.timezone
+      : column?.type === "lastModifiedTime"
+        ? column.config?.lastModifiedTime?.format?.timezone
+        : undefined;
+  if (!zone?.trim()) return "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone.trim() });
+    return zone.trim();
+  } catch {
+    return "UTC";
+  }
+}
+
+// The client-side counterpart of dateDayExpression.
+function dayInTimeZone(text: string, timeZone: string): string {
+  if (timeZone === "UTC" || !new RegExp(TEXT_TIMESTAMP_PATTERN).test(text)) {
+    return text.slice(0, 10);
+  }
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) return text.slice(0, 10);
+  // en-CA writes dates as YYYY-MM-DD.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// The grid saves single select options as `{"id", "label", ...}` JSON, while
+// imported and synced values are the plain label; both compare by the label.
+function textExpression(column: string, type: ColumnType | undefined): string {
+  if (type !== "singleSelect") return `${column}::text`;
+  return `(CASE WHEN btrim(${column}::text) LIKE '{%}' THEN (${column}::text::jsonb) ->> 'label' ELSE ${column}::text END)`;
+}
+
+function booleanExpression(column: string, storage: StorageType): string {
+  if (storage === "boolean") return `COALESCE(${column}, FALSE)`;
+  return `(COALESCE(lower(btrim(${column}::text)), '') IN ('true', '1', 'yes', 'y', 'on'))`;
+}
+
+function emptyExpression(column: string): string {
+  return `(${column} IS NULL OR btrim(${column}::text) IN ('', '[]', '{}', 'null', '""'))`;
+}
+
+function normalizeDateTerm(term: string): string | null {
+  const trimmed = term.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return parsed.toISOString();
+}
+
+function isDayTerm(normalized: string): boolean {
+  return normalized.length === 10;
+}
+
+function parseBooleanTerm(term: string): boolean {
+  return /^(true|1|yes|y|on|checked)$/i.test(term.trim());
+}
+
+function columnCategory(type: ColumnType | undefined) {
+  if (!type) return "text" as const;
+  if (NUMERIC_TYPES.has(type)) return "number" as const;
+  if (DATE_TYPES.has(type)) return "date" as const;
+  if (type === "checkbox") return "checkbox" as const;
+  if (ARRAY_TYPES.has(type)) return "array" as const;
+  return "text" as const;
+}
+
+/**
+ * Compiles a query into parameterized SQL fragments for the given table's
+ * columns. Column keys are validated against the column list, every user value
+ * goes through a `$n` placeholder and `paramOffset` lets callers reserve the
+ * leading placeholders for their own values (limit, cursor, ...).
+ */
+export function compileTableQuery<T extends Record<string, unknown>>(
+  query: TableQueryState | null | undefined,
+  columns: ColumnSpec<T>[],
+  options?: { paramOffset?: number; storage?: Map<string, StorageType> }
+): CompiledTableQuery {
+  const params: unknown[] = [];
+  const offset = options?.paramOffset ?? 0;
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${offset + params.length}`;
+  };
+
+  const columnsByKey = new Map(columns.map((column) => [String(column.key), column]));
+  const storageOf = (columnKey: string): StorageType =>
+    options?.storage?.get(columnKey) ?? "text";
+  const conditions: string[] = [];
+
+  for (const filter of query?.filters ?? []) {
+    const column = columnsByKey.get(filter.columnKey);
+    if (!column && filter.columnKey !== "id") continue;
+    const ref = quoteColumn(filter.columnKey);
+    const category = columnCategory(column?.type);
+    const storage = storageOf(filter.columnKey);
+    const text = textExpression(ref, column?.type);
+    const timeZone = fieldTimeZone(column);
+    const dayExpression = () =>
+      dateDayExpression(
+        ref,
+        storage,
+        timeZone === "UTC" ? null : `${addParam(timeZone)}::text`
+      );
+    const term = filter.term;
+
+    if (filter.operator === "isEmpty") {
+      conditions.push(
+        category === "checkbox" ? `NOT ${booleanExpression(ref, storage)}` : emptyExpression(ref)
+      );
+      continue;
+    }
+    if (filter.operator === "isNotEmpty") {
+      conditions.push(
+        category === "checkbox"
+          ? booleanExpression(ref, storage)
+          : `NOT ${emptyExpression(ref)}`
+      );
+      continue;
+    }
+
+    switch (filter.operator) {
+      case "contains":
+      case "notContains": {
+        const placeholder = addParam(`%${escapeLike(term)}%`);
+        const condition = `COALESCE(${text}, '') ILIKE ${placeholder} ESCAPE '\\'`;
+        conditions.push(filter.operator === "contains" ? condition : `NOT (${condition})`);
+        break;
+      }
+      case "equals":
+      case "notEquals": {
+        let condition: string;
+        if (category === "number") {
+          const numeric = Number(term);
+          if (!Number.isFinite(numeric)) {
+            condition = "FALSE";
+          } else {
+            condition = `${numericExpression(ref, storage)} = ${addParam(numeric)}`;
+          }
+        } else if (category === "checkbox") {
+          condition = `${booleanExpression(ref, storage)} = ${addParam(parseBooleanTerm(term))}`;
+        } else if (category === "date") {
+          const normalized = normalizeDateTerm(term);
+          condition = normalized
+            ? `${dayExpression()} = ${addParam(normalized.slice(0, 10))}`
+            : "FALSE";
+        } else if (category === "array" && storage === "text[]") {
+          condition = `EXISTS (SELECT 1 FROM unnest(${ref}) AS element WHERE lower(element) = ${addParam(term.toLowerCase())})`;
+        } else if (category === "array") {
+          const exact = addParam(term.toLowerCase());
+          const element = addParam(`%"${escapeLike(term)}"%`);
+          condition = `(lower(btrim(COALESCE(${ref}::text, ''))) = ${exact} OR COALESCE(${ref}::text, '') ILIKE ${element} ESCAPE '\\')`;
+        } else {
+          condition = `lower(btrim(COALESCE(${text}, ''))) = ${addParam(term.toLowerCase())}`;
+        }
+        conditions.push(
+          filter.operator === "equals" ? condition : `NOT COALESCE(${condition}, FALSE)`
+        );
+        break;
+      }
+      case "gt":
+      case "gte":
+      case "lt":
+      case "lte": {
+        const comparator = { gt: ">", gte: ">=", lt: "<", lte: "<=" }[filter.operator];
+        if (category === "number") {
+          const numeric = Number(term);
+          conditions.push(
+            Number.isFinite(numeric)
+              ? `${numericExpression(ref, storage)} ${comparator} ${addParam(numeric)}`
+              : "FALSE"
+          );
+        } else if (category === "date") {
+          const normalized = normalizeDateTerm(term);
+          // A term without a time compares whole days, so `lte 2024-05-01`
+          // keeps values later on that day.
+          const expression =
+            normalized && isDayTerm(normalized)
+              ? dayExpression()
+              : dateExpression(ref, storage);
+          conditions.push(
+            normalized ? `${expression} ${comparator} ${addParam(normalized)}` : "FALSE"
+          );
+        } else {
+          conditions.push(
+            `lower(COALESCE(${text}, '')) ${comparator} ${addParam(term.toLowerCase())}`
+          );
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  const search = query?.search.trim() ?? "";
+  if (search) {
+    const searchable = columns
+      .map((column) => String(column.key))
+      .filter((key) => SAFE_IDENTIFIER.test(key))
+      .map((key) => `COALESCE(${quoteColumn(key)}::text, '')`);
+    if (searchable.length) {
+      const document = `concat_ws(' ', ${searchable.join(", ")})`;
+      const likeParam = addParam(`%${escapeLike(search)}%`);
+      const tsParam = addParam(search);
+      conditions.push(
+        `(${document} ILIKE ${likeParam} ESCAPE '\\' OR to_tsvector('simple', ${document}) @@ plainto_tsquery('simple', ${tsParam}))`
+      );
+    }
+  }
+
+  const sortKeys: TableSortKey[] = [];
+  for (const sort of query?.sorts ?? []) {
+    const column = columnsByKey.get(sort.columnKey);
+    if (!column) continue;
+    const ref = quoteColumn(sort.columnKey);
+    const direction = sort.direction === "desc" ? "DESC" : "ASC";
+    const category = columnCategory(column.type);
+    const storage = storageOf(sort.columnKey);
+    const expression =
+      category === "number"
+        ? numericExpression(ref, storage)
+        : category === "date"
+          ? dateExpression(ref, storage)
+          : category === "checkbox"
+            ? booleanExpression(ref, storage)
+            : `lower(NULLIF(btrim(${textExpression(ref, column.type)}), ''))`;
+    sortKeys.push({
+      expression,
+      direction,
+      nullable: category !== "checkbox",
+      timestamp: category === "date" && storage === "timestamptz",
+    });
+  }
+  sortKeys.push({ expression: "id", direction: "ASC", nullable: false });
+
+  return {
+    conditions,
+    where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+    orderBy: `ORDER BY ${sortKeys
+      .map((key) => `${key.expression} ${key.direction}${key.nullable ? " NULLS LAST" : ""}`)
+      .join(", ")}`,
+    sortKeys,
+    params,
+  };
+}
+
+type CursorPayload = { v: unknown[]; s: string };
+
+function sortSignature(query: TableQueryState | null | undefined): string {
+  return (query?.sorts ?? []).map((sort) => `${sort.columnKey}:${sort.direction}`).join(",");
+}
+
+/**
+ * Cursors carry the sort-key values of the last row on a page plus the sort
+ * they were produced under, so a cursor can't be replayed against another order.
+ */
+export function encodeTableCursor(query: TableQueryState | null | undefined, values: unknown[]): string {
+  const payload: CursorPayload = { v: values, s: sortSignature(query) };
+  return btoa(encodeURIComponent(JSON.stringify(payload)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeTableCursor(
+  cursor: string,
+  query: TableQueryState | null | undefined,
+  sortKeys: TableSortKey[]
+): unknown[] {
+  let payload: CursorPayload;
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    payload = JSON.parse(decodeURIComponent(atob(base64))) as CursorPayload;
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+  if (
+    !payload ||
+    !Array.isArray(payload.v) ||
+    payload.s !== sortSignature(query) ||
+    payload.v.length !== sortKeys.length
+  ) {
+    throw new Error("Invalid cursor: it does not match the requested sort");
+  }
+  return payload.v;
+}
+
+/** The SQL selecting a sort key's value for the cursor of the page it ends. */
+export function cursorValueExpression(key: TableSortKey): string {
+  return key.timestamp
+    ? `to_char(${key.expression} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`
+    : key.expression;
+}
+
+/**
+ * Builds the keyset predicate selecting rows that sort strictly after `values`
+ * under `sortKeys`. Expanded into OR-ed prefixes rather than a row comparison so
+ * mixed directions and NULLS LAST ordering are honoured.
+ */
+export function compileKeysetCondition(
+  sortKeys: TableSortKey[],
+  values: unknown[],
+  options?: { paramOffset?: number }
+): { condition: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const offset = options?.paramOffset ?? 0;
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${offset + params.length}`;
+  };
+
+  const placeholderFor = (key: TableSortKey, value: unknown) =>
+    key.timestamp ? `${addParam(value)}::timestamptz` : addParam(value);
+
+  const clauses: string[] = [];
+  sortKeys.forEach((key, index) => {
+    const value = values[index];
+    // Nothing sorts after NULL under NULLS LAST, so this prefix yields no rows.
+    if (value === null || value === undefined) return;
+    const parts = sortKeys.slice(0, index).map((previous, previousIndex) => {
+      const previousValue = values[previousIndex];
+      return previousValue === null || previousValue === undefined
+        ? `${previous.expression} IS NULL`
+        : `${previous.expression} = ${placeholderFor(previous, previousValue)}`;
+    });
+    const comparator = key.direction === "ASC" ? ">" : "<";
+    const placeholder = placeholderFor(key, value);
+    parts.push(
+      key.nullable
+        ? `(${key.expression} ${comparator} ${placeholder} OR ${key.expression} IS NULL)`
+        : `${key.expression} ${comparator} ${placeholder}`
+    );
+    clauses.push(`(${parts.join(" AND ")})`);
+  });
+
+  return {
+    condition: clauses.length ? `(${clauses.join(" OR ")})` : "FALSE",
+    params,
+  };
+}
+
+function valueToSearchText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return value.map(valueToSearchText).join(", ");
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.label === "string") return record.label;
+    if (typeof record.name === "string") return record.name;
+    if (typeof record.title === "string") return record.title;
+    try {
+      return JSON.stringify(record);
+    } catch {
+      return String(record);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Client-side counterpart of `compileTableQuery` used by the grid for rows it
+ * already holds, so local and server filtering agree on operator semantics.
+ */
+export function matchesTableFilter(
+  value: unknown,
+  filter: TableFilter,
+  columnType?: ColumnType,
+  // The field's timezone for day comparisons (see fieldTimeZone).
+  timeZone = "UTC"
+): boolean {
+  // Formulas and rollups have no declared type; a numeric result compares as a number.
+  const category =
+    typeof value === "number" && columnCategory(columnType) === "text"
+      ? "number"
+      : columnCategory(columnType);
+  const text = valueToSearchText(value).trim();
+  const lower = text.toLowerCase();
+  const term = filter.term.trim().toLowerCase();
+  const isEmpty =
+    category === "checkbox"
+      ? !(value === true || /^(true|1|yes|y|on)$/i.test(text))
+      : !text || text === "[]" || text === "{}";
+
+  switch (filter.operator) {
+    case "isEmpty":
+      return isEmpty;
+    case "isNotEmpty":
+      return !isEmpty;
+    case "contains":
+      return lower.includes(term);
+    case "notContains":
+      return !lower.includes(term);
+    case "equals":
+    case "notEquals": {
+      let equal: boolean;
+      if (category === "number") {
+        equal = text !== "" && Number(text) === Number(term);
+      } else if (category === "checkbox") {
+        equal = !isEmpty === parseBooleanTerm(term);
+      } else if (category === "date") {
+        const normalized = normalizeDateTerm(term);
+        equal =
+          normalized !== null && dayInTimeZone(text, timeZone) === normalized.slice(0, 10);
+      } else if (category === "array" && Array.isArray(value)) {
+        equal = value.some((item) => valueToSearchText(item).trim().toLowerCase() === term);
+      } else {
+        equal = lower === term;
+      }
+      return filter.operator === "equals" ? equal : !equal;
+    }
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      let left: number | string;
+      let right: number | string;
+      if (category === "number") {
+        left = Number(text);
+        right = Number(term);
+        if (!text || !Number.isFinite(left) || !Number.isFinite(right)) return false;
+      } else if (category === "date") {
+        const normalized = normalizeDateTerm(term);
+        if (!normalized || !/^\d{4}-\d{2}-\d{2}/.test(text)) return false;
+        left = isDayTerm(normalized) ? dayInTimeZone(text, timeZone) : text;
+        right = normalized;
+      } else {
+        left = lower;
+        right = term;
+      }
+      if (filter.operator === "gt") return left > right;
+      if (filter.operator === "gte") return left >= right;
+      if (filter.operator === "lt") return left < right;
+      return left <= right;
+    }
+    default:
+      return true;
+  }
+}
@@ -1,13 +1,89 @@
 import { randomUUID } from "crypto";
 import type { PoolClient } from "pg";
-import type { ColumnSpec } from "./tableUtils";
+import type { ColumnSpec, LinkedRecordOption } from "./tableUtils";
+import {
+  AccessDeniedError,
+  canReadField,
+  canWriteField,
+  roleAtLeast,
+  type TableAccess,
+} from "./permissions";
 import projectTags from "@/config/projectTags.json";
+import { AIRTABLE_OUTBOUND_DDL, enqueueOutboundChange } from "./airtableOutbound";
+import {
+  convertColumnStorage,
+  loadColumnStorage,
+  serializeForStorage,
+  storagePlaceholder,
+  storageTypeForColumn,
+  storageTypeFromUdt,
+  type ColumnConversionReport,
+  type StorageType,
+} from "./columnStorage";
 import { query, withTransaction } from "./db";
+import {
+  aggregateRollupValues,
+  evaluateFormulaColumns,
+  FormulaValidationError,
+  validateFormulaColumn,
+} from "./formulaEngine";
+import {
+  CHANGE_LOG_DDL,
+  listRowChanges,
+  recordColumnChange,
+  recordRowChange,
+  rowStatesAt,
+  type ChangeLogEntry,
+} from "./changeLog";
 import { emitTableChange } from "./realtime";
-import { ColumnMetadata, TableMetadata, toColumnKey } from "./schema";
+import {
+  ensureTrashTable,
+  putInTrash,
+  takeFromTrash,
+  trashStorageName,
+  TrashRestoreError,
+  type TrashItem,
+  type TrashItemWithPayload,
+} from "./trash";
+import {
+  COMPUTED_FIELD_TYPES,
+  installRowTimestamps,
+  ROW_SYSTEM_COLUMNS,
+} from "./rowTimestamps";
+import {
+  getDirectoryUsers,
+  notifyAddedUsers,
+  toUserCellValue,
+  userIdsInCell,
+  type UserCellValue,
+} from "./users";
+import {
+  isRowId,
+  linkTargetIds,
+  loadLinkFields,
+  RECORD_LINKS_DDL,
+  removeFieldLinks,
+  refreshLinkCache,
+  removeRowLinks,
+  replaceRowLinks,
+  setLinkedFieldId,
+  type LinkField,
+} from "./recordLinks";
+import { ColumnMetadata, TableMetadata, toColumnKey, toSlug } from "./schema";
+import {
+  compileKeysetCondition,
+  compileTableQuery,
+  cursorValueExpression,
+  decodeTableCursor,
+  encodeTableCursor,
+  matchesTableFilter,
+  type TableQueryState,
+} from "./tableQuery";
 
 export type TableRow = Record<string, unknown> & { id: string };
 
+export type TableCountMode = "exact" | "estimate" | "none";
+
 const SAFE_IDENTIFIER = /^[a-zA-Z_][0-9a-zA-Z_]*$/;
 const DEFAULT_PROJECT_TAG = projectTags.defaultApp;
 
@@ -37,24 +113,11 @@ function toColumnSpec(meta: ColumnMetadata): ColumnSpec<TableRow> {
       (meta.data_type as ColumnSpec<TableRow>["type"]) ??
       "singleLineText",
     width: meta.width ?? 220,
+    permissions: meta.permissions ?? undefined,
     config
   };
 }
 
-function normalizeValue(input: unknown): string | null {
-  if (
-    input === null ||
-    input === undefined ||
-    (typeof input === "string" && input.trim() === "")
-  ) {
-    return null;
-  }
-  if (typeof input === "object") {
-    return JSON.stringify(input);
-  }
-  return String(input);
-}
-
 function safeParseJson(text: string): unknown {
   try {
     return JSON.parse(text);
@@ -95,6 +158,10 @@ function deserializeCellValue(
     return null;
   }
 
+  if (raw instanceof Date) {
+    return raw.toISOString();
+  }
+
   switch (column.type) {
     case "checkbox": {
       if (typeof raw === "boolean") return raw;
@@ -174,6 +241,7 @@ type ColumnMetadataQueryRow = {
   position: number;
   is_nullable: boolean;
   width: number;
+  permissions: string | null;
   created_at: string | null;
   updated_at: string | null;
   type_settings_column_type: string | null;
@@ -205,6 +273,7 @@ function mapColumnMetadataRows(rows: ColumnMetadataQueryRow[]): ColumnMetadata[]
       position: row.position,
       is_nullable: row.is_nullable,
       width: row.width,
+      permissions: row.permissions,
       created_at: row.created_at ?? undefined,
       updated_at: row.updated_at ?? undefined,
       type_settings: typeSettings,
@@ -212,40 +281,53 @@ function mapColumnMetadataRows(rows: ColumnMetadataQueryRow[]): ColumnMetadata[]
   });
 }
 
+const COLUMN_METADATA_SQL = `
+  SELECT
+    cm.table_name,
+    cm.column_name,
+    cm.display_name,
+    cm.data_type,
+    cm.config,
+    cm.position,
+    cm.is_nullable,
+    cm.width,
+    cm.permissions,
+    cm.created_at,
+    cm.updated_at,
+    cts.column_type AS type_settings_column_type,
+    cts.settings AS type_settings_settings,
+    cts.created_at AS type_settings_created_at,
+    cts.updated_at AS type_settings_updated_at
+  FROM column_metadata cm
+  LEFT JOIN column_type_settings cts
+    ON cm.table_name = cts.table_name
+   AND cm.column_name = cts.column_name
+  WHERE cm.table_name = $1
+  ORDER BY cm.position ASC;
+`;
+
 async function fetchColumnMetadata(
   client: PoolClient,
   tableName: string
 ): Promise<ColumnMetadata[]> {
   const { rows } = await client.query<ColumnMetadataQueryRow>(
-    `
-      SELECT
-        cm.table_name,
-        cm.column_name,
-        cm.display_name,
-        cm.data_type,
-        cm.config,
-        cm.position,
-        cm.is_nullable,
-        cm.width,
-        cm.created_at,
-        cm.updated_at,
-        cts.column_type AS type_settings_column_type,
-        cts.settings AS type_settings_settings,
-        cts.created_at AS type_settings_created_at,
-        cts.updated_at AS type_settings_updated_at
-      FROM column_metadata cm
-      LEFT JOIN column_type_settings cts
-        ON cm.table_name = cts.table_name
-       AND cm.column_name = cts.column_name
-      WHERE cm.table_name = $1
-      ORDER BY cm.position ASC;
-    `,
+    COLUMN_METADATA_SQL,
     [tableName]
   );
 
   return mapColumnMetadataRows(rows);
 }
 
+/**
+ * Re-installs the table's timestamp trigger from its current fields, so
+ * createdTime/lastModifiedTime follow renames, new fields and config edits.
+ */
+export async function refreshRowTimestamps(client: PoolClient, tableName: string) {
+  const safeTable = assertSafeIdentifier(tableName);
+  const columns = (await fetchColumnMetadata(client, safeTable)).map(toColumnSpec);
+  await installRowTimestamps(client, safeTable, columns);
+}
+
 let ensureMetadataReadyPromise: Promise<void> | null = null;
 
 async function ensureMetadataReady() {
@@ -300,6 +382,62 @@ async function ensureMetadataReady() {
       ensureMetadataReadyPromise = null;
       throw error;
     }
+
+    try {
+      // column_metadata is created by the Airtable sync and the migration
+      // script; older databases predate field permissions.
+      await query(`
+        ALTER TABLE IF EXISTS column_metadata
+          ADD COLUMN IF NOT EXISTS permissions TEXT;
+      `);
+    } catch (error) {
+      console.error("Failed to ensure permissions column on column_metadata", error);
+      ensureMetadataReadyPromise = null;
+      throw error;
+    }
+
+    try {
+      await query(RECORD_LINKS_DDL);
+    } catch (error) {
+      console.error("Failed to ensure record_links table", error);
+      ensureMetadataReadyPromise = null;
+      throw error;
+    }
+
+    try {
+      await query(AIRTABLE_OUTBOUND_DDL);
+    } catch (error) {
+      console.error("Failed to ensure airtable_outbound_queue table", error);
+      ensureMetadataReadyPromise = null;
+      throw error;
+    }
+
+    try {
+      await query(CHANGE_LOG_DDL);
+    } catch (error) {
+      console.error("Failed to ensure table_change_log table", error);
+      ensureMetadataReadyPromise = null;
+      throw error;
+    }
+
+    try {
+      // Tables created before row timestamps existed get created_at/updated_at
+      // and their trigger here; new tables get them when they are created, and
+      // tables already set up are only checked.
+      const { rows } = await query<{ table_name: string }>(`
+        SELECT table_name FROM table_metadata
+        WHERE to_regclass(quote_ident(table_name)) IS NOT NULL
+          AND to_regclass('column_metadata') IS NOT NULL;
+      `);
+      for (const { table_name } of rows) {
+        if (!SAFE_IDENTIFIER.test(table_name)) continue;
+        await withTransaction((client) => refreshRowTimestamps(client, table_name));
+      }
+    } catch (error) {
+      console.error("Failed to install row timestamp triggers", error);
+      ensureMetadataReadyPromise = null;
+      throw error;
+    }
   })();
 
   return ensureMetadataReadyPromise;
@@ -328,417 +466,2560 @@ export async function listTables(options?: {
   return rows;
 }
 
-export async function getTableData(
-  tableName: string,
-  options?: { limit?: number; offset?: number }
-): Promise<{
-  table: TableMetadata;
-  columns: ColumnSpec<TableRow>[];
-  rows: TableRow[];
-  totalRows: number;
-}> {
-  await ensureMetadataReady();
-  const safeTable = assertSafeIdentifier(tableName);
-  const limit = Math.max(1, Math.min(options?.limit ?? 100, 500));
-  const offset = Math.max(0, options?.offset ?? 0);
-
-  const [tableResult, columnRows, rowsResult, countResult] = await Promise.all([
-    query<TableMetadata>(
-      `
-        SELECT table_name, display_name, source_file, project_tag, created_at, updated_at
-        FROM table_metadata
-        WHERE table_name = $1;
-      `,
-      [safeTable]
-    ),
-    query<ColumnMetadataQueryRow>(
-      `
-        SELECT
-          cm.table_name,
-          cm.column_name,
-          cm.display_name,
-          cm.data_type,
-          cm.config,
-          cm.position,
-          cm.is_nullable,
-          cm.width,
-          cm.created_at,
-          cm.updated_at,
-          cts.column_type AS type_settings_column_type,
-          cts.settings AS type_settings_settings,
-          cts.created_at AS type_settings_created_at,
-          cts.updated_at AS type_settings_updated_at
-        FROM column_metadata cm
-        LEFT JOIN column_type_settings cts
-          ON cm.table_name = cts.table_name
-         AND cm.column_name = cts.column_name
-        WHERE cm.table_name = $1
-        ORDER BY cm.position ASC;
-      `,
-      [safeTable]
-    ),
-    query<TableRow>(
-      `SELECT * FROM "${safeTable}" ORDER BY id LIMIT $1 OFFSET $2;`,
-      [limit, offset]
-    ),
-    query<{ count: string }>(
-      `SELECT COUNT(*)::text AS count FROM "${safeTable}";`
-    ),
-  ]);
-
-  if (tableResult.rowCount === 0) {
-    throw new Error(`Unknown table: ${tableName}`);
+/** A table operation the request itself makes impossible. */
+export class TableValidationError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409 = 400) {
+    super(message);
+    this.name = "TableValidationError";
   }
+}
 
-  const metadata = tableResult.rows[0];
-  const columnMetadata = mapColumnMetadataRows(columnRows.rows);
-  const columnSpecs = columnMetadata.map((meta) => toColumnSpec(meta));
+const TABLE_METADATA_COLUMNS = `
+  table_name, display_name, source_file, project_tag, created_at, updated_at
+`;
 
-  const tableRows = rowsResult.rows.map((row) => {
-    const normalized: TableRow = { id: String((row as TableRow).id) };
-    for (const [key, value] of Object.entries(row)) {
-      if (key === "id") continue;
-      normalized[key] = value;
-    }
-    return normalized;
-  });
+// Leaves room for a `_<n>` suffix within Postgres' 63-byte identifier limit.
+const MAX_TABLE_NAME_LENGTH = 50;
 
-  const parsedRows = tableRows.map((row) => deserializeRow(row, columnSpecs));
+// Field types that cannot be set up without configuration, so they cannot be
+// the primary field of a new table.
+const UNSUPPORTED_PRIMARY_TYPES = new Set(["linkToRecord", "lookup", "rollup", "count"]);
 
-  return {
-    table: metadata,
-    columns: columnSpecs,
-    rows: parsedRows,
-    totalRows: Number(countResult.rows[0]?.count ?? "0"),
-  };
+function normalizeDisplayName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) {
+    throw new TableValidationError("A table name is required");
+  }
+  if (name.length > 255) {
+    throw new TableValidationError("Table names are limited to 255 characters");
+  }
+  return name;
 }
 
-export async function createColumn(
-  tableName: string,
-  input: {
-    name: string;
-    type?: ColumnSpec<TableRow>["type"];
-    config?: Record<string, unknown>;
-    width?: number;
-    position?: number;
-    clientKey?: string;
+function normalizeProjectTag(value: unknown): string {
+  const tag = typeof value === "string" ? value.trim() : "";
+  if (!tag || tag.length > 100) {
+    throw new TableValidationError("projectTag must be a non-empty string of up to 100 characters");
   }
-): Promise<ColumnSpec<TableRow>> {
-  return withTransaction(async (client) => {
-    const safeTable = assertSafeIdentifier(tableName);
-    const currentMeta = await fetchColumnMetadata(client, safeTable);
-    const existingKeys = new Set(currentMeta.map((meta) => meta.column_name));
-    const columnKey = toColumnKey(input.name, existingKeys);
-    const width = input.width ?? 220;
-  const position =
-      input.position ??
-      (currentMeta.length > 0 ? currentMeta.length + 1 : 1);
-
-    await client.query(
-      `ALTER TABLE "${safeTable}" ADD COLUMN "${columnKey}" TEXT;`
-    );
+  return tag;
+}
 
-    await client.query(
+/**
+ * A storage name for a new table derived from its display name. Names in use
+ * by any relation, or by a table waiting in the trash, are skipped.
+ */
+async function uniqueTableName(client: PoolClient, displayName: string): Promise<string> {
+  await ensureTrashTable();
+  const base = toSlug(displayName).slice(0, MAX_TABLE_NAME_LENGTH).replace(/_+$/, "") || "tbl";
+  for (let index = 1; ; index += 1) {
+    const candidate = index === 1 ? base : `${base}_${index}`;
+    const { rows } = await client.query<{ taken: boolean }>(
       `
-        INSERT INTO column_metadata (table_name, column_name, display_name, data_type, config, position, width)
-        VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
-        ON CONFLICT (table_name, column_name)
-        DO UPDATE SET display_name = EXCLUDED.display_name,
-                      data_type = EXCLUDED.data_type,
-                      config = EXCLUDED.config,
-                      position = EXCLUDED.position,
-                      width = EXCLUDED.width,
-                      updated_at = NOW();
+        SELECT to_regclass(quote_ident($1)) IS NOT NULL
+          OR EXISTS (SELECT 1 FROM table_metadata WHERE table_name = $1)
+          OR EXISTS (SELECT 1 FROM trash_items WHERE kind = 'table' AND table_name = $1)
+          AS taken;
       `,
-      [
-        safeTable,
-        columnKey,
-        input.name,
-        input.type ?? "singleLineText",
-        JSON.stringify(input.config ?? {}),
-        position,
-        width,
-      ]
+      [candidate]
     );
+    if (!rows[0]?.taken) return candidate;
+  }
+}
+
+async function fetchTableMetadata(
+  client: PoolClient,
+  safeTable: string
+): Promise<TableMetadata> {
+  const { rows } = await client.query<TableMetadata>(
+    `SELECT ${TABLE_METADATA_COLUMNS} FROM table_metadata WHERE table_name = $1;`,
+    [safeTable]
+  );
+  if (!rows.length) {
+    throw new TableValidationError(`Unknown table: ${safeTable}`, 404);
+  }
+  return rows[0];
+}
+
+export async function getTableMetadata(tableName: string): Promise<TableMetadata | null> {
+  await ensureMetadataReady();
+  const { rows } = await query<TableMetadata>(
+    `SELECT ${TABLE_METADATA_COLUMNS} FROM table_metadata WHERE table_name = $1;`,
+    [assertSafeIdentifier(tableName)]
+  );
+  return rows[0] ?? null;
+}
 
-    const columnType = input.type ?? "singleLineText";
+/**
+ * Creates an empty table with a primary field (a "Name" text field unless
+ * `primaryField` says otherwise).
+ */
+export async function createTable(input: {
+  displayName: string;
+  projectTag?: string;
+  primaryField?: { name?: string; type?: ColumnSpec<TableRow>["type"] };
+}): Promise<TableMetadata> {
+  await ensureMetadataReady();
+  const displayName = normalizeDisplayName(input.displayName);
+  const projectTag =
+    input.projectTag === undefined ? DEFAULT_PROJECT_TAG : normalizeProjectTag(input.projectTag);
+  const primaryName = input.primaryField?.name?.trim() || "Name";
+  const primaryType = input.primaryField?.type ?? "singleLineText";
+  if (UNSUPPORTED_PRIMARY_TYPES.has(primaryType)) {
+    throw new TableValidationError(`A ${primaryType} field cannot be the primary field`);
+  }
+
+  const table = await withTransaction(async (client) => {
+    const tableName = await uniqueTableName(client, displayName);
     await client.query(
+      `CREATE TABLE "${tableName}" (id UUID PRIMARY KEY, created_by TEXT, updated_by TEXT);`
+    );
+    const { rows } = await client.query<TableMetadata>(
       `
-        INSERT INTO column_type_settings (table_name, column_name, column_type, settings)
-        VALUES ($1, $2, $3, $4::jsonb)
-        ON CONFLICT (table_name, column_name)
-        DO UPDATE SET column_type = EXCLUDED.column_type,
-                      settings = EXCLUDED.settings,
-                      updated_at = NOW();
+        INSERT INTO table_metadata (table_name, display_name, project_tag)
+        VALUES ($1, $2, $3)
+        RETURNING ${TABLE_METADATA_COLUMNS};
       `,
-      [safeTable, columnKey, columnType, JSON.stringify(input.config ?? {})]
-    );
-
-    const [meta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
-      rows.filter((row) => row.column_name === columnKey)
+      [tableName, displayName, projectTag]
     );
-
-    emitTableChange({
-      table: safeTable,
-      type: "columnCreated",
-      payload: { columnKey },
-      timestamp: new Date().toISOString(),
+    await insertColumnDefinition(client, tableName, {
+      columnKey: toColumnKey(primaryName, new Set()),
+      name: primaryName,
+      type: primaryType,
+      config: {},
+      position: 1,
+      width: 220,
     });
+    await refreshRowTimestamps(client, tableName);
+    return rows[0];
+  });
 
-    return toColumnSpec(meta);
+  emitTableChange({
+    table: table.table_name,
+    type: "tableCreated",
+    payload: { displayName: table.display_name, projectTag: table.project_tag },
+    timestamp: new Date().toISOString(),
   });
+  return table;
 }
 
-export async function updateColumn(
+/** Renames a table (its display name) and/or moves it to another project. */
+export async function updateTable(
   tableName: string,
-  columnKey: string,
-  input: {
-    name?: string;
-    type?: ColumnSpec<TableRow>["type"];
-    config?: Record<string, unknown>;
-    width?: number;
-  }
-): Promise<ColumnSpec<TableRow>> {
-  return withTransaction(async (client) => {
-    const safeTable = assertSafeIdentifier(tableName);
-    const safeColumn = assertSafeIdentifier(columnKey);
+  input: { displayName?: string; projectTag?: string }
+): Promise<TableMetadata> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const displayName =
+    input.displayName === undefined ? null : normalizeDisplayName(input.displayName);
+  const projectTag =
+    input.projectTag === undefined ? null : normalizeProjectTag(input.projectTag);
 
-    const { rowCount } = await client.query(
-      `
-        UPDATE column_metadata
-        SET
-          display_name = COALESCE($3, display_name),
-          data_type = COALESCE($4, data_type),
-          config = COALESCE($5::jsonb, config),
-          width = COALESCE($6, width),
+  const { rows } = await query<TableMetadata>(
+    `
+      UPDATE table_metadata
+      SET display_name = COALESCE($2, display_name),
+          project_tag = COALESCE($3, project_tag),
           updated_at = NOW()
-        WHERE table_name = $1 AND column_name = $2;
-      `,
-      [
-        safeTable,
-        safeColumn,
-        input.name ?? null,
-        input.type ?? null,
-        input.config ? JSON.stringify(input.config) : null,
-        input.width ?? null,
-      ]
-    );
-
-    if (rowCount === 0) {
-      throw new Error(`Column ${columnKey} not found on ${tableName}`);
-    }
+      WHERE table_name = $1
+      RETURNING ${TABLE_METADATA_COLUMNS};
+    `,
+    [safeTable, displayName, projectTag]
+  );
+  if (!rows.length) {
+    throw new TableValidationError(`Unknown table: ${tableName}`, 404);
+  }
 
-    const [meta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
-      rows.filter((row) => row.column_name === columnKey)
-    );
+  emitTableChange({
+    table: safeTable,
+    type: "tableUpdated",
+    payload: { displayName: rows[0].display_name, projectTag: rows[0].project_tag },
+    timestamp: new Date().toISOString(),
+  });
+  return rows[0];
+}
 
-    if (!meta) {
-      throw new Error(`Column ${columnKey} not found on ${tableName}`);
-    }
+/**
+ * Copies a table's fields, and with `includeRecords` its rows, links and
+ * attachments, into a new table. Link fields to other tables get their own
+ * inverse fields there; links within the table point at the copy. Fields the
+ * caller may not read are copied empty.
+ */
+export async function duplicateTable(
+  tableName: string,
+  input: { displayName?: string; projectTag?: string; includeRecords?: boolean },
+  access?: TableAccess
+): Promise<TableMetadata> {
+  await ensureMetadataReady();
+  const sourceTable = assertSafeIdentifier(tableName);
 
-    const nextType =
-      input.type ??
-      meta.type_settings?.column_type ??
-      meta.data_type ??
-      "singleLineText";
-    const nextConfig =
-      input.config ??
-      meta.type_settings?.settings ??
-      meta.config ??
-      {};
+  const table = await withTransaction(async (client) => {
+    const source = await fetchTableMetadata(client, sourceTable);
+    const displayName = normalizeDisplayName(input.displayName ?? `${source.display_name} copy`);
+    const projectTag =
+      input.projectTag === undefined ? source.project_tag : normalizeProjectTag(input.projectTag);
+    const copyTable = await uniqueTableName(client, displayName);
 
     await client.query(
+      `CREATE TABLE "${copyTable}" (LIKE "${sourceTable}" INCLUDING DEFAULTS INCLUDING CONSTRAINTS INCLUDING INDEXES);`
+    );
+    const { rows } = await client.query<TableMetadata>(
       `
-        INSERT INTO column_type_settings (table_name, column_name, column_type, settings)
-        VALUES ($1, $2, $3, $4::jsonb)
-        ON CONFLICT (table_name, column_name)
-        DO UPDATE SET column_type = EXCLUDED.column_type,
-                      settings = EXCLUDED.settings,
-                      updated_at = NOW();
+        INSERT INTO table_metadata (table_name, display_name, project_tag)
+        VALUES ($1, $2, $3)
+        RETURNING ${TABLE_METADATA_COLUMNS};
       `,
-      [safeTable, safeColumn, nextType, JSON.stringify(nextConfig)]
+      [copyTable, displayName, projectTag]
     );
-
-    const [updatedMeta] = await fetchColumnMetadata(client, safeTable).then(
-      (rows) => rows.filter((row) => row.column_name === columnKey)
+    await client.query(
+      `
+        INSERT INTO column_metadata
+          (table_name, column_name, display_name, data_type, config, position, is_nullable, width, permissions)
+        SELECT $2, column_name, display_name, data_type, config, position, is_nullable, width, permissions
+        FROM column_metadata
+        WHERE table_name = $1;
+      `,
+      [sourceTable, copyTable]
     );
-
-    if (!updatedMeta) {
-      throw new Error(`Column ${columnKey} not found on ${tableName}`);
+    await client.query(
+      `
+        INSERT INTO column_type_settings (table_name, column_name, column_type, settings)
+        SELECT $2, column_name, column_type, settings
+        FROM column_type_settings
+        WHERE table_name = $1;
+      `,
+      [sourceTable, copyTable]
+    );
+    // Links within the table point at the copy.
+    for (const target of ["column_metadata", "column_type_settings"]) {
+      const settings = target === "column_metadata" ? "config" : "settings";
+      await client.query(
+        `
+          UPDATE ${target}
+          SET ${settings} = jsonb_set(${settings}, '{linkToRecord,targetTable}', to_jsonb($2::text))
+          WHERE table_name = $2 AND ${settings} -> 'linkToRecord' ->> 'targetTable' = $1;
+        `,
+        [sourceTable, copyTable]
+      );
     }
 
-    emitTableChange({
-      table: safeTable,
+    const links = await loadLinkFields(client, copyTable);
+    if (input.includeRecords) {
+      await client.query(`INSERT INTO "${copyTable}" SELECT * FROM "${sourceTable}";`);
+      await client.query(
+        `
+          INSERT INTO record_links
+            (source_table, source_field, source_row_id, target_table, target_row_id, position)
+          SELECT $2, source_field, source_row_id,
+                 CASE WHEN target_table = $1 THEN $2 ELSE target_table END,
+                 target_row_id, position
+          FROM record_links
+          WHERE source_table = $1 AND source_field = ANY($3::text[]);
+        `,
+        [sourceTable, copyTable, Array.from(links.keys())]
+      );
+      await copyAttachmentRecords(client, sourceTable, copyTable);
+
+      const columns = (await fetchColumnMetadata(client, copyTable)).map(toColumnSpec);
+      const hidden = columns
+        .filter((column) => !canReadField(column, access))
+        .map((column) => String(column.key));
+      if (hidden.length) {
+        await client.query(
+          `UPDATE "${copyTable}" SET ${hidden.map((key) => `"${key}" = NULL`).join(", ")};`
+        );
+        await client.query(
+          `DELETE FROM record_links WHERE source_table = $1 AND source_field = ANY($2::text[]);`,
+          [copyTable, hidden]
+        );
+      }
+    }
+
+    for (const link of links.values()) {
+      if (link.targetTable === copyTable) continue;
+      await setLinkedFieldId(client, copyTable, link.field, null);
+      await ensureInverseLinkField(client, copyTable, link.field);
+    }
+    await refreshRowTimestamps(client, copyTable);
+    return rows[0];
+  });
+
+  emitTableChange({
+    table: table.table_name,
+    type: "tableCreated",
+    payload: {
+      displayName: table.display_name,
+      projectTag: table.project_tag,
+      sourceTable,
+    },
+    timestamp: new Date().toISOString(),
+  });
+  return table;
+}
+
+// Attachment records are per table, so a copied row's files get records (and
+// cell URLs) of the copy. The stored files themselves are shared.
+async function copyAttachmentRecords(
+  client: PoolClient,
+  sourceTable: string,
+  copyTable: string
+) {
+  const { rows } = await client.query<{ exists: boolean }>(
+    `SELECT to_regclass('attachments') IS NOT NULL AS exists;`
+  );
+  if (!rows[0]?.exists) return;
+  await client.query(
+    `
+      INSERT INTO attachments (
+        table_name, id, row_id, column_key, filename, content_type, size,
+        storage, storage_key, width, height, thumbnails
+      )
+      SELECT $2, id, row_id, column_key, filename, content_type, size,
+             storage, storage_key, width, height, thumbnails
+      FROM attachments
+      WHERE table_name = $1
+      ON CONFLICT DO NOTHING;
+    `,
+    [sourceTable, copyTable]
+  );
+  const storage = await loadColumnStorage(client, copyTable);
+  const attachmentKeys = (await fetchColumnMetadata(client, copyTable))
+    .filter((meta) => meta.data_type === "attachment" && storage.get(meta.column_name) === "jsonb")
+    .map((meta) => meta.column_name);
+  if (!attachmentKeys.length) return;
+  await client.query(
+    `UPDATE "${copyTable}" SET ${attachmentKeys
+      .map((key) => `"${key}" = replace("${key}"::text, $1, $2)::jsonb`)
+      .join(", ")};`,
+    [`/api/tables/${sourceTable}/rows/`, `/api/tables/${copyTable}/rows/`]
+  );
+}
+
+/** Moves a table to the trash; returns the trash item's id. */
+export async function deleteTable(tableName: string, access?: TableAccess): Promise<string> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const itemId = await withTransaction(async (client) => {
+    await fetchTableMetadata(client, safeTable);
+    return trashTable(client, safeTable, actorFor(access));
+  });
+
+  emitTableChange({
+    table: safeTable,
+    type: "tableDeleted",
+    payload: {},
+    timestamp: new Date().toISOString(),
+  });
+  return itemId;
+}
+
+type LinkedFieldSource = {
+  column: ColumnSpec<TableRow>;
+  linkColumn: ColumnSpec<TableRow>;
+  linkKey: string;
+  targetTable: string;
+  sourceField: string | null;
+};
+
+const LINKED_FIELD_TYPES = new Set(["lookup", "rollup", "count"]);
+
+// Rows read per round while looking for rows that pass computed-field filters.
+const COMPUTED_FILTER_BATCH_SIZE = 200;
+
+/** Fields whose values are computed on read rather than stored. */
+function isReadComputedField(column: ColumnSpec<TableRow>): boolean {
+  return column.type === "formula" || LINKED_FIELD_TYPES.has(column.type);
+}
+
+function findColumnByReference(
+  columns: ColumnSpec<TableRow>[],
+  reference: string | null | undefined
+): ColumnSpec<TableRow> | undefined {
+  const normalized = reference?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return (
+    columns.find((column) => String(column.key) === reference) ??
+    columns.find((column) => column.name.trim().toLowerCase() === normalized)
+  );
+}
+
+function linkedRowIds(value: unknown): string[] {
+  return coerceArrayValue(value)
+    .map((entry) => {
+      if (typeof entry === "string" || typeof entry === "number") return String(entry);
+      if (entry && typeof entry === "object" && "id" in entry) {
+        const id = (entry as { id?: unknown }).id;
+        return id === null || id === undefined ? "" : String(id);
+      }
+      return "";
+    })
+    .filter(Boolean);
+}
+
+/**
+ * The caller's access to a link's target table: undefined for internal callers,
+ * who read everything, and null when the caller cannot open the table.
+ */
+async function resolveLinkTargetAccess(
+  access: TableAccess | undefined,
+  targetTable: string
+): Promise<TableAccess | null | undefined> {
+  if (!access) return undefined;
+  const role = (await access.roleOn?.(targetTable)) ?? null;
+  return role && roleAtLeast(role, "viewer") ? { ...access, role } : null;
+}
+
+function collectLinkedFieldSources(
+  columns: ColumnSpec<TableRow>[]
+): LinkedFieldSource[] {
+  const sources: LinkedFieldSource[] = [];
+  for (const column of columns) {
+    if (!LINKED_FIELD_TYPES.has(column.type)) continue;
+    const settings =
+      column.type === "lookup"
+        ? column.config?.lookup
+        : column.type === "rollup"
+          ? column.config?.rollup
+          : column.config?.count;
+    const linkColumn = findColumnByReference(columns, settings?.sourceLinkedField);
+    const targetTable = linkColumn?.config?.linkToRecord?.targetTable;
+    if (
+      !linkColumn ||
+      linkColumn.type !== "linkToRecord" ||
+      !targetTable ||
+      !SAFE_IDENTIFIER.test(targetTable)
+    ) {
+      continue;
+    }
+    const sourceField =
+      settings && "sourceField" in settings && typeof settings.sourceField === "string"
+        ? settings.sourceField
+        : null;
+    if (column.type !== "count" && !sourceField) continue;
+    sources.push({
+      column,
+      linkColumn,
+      linkKey: String(linkColumn.key),
+      targetTable,
+      sourceField,
+    });
+  }
+  return sources;
+}
+
+/**
+ * Computes lookup, rollup and count columns by following `linkToRecord`
+ * values into their target tables. Values are resolved on every read, so
+ * they always reflect the current linked rows. With `access`, values the
+ * caller could not read through the link field or on the target table are null.
+ */
+async function resolveLinkedFields(
+  columns: ColumnSpec<TableRow>[],
+  rows: TableRow[],
+  access?: TableAccess
+): Promise<TableRow[]> {
+  const sources = collectLinkedFieldSources(columns);
+  if (!sources.length || !rows.length) return rows;
+  const readableSources = sources.filter((source) =>
+    canReadField(source.linkColumn, access)
+  );
+
+  const linkedRowsByTable = new Map<string, Map<string, TableRow>>();
+  const targetColumnsByTable = new Map<string, ColumnSpec<TableRow>[]>();
+  const targetAccessByTable = new Map<string, TableAccess | undefined>();
+  for (const targetTable of new Set(readableSources.map((source) => source.targetTable))) {
+    const targetAccess = await resolveLinkTargetAccess(access, targetTable);
+    if (targetAccess === null) continue;
+    targetAccessByTable.set(targetTable, targetAccess);
+
+    const ids = new Set<string>();
+    for (const source of readableSources) {
+      if (source.targetTable !== targetTable) continue;
+      for (const row of rows) {
+        linkedRowIds(row[source.linkKey]).forEach((id) => ids.add(id));
+      }
+    }
+    if (!ids.size) continue;
+
+    const { rows: metaRows } = await query<ColumnMetadataQueryRow>(
+      COLUMN_METADATA_SQL,
+      [targetTable]
+    );
+    if (!metaRows.length) continue;
+    const targetColumns = mapColumnMetadataRows(metaRows).map(toColumnSpec);
+    targetColumnsByTable.set(targetTable, targetColumns);
+
+    const { rows: targetRows } = await query<TableRow>(
+      `SELECT * FROM "${targetTable}" WHERE id::text = ANY($1::text[]);`,
+      [Array.from(ids)]
+    );
+    const resolvedRows = evaluateFormulaColumns(
+      targetRows.map((row) =>
+        deserializeRow({ ...row, id: String(row.id) }, targetColumns)
+      ),
+      targetColumns
+    );
+    linkedRowsByTable.set(
+      targetTable,
+      new Map(resolvedRows.map((row) => [String(row.id), row]))
+    );
+  }
+
+  return rows.map((row) => {
+    const next: TableRow = { ...row };
+    for (const source of sources) {
+      const key = String(source.column.key);
+      if (
+        !readableSources.includes(source) ||
+        !targetAccessByTable.has(source.targetTable)
+      ) {
+        next[key] = null;
+        continue;
+      }
+      const linkedRows = linkedRowsByTable.get(source.targetTable);
+      const linked = linkedRowIds(row[source.linkKey])
+        .map((id) => linkedRows?.get(id))
+        .filter((candidate): candidate is TableRow => Boolean(candidate));
+
+      if (source.column.type === "count") {
+        next[key] = linked.length;
+        continue;
+      }
+
+      const targetField = findColumnByReference(
+        targetColumnsByTable.get(source.targetTable) ?? [],
+        source.sourceField
+      );
+      if (
+        targetField &&
+        !canReadField(targetField, targetAccessByTable.get(source.targetTable))
+      ) {
+        next[key] = null;
+        continue;
+      }
+      const values = targetField
+        ? linked.flatMap((linkedRow) => {
+            const value = linkedRow[String(targetField.key)];
+            if (value === null || value === undefined || value === "") return [];
+            return Array.isArray(value) ? value : [value];
+          })
+        : [];
+
+      if (source.column.type === "rollup") {
+        const rollup = source.column.config?.rollup;
+        next[key] = aggregateRollupValues(
+          values,
+          rollup?.aggregation ?? "SUM",
+          rollup?.separator ?? ", "
+        );
+        continue;
+      }
+
+      const lookup = source.column.config?.lookup;
+      next[key] =
+        lookup?.limitEnabled && lookup.limit ? values.slice(0, lookup.limit) : values;
+    }
+    return next;
+  });
+}
+
+function linkTitle(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(linkTitle).filter(Boolean).join(", ");
+  if (typeof value === "object") {
+    const record = value as { name?: unknown; title?: unknown; email?: unknown };
+    const label = record.name ?? record.title ?? record.email;
+    return typeof label === "string" ? label : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function linkPrimaryColumn(
+  column: ColumnSpec<TableRow>,
+  targetColumns: ColumnSpec<TableRow>[]
+): ColumnSpec<TableRow> | undefined {
+  return (
+    findColumnByReference(
+      targetColumns,
+      column.config?.linkToRecord?.targetPrimaryFieldName
+    ) ?? targetColumns[0]
+  );
+}
+
+function toLinkedRecordOption(
+  row: TableRow,
+  primary: ColumnSpec<TableRow> | undefined,
+  columns: ColumnSpec<TableRow>[] = []
+): LinkedRecordOption {
+  const meta: Record<string, string> = {};
+  for (const column of columns) {
+    if (column.key === primary?.key || column.type === "linkToRecord") continue;
+    const text = linkTitle(row[String(column.key)]);
+    if (!text) continue;
+    meta[column.name] = text;
+    if (Object.keys(meta).length >= 3) break;
+  }
+  return {
+    id: row.id,
+    title: (primary ? linkTitle(row[String(primary.key)]) : "") || row.id,
+    ...(Object.keys(meta).length ? { meta } : {}),
+  };
+}
+
+/**
+ * Replaces the id arrays cached in link columns with `{ id, title }` records,
+ * titled by each target table's primary field. With `access`, records whose
+ * primary field the caller cannot read are titled by their id.
+ */
+async function hydrateLinkTitles(
+  columns: ColumnSpec<TableRow>[],
+  rows: TableRow[],
+  access?: TableAccess
+): Promise<TableRow[]> {
+  const linkColumns = columns.filter((column) => {
+    const targetTable = column.config?.linkToRecord?.targetTable;
+    return (
+      column.type === "linkToRecord" &&
+      canReadField(column, access) &&
+      typeof targetTable === "string" &&
+      SAFE_IDENTIFIER.test(targetTable)
+    );
+  });
+  if (!linkColumns.length || !rows.length) return rows;
+
+  const titlesByColumn = new Map<string, Map<string, string>>();
+  for (const column of linkColumns) {
+    const targetTable = column.config?.linkToRecord?.targetTable as string;
+    const ids = new Set<string>();
+    for (const row of rows) {
+      linkedRowIds(row[String(column.key)]).forEach((id) => ids.add(id));
+    }
+    const validIds = Array.from(ids).filter(isRowId);
+    if (!validIds.length) continue;
+    const targetAccess = await resolveLinkTargetAccess(access, targetTable);
+    if (targetAccess === null) continue;
+
+    const { rows: metaRows } = await query<ColumnMetadataQueryRow>(
+      COLUMN_METADATA_SQL,
+      [targetTable]
+    );
+    const targetColumns = mapColumnMetadataRows(metaRows).map(toColumnSpec);
+    const primary = linkPrimaryColumn(column, targetColumns);
+    if (primary && !canReadField(primary, targetAccess)) continue;
+    const { rows: targetRows } = await query<TableRow>(
+      `SELECT * FROM "${targetTable}" WHERE id = ANY($1::uuid[]);`,
+      [validIds]
+    );
+    const resolvedRows = evaluateFormulaColumns(
+      targetRows.map((row) =>
+        deserializeRow({ ...row, id: String(row.id) }, targetColumns)
+      ),
+      targetColumns
+    );
+    titlesByColumn.set(
+      String(column.key),
+      new Map(
+        resolvedRows.map((row) => [row.id, toLinkedRecordOption(row, primary).title])
+      )
+    );
+  }
+
+  return rows.map((row) => {
+    const next: TableRow = { ...row };
+    for (const column of linkColumns) {
+      const key = String(column.key);
+      if (row[key] === null || row[key] === undefined) continue;
+      const titles = titlesByColumn.get(key);
+      next[key] = linkedRowIds(row[key]).map((id) => ({
+        id,
+        title: titles?.get(id) ?? id,
+      }));
+    }
+    return next;
+  });
+}
+
+/**
+ * Link titles and lookup, rollup and count values are computed on read, and
+ * inverse link caches change with every link write, so tables linking to
+ * `tableName` only need to be told to refresh when its rows change.
+ */
+async function notifyLinkedTables(tableName: string, rowIds: string[]) {
+  try {
+    const { rows } = await query<{ table_name: string }>(
+      `
+        SELECT DISTINCT cm.table_name
+        FROM column_metadata cm
+        LEFT JOIN column_type_settings cts
+          ON cm.table_name = cts.table_name
+         AND cm.column_name = cts.column_name
+        WHERE COALESCE(cts.column_type, cm.data_type) = 'linkToRecord'
+          AND COALESCE(cts.settings, cm.config) -> 'linkToRecord' ->> 'targetTable' = $1
+          AND cm.table_name <> $1;
+      `,
+      [tableName]
+    );
+    const timestamp = new Date().toISOString();
+    for (const row of rows) {
+      emitTableChange({
+        table: row.table_name,
+        type: "linkedRowsChanged",
+        payload: { sourceTable: tableName, rowIds },
+        timestamp,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to notify tables linked to ${tableName}`, error);
+  }
+}
+
+async function estimateRowCount(
+  safeTable: string,
+  where: string,
+  params: unknown[]
+): Promise<number> {
+  if (!where) {
+    const { rows } = await query<{ estimate: string | null }>(
+      `SELECT reltuples::bigint::text AS estimate FROM pg_class WHERE oid = to_regclass($1);`,
+      [`public."${safeTable}"`]
+    );
+    const estimate = Number(rows[0]?.estimate ?? "-1");
+    // reltuples is -1 until the table has been vacuumed or analyzed.
+    if (estimate >= 0) return estimate;
+  }
+
+  const { rows } = await query<{ "QUERY PLAN": Array<{ Plan: { "Plan Rows": number } }> }>(
+    `EXPLAIN (FORMAT JSON) SELECT 1 FROM "${safeTable}" ${where};`,
+    params
+  );
+  return Math.round(rows[0]?.["QUERY PLAN"]?.[0]?.Plan?.["Plan Rows"] ?? 0);
+}
+
+export async function getTableData(
+  tableName: string,
+  options?: {
+    limit?: number;
+    offset?: number;
+    cursor?: string | null;
+    count?: TableCountMode;
+    query?: TableQueryState;
+    // The caller's role; fields it may not read are left out entirely.
+    access?: TableAccess;
+  }
+): Promise<{
+  table: TableMetadata;
+  columns: ColumnSpec<TableRow>[];
+  rows: TableRow[];
+  totalRows: number | null;
+  countIsEstimate: boolean;
+  nextCursor: string | null;
+}> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const limit = Math.max(1, Math.min(options?.limit ?? 100, 500));
+  const offset = Math.max(0, options?.offset ?? 0);
+
+  const [tableResult, columnRows, storageRows] = await Promise.all([
+    query<TableMetadata>(
+      `
+        SELECT table_name, display_name, source_file, project_tag, created_at, updated_at
+        FROM table_metadata
+        WHERE table_name = $1;
+      `,
+      [safeTable]
+    ),
+    query<ColumnMetadataQueryRow>(COLUMN_METADATA_SQL, [safeTable]),
+    query<{ column_name: string; udt_name: string }>(
+      `
+        SELECT column_name, udt_name
+        FROM information_schema.columns
+        WHERE table_schema = 'public'
+          AND table_name = $1;
+      `,
+      [safeTable]
+    ),
+  ]);
+
+  if (tableResult.rowCount === 0) {
+    throw new Error(`Unknown table: ${tableName}`);
+  }
+
+  const metadata = tableResult.rows[0];
+  const columnMetadata = mapColumnMetadataRows(columnRows.rows);
+  const columnSpecs = columnMetadata.map((meta) => toColumnSpec(meta));
+  const visibleColumns = columnSpecs.filter((column) =>
+    canReadField(column, options?.access)
+  );
+
+  const storage = new Map(
+    storageRows.rows.map((row) => [row.column_name, storageTypeFromUdt(row.udt_name)])
+  );
+  // Formula, lookup, rollup and count values only exist once the rows are
+  // read, so the SQL covers stored fields and filters on computed ones run on
+  // the evaluated rows. Sorting by them cannot be paged and is refused.
+  const computedKeys = new Set(
+    visibleColumns.filter(isReadComputedField).map((column) => String(column.key))
+  );
+  const computedSort = options?.query?.sorts.find((sort) => computedKeys.has(sort.columnKey));
+  if (computedSort) {
+    const column = visibleColumns.find((candidate) => candidate.key === computedSort.columnKey);
+    throw new TableValidationError(
+      `Sorting by the computed field ${column?.name ?? computedSort.columnKey} is not supported`
+    );
+  }
+  const computedFilters = (options?.query?.filters ?? []).filter((filter) =>
+    computedKeys.has(filter.columnKey)
+  );
+  const storedQuery = options?.query && {
+    ...options.query,
+    filters: options.query.filters.filter((filter) => !computedKeys.has(filter.columnKey)),
+  };
+  // Only visible fields can be filtered, sorted or searched on, so hidden
+  // values cannot be probed through the query either.
+  const compiled = compileTableQuery(
+    storedQuery,
+    visibleColumns.filter((column) => !computedKeys.has(String(column.key))),
+    { storage }
+  );
+  const countMode = options?.count ?? "exact";
+  const cursorValues = options?.cursor
+    ? decodeTableCursor(options.cursor, options.query, compiled.sortKeys)
+    : null;
+  const cursorColumns = compiled.sortKeys
+    .map((key, index) => `${cursorValueExpression(key)} AS "__cursor_${index}"`)
+    .join(", ");
+
+  const totalRowsPromise =
+    countMode === "exact"
+      ? query<{ count: string }>(
+          `SELECT COUNT(*)::text AS count FROM "${safeTable}" ${compiled.where};`,
+          compiled.params
+        ).then((result) => Number(result.rows[0]?.count ?? "0"))
+      : countMode === "estimate"
+        ? estimateRowCount(safeTable, compiled.where, compiled.params)
+        : Promise.resolve(null);
+
+  // Reads rows after `keysetValues` (or from `sqlOffset`), each with the sort
+  // values that let a cursor resume after it.
+  const readBatch = async (
+    keysetValues: unknown[] | null,
+    sqlOffset: number,
+    batchSize: number
+  ) => {
+    const conditions = [...compiled.conditions];
+    const params = [...compiled.params];
+    if (keysetValues) {
+      const keyset = compileKeysetCondition(compiled.sortKeys, keysetValues, {
+        paramOffset: params.length,
+      });
+      conditions.push(keyset.condition);
+      params.push(...keyset.params);
+    }
+    const whereSql = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const { rows } = await query<TableRow>(
+      `
+        SELECT *, ${cursorColumns} FROM "${safeTable}"
+        ${whereSql}
+        ${compiled.orderBy}
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2};
+      `,
+      [...params, batchSize, sqlOffset]
+    );
+    const cursors = rows.map((row) =>
+      compiled.sortKeys.map((_, index) => row[`__cursor_${index}`] ?? null)
+    );
+    const tableRows = rows.map((row) => {
+      const normalized: TableRow = { id: String((row as TableRow).id) };
+      for (const [key, value] of Object.entries(row)) {
+        if (key === "id" || key.startsWith("__cursor_")) continue;
+        normalized[key] = value;
+      }
+      return normalized;
+    });
+    const parsedRows = await hydrateLinkTitles(
+      columnSpecs,
+      evaluateFormulaColumns(
+        await resolveLinkedFields(
+          columnSpecs,
+          tableRows.map((row) => deserializeRow(row, columnSpecs)),
+          options?.access
+        ),
+        columnSpecs
+      ),
+      options?.access
+    );
+    return { rows: parsedRows, cursors };
+  };
+
+  const matchesComputedFilters = (row: TableRow) =>
+    computedFilters.every((filter) =>
+      matchesTableFilter(
+        row[filter.columnKey],
+        filter,
+        visibleColumns.find((column) => column.key === filter.columnKey)?.type
+      )
+    );
+
+  // Fetch one extra row to learn whether another page exists without counting.
+  // With computed filters, batches are read until enough rows pass them.
+  let keysetValues = cursorValues;
+  let skip = computedFilters.length && !options?.cursor ? offset : 0;
+  const sqlOffset = computedFilters.length || options?.cursor ? 0 : offset;
+  const batchSize = computedFilters.length
+    ? Math.max(limit + 1, COMPUTED_FILTER_BATCH_SIZE)
+    : limit + 1;
+  const matched: Array<{ row: TableRow; cursor: unknown[] }> = [];
+  for (;;) {
+    const batch = await readBatch(keysetValues, keysetValues ? 0 : sqlOffset, batchSize);
+    batch.rows.forEach((row, index) => {
+      if (!matchesComputedFilters(row)) return;
+      if (skip > 0) {
+        skip -= 1;
+        return;
+      }
+      matched.push({ row, cursor: batch.cursors[index] });
+    });
+    if (!computedFilters.length || batch.rows.length < batchSize || matched.length > limit) {
+      break;
+    }
+    keysetValues = batch.cursors[batch.cursors.length - 1];
+  }
+
+  const hasMore = matched.length > limit;
+  const page = matched.slice(0, limit);
+  const nextCursor =
+    hasMore && page.length
+      ? encodeTableCursor(options?.query, page[page.length - 1].cursor)
+      : null;
+  const parsedRows = page.map((entry) => entry.row);
+  const totalRows = await totalRowsPromise;
+
+  const hiddenKeys = columnSpecs
+    .filter((column) => !visibleColumns.includes(column))
+    .map((column) => String(column.key));
+
+  return {
+    table: metadata,
+    columns: visibleColumns,
+    rows: hiddenKeys.length
+      ? parsedRows.map((row) => omitKeys(row, hiddenKeys))
+      : parsedRows,
+    totalRows,
+    // Computed filters are not in the SQL count, which then only bounds the total.
+    countIsEstimate:
+      countMode === "estimate" || (totalRows !== null && computedFilters.length > 0),
+    nextCursor,
+  };
+}
+
+async function assertValidFormula(
+  client: PoolClient,
+  safeTable: string,
+  columnKey: string
+) {
+  const columns = (await fetchColumnMetadata(client, safeTable)).map(toColumnSpec);
+  const column = columns.find((candidate) => candidate.key === columnKey);
+  if (!column || column.type !== "formula") return;
+  const errors = validateFormulaColumn(
+    columns,
+    columnKey,
+    column.config?.formula?.expression ?? ""
+  );
+  if (errors.length) {
+    throw new FormulaValidationError(column.name, errors);
+  }
+}
+
+async function insertColumnDefinition(
+  client: PoolClient,
+  safeTable: string,
+  column: {
+    columnKey: string;
+    name: string;
+    type: string;
+    config: Record<string, unknown>;
+    position: number;
+    width: number;
+  }
+) {
+  await client.query(
+    `ALTER TABLE "${safeTable}" ADD COLUMN "${column.columnKey}" ${storageTypeForColumn(column.type)};`
+  );
+
+  await client.query(
+    `
+      INSERT INTO column_metadata (table_name, column_name, display_name, data_type, config, position, width)
+      VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+      ON CONFLICT (table_name, column_name)
+      DO UPDATE SET display_name = EXCLUDED.display_name,
+                    data_type = EXCLUDED.data_type,
+                    config = EXCLUDED.config,
+                    position = EXCLUDED.position,
+                    width = EXCLUDED.width,
+                    updated_at = NOW();
+    `,
+    [
+      safeTable,
+      column.columnKey,
+      column.name,
+      column.type,
+      JSON.stringify(column.config),
+      column.position,
+      column.width,
+    ]
+  );
+
+  await client.query(
+    `
+      INSERT INTO column_type_settings (table_name, column_name, column_type, settings)
+      VALUES ($1, $2, $3, $4::jsonb)
+      ON CONFLICT (table_name, column_name)
+      DO UPDATE SET column_type = EXCLUDED.column_type,
+                    settings = EXCLUDED.settings,
+                    updated_at = NOW();
+    `,
+    [safeTable, column.columnKey, column.type, JSON.stringify(column.config)]
+  );
+}
+
+/**
+ * Gives a link field its counterpart on the target table, creating the inverse
+ * column when `linkedFieldId` does not already name one. Self-links stay
+ * one-way.
+ */
+async function ensureInverseLinkField(
+  client: PoolClient,
+  safeTable: string,
+  columnKey: string
+) {
+  const links = await loadLinkFields(client, safeTable);
+  const link = links.get(columnKey);
+  if (!link || link.inverseField || link.targetTable === safeTable) return;
+
+  const [sourceTable, targetMeta] = await Promise.all([
+    client.query<{ display_name: string }>(
+      `SELECT display_name FROM table_metadata WHERE table_name = $1;`,
+      [safeTable]
+    ),
+    fetchColumnMetadata(client, link.targetTable),
+  ]);
+  const name = sourceTable.rows[0]?.display_name ?? safeTable;
+  const inverseKey = toColumnKey(
+    name,
+    new Set(targetMeta.map((meta) => meta.column_name))
+  );
+
+  await insertColumnDefinition(client, link.targetTable, {
+    columnKey: inverseKey,
+    name,
+    type: "linkToRecord",
+    config: {
+      linkToRecord: {
+        targetTable: safeTable,
+        linkedFieldId: columnKey,
+        multiple: true,
+        allowCreate: true,
+      },
+    },
+    position: targetMeta.length + 1,
+    width: 220,
+  });
+
+  await setLinkedFieldId(client, safeTable, columnKey, inverseKey);
+
+  await client.query(
+    `
+      INSERT INTO record_links
+        (source_table, source_field, source_row_id, target_table, target_row_id, position)
+      SELECT $1, $2, target_row_id, $3, source_row_id, position
+      FROM record_links
+      WHERE source_table = $3 AND source_field = $4
+      ON CONFLICT (source_table, source_field, source_row_id, target_row_id) DO NOTHING;
+    `,
+    [link.targetTable, inverseKey, safeTable, columnKey]
+  );
+  const { rows: linkedRows } = await client.query<{ id: string }>(
+    `
+      SELECT DISTINCT source_row_id::text AS id
+      FROM record_links
+      WHERE source_table = $1 AND source_field = $2;
+    `,
+    [link.targetTable, inverseKey]
+  );
+  await refreshLinkCache(
+    client,
+    link.targetTable,
+    inverseKey,
+    linkedRows.map((row) => row.id)
+  );
+
+  emitTableChange({
+    table: link.targetTable,
+    type: "columnCreated",
+    payload: { columnKey: inverseKey },
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export async function createColumn(
+  tableName: string,
+  input: {
+    name: string;
+    type?: ColumnSpec<TableRow>["type"];
+    config?: Record<string, unknown>;
+    width?: number;
+    position?: number;
+    clientKey?: string;
+  },
+  access?: TableAccess
+): Promise<ColumnSpec<TableRow>> {
+  await ensureMetadataReady();
+  return withTransaction(async (client) => {
+    const safeTable = assertSafeIdentifier(tableName);
+    const currentMeta = await fetchColumnMetadata(client, safeTable);
+    const existingKeys = new Set(currentMeta.map((meta) => meta.column_name));
+    const columnKey = toColumnKey(input.name, existingKeys);
+    const width = input.width ?? 220;
+  const position =
+      input.position ??
+      (currentMeta.length > 0 ? currentMeta.length + 1 : 1);
+
+    await insertColumnDefinition(client, safeTable, {
+      columnKey,
+      name: input.name,
+      type: input.type ?? "singleLineText",
+      config: input.config ?? {},
+      position,
+      width,
+    });
+
+    await assertValidFormula(client, safeTable, columnKey);
+    await ensureInverseLinkField(client, safeTable, columnKey);
+    await refreshRowTimestamps(client, safeTable);
+
+    const [meta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
+      rows.filter((row) => row.column_name === columnKey)
+    );
+    await recordColumnChange(client, {
+      tableName: safeTable,
+      columnKey,
+      type: "columnCreated",
+      before: null,
+      after: toColumnSpec(meta),
+      actor: actorFor(access),
+    });
+
+    emitTableChange({
+      table: safeTable,
+      type: "columnCreated",
+      payload: { columnKey },
+      timestamp: new Date().toISOString(),
+    });
+
+    return toColumnSpec(meta);
+  });
+}
+
+export async function updateColumn(
+  tableName: string,
+  columnKey: string,
+  input: {
+    name?: string;
+    type?: ColumnSpec<TableRow>["type"];
+    config?: Record<string, unknown>;
+    width?: number;
+    // null clears the field's permissions back to the defaults.
+    permissions?: string | null;
+    allowDataLoss?: boolean;
+  },
+  access?: TableAccess
+): Promise<{
+  column: ColumnSpec<TableRow>;
+  conversion: ColumnConversionReport | null;
+}> {
+  await ensureMetadataReady();
+  return withTransaction(async (client) => {
+    const safeTable = assertSafeIdentifier(tableName);
+    const safeColumn = assertSafeIdentifier(columnKey);
+    const previousLink = (await loadLinkFields(client, safeTable)).get(safeColumn);
+    const [previousMeta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
+      rows.filter((row) => row.column_name === safeColumn)
+    );
+
+    const { rowCount } = await client.query(
+      `
+        UPDATE column_metadata
+        SET
+          display_name = COALESCE($3, display_name),
+          data_type = COALESCE($4, data_type),
+          config = COALESCE($5::jsonb, config),
+          width = COALESCE($6, width),
+          permissions = CASE WHEN $7::boolean THEN $8 ELSE permissions END,
+          updated_at = NOW()
+        WHERE table_name = $1 AND column_name = $2;
+      `,
+      [
+        safeTable,
+        safeColumn,
+        input.name ?? null,
+        input.type ?? null,
+        input.config ? JSON.stringify(input.config) : null,
+        input.width ?? null,
+        input.permissions !== undefined,
+        input.permissions?.trim() || null,
+      ]
+    );
+
+    if (rowCount === 0) {
+      throw new Error(`Column ${columnKey} not found on ${tableName}`);
+    }
+
+    const [meta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
+      rows.filter((row) => row.column_name === columnKey)
+    );
+
+    if (!meta) {
+      throw new Error(`Column ${columnKey} not found on ${tableName}`);
+    }
+
+    const nextType =
+      input.type ??
+      meta.type_settings?.column_type ??
+      meta.data_type ??
+      "singleLineText";
+    const nextConfig =
+      input.config ??
+      meta.type_settings?.settings ??
+      meta.config ??
+      {};
+
+    await client.query(
+      `
+        INSERT INTO column_type_settings (table_name, column_name, column_type, settings)
+        VALUES ($1, $2, $3, $4::jsonb)
+        ON CONFLICT (table_name, column_name)
+        DO UPDATE SET column_type = EXCLUDED.column_type,
+                      settings = EXCLUDED.settings,
+                      updated_at = NOW();
+      `,
+      [safeTable, safeColumn, nextType, JSON.stringify(nextConfig)]
+    );
+
+    await assertValidFormula(client, safeTable, safeColumn);
+
+    const nextLink = (await loadLinkFields(client, safeTable)).get(safeColumn);
+    if (previousLink && previousLink.targetTable !== nextLink?.targetTable) {
+      // Links into the old target table mean nothing once the field points
+      // elsewhere (or stops being a link).
+      await removeFieldLinks(client, safeTable, previousLink);
+      if (nextLink) {
+        await client.query(`UPDATE "${safeTable}" SET "${safeColumn}" = NULL;`);
+      }
+    }
+    await ensureInverseLinkField(client, safeTable, safeColumn);
+
+    const currentStorage =
+      (await loadColumnStorage(client, safeTable)).get(safeColumn) ?? "text";
+    const nextStorage = storageTypeForColumn(nextType);
+    const conversion =
+      currentStorage !== nextStorage
+        ? await convertColumnStorage(
+            client,
+            safeTable,
+            safeColumn,
+            currentStorage,
+            nextStorage,
+            { allowDataLoss: input.allowDataLoss }
+          )
+        : null;
+    await refreshRowTimestamps(client, safeTable);
+
+    const [updatedMeta] = await fetchColumnMetadata(client, safeTable).then(
+      (rows) => rows.filter((row) => row.column_name === columnKey)
+    );
+
+    if (!updatedMeta) {
+      throw new Error(`Column ${columnKey} not found on ${tableName}`);
+    }
+    await recordColumnChange(client, {
+      tableName: safeTable,
+      columnKey: safeColumn,
+      type: "columnUpdated",
+      before: previousMeta ? toColumnSpec(previousMeta) : null,
+      after: toColumnSpec(updatedMeta),
+      actor: actorFor(access),
+    });
+
+    emitTableChange({
+      table: safeTable,
       type: "columnUpdated",
       payload: { columnKey },
       timestamp: new Date().toISOString(),
     });
 
-    return toColumnSpec(updatedMeta);
+    return { column: toColumnSpec(updatedMeta), conversion };
+  });
+}
+
+export async function reorderColumns(
+  tableName: string,
+  order: string[]
+) {
+  return withTransaction(async (client) => {
+    const safeTable = assertSafeIdentifier(tableName);
+    const safeOrder = order.map(assertSafeIdentifier);
+
+    for (let index = 0; index < safeOrder.length; index += 1) {
+      await client.query(
+        `
+          UPDATE column_metadata
+          SET position = $3, updated_at = NOW()
+          WHERE table_name = $1 AND column_name = $2;
+        `,
+        [safeTable, safeOrder[index], index + 1]
+      );
+    }
+
+    emitTableChange({
+      table: safeTable,
+      type: "columnReordered",
+      payload: { columnKeys: safeOrder },
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
+
+export async function deleteColumn(
+  tableName: string,
+  columnKey: string,
+  access?: TableAccess
+) {
+  await ensureMetadataReady();
+  return withTransaction(async (client) => {
+    const safeTable = assertSafeIdentifier(tableName);
+    const safeColumn = assertSafeIdentifier(columnKey);
+    const [previousMeta] = await fetchColumnMetadata(client, safeTable).then((rows) =>
+      rows.filter((row) => row.column_name === safeColumn)
+    );
+
+    const link = (await loadLinkFields(client, safeTable)).get(safeColumn);
+
+    // The field goes to the trash with its values (and, for a link field,
+    // its links) so it can be restored.
+    if (previousMeta) {
+      const { rows: values } = await client.query<{ id: string; value: unknown }>(
+        `SELECT id::text AS id, "${safeColumn}" AS value FROM "${safeTable}" WHERE "${safeColumn}" IS NOT NULL;`
+      );
+      const { rows: links } = link
+        ? await client.query(
+            `SELECT * FROM record_links WHERE source_table = $1 AND source_field = $2;`,
+            [safeTable, safeColumn]
+          )
+        : { rows: [] };
+      await putInTrash(client, {
+        kind: "column",
+        tableName: safeTable,
+        projectTag: await tableProjectTag(client, safeTable),
+        itemKey: safeColumn,
+        label: previousMeta.display_name,
+        payload: {
+          column: toColumnSpec(previousMeta),
+          position: previousMeta.position,
+          values: Object.fromEntries(values.map((row) => [row.id, row.value])),
+          links,
+        },
+        actor: actorFor(access),
+      });
+    }
+
+    if (link) {
+      await removeFieldLinks(client, safeTable, link);
+    }
+
+    await client.query(
+      `ALTER TABLE "${safeTable}" DROP COLUMN IF EXISTS "${safeColumn}";`
+    );
+
+    await client.query(
+      `DELETE FROM column_metadata WHERE table_name = $1 AND column_name = $2;`,
+      [safeTable, safeColumn]
+    );
+    await refreshRowTimestamps(client, safeTable);
+    if (previousMeta) {
+      await recordColumnChange(client, {
+        tableName: safeTable,
+        columnKey: safeColumn,
+        type: "columnDeleted",
+        before: toColumnSpec(previousMeta),
+        after: null,
+        actor: actorFor(access),
+      });
+    }
+
+    emitTableChange({
+      table: safeTable,
+      type: "columnDeleted",
+      payload: { columnKey: safeColumn },
+      timestamp: new Date().toISOString(),
+    });
+  });
+}
+
+function toTableRow(row: Record<string, unknown>): TableRow {
+  const normalized: TableRow = { id: String(row.id) };
+  for (const [key, value] of Object.entries(row)) {
+    if (key === "id") continue;
+    normalized[key] = value;
+  }
+  return normalized;
+}
+
+type RowWriteContext = {
+  storage: Map<string, StorageType>;
+  links: Map<string, LinkField>;
+  columns: ColumnSpec<TableRow>[];
+  // Who is writing; null for internal writes such as the Airtable sync.
+  actor: UserCellValue | null;
+  // Set when the write is made on behalf of a caller with a role.
+  readOnlyKeys: Set<string>;
+  hiddenKeys: string[];
+};
+
+function actorFor(access?: TableAccess): UserCellValue | null {
+  return access?.user ? toUserCellValue(access.user) : null;
+}
+
+// Every user table records who created and last changed each row. The columns
+// are added the first time a table is written through tableService.
+const ROW_STAMP_COLUMNS = ["created_by", "updated_by"] as const;
+
+async function ensureRowStampColumns(
+  client: PoolClient,
+  safeTable: string,
+  storage: Map<string, StorageType>
+) {
+  const missing = ROW_STAMP_COLUMNS.filter((column) => !storage.has(column));
+  if (!missing.length) return;
+  await client.query(
+    `ALTER TABLE "${safeTable}" ${missing
+      .map((column) => `ADD COLUMN IF NOT EXISTS "${column}" TEXT`)
+      .join(", ")};`
+  );
+  for (const column of missing) storage.set(column, "text");
+}
+
+async function loadRowWriteContext(
+  client: PoolClient,
+  safeTable: string,
+  access?: TableAccess
+): Promise<RowWriteContext> {
+  const [storage, links, columns] = await Promise.all([
+    loadColumnStorage(client, safeTable),
+    loadLinkFields(client, safeTable),
+    fetchColumnMetadata(client, safeTable).then((rows) => rows.map(toColumnSpec)),
+  ]);
+  await ensureRowStampColumns(client, safeTable, storage);
+  return {
+    storage,
+    links,
+    columns,
+    actor: actorFor(access),
+    readOnlyKeys: new Set(
+      columns
+        .filter((column) => !canWriteField(column, access))
+        .map((column) => String(column.key))
+    ),
+    hiddenKeys: columns
+      .filter((column) => !canReadField(column, access))
+      .map((column) => String(column.key)),
+  };
+}
+
+// createdBy/lastModifiedBy fields and the row stamps for a write by the actor.
+function actorStamps(context: RowWriteContext, kind: "create" | "update") {
+  const stamps: Record<string, unknown> = {};
+  if (!context.actor) return stamps;
+  if (kind === "create") stamps.created_by = context.actor.id;
+  stamps.updated_by = context.actor.id;
+  for (const column of context.columns) {
+    if (
+      (column.type === "createdBy" && kind === "create") ||
+      column.type === "lastModifiedBy"
+    ) {
+      stamps[String(column.key)] = context.actor;
+    }
+  }
+  return stamps;
+}
+
+// The database and actorStamps own the row stamps (see rowTimestamps.ts), so
+// values sent for them by a client are ignored rather than written.
+function withoutSystemFields(
+  values: Record<string, unknown>,
+  context: RowWriteContext
+): Record<string, unknown> {
+  const owned = new Set<string>(ROW_SYSTEM_COLUMNS);
+  for (const column of context.columns) {
+    if (column.type === "createdTime" || column.type === "lastModifiedTime") {
+      owned.add(String(column.key));
+    }
+  }
+  return Object.fromEntries(Object.entries(values).filter(([key]) => !owned.has(key)));
+}
+
+function isEmptyCell(value: unknown) {
+  return value == null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+// Fills user fields left empty on a new row with the field's default users.
+async function defaultUserValues(
+  values: Record<string, unknown>,
+  context: RowWriteContext
+): Promise<Record<string, unknown>> {
+  const defaults: Record<string, unknown> = {};
+  for (const column of context.columns) {
+    const config = column.config?.user;
+    const key = String(column.key);
+    if (column.type !== "user" || !config?.defaultUserIds?.length) continue;
+    if (!isEmptyCell(values[key])) continue;
+    const users = (await getDirectoryUsers(config.defaultUserIds)).map(toUserCellValue);
+    if (!users.length) continue;
+    defaults[key] = config.multiple ? users : users[0];
+  }
+  return defaults;
+}
+
+// Notifies people newly added to user fields that have `notifyOnAdd` on.
+async function notifyUserFieldChanges(
+  client: PoolClient,
+  safeTable: string,
+  rowId: string,
+  previous: TableRow | null,
+  values: Record<string, unknown>,
+  context: RowWriteContext
+) {
+  for (const column of context.columns) {
+    const key = String(column.key);
+    if (column.type !== "user" || !(key in values)) continue;
+    if (column.config?.user?.notifyOnAdd === false) continue;
+    const before = new Set(userIdsInCell(previous?.[key]));
+    const added = userIdsInCell(values[key]).filter((id) => !before.has(id));
+    if (!added.length) continue;
+    await notifyAddedUsers(client, {
+      tableName: safeTable,
+      rowId,
+      columnKey: key,
+      columnName: column.name ?? key,
+      userIds: added,
+      actor: context.actor,
+    });
+  }
+}
+
+function omitKeys<R extends Record<string, unknown>>(row: R, keys: string[]): R {
+  const result = { ...row };
+  for (const key of keys) delete result[key];
+  return result;
+}
+
+function assertWritableFields(
+  values: Record<string, unknown>,
+  context: RowWriteContext
+) {
+  const denied = Object.keys(values).filter((key) => context.readOnlyKeys.has(key));
+  if (denied.length) {
+    throw new AccessDeniedError(`You cannot edit ${denied.join(", ")}`);
+  }
+}
+
+/**
+ * Link fields are written through `record_links`; returns the re-read row when
+ * any link changed so the caller sees the refreshed link cache.
+ */
+async function writeRowLinks(
+  client: PoolClient,
+  safeTable: string,
+  row: TableRow,
+  values: Record<string, unknown>,
+  context: RowWriteContext
+): Promise<TableRow> {
+  const linkEntries = Object.entries(values).filter(([key]) =>
+    context.links.has(key)
+  );
+  if (!linkEntries.length) return row;
+
+  for (const [key, value] of linkEntries) {
+    await replaceRowLinks(
+      client,
+      safeTable,
+      context.links.get(key) as LinkField,
+      row.id,
+      value
+    );
+  }
+
+  const refreshed = await client.query<TableRow>(
+    `SELECT * FROM "${safeTable}" WHERE id = $1;`,
+    [row.id]
+  );
+  return toTableRow(refreshed.rows[0]);
+}
+
+async function insertRow(
+  client: PoolClient,
+  safeTable: string,
+  input: Record<string, unknown>,
+  context: RowWriteContext,
+  // Set when a restore brings back a deleted row under its old id.
+  rowId?: string
+): Promise<TableRow> {
+  const values = withoutSystemFields(input, context);
+  assertWritableFields(values, context);
+  const { storage } = context;
+  const rowValues = {
+    ...values,
+    ...(await defaultUserValues(values, context)),
+    ...actorStamps(context, "create"),
+  };
+  const columns = Object.keys(rowValues)
+    .filter((key) => key !== "id" && !context.links.has(key))
+    .map(assertSafeIdentifier);
+
+  const dataValues = columns.map((key) =>
+    serializeForStorage(rowValues[key], storage.get(key) ?? "text", key)
+  );
+  const id = rowId ?? randomUUID();
+
+  const columnSql =
+    columns.length > 0 ? `, ${columns.map((c) => `"${c}"`).join(", ")}` : "";
+  const valuePlaceholders = columns
+    .map((key, index) => storagePlaceholder(index + 2, storage.get(key) ?? "text"))
+    .join(", ");
+  const valuesSql = columns.length > 0 ? `, ${valuePlaceholders}` : "";
+
+  const result = await client.query<TableRow>(
+    `
+      INSERT INTO "${safeTable}" (id${columnSql})
+      VALUES ($1${valuesSql})
+      RETURNING *;
+    `,
+    [id, ...dataValues]
+  );
+  await enqueueOutboundChange(client, safeTable, id, "create");
+  await notifyUserFieldChanges(client, safeTable, id, null, rowValues, context);
+
+  const row = await writeRowLinks(
+    client,
+    safeTable,
+    toTableRow(result.rows[0]),
+    values,
+    context
+  );
+  await recordRowChange(client, {
+    tableName: safeTable,
+    rowId: id,
+    type: "rowCreated",
+    before: null,
+    after: row,
+    actor: context.actor,
+  });
+  return omitKeys(row, context.hiddenKeys);
+}
+
+async function updateRowValues(
+  client: PoolClient,
+  safeTable: string,
+  rowId: string,
+  input: Record<string, unknown>,
+  context: RowWriteContext
+): Promise<TableRow> {
+  const values = withoutSystemFields(input, context);
+  assertWritableFields(values, context);
+  const { storage } = context;
+  const hasChanges = Object.keys(values).some((key) => key !== "id");
+  const entries = Object.entries({
+    ...values,
+    ...(hasChanges ? actorStamps(context, "update") : {}),
+  }).filter(
+    ([key]) => key !== "id" && SAFE_IDENTIFIER.test(key) && !context.links.has(key)
+  );
+
+  // The row as it was, for the change log and to notify only the people
+  // newly added to user fields.
+  const previous = await client
+    .query<TableRow>(`SELECT * FROM "${safeTable}" WHERE id = $1 FOR UPDATE;`, [rowId])
+    .then((result) => (result.rows[0] ? toTableRow(result.rows[0]) : null));
+  if (!previous) {
+    throw new Error(`Row ${rowId} not found`);
+  }
+
+  let row: TableRow;
+  if (!entries.length) {
+    row = previous;
+  } else {
+    const sets = entries.map(
+      ([key], index) =>
+        `"${assertSafeIdentifier(key)}" = ${storagePlaceholder(
+          index + 2,
+          storage.get(key) ?? "text"
+        )}`
+    );
+    const params = [
+      rowId,
+      ...entries.map(([key, value]) =>
+        serializeForStorage(value, storage.get(key) ?? "text", key)
+      ),
+    ];
+
+    const result = await client.query<TableRow>(
+      `
+        UPDATE "${safeTable}"
+        SET ${sets.join(", ")}
+        WHERE id = $1
+        RETURNING *;
+      `,
+      params
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error(`Row ${rowId} not found`);
+    }
+    row = toTableRow(result.rows[0]);
+  }
+
+  const changedKeys = Object.keys(values).filter(
+    (key) => key !== "id" && SAFE_IDENTIFIER.test(key)
+  );
+  if (changedKeys.length) {
+    await enqueueOutboundChange(client, safeTable, rowId, "update", changedKeys);
+  }
+  await notifyUserFieldChanges(client, safeTable, rowId, previous, values, context);
+
+  const updated = await writeRowLinks(client, safeTable, row, values, context);
+  await recordRowChange(client, {
+    tableName: safeTable,
+    rowId,
+    type: "rowUpdated",
+    before: previous,
+    after: updated,
+    actor: context.actor,
+  });
+  return omitKeys(updated, context.hiddenKeys);
+}
+
+// Deleted rows go to the trash; see restoreFromTrash.
+async function removeRow(
+  client: PoolClient,
+  safeTable: string,
+  rowId: string,
+  context: RowWriteContext
+): Promise<boolean> {
+  const result = await client.query<TableRow>(
+    `DELETE FROM "${safeTable}" WHERE id = $1 RETURNING *;`,
+    [rowId]
+  );
+  if ((result.rowCount ?? 0) === 0) return false;
+  const row = toTableRow(result.rows[0]);
+  await removeRowLinks(client, safeTable, rowId);
+  await enqueueOutboundChange(client, safeTable, rowId, "delete");
+  await recordRowChange(client, {
+    tableName: safeTable,
+    rowId,
+    type: "rowDeleted",
+    before: row,
+    after: null,
+    actor: context.actor,
+  });
+  await putInTrash(client, {
+    kind: "row",
+    tableName: safeTable,
+    projectTag: await tableProjectTag(client, safeTable),
+    itemKey: rowId,
+    label: rowLabel(row, context.columns),
+    payload: { row },
+    actor: context.actor,
+  });
+  return true;
+}
+
+async function tableProjectTag(client: PoolClient, safeTable: string): Promise<string> {
+  const { rows } = await client.query<{ project_tag: string }>(
+    `SELECT project_tag FROM table_metadata WHERE table_name = $1;`,
+    [safeTable]
+  );
+  return rows[0]?.project_tag ?? DEFAULT_PROJECT_TAG;
+}
+
+// What the trash lists a row as: its primary (first) field, or its id.
+function rowLabel(row: TableRow, columns: ColumnSpec<TableRow>[]): string {
+  const value = columns.length ? row[String(columns[0].key)] : null;
+  const text =
+    value == null || value === ""
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return text ? text.slice(0, 120) : row.id;
+}
+
+export async function createRow(
+  tableName: string,
+  values: Record<string, unknown>,
+  access?: TableAccess
+): Promise<TableRow> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const row = await withTransaction(async (client) =>
+    insertRow(
+      client,
+      safeTable,
+      values,
+      await loadRowWriteContext(client, safeTable, access)
+    )
+  );
+
+  emitTableChange({
+    table: safeTable,
+    type: "rowCreated",
+    payload: { rowId: row.id, values },
+    timestamp: new Date().toISOString(),
   });
+  await notifyLinkedTables(safeTable, [row.id]);
+
+  return row;
 }
 
-export async function reorderColumns(
+/**
+ * Updates a row's values. With `access`, fields the caller may not edit are
+ * refused and fields they may not read are left out of the returned row.
+ */
+export async function updateRow(
   tableName: string,
-  order: string[]
+  rowId: string,
+  values: Record<string, unknown>,
+  access?: TableAccess
+): Promise<TableRow> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const row = await withTransaction(async (client) =>
+    updateRowValues(
+      client,
+      safeTable,
+      rowId,
+      values,
+      await loadRowWriteContext(client, safeTable, access)
+    )
+  );
+
+  emitTableChange({
+    table: safeTable,
+    type: "rowUpdated",
+    payload: { rowId: row.id, values },
+    timestamp: new Date().toISOString(),
+  });
+  await notifyLinkedTables(safeTable, [row.id]);
+
+  return row;
+}
+
+export async function deleteRow(
+  tableName: string,
+  rowId: string,
+  access?: TableAccess
 ) {
-  return withTransaction(async (client) => {
-    const safeTable = assertSafeIdentifier(tableName);
-    const safeOrder = order.map(assertSafeIdentifier);
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  await withTransaction(async (client) =>
+    removeRow(
+      client,
+      safeTable,
+      rowId,
+      await loadRowWriteContext(client, safeTable, access)
+    )
+  );
+  emitTableChange({
+    table: safeTable,
+    type: "rowDeleted",
+    payload: { rowId },
+    timestamp: new Date().toISOString(),
+  });
+  await notifyLinkedTables(safeTable, [rowId]);
+}
 
-    for (let index = 0; index < safeOrder.length; index += 1) {
-      await client.query(
-        `
-          UPDATE column_metadata
-          SET position = $3, updated_at = NOW()
-          WHERE table_name = $1 AND column_name = $2;
-        `,
-        [safeTable, safeOrder[index], index + 1]
-      );
+/**
+ * A row's change log, newest first. With `access`, fields the caller may not
+ * read are left out, along with changes that only touched them.
+ */
+export async function getRowHistory(
+  tableName: string,
+  rowId: string,
+  options?: { access?: TableAccess; limit?: number }
+): Promise<ChangeLogEntry[]> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const entries = await listRowChanges(safeTable, rowId, { limit: options?.limit });
+  const access = options?.access;
+  if (!access) return entries;
+
+  const hidden = (await listColumns(safeTable))
+    .filter((column) => !canReadField(column, access))
+    .map((column) => String(column.key));
+  if (!hidden.length) return entries;
+  return entries
+    .map((entry) => ({
+      ...entry,
+      before: entry.before && omitKeys(entry.before, hidden),
+      after: entry.after && omitKeys(entry.after, hidden),
+      changed_keys: entry.changed_keys.filter((key) => !hidden.includes(key)),
+    }))
+    .filter((entry) => entry.change_type !== "rowUpdated" || entry.changed_keys.length > 0);
+}
+
+// The values of a logged row state that a restore writes back: editable
+// fields that still exist, differing from `current`, with links to records
+// that have since been deleted dropped.
+async function restorableValues(
+  client: PoolClient,
+  state: Record<string, unknown>,
+  current: TableRow | null,
+  context: RowWriteContext
+): Promise<Record<string, unknown>> {
+  const values: Record<string, unknown> = {};
+  for (const column of context.columns) {
+    const key = String(column.key);
+    if (!(key in state)) continue;
+    if (COMPUTED_FIELD_TYPES.has(column.type) || context.readOnlyKeys.has(key)) continue;
+    if (current && JSON.stringify(current[key] ?? null) === JSON.stringify(state[key] ?? null)) {
+      continue;
+    }
+    const link = context.links.get(key);
+    if (link) {
+      const ids = linkTargetIds(state[key]).filter(isRowId);
+      const { rows } = ids.length
+        ? await client.query<{ id: string }>(
+            `SELECT id::text AS id FROM "${assertSafeIdentifier(link.targetTable)}" WHERE id::text = ANY($1::text[]);`,
+            [ids]
+          )
+        : { rows: [] };
+      const existing = new Set(rows.map((row) => row.id));
+      values[key] = ids.filter((id) => existing.has(id));
+      continue;
+    }
+    values[key] = state[key];
+  }
+  return values;
+}
+
+/**
+ * Puts a table's rows, or one row, back the way they were at `at`: rows
+ * changed since are reset, rows deleted since come back under their old ids
+ * and rows created since are deleted. A restore is an ordinary write, so it
+ * lands in the change log itself. Fields that no longer exist, that the
+ * caller may not edit or that the database computes are left as they are.
+ */
+export async function restoreRows(
+  tableName: string,
+  at: Date,
+  options?: { rowId?: string; access?: TableAccess }
+): Promise<{ created: string[]; updated: string[]; deleted: string[] }> {
+  await ensureMetadataReady();
+  const safeTable = assertSafeIdentifier(tableName);
+  const changed = { created: [] as string[], updated: [] as string[], deleted: [] as string[] };
+
+  await withTransaction(async (client) => {
+    const context = await loadRowWriteContext(client, safeTable, options?.access);
+    const states = await rowStatesAt(client, safeTable, at, options?.rowId);
+    for (const [rowId, state] of states) {
+      const current = await client
+        .query<TableRow>(`SELECT * FROM "${safeTable}" WHERE id::text = $1;`, [rowId])
+        .then((result) => (result.rows[0] ? toTableRow(result.rows[0]) : null));
+      if (!state) {
+        if (current && (await removeRow(client, safeTable, rowId, context))) {
+          changed.deleted.push(rowId);
+        }
+        continue;
+      }
+      const values = await restorableValues(client, state, current, context);
+      if (!current) {
+        await insertRow(client, safeTable, values, context, rowId);
+        await restoreCreationStamps(client, safeTable, rowId, state, context);
+        changed.created.push(rowId);
+      } else if (Object.keys(values).length) {
+        await updateRowValues(client, safeTable, rowId, values, context);
+        changed.updated.push(rowId);
+      }
     }
+  });
 
+  const rowIds = [...changed.created, ...changed.updated, ...changed.deleted];
+  if (rowIds.length) {
     emitTableChange({
       table: safeTable,
-      type: "columnReordered",
-      payload: { columnKeys: safeOrder },
+      type: "rowsBatch",
+      payload: changed,
       timestamp: new Date().toISOString(),
     });
+    await notifyLinkedTables(safeTable, rowIds);
+  }
+  return changed;
+}
+
+// A row brought back under its old id keeps who created it and when.
+async function restoreCreationStamps(
+  client: PoolClient,
+  safeTable: string,
+  rowId: string,
+  snapshot: Record<string, unknown>,
+  context: RowWriteContext
+) {
+  const keys = [
+    "created_at",
+    "created_by",
+    ...context.columns
+      .filter((column) => column.type === "createdTime" || column.type === "createdBy")
+      .map((column) => String(column.key)),
+  ].filter((key) => snapshot[key] != null && context.storage.has(key));
+  if (!keys.length) return;
+  const sets = keys.map(
+    (key, index) =>
+      `"${assertSafeIdentifier(key)}" = ${storagePlaceholder(
+        index + 2,
+        context.storage.get(key) ?? "text"
+      )}`
+  );
+  await client.query(`UPDATE "${safeTable}" SET ${sets.join(", ")} WHERE id::text = $1;`, [
+    rowId,
+    ...keys.map((key) =>
+      serializeForStorage(snapshot[key], context.storage.get(key) ?? "text", key)
+    ),
+  ]);
+}
+
+/**
+ * Moves a table to the trash: its data stays under a trash name and its
+ * metadata and links go into the trash item, so a restore brings back the
+ * table as it was. The purge job drops it once retention runs out.
+ */
+export async function trashTable(
+  client: PoolClient,
+  tableName: string,
+  actor?: { id: string; name: string } | null
+): Promise<string> {
+  const safeTable = assertSafeIdentifier(tableName);
+  const jsonRows = async (sql: string) =>
+    (await client.query<{ row: Record<string, unknown> }>(sql, [safeTable])).rows.map(
+      (result) => result.row
+    );
+  const [metadata] = await jsonRows(
+    `SELECT to_jsonb(t) AS row FROM table_metadata t WHERE table_name = $1;`
+  );
+  const payload = {
+    storageTable: trashStorageName(),
+    metadata: metadata ?? null,
+    columns: await jsonRows(
+      `SELECT to_jsonb(t) AS row FROM column_metadata t WHERE table_name = $1;`
+    ),
+    typeSettings: await jsonRows(
+      `SELECT to_jsonb(t) AS row FROM column_type_settings t WHERE table_name = $1;`
+    ),
+    links: await jsonRows(
+      `SELECT to_jsonb(t) AS row FROM record_links t WHERE source_table = $1 OR target_table = $1;`
+    ),
+    // Synced tables keep their Airtable record ids, so the next sync after a
+    // restore updates the rows instead of adding them again.
+    recordMap: (await tableExists(client, "airtable_record_map"))
+      ? await jsonRows(
+          `SELECT to_jsonb(t) AS row FROM airtable_record_map t WHERE table_name = $1;`
+        )
+      : [],
+    views: (await tableExists(client, "table_views"))
+      ? await jsonRows(`SELECT to_jsonb(t) AS row FROM table_views t WHERE table_name = $1;`)
+      : [],
+  };
+
+  await client.query(
+    `ALTER TABLE IF EXISTS "${safeTable}" RENAME TO "${payload.storageTable}";`
+  );
+  await client.query(
+    `DELETE FROM record_links WHERE source_table = $1 OR target_table = $1;`,
+    [safeTable]
+  );
+  await client.query(`DELETE FROM table_metadata WHERE table_name = $1;`, [safeTable]);
+
+  return putInTrash(client, {
+    kind: "table",
+    tableName: safeTable,
+    projectTag: String(metadata?.project_tag ?? DEFAULT_PROJECT_TAG),
+    itemKey: safeTable,
+    label: String(metadata?.display_name ?? safeTable),
+    payload,
+    actor,
   });
 }
 
-export async function deleteColumn(tableName: string, columnKey: string) {
-  return withTransaction(async (client) => {
-    const safeTable = assertSafeIdentifier(tableName);
-    const safeColumn = assertSafeIdentifier(columnKey);
+async function restoreTrashedRow(
+  client: PoolClient,
+  item: TrashItemWithPayload,
+  actor: UserCellValue | null
+) {
+  const safeTable = assertSafeIdentifier(item.table_name);
+  if (!(await tableExists(client, safeTable))) {
+    throw new TrashRestoreError(`Restore the table ${item.table_name} first`);
+  }
+  const { rowCount } = await client.query(
+    `SELECT 1 FROM "${safeTable}" WHERE id::text = $1;`,
+    [item.item_key]
+  );
+  if (rowCount) {
+    throw new TrashRestoreError(`Row ${item.item_key} already exists`);
+  }
+  // Every field comes back, whatever the restorer may edit.
+  const context = { ...(await loadRowWriteContext(client, safeTable)), actor };
+  const snapshot = (item.payload.row ?? {}) as Record<string, unknown>;
+  await insertRow(
+    client,
+    safeTable,
+    await restorableValues(client, snapshot, null, context),
+    context,
+    item.item_key
+  );
+  await restoreCreationStamps(client, safeTable, item.item_key, snapshot, context);
+}
 
+// Returns the field's key, which changes when a new field took the old one.
+async function restoreTrashedColumn(
+  client: PoolClient,
+  item: TrashItemWithPayload,
+  actor: UserCellValue | null
+): Promise<string> {
+  const safeTable = assertSafeIdentifier(item.table_name);
+  if (!(await tableExists(client, safeTable))) {
+    throw new TrashRestoreError(`Restore the table ${item.table_name} first`);
+  }
+  const column = item.payload.column as ColumnSpec<TableRow>;
+  const storage = await loadColumnStorage(client, safeTable);
+  const currentMeta = await fetchColumnMetadata(client, safeTable);
+  const takenKeys = new Set([
+    ...storage.keys(),
+    ...currentMeta.map((meta) => meta.column_name),
+  ]);
+  const columnKey = takenKeys.has(String(column.key))
+    ? toColumnKey(column.name ?? String(column.key), takenKeys)
+    : assertSafeIdentifier(String(column.key));
+  const config = cloneConfig(column.config) ?? {};
+  const linkConfig = config.linkToRecord as { linkedFieldId?: string | null } | undefined;
+  const inverseField = linkConfig?.linkedFieldId ?? null;
+  if (linkConfig) linkConfig.linkedFieldId = null;
+
+  await insertColumnDefinition(client, safeTable, {
+    columnKey,
+    name: column.name ?? columnKey,
+    type: column.type,
+    config,
+    position: Number(item.payload.position) || currentMeta.length + 1,
+    width: column.width ?? 220,
+  });
+  if (column.permissions) {
     await client.query(
-      `ALTER TABLE "${safeTable}" DROP COLUMN IF EXISTS "${safeColumn}";`
+      `UPDATE column_metadata SET permissions = $3 WHERE table_name = $1 AND column_name = $2;`,
+      [safeTable, columnKey, column.permissions]
     );
+  }
 
+  const link = (await loadLinkFields(client, safeTable)).get(columnKey);
+  if (link) {
+    // Links come back for records that still exist on both sides; the cell
+    // values are only a cache of them.
+    const links = (item.payload.links ?? []) as Array<Record<string, unknown>>;
     await client.query(
-      `DELETE FROM column_metadata WHERE table_name = $1 AND column_name = $2;`,
-      [safeTable, safeColumn]
+      `
+        INSERT INTO record_links
+          (source_table, source_field, source_row_id, target_table, target_row_id, position)
+        SELECT $1, $2, link.source_row_id, link.target_table, link.target_row_id, link.position
+        FROM jsonb_populate_recordset(NULL::record_links, $3::jsonb) AS link
+        WHERE EXISTS (
+            SELECT 1 FROM "${safeTable}" t WHERE t.id::text = link.source_row_id::text
+          )
+          AND EXISTS (
+            SELECT 1 FROM "${assertSafeIdentifier(link.targetTable)}" t
+            WHERE t.id::text = link.target_row_id::text
+          )
+        ON CONFLICT DO NOTHING;
+      `,
+      [safeTable, columnKey, JSON.stringify(links)]
+    );
+    const inverseExists =
+      inverseField &&
+      (await fetchColumnMetadata(client, link.targetTable)).some(
+        (meta) => meta.column_name === inverseField
+      );
+    if (inverseExists) {
+      await setLinkedFieldId(client, safeTable, columnKey, inverseField);
+      await setLinkedFieldId(client, link.targetTable, inverseField, columnKey);
+    } else {
+      await ensureInverseLinkField(client, safeTable, columnKey);
+    }
+    const { rows } = await client.query<{ id: string }>(
+      `SELECT id::text AS id FROM "${safeTable}";`
     );
+    await refreshLinkCache(client, safeTable, columnKey, rows.map((row) => row.id));
+  } else {
+    const storageType = storageTypeForColumn(column.type);
+    const values = Object.entries((item.payload.values ?? {}) as Record<string, unknown>);
+    for (const [rowId, value] of values) {
+      await client.query(
+        `UPDATE "${safeTable}" SET "${columnKey}" = ${storagePlaceholder(2, storageType)} WHERE id::text = $1;`,
+        [rowId, serializeForStorage(value, storageType, columnKey)]
+      );
+    }
+  }
 
-    emitTableChange({
-      table: safeTable,
-      type: "columnDeleted",
-      payload: { columnKey: safeColumn },
-      timestamp: new Date().toISOString(),
-    });
+  await refreshRowTimestamps(client, safeTable);
+  const [meta] = (await fetchColumnMetadata(client, safeTable)).filter(
+    (row) => row.column_name === columnKey
+  );
+  await recordColumnChange(client, {
+    tableName: safeTable,
+    columnKey,
+    type: "columnCreated",
+    before: null,
+    after: meta ? toColumnSpec(meta) : null,
+    actor,
   });
+  return columnKey;
 }
 
-export async function createRow(
-  tableName: string,
-  values: Record<string, unknown>
-): Promise<TableRow> {
-  const safeTable = assertSafeIdentifier(tableName);
-  const columns = Object.keys(values)
-    .filter((key) => key !== "id")
-    .map(assertSafeIdentifier);
+async function restoreTrashedTable(client: PoolClient, item: TrashItemWithPayload) {
+  const safeTable = assertSafeIdentifier(item.table_name);
+  const { payload } = item;
+  const storageTable = assertSafeIdentifier(String(payload.storageTable));
+  const { rowCount } = await client.query(
+    `SELECT 1 FROM table_metadata WHERE table_name = $1;`,
+    [safeTable]
+  );
+  if (rowCount || (await tableExists(client, safeTable))) {
+    throw new TrashRestoreError(`A table named ${item.table_name} already exists`);
+  }
 
-  const dataValues = columns.map((key) => normalizeValue(values[key]));
-  const id = randomUUID();
+  await client.query(`ALTER TABLE "${storageTable}" RENAME TO "${safeTable}";`);
+  const restore = (target: string, rows: unknown) =>
+    client.query(
+      `
+        INSERT INTO ${target}
+        SELECT * FROM jsonb_populate_recordset(NULL::${target}, $1::jsonb)
+        ON CONFLICT DO NOTHING;
+      `,
+      [JSON.stringify(rows ?? [])]
+    );
+  if (payload.metadata) {
+    await restore("table_metadata", [payload.metadata]);
+  }
+  await restore("column_metadata", payload.columns);
+  await restore("column_type_settings", payload.typeSettings);
+  await restore("record_links", payload.links);
+  if (Array.isArray(payload.recordMap) && payload.recordMap.length) {
+    await restore("airtable_record_map", payload.recordMap);
+  }
+  if (Array.isArray(payload.views) && payload.views.length) {
+    await restore("table_views", payload.views);
+  }
+  await refreshRowTimestamps(client, safeTable);
+}
 
-  const columnSql =
-    columns.length > 0 ? `, ${columns.map((c) => `"${c}"`).join(", ")}` : "";
-  const valuePlaceholders = columns
-    .map((_, index) => `$${index + 2}`)
-    .join(", ");
-  const valuesSql = columns.length > 0 ? `, ${valuePlaceholders}` : "";
+async function tableExists(client: PoolClient, safeTable: string): Promise<boolean> {
+  const { rows } = await client.query<{ exists: boolean }>(
+    `SELECT to_regclass(quote_ident($1)) IS NOT NULL AS exists;`,
+    [safeTable]
+  );
+  return Boolean(rows[0]?.exists);
+}
 
-  const result = await query<TableRow>(
-    `
-      INSERT INTO "${safeTable}" (id${columnSql})
-      VALUES ($1${valuesSql})
-      RETURNING *;
-    `,
-    [id, ...dataValues]
+/**
+ * Restores a trashed row, field or table. The route checks the caller's role
+ * on the item's table (see TRASH_ROLES); `access` only names who restored it.
+ */
+export async function restoreFromTrash(
+  itemId: string,
+  access?: TableAccess
+): Promise<TrashItem & { columnKey?: string }> {
+  await ensureMetadataReady();
+  const actor = actorFor(access);
+  const restored = await withTransaction(async (client) => {
+    const { payload, ...item } = await takeFromTrash(client, itemId);
+    switch (item.kind) {
+      case "row":
+        await restoreTrashedRow(client, { ...item, payload }, actor);
+        return item;
+      case "column":
+        return {
+          ...item,
+          columnKey: await restoreTrashedColumn(client, { ...item, payload }, actor),
+        };
+      case "table":
+        await restoreTrashedTable(client, { ...item, payload });
+        return item;
+    }
+  });
+
+  const timestamp = new Date().toISOString();
+  if (restored.kind === "row") {
+    emitTableChange({
+      table: restored.table_name,
+      type: "rowCreated",
+      payload: { rowId: restored.item_key },
+      timestamp,
+    });
+    await notifyLinkedTables(restored.table_name, [restored.item_key]);
+  } else if ("columnKey" in restored && restored.columnKey) {
+    emitTableChange({
+      table: restored.table_name,
+      type: "columnCreated",
+      payload: { columnKey: restored.columnKey },
+      timestamp,
+    });
+  } else if (restored.kind === "table") {
+    emitTableChange({
+      table: restored.table_name,
+      type: "tableCreated",
+      payload: { displayName: restored.label, projectTag: restored.project_tag },
+      timestamp,
+    });
+  }
+  return restored;
+}
+
+/** The columns of `tableName` in display order. */
+export async function listColumns(tableName: string): Promise<ColumnSpec<TableRow>[]> {
+  const safeTable = assertSafeIdentifier(tableName);
+  const { rows } = await query<ColumnMetadataQueryRow>(COLUMN_METADATA_SQL, [
+    safeTable,
+  ]);
+  return mapColumnMetadataRows(rows).map(toColumnSpec);
+}
+
+/** The column `columnKey` of `tableName`, or null when there is none. */
+export async function getColumn(
+  tableName: string,
+  columnKey: string
+): Promise<ColumnSpec<TableRow> | null> {
+  return (
+    (await listColumns(tableName)).find((candidate) => candidate.key === columnKey) ?? null
   );
+}
 
-  const row = result.rows[0];
-  const normalized: TableRow = { id: String(row.id) };
-  for (const [key, value] of Object.entries(row)) {
-    if (key === "id") continue;
-    normalized[key] = value;
+async function resolveLinkColumn(tableName: string, columnKey: string) {
+  const column = await getColumn(tableName, columnKey);
+  const targetTable = column?.config?.linkToRecord?.targetTable;
+  if (
+    !column ||
+    column.type !== "linkToRecord" ||
+    !targetTable ||
+    !SAFE_IDENTIFIER.test(targetTable)
+  ) {
+    throw new Error(`Column ${columnKey} on ${tableName} is not a record link`);
   }
+  return { column, targetTable };
+}
 
-  emitTableChange({
-    table: safeTable,
-    type: "rowCreated",
-    payload: { rowId: normalized.id, values },
-    timestamp: new Date().toISOString(),
+/**
+ * Searches the target table of a link field for the record picker, so the
+ * column config no longer has to carry every candidate record.
+ */
+export async function searchLinkTargets(
+  tableName: string,
+  columnKey: string,
+  options?: { search?: string; limit?: number; targetAccess?: TableAccess }
+): Promise<LinkedRecordOption[]> {
+  const { column, targetTable } = await resolveLinkColumn(tableName, columnKey);
+  const { columns, rows } = await getTableData(targetTable, {
+    limit: Math.max(1, Math.min(options?.limit ?? 25, 100)),
+    count: "none",
+    query: { filters: [], sorts: [], search: options?.search?.trim() ?? "" },
+    access: options?.targetAccess,
   });
+  const primary = linkPrimaryColumn(column, columns);
+  return rows.map((row) => toLinkedRecordOption(row, primary, columns));
+}
 
-  return normalized;
+/**
+ * Creates a row in the link field's target table titled `title`, for the
+ * picker's "create new linked record" action.
+ */
+export async function createLinkedRecord(
+  tableName: string,
+  columnKey: string,
+  title: string,
+  targetAccess?: TableAccess
+): Promise<LinkedRecordOption> {
+  const { column, targetTable } = await resolveLinkColumn(tableName, columnKey);
+  const { rows } = await query<ColumnMetadataQueryRow>(COLUMN_METADATA_SQL, [
+    targetTable,
+  ]);
+  const primary = linkPrimaryColumn(
+    column,
+    mapColumnMetadataRows(rows).map(toColumnSpec)
+  );
+  const row = await createRow(
+    targetTable,
+    primary ? { [String(primary.key)]: title } : {},
+    targetAccess
+  );
+  return { id: row.id, title: title || row.id };
 }
 
-export async function updateRow(
+export type RowBatchOperation =
+  | { type: "create"; values: Record<string, unknown>; clientId?: string }
+  | { type: "update"; rowId: string; values: Record<string, unknown> }
+  | { type: "delete"; rowId: string };
+
+export type RowBatchResult = {
+  index: number;
+  type: RowBatchOperation["type"];
+  status: "applied" | "failed" | "rolledBack" | "skipped";
+  rowId?: string;
+  clientId?: string;
+  row?: TableRow;
+  error?: string;
+  // Set when the operation failed because the caller may not make it.
+  denied?: boolean;
+};
+
+const MAX_BATCH_OPERATIONS = 1000;
+
+/**
+ * Applies creates, updates and deletes in one transaction. With `atomic` (the
+ * default) the first failure rolls back the whole batch; otherwise each
+ * operation runs under its own savepoint and only the failing ones are undone.
+ */
+export async function applyRowBatch(
   tableName: string,
-  rowId: string,
-  values: Record<string, unknown>
-): Promise<TableRow> {
+  operations: RowBatchOperation[],
+  options?: { atomic?: boolean; access?: TableAccess }
+): Promise<{ ok: boolean; results: RowBatchResult[] }> {
+  await ensureMetadataReady();
   const safeTable = assertSafeIdentifier(tableName);
-  const id = rowId;
-  const entries = Object.entries(values).filter(
-    ([key]) => key !== "id" && SAFE_IDENTIFIER.test(key)
-  );
+  const atomic = options?.atomic ?? true;
 
-  if (!entries.length) {
-    const existing = await query<TableRow>(
-      `SELECT * FROM "${safeTable}" WHERE id = $1;`,
-      [id]
+  if (operations.length > MAX_BATCH_OPERATIONS) {
+    throw new TableValidationError(
+      `Batch too large: ${operations.length} operations (max ${MAX_BATCH_OPERATIONS})`
     );
-    if (existing.rowCount === 0) {
-      throw new Error(`Row ${rowId} not found`);
-    }
-    return existing.rows[0];
   }
 
-  const sets = entries.map(
-    ([key], index) => `"${assertSafeIdentifier(key)}" = $${index + 2}`
-  );
-  const params = [id, ...entries.map(([, value]) => normalizeValue(value))];
-
-  const result = await query<TableRow>(
-    `
-      UPDATE "${safeTable}"
-      SET ${sets.join(", ")}
-      WHERE id = $1
-      RETURNING *;
-    `,
-    params
-  );
+  const results: RowBatchResult[] = operations.map((operation, index) => ({
+    index,
+    type: operation.type,
+    status: "skipped",
+    rowId: operation.type === "create" ? undefined : operation.rowId,
+    clientId: operation.type === "create" ? operation.clientId : undefined,
+  }));
+
+  const applyOperation = async (
+    client: PoolClient,
+    context: RowWriteContext,
+    operation: RowBatchOperation,
+    result: RowBatchResult
+  ) => {
+    switch (operation.type) {
+      case "create": {
+        const row = await insertRow(
+          client,
+          safeTable,
+          operation.values ?? {},
+          context
+        );
+        result.rowId = row.id;
+        result.row = row;
+        break;
+      }
+      case "update": {
+        result.row = await updateRowValues(
+          client,
+          safeTable,
+          operation.rowId,
+          operation.values ?? {},
+          context
+        );
+        break;
+      }
+      case "delete": {
+        const removed = await removeRow(client, safeTable, operation.rowId, context);
+        if (!removed) {
+          throw new Error(`Row ${operation.rowId} not found`);
+        }
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown batch operation: ${(operation as { type?: string }).type}`
+        );
+    }
+    result.status = "applied";
+  };
 
-  if (result.rowCount === 0) {
-    throw new Error(`Row ${rowId} not found`);
+  let failed = false;
+  try {
+    await withTransaction(async (client) => {
+      const context = await loadRowWriteContext(client, safeTable, options?.access);
+      for (let index = 0; index < operations.length; index += 1) {
+        const result = results[index];
+        if (!atomic) {
+          await client.query("SAVEPOINT batch_operation;");
+        }
+        try {
+          await applyOperation(client, context, operations[index], result);
+          if (!atomic) {
+            await client.query("RELEASE SAVEPOINT batch_operation;");
+          }
+        } catch (error) {
+          failed = true;
+          result.status = "failed";
+          result.error = error instanceof Error ? error.message : String(error);
+          if (error instanceof AccessDeniedError) result.denied = true;
+          delete result.row;
+          if (atomic) {
+            throw error;
+          }
+          await client.query("ROLLBACK TO SAVEPOINT batch_operation;");
+        }
+      }
+    });
+  } catch (error) {
+    if (!failed) {
+      throw error;
+    }
+    for (const result of results) {
+      if (result.status === "applied") {
+        result.status = "rolledBack";
+        delete result.row;
+        if (result.type === "create") delete result.rowId;
+      }
+    }
+    return { ok: false, results };
   }
 
-  const row = result.rows[0];
-  const normalized: TableRow = { id: String(row.id) };
-  for (const [key, value] of Object.entries(row)) {
-    if (key === "id") continue;
-    normalized[key] = value;
+  const applied = results.filter((result) => result.status === "applied");
+  if (applied.length) {
+    emitTableChange({
+      table: safeTable,
+      type: "rowsBatch",
+      payload: {
+        created: applied
+          .filter((result) => result.type === "create")
+          .map((result) => result.rowId as string),
+        updated: applied
+          .filter((result) => result.type === "update")
+          .map((result) => result.rowId as string),
+        deleted: applied
+          .filter((result) => result.type === "delete")
+          .map((result) => result.rowId as string),
+      },
+      timestamp: new Date().toISOString(),
+    });
+    await notifyLinkedTables(
+      safeTable,
+      applied.map((result) => result.rowId as string)
+    );
   }
 
-  emitTableChange({
-    table: safeTable,
-    type: "rowUpdated",
-    payload: { rowId: normalized.id, values },
-    timestamp: new Date().toISOString(),
-  });
-
-  return normalized;
-}
-
-export async function deleteRow(tableName: string, rowId: string) {
-  const safeTable = assertSafeIdentifier(tableName);
-  await query(`DELETE FROM "${safeTable}" WHERE id = $1;`, [rowId]);
-  emitTableChange({
-    table: safeTable,
-    type: "rowDeleted",
-    payload: { rowId },
-    timestamp: new Date().toISOString(),
-  });
+  return { ok: !failed, results };
 }
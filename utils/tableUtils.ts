@@ -67,40 +67,66 @@ import {
   FaWpforms
 } from "react-icons/fa";
 import { PiFunctionFill } from "react-icons/pi";
+import {
+  TABLE_FILTER_OPERATORS,
+  fieldTimeZone,
+  matchesTableFilter,
+  operatorNeedsTerm,
+  type TableFilter,
+  type TableFilterOperator,
+  type TableQueryState
+} from "./tableQuery";
+import {
+  analyzeFormulaExpression,
+  compileFormulaColumns,
+  createFormulaColumnLookup,
+  findCircularFormulaReference,
+  formulaColumnKey,
+  ROLLUP_AGGREGATIONS,
+  type FormulaRuntimeScope,
+  type FormulaToken,
+  type FormulaTokenType,
+  type RollupAggregation
+} from "./formulaEngine";
+import {
+  formatCurrency,
+  formatDateValue,
+  formatDuration,
+  formatNumber,
+  formatPercentage,
+  formatTimestamp,
+  stringifyValue
+} from "./cellFormat";
+import {
+  DEFAULT_VIEW_CONFIG,
+  type SavedView,
+  type TableViewConfig,
+  type ViewType,
+  type ViewVisibility
+} from "./viewConfig";
+import { KanbanBoard, type KanbanConfig, type KanbanRecord } from "./kanbanBoard";
 
 /* -----------------------------------------------------------
  * 1) Existing utility exports (kept compatible with page.tsx)
  * ---------------------------------------------------------*/
 
+export {
+  createCurrencyFormatter,
+  createDateFormatter,
+  formatCountValue,
+  formatPercentage,
+  formatTimestamp
+} from "./cellFormat";
+
 export function mergeClasses(...classes: Array<string | false | null | undefined>) {
   return classes.filter(Boolean).join(" ");
 }
 
-export function createCurrencyFormatter(locale: string, currency: string) {
-  return new Intl.NumberFormat(locale, {
-    style: "currency",
-    currency,
-    maximumFractionDigits: 2
-  });
-}
-
-export function createDateFormatter(
-  locale: string,
-  options: Intl.DateTimeFormatOptions
-) {
-  return new Intl.DateTimeFormat(locale, options);
-}
-
 export function createHeaderAbbreviation(label: string) {
   const parts = String(label).trim().split(/\s+/).slice(0, 2);
   return parts.map((p) => p[0]?.toUpperCase() ?? "").join("");
 }
 
-export function formatPercentage(value: number, digits = 0) {
-  const pct = Math.max(-1, Math.min(1, Number.isFinite(value) ? value : 0));
-  return `${(pct * 100).toFixed(digits)}%`;
-}
-
 /* -----------------------------------------------------------
  * 2) Types for the interactive grid
  * ---------------------------------------------------------*/
@@ -143,10 +169,11 @@ type CellStyle = {
 
 const STYLE_FIELD = "__styles";
 
+// Hiding a field only takes it out of the displayed columns: rows keep its
+// values and the host is still handed the field (see reportedColumns).
 type HiddenColumnEntry<T extends Record<string, any> = any> = {
   column: ColumnSpec<T>;
   index: number;
-  values: any[];
   styles: Array<CellStyle | null>;
   width: number;
 };
@@ -164,7 +191,7 @@ type ConfirmAction<T extends Record<string, any> = any> =
     };
 
 type ViewDefinition = {
-  id: string;
+  id: ViewType;
   name: string;
   icon: React.ComponentType<{ className?: string }>;
   colorClass: string;
@@ -351,6 +378,10 @@ function normalizeFieldConfig(type: ColumnType, config: ColumnSpec["config"] | u
       base.attachment = attachment;
       break;
     }
+    case "createdTime": {
+      base.createdTime = { format: { ...(base.createdTime?.format ?? {}) } };
+      break;
+    }
     case "lastModifiedTime": {
       const configValue = { ...(base.lastModifiedTime ?? {}) };
       configValue.include = configValue.include ?? "all";
@@ -396,6 +427,23 @@ function normalizeFieldConfig(type: ColumnType, config: ColumnSpec["config"] | u
       base.lookup = lookup;
       break;
     }
+    case "rollup": {
+      const rollup = { ...(base.rollup ?? {}) };
+      rollup.sourceLinkedField = rollup.sourceLinkedField ?? "";
+      rollup.sourceField = rollup.sourceField ?? "";
+      rollup.aggregation = ROLLUP_AGGREGATIONS.includes(rollup.aggregation as RollupAggregation)
+        ? rollup.aggregation
+        : "SUM";
+      rollup.separator = typeof rollup.separator === "string" ? rollup.separator : ", ";
+      base.rollup = rollup;
+      break;
+    }
+    case "count": {
+      const count = { ...(base.count ?? {}) };
+      count.sourceLinkedField = count.sourceLinkedField ?? "";
+      base.count = count;
+      break;
+    }
     case "formula": {
       const formula = { ...(base.formula ?? {}) };
       const expression = typeof formula.expression === "string" ? formula.expression : "";
@@ -425,6 +473,17 @@ export interface LinkedRecordOption {
   meta?: Record<string, string>;
 }
 
+/** One entry of a record's change log, as the history route returns it. */
+export interface RowHistoryEntry {
+  id: string;
+  change_type: "rowCreated" | "rowUpdated" | "rowDeleted";
+  actor_name: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  changed_keys: string[];
+  created_at: string;
+}
+
 type RGBColor = { r: number; g: number; b: number };
 type OptionPillStyle = { backgroundColor: string; borderColor: string; color: string };
 
@@ -530,6 +589,13 @@ function optionIdentifier(option: Partial<SelectOption> | null | undefined): str
   return String(raw);
 }
 
+/** Display format of createdTime and lastModifiedTime fields. */
+export type TimestampFormat = {
+  dateStyle?: "short" | "medium" | "long";
+  timeStyle?: "short" | "medium" | "long";
+  timezone?: string;
+};
+
 export interface ColumnSpec<T extends Record<string, any> = any> {
   key: keyof T | string;
   name: string;
@@ -598,7 +664,10 @@ export interface ColumnSpec<T extends Record<string, any> = any> {
     lastModifiedTime?: {
       include?: "all" | "specific";
       fields?: string[];
-      format?: { dateStyle?: "short" | "medium" | "long"; timeStyle?: "short" | "medium" | "long"; timezone?: string };
+      format?: TimestampFormat;
+    };
+    createdTime?: {
+      format?: TimestampFormat;
     };
     linkToRecord?: {
       targetTable?: string;
@@ -623,6 +692,15 @@ export interface ColumnSpec<T extends Record<string, any> = any> {
       limitEnabled?: boolean;
       limit?: number | null;
     };
+    rollup?: {
+      sourceLinkedField?: string;
+      sourceField?: string;
+      aggregation?: RollupAggregation;
+      separator?: string;
+    };
+    count?: {
+      sourceLinkedField?: string;
+    };
     formula?: {
       expression?: string;
       references?: string[];
@@ -641,89 +719,9 @@ export type LinkedTableOption = {
 };
 
 /* -----------------------------------------------------------
- * Formula utilities (tokenizer, highlighting, validation)
+ * Formula highlighting (engine lives in ./formulaEngine)
  * ---------------------------------------------------------*/
 
-type FormulaTokenType =
-  | "whitespace"
-  | "number"
-  | "string"
-  | "identifier"
-  | "function"
-  | "operator"
-  | "comparison"
-  | "comma"
-  | "parenthesis"
-  | "field"
-  | "boolean"
-  | "error";
-
-interface FormulaTokenMeta {
-  message?: string;
-  fieldName?: string;
-  validField?: boolean;
-}
-
-interface FormulaToken {
-  type: FormulaTokenType;
-  value: string;
-  start: number;
-  end: number;
-  meta?: FormulaTokenMeta;
-}
-
-type FormulaAstNode =
-  | { type: "NumberLiteral"; value: number }
-  | { type: "StringLiteral"; value: string }
-  | { type: "BooleanLiteral"; value: boolean }
-  | { type: "NullLiteral"; value: null }
-  | { type: "FieldReference"; name: string }
-  | { type: "UnaryExpression"; operator: string; argument: FormulaAstNode }
-  | { type: "BinaryExpression"; operator: string; left: FormulaAstNode; right: FormulaAstNode }
-  | { type: "FunctionCall"; name: string; args: FormulaAstNode[] };
-
-interface FormulaParseResult {
-  ast: FormulaAstNode | null;
-  errors: string[];
-}
-
-interface FormulaAnalysis {
-  tokens: FormulaToken[];
-  references: string[];
-  unknownReferences: string[];
-  errors: string[];
-  isValid: boolean;
-  ast: FormulaAstNode | null;
-}
-
-interface FormulaColumnLookupEntry<T extends Record<string, any>> {
-  column: ColumnSpec<T>;
-  index: number;
-  key: string;
-}
-
-interface FormulaColumnLookup<T extends Record<string, any>> {
-  byName: Map<string, FormulaColumnLookupEntry<T>>;
-  byKey: Map<string, FormulaColumnLookupEntry<T>>;
-}
-
-interface FormulaRuntimeScope<T extends Record<string, any>> {
-  row: T;
-  rowIndex: number;
-  rows: T[];
-  getRowId?: (row: T, index: number) => string | number;
-  columnLookup: FormulaColumnLookup<T>;
-  compiledFormulas: Map<string, CompiledFormulaEntry<T>>;
-}
-
-interface CompiledFormulaEntry<T extends Record<string, any>> {
-  expression: string;
-  ast: FormulaAstNode | null;
-  dependencies: string[];
-  errors: string[];
-  evaluate: (scope: FormulaRuntimeScope<T>, visited: Set<string>) => any;
-}
-
 function escapeHtml(value: string): string {
   return value.replace(/[&<>"']/g, (ch) => {
     switch (ch) {
@@ -750,471 +748,6 @@ function formatFormulaTokenValue(value: string): string {
     .replace(/ /g, "&nbsp;");
 }
 
-function normalizeFieldName(name: string | null | undefined): string {
-  return typeof name === "string" ? name.trim().toLowerCase() : "";
-}
-
-function parseStringLiteral(raw: string): string {
-  if (!raw) return "";
-  const quote = raw[0];
-  if ((quote !== "\"" && quote !== "'") || raw.length < 2) return raw;
-  const inner = raw.slice(1, -1);
-  const doubled = quote + quote;
-  return inner.replace(new RegExp(doubled, "g"), quote);
-}
-
-type BinaryOperatorInfo = { precedence: number; associativity: "left" | "right"; symbol: string };
-
-const BINARY_OPERATOR_INFO: Record<string, BinaryOperatorInfo> = {
-  "^": { precedence: 5, associativity: "right", symbol: "^" },
-  "*": { precedence: 4, associativity: "left", symbol: "*" },
-  "/": { precedence: 4, associativity: "left", symbol: "/" },
-  "+": { precedence: 3, associativity: "left", symbol: "+" },
-  "-": { precedence: 3, associativity: "left", symbol: "-" },
-  "&": { precedence: 2, associativity: "left", symbol: "&" },
-  "=": { precedence: 1, associativity: "left", symbol: "=" },
-  "<>": { precedence: 1, associativity: "left", symbol: "<>" },
-  "<": { precedence: 1, associativity: "left", symbol: "<" },
-  "<=": { precedence: 1, associativity: "left", symbol: "<=" },
-  ">": { precedence: 1, associativity: "left", symbol: ">" },
-  ">=": { precedence: 1, associativity: "left", symbol: ">=" }
-};
-
-function getBinaryOperatorInfo(token: FormulaToken): BinaryOperatorInfo | null {
-  if (token.type !== "operator" && token.type !== "comparison") return null;
-  const info = BINARY_OPERATOR_INFO[token.value];
-  return info ?? null;
-}
-
-function tokenizeFormulaExpression(expression: string): FormulaToken[] {
-  const tokens: FormulaToken[] = [];
-  const length = expression.length;
-  let index = 0;
-
-  while (index < length) {
-    const start = index;
-    const char = expression[index];
-
-    if (/\s/.test(char)) {
-      let value = char;
-      index += 1;
-      while (index < length && /\s/.test(expression[index])) {
-        value += expression[index];
-        index += 1;
-      }
-      tokens.push({ type: "whitespace", value, start, end: index });
-      continue;
-    }
-
-    if (char === "\"" || char === "'") {
-      const quote = char;
-      let value = quote;
-      index += 1;
-      let closed = false;
-      while (index < length) {
-        const current = expression[index];
-        value += current;
-        index += 1;
-        if (current === quote) {
-          if (expression[index] === quote) {
-            value += expression[index];
-            index += 1;
-            continue;
-          }
-          closed = true;
-          break;
-        }
-      }
-      if (!closed) {
-        tokens.push({
-          type: "error",
-          value,
-          start,
-          end: index,
-          meta: { message: "Unterminated string literal." }
-        });
-      } else {
-        tokens.push({ type: "string", value, start, end: index });
-      }
-      continue;
-    }
-
-    if (char === "{") {
-      let value = "{";
-      let fieldName = "";
-      index += 1;
-      let closed = false;
-      while (index < length) {
-        const current = expression[index];
-        if (current === "}") {
-          value += "}";
-          index += 1;
-          closed = true;
-          break;
-        }
-        value += current;
-        fieldName += current;
-        index += 1;
-      }
-      if (closed) {
-        tokens.push({
-          type: "field",
-          value,
-          start,
-          end: index,
-          meta: { fieldName: fieldName.trim() }
-        });
-      } else {
-        tokens.push({
-          type: "error",
-          value,
-          start,
-          end: index,
-          meta: { message: "Missing closing brace for field reference." }
-        });
-      }
-      continue;
-    }
-
-    if (/\d/.test(char) || (char === "." && /\d/.test(expression[index + 1] ?? ""))) {
-      let value = char;
-      index += 1;
-      let hasDot = char === ".";
-      while (index < length) {
-        const current = expression[index];
-        if (current === "." && !hasDot) {
-          hasDot = true;
-          value += current;
-          index += 1;
-          continue;
-        }
-        if (/[0-9]/.test(current)) {
-          value += current;
-          index += 1;
-          continue;
-        }
-        if ((current === "e" || current === "E") && /[+\-0-9]/.test(expression[index + 1] ?? "")) {
-          value += current;
-          index += 1;
-          if (expression[index] === "+" || expression[index] === "-") {
-            value += expression[index];
-            index += 1;
-          }
-          while (index < length && /[0-9]/.test(expression[index])) {
-            value += expression[index];
-            index += 1;
-          }
-          continue;
-        }
-        break;
-      }
-      tokens.push({ type: "number", value, start, end: index });
-      continue;
-    }
-
-    if (/[A-Za-z_]/.test(char)) {
-      let value = char;
-      index += 1;
-      while (index < length) {
-        const current = expression[index];
-        if (/[A-Za-z0-9_.]/.test(current)) {
-          value += current;
-          index += 1;
-        } else {
-          break;
-        }
-      }
-      tokens.push({ type: "identifier", value, start, end: index });
-      continue;
-    }
-
-    if (char === "(" || char === ")") {
-      tokens.push({ type: "parenthesis", value: char, start, end: index + 1 });
-      index += 1;
-      continue;
-    }
-
-    if (char === "," || char === ";") {
-      tokens.push({ type: "comma", value: char, start, end: index + 1 });
-      index += 1;
-      continue;
-    }
-
-    if (char === "<" || char === ">" || char === "=") {
-      let value = char;
-      const nextChar = expression[index + 1];
-      if ((char === "<" && (nextChar === ">" || nextChar === "=")) || (char === ">" && nextChar === "=")) {
-        value += nextChar;
-        index += 2;
-      } else {
-        index += 1;
-      }
-      tokens.push({ type: "comparison", value, start, end: index });
-      continue;
-    }
-
-    if ("+-*/^&%".includes(char)) {
-      tokens.push({ type: "operator", value: char, start, end: index + 1 });
-      index += 1;
-      continue;
-    }
-
-    tokens.push({
-      type: "error",
-      value: char,
-      start,
-      end: index + 1,
-      meta: { message: `Unexpected character '${char}'.` }
-    });
-    index += 1;
-  }
-
-  return tokens;
-}
-
-function classifyFormulaTokens(tokens: FormulaToken[]): FormulaToken[] {
-  const result: FormulaToken[] = [];
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    if (token.type === "identifier") {
-      const upper = token.value.toUpperCase();
-      if (upper === "TRUE" || upper === "FALSE") {
-        result.push({ ...token, type: "boolean" });
-        continue;
-      }
-      const nextToken = tokens.slice(i + 1).find((candidate) => candidate.type !== "whitespace");
-      if (nextToken && nextToken.type === "parenthesis" && nextToken.value === "(") {
-        result.push({ ...token, type: "function" });
-        continue;
-      }
-    }
-    result.push(token);
-  }
-  return result;
-}
-
-class FormulaParser {
-  private tokens: FormulaToken[];
-  private index = 0;
-
-  constructor(tokens: FormulaToken[]) {
-    this.tokens = tokens.filter((token) => token.type !== "whitespace");
-  }
-
-  private peek(): FormulaToken | null {
-    return this.tokens[this.index] ?? null;
-  }
-
-  private consume(): FormulaToken {
-    const token = this.tokens[this.index];
-    if (!token) throw new Error("Unexpected end of formula.");
-    this.index += 1;
-    return token;
-  }
-
-  private match(type: FormulaTokenType, value?: string): boolean {
-    const token = this.peek();
-    if (!token || token.type !== type) return false;
-    if (typeof value !== "undefined" && token.value !== value) return false;
-    this.consume();
-    return true;
-  }
-
-  private expect(type: FormulaTokenType, value?: string): FormulaToken {
-    const token = this.peek();
-    if (!token || token.type !== type || (value !== undefined && token.value !== value)) {
-      const expectation = value ? `${type} '${value}'` : type;
-      const actual = token ? `${token.type} '${token.value}'` : "end of formula";
-      throw new Error(`Expected ${expectation} but found ${actual}.`);
-    }
-    return this.consume();
-  }
-
-  private parsePrimary(): FormulaAstNode {
-    const token = this.consume();
-    switch (token.type) {
-      case "number":
-        return { type: "NumberLiteral", value: Number(token.value) };
-      case "string":
-        return { type: "StringLiteral", value: parseStringLiteral(token.value) };
-      case "boolean":
-        return { type: "BooleanLiteral", value: token.value.toLowerCase() === "true" };
-      case "field": {
-        const fieldName = token.meta?.fieldName ?? "";
-        return { type: "FieldReference", name: fieldName };
-      }
-      case "function": {
-        const name = token.value.toUpperCase();
-        return this.parseFunctionCall(name);
-      }
-      case "parenthesis":
-        if (token.value === "(") {
-          const expression = this.parseExpression(0);
-          this.expect("parenthesis", ")");
-          return expression;
-        }
-        throw new Error(`Unexpected token '${token.value}'.`);
-      case "operator":
-        if (token.value === "+" || token.value === "-") {
-          const argument = this.parseExpression(5);
-          return { type: "UnaryExpression", operator: token.value, argument };
-        }
-        throw new Error(`Unexpected operator '${token.value}'.`);
-      case "identifier": {
-        const name = token.value.trim();
-        if (!name) {
-          throw new Error("Unexpected identifier.");
-        }
-        return { type: "FieldReference", name };
-      }
-      default:
-        throw new Error(`Unexpected token '${token.value}'.`);
-    }
-  }
-
-  private parseFunctionCall(name: string): FormulaAstNode {
-    this.expect("parenthesis", "(");
-    const args: FormulaAstNode[] = [];
-    if (this.match("parenthesis", ")")) {
-      return { type: "FunctionCall", name, args };
-    }
-    while (true) {
-      args.push(this.parseExpression(0));
-      if (this.match("comma")) {
-        continue;
-      }
-      this.expect("parenthesis", ")");
-      break;
-    }
-    return { type: "FunctionCall", name, args };
-  }
-
-  parseExpression(minPrecedence = 0): FormulaAstNode {
-    let left = this.parsePrimary();
-    while (true) {
-      const token = this.peek();
-      if (!token) break;
-      const operatorInfo = getBinaryOperatorInfo(token);
-      if (!operatorInfo || operatorInfo.precedence < minPrecedence) break;
-      this.consume();
-      const nextPrecedence =
-        operatorInfo.associativity === "left"
-          ? operatorInfo.precedence + 1
-          : operatorInfo.precedence;
-      const right = this.parseExpression(nextPrecedence);
-      left = { type: "BinaryExpression", operator: operatorInfo.symbol, left, right };
-    }
-    return left;
-  }
-
-  parse(): FormulaParseResult {
-    if (this.tokens.length === 0) {
-      return { ast: null, errors: [] };
-    }
-    try {
-      const ast = this.parseExpression(0);
-      const remaining = this.peek();
-      if (remaining) {
-        return {
-          ast,
-          errors: [`Unexpected token '${remaining.value}' at character ${remaining.start + 1}.`]
-        };
-      }
-      return { ast, errors: [] };
-    } catch (error: any) {
-      return { ast: null, errors: [error?.message ?? "Formula parse error."] };
-    }
-  }
-}
-
-function parseFormulaAst(tokens: FormulaToken[]): FormulaParseResult {
-  const parser = new FormulaParser(tokens);
-  return parser.parse();
-}
-
-function analyzeFormulaExpression<T extends Record<string, any>>(
-  expression: string,
-  columns: ColumnSpec<T>[]
-): FormulaAnalysis {
-  const rawTokens = tokenizeFormulaExpression(expression);
-  const tokens = classifyFormulaTokens(rawTokens).map((token) => ({ ...token }));
-  const errors: string[] = [];
-  const referencesSet = new Set<string>();
-  const unknownReferencesSet = new Set<string>();
-  const knownFields = new Map<string, string>();
-  columns.forEach((col) => {
-    const normalized = normalizeFieldName(col.name);
-    if (normalized) knownFields.set(normalized, col.name);
-  });
-
-  const parenStack: FormulaToken[] = [];
-  tokens.forEach((token) => {
-    if (token.type === "parenthesis") {
-      if (token.value === "(") {
-        parenStack.push(token);
-      } else {
-        const last = parenStack.pop();
-        if (!last) {
-          errors.push(`Unmatched closing parenthesis at character ${token.start + 1}.`);
-        }
-      }
-    }
-    if (token.type === "field") {
-      const fieldName = (token.meta?.fieldName ?? "").trim();
-      if (fieldName) {
-        referencesSet.add(fieldName);
-        const normalized = normalizeFieldName(fieldName);
-        const exists = knownFields.has(normalized);
-        token.meta = { ...(token.meta ?? {}), validField: exists, fieldName };
-        if (!exists) {
-          unknownReferencesSet.add(fieldName);
-        }
-      } else {
-        token.meta = { ...(token.meta ?? {}), validField: false };
-        errors.push("Empty field reference {} detected.");
-      }
-    }
-    if (token.type === "error") {
-      const message = token.meta?.message ?? `Syntax error near '${token.value}'.`;
-      errors.push(message);
-    }
-  });
-
-  if (parenStack.length) {
-    const first = parenStack[parenStack.length - 1];
-    errors.push(`Unmatched opening parenthesis at character ${first.start + 1}.`);
-  }
-
-  const unknownReferences = Array.from(unknownReferencesSet);
-  if (unknownReferences.length) {
-    const label = unknownReferences.length === 1 ? "field" : "fields";
-    errors.push(`Unknown ${label} referenced: ${unknownReferences.map((ref) => `{${ref}}`).join(", ")}.`);
-  }
-
-  let ast: FormulaAstNode | null = null;
-  const trimmedExpression = expression.trim();
-  if (trimmedExpression) {
-    const parseResult = parseFormulaAst(tokens);
-    if (parseResult.errors.length) {
-      errors.push(...parseResult.errors);
-    } else {
-      ast = parseResult.ast;
-    }
-  }
-
-  const references = Array.from(referencesSet);
-  const isValid = errors.length === 0;
-
-  return {
-    tokens,
-    references,
-    unknownReferences,
-    errors,
-    isValid,
-    ast
-  };
-}
-
 const FORMULA_TOKEN_CLASS_MAP: Partial<Record<FormulaTokenType, string>> = {
   number: "text-purple-600 dark:text-purple-300",
   string: "text-amber-600 dark:text-amber-300",
@@ -1248,479 +781,6 @@ function renderFormulaTokens(tokens: FormulaToken[]): string {
   }).join("");
 }
 
-function formulaColumnKey<T extends Record<string, any>>(column: ColumnSpec<T>, index: number): string {
-  if (column.key != null) return String(column.key);
-  return `formula-${index}`;
-}
-
-function createFormulaColumnLookup<T extends Record<string, any>>(columns: ColumnSpec<T>[]): FormulaColumnLookup<T> {
-  const byName = new Map<string, FormulaColumnLookupEntry<T>>();
-  const byKey = new Map<string, FormulaColumnLookupEntry<T>>();
-  columns.forEach((column, index) => {
-    const key = formulaColumnKey(column, index);
-    const entry: FormulaColumnLookupEntry<T> = { column, index, key };
-    byKey.set(key, entry);
-    const normalizedName = normalizeFieldName(column.name);
-    if (normalizedName && !byName.has(normalizedName)) {
-      byName.set(normalizedName, entry);
-    }
-  });
-  return { byName, byKey };
-}
-
-function compileFormulaColumns<T extends Record<string, any>>(columns: ColumnSpec<T>[]): Map<string, CompiledFormulaEntry<T>> {
-  const compiled = new Map<string, CompiledFormulaEntry<T>>();
-  columns.forEach((column, index) => {
-    if (column.type !== "formula") return;
-    const key = formulaColumnKey(column, index);
-    const expression = column.config?.formula?.expression ?? "";
-    if (!expression.trim()) {
-      compiled.set(key, {
-        expression,
-        ast: null,
-        dependencies: [],
-        errors: [],
-        evaluate: () => ""
-      });
-      return;
-    }
-    const analysis = analyzeFormulaExpression(expression, columns);
-    const errors = [...analysis.errors];
-    const ast = analysis.ast ?? null;
-    const evaluate =
-      ast && errors.length === 0
-        ? (scope: FormulaRuntimeScope<T>, visited: Set<string>) => evaluateFormulaAst(ast, scope, visited)
-        : () => "#ERROR";
-    compiled.set(key, {
-      expression,
-      ast,
-      dependencies: analysis.references,
-      errors,
-      evaluate
-    });
-  });
-  return compiled;
-}
-
-function evaluateFormulaAst<T extends Record<string, any>>(
-  node: FormulaAstNode,
-  scope: FormulaRuntimeScope<T>,
-  visited: Set<string>
-): any {
-  switch (node.type) {
-    case "NumberLiteral":
-      return node.value;
-    case "StringLiteral":
-      return node.value;
-    case "BooleanLiteral":
-      return node.value;
-    case "NullLiteral":
-      return null;
-    case "FieldReference":
-      return resolveFieldValue(node.name, scope, visited);
-    case "UnaryExpression": {
-      const value = evaluateFormulaAst(node.argument, scope, visited);
-      switch (node.operator) {
-        case "+":
-          return toNumber(value);
-        case "-":
-          return -toNumber(value);
-        default:
-          throw new Error(`Unsupported unary operator '${node.operator}'.`);
-      }
-    }
-    case "BinaryExpression": {
-      const left = evaluateFormulaAst(node.left, scope, visited);
-      const right = evaluateFormulaAst(node.right, scope, visited);
-      return applyBinaryOperator(node.operator, left, right);
-    }
-    case "FunctionCall": {
-      const fn = FORMULA_FUNCTIONS[node.name];
-      if (!fn) {
-        throw new Error(`Unknown function '${node.name}'.`);
-      }
-      const args = node.args.map((arg) => evaluateFormulaAst(arg, scope, visited));
-      return fn(args, scope);
-    }
-    default:
-      return null;
-  }
-}
-
-function resolveFieldValue<T extends Record<string, any>>(
-  fieldName: string,
-  scope: FormulaRuntimeScope<T>,
-  visited: Set<string>
-): any {
-  const normalized = normalizeFieldName(fieldName);
-  let entry = scope.columnLookup.byName.get(normalized);
-  if (!entry) {
-    entry = scope.columnLookup.byKey.get(fieldName) ?? scope.columnLookup.byKey.get(normalized);
-  }
-  if (!entry) {
-    throw new Error(`Unknown field reference '{${fieldName}}'.`);
-  }
-  const { column, key } = entry;
-  if (column.type === "formula") {
-    const compiled = scope.compiledFormulas.get(key);
-    if (!compiled) throw new Error(`Formula not compiled for column '${column.name}'.`);
-    if (visited.has(key)) throw new Error(`Circular reference detected for '${column.name}'.`);
-    visited.add(key);
-    try {
-      return compiled.evaluate(scope, visited);
-    } finally {
-      visited.delete(key);
-    }
-  }
-  if (column.type === "lookup" && typeof column.lookup === "function") {
-    try {
-      return column.lookup(scope.row);
-    } catch {
-      return "";
-    }
-  }
-  if (column.type === "rollup" && typeof column.rollup === "function") {
-    try {
-      const linked = (scope.row as any)[column.key as keyof T];
-      const array = Array.isArray(linked) ? linked : [];
-      return column.rollup(array);
-    } catch {
-      return "";
-    }
-  }
-  return (scope.row as any)[column.key as keyof T];
-}
-
-function applyBinaryOperator(operator: string, left: any, right: any): any {
-  switch (operator) {
-    case "+":
-      return toNumber(left) + toNumber(right);
-    case "-":
-      return toNumber(left) - toNumber(right);
-    case "*":
-      return toNumber(left) * toNumber(right);
-    case "/": {
-      const denominator = toNumber(right);
-      if (denominator === 0) return Infinity;
-      return toNumber(left) / denominator;
-    }
-    case "^":
-      return Math.pow(toNumber(left), toNumber(right));
-    case "&":
-      return toStringValue(left) + toStringValue(right);
-    case "=":
-      return compareEquality(left, right);
-    case "<>":
-      return !compareEquality(left, right);
-    case "<":
-      return compareRelational(left, right, "<");
-    case "<=":
-      return compareRelational(left, right, "<=");
-    case ">":
-      return compareRelational(left, right, ">");
-    case ">=":
-      return compareRelational(left, right, ">=");
-    default:
-      throw new Error(`Unsupported operator '${operator}'.`);
-  }
-}
-
-function compareRelational(left: any, right: any, operator: "<" | "<=" | ">" | ">="): boolean {
-  const leftNumber = asNumber(left);
-  const rightNumber = asNumber(right);
-  if (leftNumber !== null && rightNumber !== null) {
-    switch (operator) {
-      case "<":
-        return leftNumber < rightNumber;
-      case "<=":
-        return leftNumber <= rightNumber;
-      case ">":
-        return leftNumber > rightNumber;
-      case ">=":
-        return leftNumber >= rightNumber;
-    }
-  }
-  const comparison = toStringValue(left).localeCompare(toStringValue(right), undefined, { sensitivity: "base" });
-  switch (operator) {
-    case "<":
-      return comparison < 0;
-    case "<=":
-      return comparison <= 0;
-    case ">":
-      return comparison > 0;
-    case ">=":
-      return comparison >= 0;
-    default:
-      return false;
-  }
-}
-
-function compareEquality(left: any, right: any): boolean {
-  if (left == null && right == null) return true;
-  const leftNumber = asNumber(left);
-  const rightNumber = asNumber(right);
-  if (leftNumber !== null && rightNumber !== null) {
-    return leftNumber === rightNumber;
-  }
-  return toStringValue(left).trim().toLowerCase() === toStringValue(right).trim().toLowerCase();
-}
-
-function flattenArgs(args: any[]): any[] {
-  const result: any[] = [];
-  args.forEach((arg) => {
-    if (Array.isArray(arg)) {
-      result.push(...flattenArgs(arg));
-    } else {
-      result.push(arg);
-    }
-  });
-  return result;
-}
-
-function toNumber(value: any): number {
-  const numeric = asNumber(value);
-  return numeric ?? 0;
-}
-
-function asNumber(value: any): number | null {
-  if (value == null || value === "") return null;
-  if (typeof value === "number") return Number.isFinite(value) ? value : null;
-  if (typeof value === "boolean") return value ? 1 : 0;
-  if (value instanceof Date) return value.getTime();
-  const normalized = String(value).replace(/,/g, "").trim();
-  if (!normalized) return null;
-  const parsed = Number(normalized);
-  return Number.isFinite(parsed) ? parsed : null;
-}
-
-function toBoolean(value: any): boolean {
-  if (value == null) return false;
-  if (typeof value === "boolean") return value;
-  if (typeof value === "number") return value !== 0;
-  const normalized = toStringValue(value).trim().toLowerCase();
-  if (!normalized) return false;
-  if (["false", "no", "0", "off"].includes(normalized)) return false;
-  return true;
-}
-
-function toStringValue(value: any): string {
-  if (value == null) return "";
-  if (value instanceof Date) return value.toISOString();
-  if (Array.isArray(value)) return value.map((item) => toStringValue(item)).join(", ");
-  return String(value);
-}
-
-function toDate(value: any): Date | null {
-  if (value instanceof Date) return new Date(value.getTime());
-  if (typeof value === "number") {
-    const date = new Date(value);
-    return Number.isNaN(date.getTime()) ? null : date;
-  }
-  if (typeof value === "string") {
-    const parsed = new Date(value);
-    if (!Number.isNaN(parsed.getTime())) return parsed;
-  }
-  return null;
-}
-
-function shiftDate(date: Date, amount: number, unit: string): Date | null {
-  const result = new Date(date.getTime());
-  switch (unit) {
-    case "year":
-    case "years":
-      result.setUTCFullYear(result.getUTCFullYear() + amount);
-      break;
-    case "month":
-    case "months":
-      result.setUTCMonth(result.getUTCMonth() + amount);
-      break;
-    case "week":
-    case "weeks":
-      result.setUTCDate(result.getUTCDate() + amount * 7);
-      break;
-    case "day":
-    case "days":
-      result.setUTCDate(result.getUTCDate() + amount);
-      break;
-    case "hour":
-    case "hours":
-      result.setUTCHours(result.getUTCHours() + amount);
-      break;
-    case "minute":
-    case "minutes":
-      result.setUTCMinutes(result.getUTCMinutes() + amount);
-      break;
-    case "second":
-    case "seconds":
-      result.setUTCSeconds(result.getUTCSeconds() + amount);
-      break;
-    default:
-      return null;
-  }
-  return result;
-}
-
-function differenceInUnit(end: Date, start: Date, unit: string): number {
-  const diffMs = end.getTime() - start.getTime();
-  switch (unit) {
-    case "second":
-    case "seconds":
-      return diffMs / 1000;
-    case "minute":
-    case "minutes":
-      return diffMs / (1000 * 60);
-    case "hour":
-    case "hours":
-      return diffMs / (1000 * 60 * 60);
-    case "day":
-    case "days":
-      return diffMs / (1000 * 60 * 60 * 24);
-    case "week":
-    case "weeks":
-      return diffMs / (1000 * 60 * 60 * 24 * 7);
-    case "month":
-    case "months":
-      return (
-        (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
-        (end.getUTCMonth() - start.getUTCMonth())
-      );
-    case "year":
-    case "years":
-      return end.getUTCFullYear() - start.getUTCFullYear();
-    default:
-      return diffMs;
-  }
-}
-
-const FORMULA_FUNCTIONS: Record<string, (args: any[], scope: FormulaRuntimeScope<any>) => any> = {
-  SUM: (args) => flattenArgs(args).reduce((acc, value) => acc + toNumber(value), 0),
-  AVERAGE: (args) => {
-    const values = flattenArgs(args).map(toNumber);
-    if (!values.length) return 0;
-    return values.reduce((acc, value) => acc + value, 0) / values.length;
-  },
-  MIN: (args) => {
-    const values = flattenArgs(args).map(toNumber);
-    return values.length ? Math.min(...values) : 0;
-  },
-  MAX: (args) => {
-    const values = flattenArgs(args).map(toNumber);
-    return values.length ? Math.max(...values) : 0;
-  },
-  ABS: (args) => Math.abs(toNumber(args[0])),
-  ROUND: (args) => {
-    const value = toNumber(args[0]);
-    const digits = Math.trunc(toNumber(args[1] ?? 0));
-    const factor = Math.pow(10, digits);
-    return Math.round(value * factor) / factor;
-  },
-  ROUNDUP: (args) => {
-    const value = toNumber(args[0]);
-    const digits = Math.trunc(toNumber(args[1] ?? 0));
-    const factor = Math.pow(10, digits);
-    return Math.ceil(value * factor) / factor;
-  },
-  ROUNDDOWN: (args) => {
-    const value = toNumber(args[0]);
-    const digits = Math.trunc(toNumber(args[1] ?? 0));
-    const factor = Math.pow(10, digits);
-    return Math.floor(value * factor) / factor;
-  },
-  INT: (args) => Math.trunc(toNumber(args[0])),
-  IF: (args) => (toBoolean(args[0]) ? args[1] ?? "" : args[2] ?? ""),
-  AND: (args) => flattenArgs(args).every((value) => toBoolean(value)),
-  OR: (args) => flattenArgs(args).some((value) => toBoolean(value)),
-  NOT: (args) => !toBoolean(args[0]),
-  LEN: (args) => toStringValue(args[0]).length,
-  UPPER: (args) => toStringValue(args[0]).toUpperCase(),
-  LOWER: (args) => toStringValue(args[0]).toLowerCase(),
-  TRIM: (args) => toStringValue(args[0]).trim(),
-  LEFT: (args) => {
-    const str = toStringValue(args[0]);
-    const count = Math.max(0, Math.trunc(toNumber(args[1] ?? 1)));
-    return str.slice(0, count);
-  },
-  RIGHT: (args) => {
-    const str = toStringValue(args[0]);
-    const count = Math.max(0, Math.trunc(toNumber(args[1] ?? 1)));
-    return count ? str.slice(-count) : "";
-  },
-  MID: (args) => {
-    const str = toStringValue(args[0]);
-    const start = Math.max(0, Math.trunc(toNumber(args[1] ?? 1) - 1));
-    const length = Math.max(0, Math.trunc(toNumber(args[2] ?? str.length)));
-    return str.slice(start, start + length);
-  },
-  CONCAT: (args) => flattenArgs(args).map(toStringValue).join(""),
-  CONCATENATE: (args) => flattenArgs(args).map(toStringValue).join(""),
-  TEXT: (args) => toStringValue(args[0]),
-  VALUE: (args) => toNumber(args[0]),
-  TODAY: () => new Date().toISOString().slice(0, 10),
-  NOW: () => new Date().toISOString(),
-  DATE: (args) => {
-    const year = Math.trunc(toNumber(args[0] ?? 0));
-    const month = Math.trunc(toNumber(args[1] ?? 1));
-    const day = Math.trunc(toNumber(args[2] ?? 1));
-    const date = new Date(Date.UTC(year, month - 1, day));
-    return Number.isNaN(date.getTime()) ? "" : date.toISOString().slice(0, 10);
-  },
-  YEAR: (args) => {
-    const date = toDate(args[0]);
-    return date ? date.getUTCFullYear() : "";
-  },
-  MONTH: (args) => {
-    const date = toDate(args[0]);
-    return date ? date.getUTCMonth() + 1 : "";
-  },
-  DAY: (args) => {
-    const date = toDate(args[0]);
-    return date ? date.getUTCDate() : "";
-  },
-  DATEADD: (args) => {
-    const date = toDate(args[0]);
-    if (!date) return "";
-    const amount = toNumber(args[1] ?? 0);
-    const unit = String(args[2] ?? "days").toLowerCase();
-    const shifted = shiftDate(date, amount, unit);
-    return shifted ? shifted.toISOString().slice(0, 10) : "";
-  },
-  DATETIME_DIFF: (args) => {
-    const end = toDate(args[0]);
-    const start = toDate(args[1]);
-    if (!end || !start) return "";
-    const unit = String(args[2] ?? "days").toLowerCase();
-    return differenceInUnit(end, start, unit);
-  },
-  RECORD_ID: (args, scope) => {
-    const explicit = scope.getRowId?.(scope.row, scope.rowIndex);
-    if (explicit != null) return String(explicit);
-    if ((scope.row as any).id != null) return String((scope.row as any).id);
-    if ((scope.row as any).ID != null) return String((scope.row as any).ID);
-    return "";
-  },
-  BLANK: () => "",
-  ISBLANK: (args) => {
-    const value = args[0];
-    if (value == null) return true;
-    if (typeof value === "string") return value.trim() === "";
-    if (Array.isArray(value)) return value.length === 0;
-    return false;
-  },
-  ISNUMBER: (args) => asNumber(args[0]) !== null,
-  ISTEXT: (args) => typeof args[0] === "string",
-  SWITCH: (args) => {
-    if (!args.length) return "";
-    const pivot = args[0];
-    for (let i = 1; i < args.length - 1; i += 2) {
-      if (compareEquality(pivot, args[i])) return args[i + 1];
-    }
-    if ((args.length - 1) % 2 === 1) {
-      return args[args.length - 1];
-    }
-    return "";
-  }
-};
-
 export interface InteractiveTableProps<T extends Record<string, any> = any> {
   /** Initial rows */
   rows: T[];
@@ -1763,6 +823,29 @@ export interface InteractiveTableProps<T extends Record<string, any> = any> {
   hasMoreRows?: boolean;
   loadingMoreRows?: boolean;
   onLoadMoreRows?: () => void | Promise<void>;
+  /** Receives filter/sort/search state so the host can query the server instead of the loaded page */
+  onQueryChange?: (query: TableQueryState) => void;
+  /** Record-link picker: search the link field's target table on the server */
+  onSearchLinkedRecords?: (column: ColumnSpec<T>, search: string) => Promise<LinkedRecordOption[]>;
+  /** Record-link picker: create a record in the link field's target table */
+  onCreateLinkedRecord?: (column: ColumnSpec<T>, title: string) => Promise<LinkedRecordOption>;
+  /** Record history: the row's change log, newest first, for the details modal */
+  onLoadRowHistory?: (rowId: string) => Promise<RowHistoryEntry[]>;
+  /** Record history: put the row back the way it was at `at` */
+  onRestoreRow?: (rowId: string, at: string) => Promise<void>;
+  /** Kanban: saves a card moved to another stack; without it the move is reported through onChange */
+  onUpdateRow?: (rowId: string, values: Record<string, unknown>) => Promise<void>;
+  /** Saved views: the views to switch between; without them the switcher only lists view types */
+  savedViews?: SavedView[];
+  /** Saved views: the view whose layout the grid shows */
+  activeViewId?: string | null;
+  onSelectView?: (viewId: string) => void;
+  /** Saved views: save the current layout as a new view */
+  onCreateView?: (input: { name: string; type: ViewType; visibility: ViewVisibility; config: TableViewConfig }) => void | Promise<void>;
+  onRenameView?: (viewId: string, name: string) => void | Promise<void>;
+  onDeleteView?: (viewId: string) => void | Promise<void>;
+  /** Receives the layout (filters, sort, fields, row height, colors) when it changes, so the host can save it to the active view */
+  onViewConfigChange?: (config: TableViewConfig) => void;
   /** Optional explicit virtualization overscan in px */
   virtualizationOverscan?: number;
 }
@@ -1795,6 +878,16 @@ function deepClone<T>(x: T): T {
   return JSON.parse(JSON.stringify(x));
 }
 
+// Puts the columns named in `order` in that order; the others keep their slot.
+function orderColumnsByKeys<C extends { key: unknown }>(columns: C[], order: string[]): C[] {
+  const rank = new Map(order.map((key, index) => [key, index]));
+  const ranked = columns
+    .filter((col) => rank.has(String(col.key)))
+    .sort((a, b) => rank.get(String(a.key))! - rank.get(String(b.key))!);
+  let next = 0;
+  return columns.map((col) => (rank.has(String(col.key)) ? ranked[next++] : col));
+}
+
 function tsvToMatrix(tsv: string) {
   return tsv
     .replace(/\r\n/g, "\n")
@@ -1806,171 +899,6 @@ function matrixToTsv(matrix: string[][]) {
   return matrix.map((r) => r.join("\t")).join("\n");
 }
 
-function abbreviateNumber(n: number) {
-  const abs = Math.abs(n);
-  if (abs >= 1e12) return `${(n / 1e12).toFixed(1)}T`;
-  if (abs >= 1e9) return `${(n / 1e9).toFixed(1)}B`;
-  if (abs >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
-  if (abs >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
-  return String(n);
-}
-
-function formatNumber(
-  n: number,
-  cfg: NonNullable<ColumnSpec["config"]>["number"] | undefined
-) {
-  const decimals = cfg?.decimals ?? 0;
-  const thousands = cfg?.thousands ?? true;
-  const abbr = cfg?.abbreviate ?? false;
-  if (!Number.isFinite(n)) return "";
-  if (abbr) return abbreviateNumber(n);
-  const parts = n.toFixed(decimals).split(".");
-  if (thousands) parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-  return parts.join(decimals ? "." : "");
-}
-
-export function formatCountValue(value: number): string {
-  if (!Number.isFinite(value)) return String(value);
-  const [integerPart, fractionalPart] = String(value).split(".");
-  const withSeparators = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-  return fractionalPart ? `${withSeparators}.${fractionalPart}` : withSeparators;
-}
-
-function formatCurrency(
-  n: number,
-  cfg: NonNullable<ColumnSpec["config"]>["currency"] | undefined
-) {
-  const locale = cfg?.locale ?? "en-US";
-  const currency = cfg?.currency ?? "USD";
-  const decimals = cfg?.decimals ?? 2;
-  const nf = new Intl.NumberFormat(locale, { style: "currency", currency, maximumFractionDigits: decimals });
-  const s = nf.format(n);
-  if (!cfg?.thousandSeparator || cfg.thousandSeparator === "local") return s;
-
-  // Re-map separators for the custom options.
-  const map: Record<string, { g: RegExp; repl: string; dec: string }> = {
-    "comma-period": { g: /\B(?=(\d{3})+(?!\d))/g, repl: ",", dec: "." },
-    "period-comma": { g: /\B(?=(\d{3})+(?!\d))/g, repl: ".", dec: "," },
-    "space-comma": { g: /\B(?=(\d{3})+(?!\d))/g, repl: " ", dec: "," },
-    "space-period": { g: /\B(?=(\d{3})+(?!\d))/g, repl: " ", dec: "." }
-  };
-
-  // naive rebuild: strip currency, rebuild numeric part
-  const m = s.match(/(-?[\d.,\s]+)(.*)/);
-  if (!m) return s;
-  const raw = m[1].replace(/[^\d.-]/g, "");
-  const { g, repl, dec } = map[cfg.thousandSeparator];
-  const parts = Number(raw).toFixed(decimals).split(".");
-  parts[0] = parts[0].replace(g, repl);
-  return s.replace(/-?[\d.,\s]+/, parts.join(dec));
-}
-
-function formatDuration(seconds: number): string {
-  if (!Number.isFinite(seconds)) return "";
-  const total = Math.max(0, Math.floor(seconds));
-  const hrs = Math.floor(total / 3600);
-  const mins = Math.floor((total % 3600) / 60);
-  const secs = total % 60;
-  const parts = [
-    String(mins).padStart(2, "0"),
-    String(secs).padStart(2, "0")
-  ];
-  if (hrs > 0) parts.unshift(String(hrs));
-  return parts.join(":");
-}
-
-const MONTH_NAMES_SHORT = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-const MONTH_NAMES_LONG = [
-  "January",
-  "February",
-  "March",
-  "April",
-  "May",
-  "June",
-  "July",
-  "August",
-  "September",
-  "October",
-  "November",
-  "December"
-];
-const WEEKDAY_NAMES_LONG = [
-  "Sunday",
-  "Monday",
-  "Tuesday",
-  "Wednesday",
-  "Thursday",
-  "Friday",
-  "Saturday"
-];
-
-function formatUtcTimeShort(date: Date): string {
-  let hours = date.getUTCHours();
-  const minutes = String(date.getUTCMinutes()).padStart(2, "0");
-  const suffix = hours >= 12 ? "PM" : "AM";
-  hours = hours % 12 || 12;
-  return `${hours}:${minutes} ${suffix} UTC`;
-}
-
-function formatDateValue(value: unknown, format?: string): string {
-  if (!value) return "";
-  const date = value instanceof Date ? value : new Date(value as any);
-  if (Number.isNaN(date.getTime())) return "";
-
-  const monthIndex = date.getUTCMonth();
-  const dayOfMonth = date.getUTCDate();
-  const yearFull = date.getUTCFullYear();
-  const yearShort = String(yearFull).slice(-2);
-  const monthShort = MONTH_NAMES_SHORT[monthIndex] ?? "";
-  const monthLong = MONTH_NAMES_LONG[monthIndex] ?? "";
-  const dayPadded = String(dayOfMonth).padStart(2, "0");
-  const shortDate = `${String(monthIndex + 1).padStart(2, "0")}/${dayPadded}/${yearShort}`;
-  const mediumDate = `${monthShort} ${dayOfMonth}, ${yearFull}`;
-  const longDate = `${monthLong} ${dayOfMonth}, ${yearFull}`;
-  const weekday = WEEKDAY_NAMES_LONG[date.getUTCDay()] ?? "";
-  const fullDate = `${weekday}, ${longDate}`;
-  const datetime = `${mediumDate} ${formatUtcTimeShort(date)}`;
-
-  if (!format) {
-    return mediumDate;
-  }
-
-  const token = format.toLowerCase();
-  switch (token) {
-    case "iso":
-      return date.toISOString();
-    case "iso-date":
-      return date.toISOString().split("T")[0] ?? date.toISOString();
-    case "short":
-      return shortDate;
-    case "medium":
-      return mediumDate;
-    case "long":
-      return longDate;
-    case "full":
-      return fullDate;
-    case "time":
-      return formatUtcTimeShort(date);
-    case "datetime":
-      return datetime;
-    default:
-      return mediumDate;
-  }
-}
-
-function stringifyValue(value: unknown): string {
-  if (value == null) return "";
-  if (typeof value === "string") return value;
-  if (typeof value === "number" || typeof value === "boolean") return String(value);
-  if (value instanceof Date) return value.toISOString();
-  if (Array.isArray(value)) return value.map((v) => stringifyValue(v)).filter(Boolean).join(", ");
-  try {
-    return JSON.stringify(value);
-  } catch {
-    return String(value);
-  }
-}
-
 function safeJsonParse(value: string): unknown {
   try {
     return JSON.parse(value);
@@ -2023,9 +951,11 @@ function displayValue<T extends Record<string, any>>(value: unknown, column: Col
       return Number.isFinite(num) ? String(num) : "";
     }
     case "date":
+      return formatDateValue(value, column.config?.date?.format);
     case "createdTime":
+      return formatTimestamp(value, column.config?.createdTime?.format);
     case "lastModifiedTime":
-      return formatDateValue(value, column.config?.date?.format);
+      return formatTimestamp(value, column.config?.lastModifiedTime?.format);
     case "duration": {
       const num = typeof value === "number" ? value : Number(value);
       return Number.isFinite(num) ? formatDuration(num) : "";
@@ -2060,11 +990,19 @@ function displayValue<T extends Record<string, any>>(value: unknown, column: Col
       if (!files.length) return "";
       return h("div", { className: "flex flex-wrap gap-1" },
         ...files.map((file, idx) => {
-          const label = (file && typeof file === "object" && "name" in file) ? String((file as any).name ?? `File ${idx + 1}`) : stringifyValue(file);
-          return h("span", {
-            key: `${idx}-${label}`,
-            className: "inline-flex items-center gap-1 rounded border border-zinc-300 px-2 py-0.5 text-xs text-zinc-700 dark:border-neutral-600 dark:text-neutral-200"
-          }, label);
+          const record = file && typeof file === "object" ? (file as Record<string, unknown>) : null;
+          const label = record
+            ? String(record.filename ?? record.name ?? `File ${idx + 1}`)
+            : stringifyValue(file);
+          const url = typeof record?.url === "string" ? record.url : null;
+          const thumbnail = (record?.thumbnails as { small?: { url?: string } } | undefined)?.small?.url;
+          const className = "inline-flex items-center gap-1 rounded border border-zinc-300 px-2 py-0.5 text-xs text-zinc-700 dark:border-neutral-600 dark:text-neutral-200";
+          const content = thumbnail
+            ? [h("img", { key: "thumb", src: thumbnail, alt: "", className: "h-4 w-auto rounded-sm" }), label]
+            : [label];
+          return url
+            ? h("a", { key: `${idx}-${label}`, href: url, target: "_blank", rel: "noopener noreferrer", className }, ...content)
+            : h("span", { key: `${idx}-${label}`, className }, ...content);
         })
       );
     }
@@ -2443,19 +1381,128 @@ function FloatingMenuSurface({
     };
   }, []);
 
-  // eslint-disable-next-line react-hooks/refs
-  return h("div", {
-    ref: menuRef,
-    className,
-    style: {
-      ...style,
-      position: "fixed",
-      left: `${coords.left}px`,
-      top: `${coords.top}px`
-    },
-    "data-placement": placement,
-    ...rest
-  }, children);
+  // eslint-disable-next-line react-hooks/refs
+  return h("div", {
+    ref: menuRef,
+    className,
+    style: {
+      ...style,
+      position: "fixed",
+      left: `${coords.left}px`,
+      top: `${coords.top}px`
+    },
+    "data-placement": placement,
+    ...rest
+  }, children);
+}
+
+const HISTORY_CHANGE_LABELS: Record<RowHistoryEntry["change_type"], string> = {
+  rowCreated: "created this record",
+  rowUpdated: "edited",
+  rowDeleted: "deleted this record"
+};
+
+function RecordHistoryPanel<T extends Record<string, any>>({
+  rowId,
+  columns,
+  onLoad,
+  onRestore
+}: {
+  rowId: string;
+  columns: ColumnSpec<T>[];
+  onLoad: (rowId: string) => Promise<RowHistoryEntry[]>;
+  onRestore?: (rowId: string, at: string) => Promise<void>;
+}) {
+  const [entries, setEntries] = React.useState<RowHistoryEntry[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [restoring, setRestoring] = React.useState<string | null>(null);
+  const [reloadKey, setReloadKey] = React.useState(0);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    onLoad(rowId)
+      .then((next) => {
+        if (cancelled) return;
+        setEntries(next);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load history");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoad, rowId, reloadKey]);
+
+  const columnsByKey = React.useMemo(
+    () => new Map(columns.map((column) => [String(column.key), column])),
+    [columns]
+  );
+
+  const restore = async (entry: RowHistoryEntry) => {
+    if (!onRestore) return;
+    setRestoring(entry.id);
+    try {
+      await onRestore(rowId, entry.created_at);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore record");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const renderChange = (entry: RowHistoryEntry, key: string) => {
+    const column = columnsByKey.get(key);
+    const label = column?.name ?? key;
+    const show = (value: unknown) => {
+      if (value == null || value === "") return h("span", { className: "italic text-zinc-400" }, "empty");
+      return column ? displayValue(value, column) : String(typeof value === "object" ? JSON.stringify(value) : value);
+    };
+    return h("div", { key, className: "flex flex-wrap items-center gap-1 text-xs" },
+      h("span", { className: "font-medium text-zinc-600 dark:text-neutral-300" }, `${label}:`),
+      h("span", { className: "rounded bg-red-50 px-1 line-through dark:bg-red-500/10" }, show(entry.before?.[key])),
+      h("span", { className: "text-zinc-400" }, "→"),
+      h("span", { className: "rounded bg-emerald-50 px-1 dark:bg-emerald-500/10" }, show(entry.after?.[key]))
+    );
+  };
+
+  return h("div", { className: "mt-6 border-t border-zinc-200 pt-4 dark:border-neutral-800" },
+    h("h3", { className: "mb-3 text-sm font-semibold text-zinc-700 dark:text-neutral-200" }, "Record history"),
+    error ? h("div", { className: "mb-2 text-xs text-red-600 dark:text-red-300" }, error) : null,
+    entries === null && !error
+      ? h("div", { className: "text-xs text-zinc-500" }, "Loading history…")
+      : entries && !entries.length
+        ? h("div", { className: "text-xs text-zinc-500" }, "No changes recorded yet.")
+        : h("ol", { className: "space-y-3" },
+            ...(entries ?? []).map((entry, index) =>
+              h("li", { key: entry.id, className: "rounded-lg border border-zinc-200 px-3 py-2 dark:border-neutral-800" },
+                h("div", { className: "flex items-center justify-between gap-2 text-xs text-zinc-500 dark:text-neutral-400" },
+                  h("span", null,
+                    h("span", { className: "font-medium text-zinc-700 dark:text-neutral-200" }, entry.actor_name ?? "System"),
+                    ` ${HISTORY_CHANGE_LABELS[entry.change_type]}`,
+                    entry.change_type === "rowUpdated"
+                      ? ` ${entry.changed_keys.length} field${entry.changed_keys.length === 1 ? "" : "s"}`
+                      : "",
+                    ` · ${formatTimestamp(entry.created_at, { dateStyle: "medium", timeStyle: "short" })}`
+                  ),
+                  onRestore && index > 0 && entry.change_type !== "rowDeleted"
+                    ? h("button", {
+                        type: "button",
+                        disabled: restoring !== null,
+                        onClick: () => void restore(entry),
+                        className: "rounded border border-zinc-300 px-2 py-0.5 text-xs hover:bg-zinc-50 disabled:opacity-50 dark:border-neutral-700 dark:hover:bg-neutral-800",
+                        title: "Put the record back the way it was after this change"
+                      }, restoring === entry.id ? "Restoring…" : "Restore this version")
+                    : null
+                ),
+                entry.change_type === "rowUpdated"
+                  ? h("div", { className: "mt-1 space-y-1" }, ...entry.changed_keys.map((key) => renderChange(entry, key)))
+                  : null
+              )
+            )
+          )
+  );
 }
 
 function useCellContextMenu() {
@@ -2532,6 +1579,19 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     hasMoreRows = false,
     loadingMoreRows,
     onLoadMoreRows,
+    onQueryChange,
+    onSearchLinkedRecords,
+    onCreateLinkedRecord,
+    onLoadRowHistory,
+    onRestoreRow,
+    onUpdateRow,
+    savedViews,
+    activeViewId,
+    onSelectView,
+    onCreateView,
+    onRenameView,
+    onDeleteView,
+    onViewConfigChange,
     virtualizationOverscan = 200
   }: InteractiveTableProps<T>
 ) {
@@ -2543,7 +1603,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   const [columns, setColumns] = React.useState<ColumnSpec<T>[]>(() => {
     // default readOnly for computed/system types
     return deepClone(current.columns).map((c) =>
-      ({ readOnly: ["formula","rollup","lookup","createdTime","lastModifiedTime","createdBy","lastModifiedBy"].includes(c.type) ? true : c.readOnly, ...c })
+      ({ readOnly: ["formula","rollup","lookup","count","createdTime","lastModifiedTime","createdBy","lastModifiedBy"].includes(c.type) ? true : c.readOnly, ...c })
     );
   });
   const columnLookup = React.useMemo(() => createFormulaColumnLookup(columns), [columns]);
@@ -2557,12 +1617,20 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   const headerColumnIndicesRef = React.useRef<number[]>([]);
   const renderedRowIndexesRef = React.useRef<number[]>([]);
   const pendingColumnCommitRef = React.useRef<ColumnSpec<T>[] | null>(null);
-  const availableViews = React.useMemo(
-    () => VIEW_DEFINITIONS.map((def) => ({ ...def, instanceId: def.id, displayName: def.name })),
-    []
+  const availableViews = React.useMemo<Array<ViewDefinition & { instanceId: string; displayName: string; savedView?: SavedView }>>(
+    () => savedViews
+      ? savedViews.map((view) => ({
+          ...(VIEW_DEFINITIONS.find((def) => def.id === view.type) ?? VIEW_DEFINITIONS[0]),
+          instanceId: view.id,
+          displayName: view.name,
+          savedView: view
+        }))
+      : VIEW_DEFINITIONS.map((def) => ({ ...def, instanceId: def.id, displayName: def.name })),
+    [savedViews]
   );
   const [activeView, setActiveView] = React.useState(() => availableViews[0]?.instanceId ?? "grid");
   const [viewsDropdownOpen, setViewsDropdownOpen] = React.useState(false);
+  const [newViewPersonal, setNewViewPersonal] = React.useState(false);
   const viewsTriggerRef = React.useRef<HTMLButtonElement | null>(null);
   const viewsDropdownRef = React.useRef<HTMLDivElement | null>(null);
   const viewsDropdownId = React.useId();
@@ -2611,12 +1679,18 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     }
   }, [fieldAgentsOpen]);
   const [filterDraftColumn, setFilterDraftColumn] = React.useState<string>("");
-  const [filterDraftOperator, setFilterDraftOperator] = React.useState<"contains" | "equals">("contains");
+  const [filterDraftOperator, setFilterDraftOperator] = React.useState<TableFilterOperator>("contains");
   const [filterDraftValue, setFilterDraftValue] = React.useState("");
-  const [activeFilters, setActiveFilters] = React.useState<Array<{ columnKey: string; operator: "contains" | "equals"; term: string }>>([]);
+  const [activeFilters, setActiveFilters] = React.useState<TableFilter[]>([]);
   const [sortConfig, setSortConfig] = React.useState<{ columnKey: string; direction: "asc" | "desc" } | null>(null);
   const [groupConfig, setGroupConfig] = React.useState<{ columnKey: string } | null>(null);
   const [colorConfig, setColorConfig] = React.useState<{ columnKey: string } | null>(null);
+  const [kanbanConfig, setKanbanConfig] = React.useState<KanbanConfig>(() => ({
+    stackBy: DEFAULT_VIEW_CONFIG.stackBy,
+    cardFields: DEFAULT_VIEW_CONFIG.cardFields,
+    coverField: DEFAULT_VIEW_CONFIG.coverField,
+    cardOrder: DEFAULT_VIEW_CONFIG.cardOrder
+  }));
   const isRowReorderLocked = React.useMemo(() => Boolean(sortConfig || groupConfig), [sortConfig, groupConfig]);
   const isRowReorderLockedRef = React.useRef(isRowReorderLocked);
   React.useEffect(() => {
@@ -2645,16 +1719,58 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   const ActiveViewIcon = (activeViewDefinition?.icon ?? FaThLarge) as React.ComponentType<{ className?: string }>;
   const activeViewLabel = activeViewDefinition?.displayName ?? "Grid view";
 
+  // Hidden fields, kept in a ref as well so commit sees a hide made in the same event.
+  const [hiddenColumns, setHiddenColumns] = React.useState<HiddenColumnEntry<T>[]>([]);
+  const hiddenColumnsRef = React.useRef<HiddenColumnEntry<T>[]>([]);
+  const replaceHiddenColumns = React.useCallback((next: HiddenColumnEntry<T>[]) => {
+    hiddenColumnsRef.current = next;
+    setHiddenColumns(next);
+  }, []);
+  const activeViewIdRef = React.useRef(activeViewId ?? null);
+  React.useEffect(() => {
+    activeViewIdRef.current = activeViewId ?? null;
+  }, [activeViewId]);
+  // The host's field order. While a saved view is active, moving fields only
+  // changes the view, so the host keeps being handed its own order.
+  const hostColumnOrderRef = React.useRef(initialColumns.map((col) => String(col.key)));
+  const externalColumnsPendingRef = React.useRef(false);
+
+  const withHiddenColumns = React.useCallback((visible: ColumnSpec<T>[]) => {
+    const merged = visible.slice();
+    hiddenColumnsRef.current
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .forEach((entry) => {
+        if (merged.some((col) => col.key === entry.column.key)) return;
+        merged.splice(clamp(entry.index, 0, merged.length), 0, entry.column);
+      });
+    return merged;
+  }, []);
+
   // sync from history index changes
   React.useEffect(() => {
     const nextRows = deepClone(current.rows);
-    const nextCols = deepClone(current.columns);
+    const hiddenKeys = new Set(hiddenColumnsRef.current.map((entry) => String(entry.column.key)));
+    let nextCols = deepClone(current.columns).filter((col) => !hiddenKeys.has(String(col.key)));
+    if (externalColumnsPendingRef.current) {
+      // Columns from the host come in its order and with hidden fields; keep
+      // the displayed order and each field's width.
+      externalColumnsPendingRef.current = false;
+      const previous = latestColumnsRef.current;
+      if (activeViewIdRef.current) {
+        nextCols = orderColumnsByKeys(nextCols, previous.map((col) => String(col.key)));
+      }
+      const widthByKey = new Map(previous.map((col, idx) => [String(col.key), colWidthsRef.current[idx]]));
+      setColWidths(nextCols.map((col) =>
+        clamp(widthByKey.get(String(col.key)) ?? col.width ?? 160, minColumnWidth, MAX_COLUMN_WIDTH)
+      ));
+    }
     setRows(nextRows);
     latestRowsRef.current = nextRows;
     setColumns(nextCols);
-    latestRowsRef.current = nextRows;
+    latestColumnsRef.current = nextCols;
     setRowHeights(nextRows.map(() => ROW_HEIGHT_PRESETS[rowHeightPresetRef.current]));
-  }, [current]);
+  }, [current, minColumnWidth]);
 
   React.useEffect(() => {
     latestRowsRef.current = rows;
@@ -2667,21 +1783,32 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     const changed = prev.rows !== initialRows || prev.columns !== initialColumns;
     externalStateRef.current = { rows: initialRows, columns: initialColumns };
     if (!changed) return;
+    hostColumnOrderRef.current = initialColumns.map((col) => String(col.key));
+    // Fields deleted elsewhere leave the hidden list; the rest pick up changes.
+    const hostColumns = new Map(initialColumns.map((col) => [String(col.key), col]));
+    replaceHiddenColumns(
+      hiddenColumnsRef.current
+        .filter((entry) => hostColumns.has(String(entry.column.key)))
+        .map((entry) => ({ ...entry, column: deepClone(hostColumns.get(String(entry.column.key))!) }))
+    );
     if (suppressExternalSyncRef.current) {
       suppressExternalSyncRef.current = false;
       return;
     }
+    externalColumnsPendingRef.current = true;
     push({
       rows: deepClone(initialRows),
       columns: deepClone(initialColumns)
     });
-  }, [initialRows, initialColumns, push]);
+  }, [initialRows, initialColumns, push, replaceHiddenColumns]);
 
   React.useEffect(() => {
-    if (!availableViews.some((view) => view.instanceId === activeView)) {
+    if (activeViewId && activeViewId !== activeView && availableViews.some((view) => view.instanceId === activeViewId)) {
+      setActiveView(activeViewId);
+    } else if (!availableViews.some((view) => view.instanceId === activeView)) {
       setActiveView(availableViews[0]?.instanceId ?? "grid");
     }
-  }, [availableViews, activeView]);
+  }, [availableViews, activeView, activeViewId]);
 
   const closeAllMenus = React.useCallback(() => {
     setViewsDropdownOpen(false);
@@ -2736,9 +1863,12 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     push({ rows: nextRows, columns: nextCols });
     if (onChange) {
       suppressExternalSyncRef.current = true;
-      onChange({ rows: deepClone(nextRows), columns: deepClone(nextCols) });
+      const reportedColumns = activeViewIdRef.current
+        ? orderColumnsByKeys(withHiddenColumns(nextCols), hostColumnOrderRef.current)
+        : withHiddenColumns(nextCols);
+      onChange({ rows: deepClone(nextRows), columns: deepClone(reportedColumns) });
     }
-  }, [rows, columns, push, onChange]);
+  }, [rows, columns, push, onChange, withHiddenColumns]);
   const commitRef = React.useRef(commit);
   React.useEffect(() => {
     commitRef.current = commit;
@@ -2816,6 +1946,8 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     search: string;
     expanded: boolean;
     addedRecords: LinkedRecordOption[];
+    remoteRecords: LinkedRecordOption[] | null;
+    loading: boolean;
   } | null>(null);
   const [recordLinkDropdownAnchor, setRecordLinkDropdownAnchor] = React.useState<{
     element: HTMLElement | null;
@@ -2836,7 +1968,6 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   const [detailsModal, setDetailsModal] = React.useState<{ rowIndex: number } | null>(null);
   const [searchOpen, setSearchOpen] = React.useState(false);
   const [searchTerm, setSearchTerm] = React.useState("");
-  const [hiddenColumns, setHiddenColumns] = React.useState<HiddenColumnEntry<T>[]>([]);
   const [confirmAction, setConfirmAction] = React.useState<ConfirmAction<T> | null>(null);
   const [columnResizeHover, setColumnResizeHover] = React.useState<number | null>(null);
   const [columnResizeGuide, setColumnResizeGuide] = React.useState<{ index: number; left: number; active: boolean; cursor?: number } | null>(null);
@@ -3012,6 +2143,35 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     setRecordLinkDropdownAnchor({ element: cell, rect });
   }, [recordLinkDropdown, viewport.scrollLeft, viewport.scrollTop, colWidths, rowHeights]);
 
+  const linkSearchColumn = recordLinkDropdown ? recordLinkDropdown.c : null;
+  const linkSearchTerm = recordLinkDropdown?.search ?? "";
+  React.useEffect(() => {
+    if (linkSearchColumn === null || !onSearchLinkedRecords) return;
+    const column = columns[linkSearchColumn];
+    if (!column) return;
+    let cancelled = false;
+    // Debounce so typing in the picker doesn't issue a request per keystroke.
+    const timer = setTimeout(() => {
+      setRecordLinkDropdown((prev) => (prev ? { ...prev, loading: true } : prev));
+      onSearchLinkedRecords(column, linkSearchTerm.trim())
+        .then((records) => {
+          if (cancelled) return;
+          setRecordLinkDropdown((prev) =>
+            prev && prev.c === linkSearchColumn ? { ...prev, remoteRecords: records, loading: false } : prev
+          );
+        })
+        .catch((error) => {
+          console.error(error);
+          if (cancelled) return;
+          setRecordLinkDropdown((prev) => (prev ? { ...prev, loading: false } : prev));
+        });
+    }, 200);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [linkSearchColumn, linkSearchTerm, columns, onSearchLinkedRecords]);
+
   React.useEffect(() => {
     const container = headerRowRef.current;
     if (!container) return;
@@ -3744,7 +2904,9 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
         c,
         search: "",
         expanded: false,
-        addedRecords: []
+        addedRecords: [],
+        remoteRecords: null,
+        loading: Boolean(onSearchLinkedRecords)
       });
       setSelectDropdown(null);
       return;
@@ -3826,6 +2988,15 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   function createBlankRow(): any {
     const template: any = {};
     for (const c of columns) template[c.key as string] = defaultValueForType(c.type);
+    for (const c of columns) {
+      const defaultUserIds = c.type === "user" ? c.config?.user?.defaultUserIds ?? [] : [];
+      const defaults = users
+        .filter((user) => defaultUserIds.includes(user.id))
+        .map((user) => ({ id: user.id, name: user.name, email: user.email ?? "" }));
+      if (defaults.length) {
+        template[c.key as string] = c.config?.user?.multiple ? defaults : defaults[0];
+      }
+    }
     return template;
   }
 
@@ -4019,7 +3190,10 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     const col = columns[idx];
     if (!col) return;
     const current = col.permissions ?? "";
-    const value = window.prompt("Edit field permissions", current || "Read/write");
+    const value = window.prompt(
+      "Edit field permissions (read:<role>; write:<role> or write:none).\nRoles: viewer, editor, schemaEditor, owner",
+      current || "read:viewer; write:editor"
+    );
     if (value === null) return;
     const nextCols = deepClone(columns);
     nextCols[idx].permissions = value.trim() || undefined;
@@ -4059,13 +3233,11 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     const col = columns[idx];
     if (!col) return;
     const key = String(col.key);
-    const capturedValues = rows.map((row) => deepClone((row as any)[key]));
     const capturedStyles = rows.map((_row, rIdx) => getCellStyle(rIdx, idx));
     const width = clamp(colWidths[idx] ?? col.width ?? 160, minColumnWidth, MAX_COLUMN_WIDTH);
-    setHiddenColumns((prev) => [...prev, {
+    replaceHiddenColumns([...hiddenColumnsRef.current, {
       column: deepClone(col),
       index: idx,
-      values: capturedValues,
       styles: capturedStyles,
       width
     }]);
@@ -4073,7 +3245,6 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     const nextRows = rows.map((row) => {
       const nextRow: any = { ...row };
       dropColumnStyles(nextRow, key);
-      delete nextRow[key];
       return nextRow as T;
     });
     const nextWidths = colWidths.filter((_w, i) => i !== idx);
@@ -4085,42 +3256,40 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   }
 
   function restoreHiddenColumn(hiddenIdx: number) {
-    setHiddenColumns((prev) => {
-      const entry = prev[hiddenIdx];
-      if (!entry) return prev;
-      const insertIndex = clamp(entry.index, 0, columns.length);
-      const columnKey = String(entry.column.key);
-      const nextCols = columns.slice();
-      nextCols.splice(insertIndex, 0, deepClone(entry.column));
-      const nextRows = rows.map((row, rIdx) => {
-        const nextRow: any = { ...row };
-        nextRow[columnKey] = deepClone(entry.values[rIdx]);
-        if (entry.styles[rIdx]) {
-          const styles = { ...((nextRow[STYLE_FIELD] as Record<string, CellStyle>) ?? {}) };
-          styles[columnKey] = { ...entry.styles[rIdx]! };
+    const hidden = hiddenColumnsRef.current;
+    const entry = hidden[hiddenIdx];
+    if (!entry) return;
+    const insertIndex = clamp(entry.index, 0, columns.length);
+    const columnKey = String(entry.column.key);
+    const nextCols = columns.slice();
+    nextCols.splice(insertIndex, 0, deepClone(entry.column));
+    const nextRows = rows.map((row, rIdx) => {
+      const nextRow: any = { ...row };
+      if (entry.styles[rIdx]) {
+        const styles = { ...((nextRow[STYLE_FIELD] as Record<string, CellStyle>) ?? {}) };
+        styles[columnKey] = { ...entry.styles[rIdx]! };
+        nextRow[STYLE_FIELD] = styles;
+      } else if (nextRow[STYLE_FIELD]) {
+        const styles = { ...(nextRow[STYLE_FIELD] as Record<string, CellStyle>) };
+        delete styles[columnKey];
+        if (Object.keys(styles).length) {
           nextRow[STYLE_FIELD] = styles;
-        } else if (nextRow[STYLE_FIELD]) {
-          const styles = { ...(nextRow[STYLE_FIELD] as Record<string, CellStyle>) };
-          delete styles[columnKey];
-          if (Object.keys(styles).length) {
-            nextRow[STYLE_FIELD] = styles;
-          } else {
-            delete nextRow[STYLE_FIELD];
-          }
+        } else {
+          delete nextRow[STYLE_FIELD];
         }
-        return nextRow as T;
-      });
-      setColumns(nextCols);
-      setRows(nextRows);
-      latestRowsRef.current = nextRows;
-      setColWidths((prevWidths) => {
-        const next = prevWidths.slice();
-        next.splice(insertIndex, 0, clamp(entry.width, minColumnWidth, MAX_COLUMN_WIDTH));
-        return next;
-      });
-      commit(nextRows, nextCols);
-      return prev.filter((_item, i) => i !== hiddenIdx);
+      }
+      return nextRow as T;
+    });
+    setColumns(nextCols);
+    setRows(nextRows);
+    latestRowsRef.current = nextRows;
+    setColWidths((prevWidths) => {
+      const next = prevWidths.slice();
+      next.splice(insertIndex, 0, clamp(entry.width, minColumnWidth, MAX_COLUMN_WIDTH));
+      return next;
     });
+    replaceHiddenColumns(hidden.filter((_item, i) => i !== hiddenIdx));
+    commit(nextRows, nextCols);
   }
 
   function dropColumnStyles(row: any, key: string) {
@@ -4535,7 +3704,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   function normalizeColumnForType(col: ColumnSpec<T>, type: ColumnType) {
     const copy = deepClone(col);
     copy.type = type;
-    copy.readOnly = ["formula","rollup","lookup","createdTime","lastModifiedTime","createdBy","lastModifiedBy"].includes(type) ? true : col.readOnly;
+    copy.readOnly = ["formula","rollup","lookup","count","createdTime","lastModifiedTime","createdBy","lastModifiedBy"].includes(type) ? true : col.readOnly;
 
     const allowedConfigKeys = new Set<string>();
     switch (type) {
@@ -4758,7 +3927,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
 
   const filteredRowIndexes = React.useMemo(() => {
     const q = searchTerm.trim().toLowerCase();
-    const activeFilterEntries = activeFilters.filter((filter) => filter.term.trim().length);
+    const activeFilterEntries = activeFilters.filter((filter) => !operatorNeedsTerm(filter.operator) || filter.term.trim().length);
     if (!q && !activeFilterEntries.length) return orderedRowIndexes;
     return orderedRowIndexes.filter((rowIdx) => {
       const matchesSearch = !q || columns.some((_col, colIdx) => {
@@ -4769,12 +3938,8 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       return activeFilterEntries.every((filter) => {
         const columnIndex = columns.findIndex((col) => String(col.key) === filter.columnKey);
         if (columnIndex < 0) return true;
-        const value = getCellValue(rowIdx, columnIndex);
-        const normalized = String(value ?? "").toLowerCase();
-        const term = filter.term.trim().toLowerCase();
-        if (!term) return true;
-        if (filter.operator === "equals") return normalized === term;
-        return normalized.includes(term);
+        const column = columns[columnIndex];
+        return matchesTableFilter(getCellValue(rowIdx, columnIndex), filter, column.type, fieldTimeZone(column));
       });
     });
   }, [orderedRowIndexes, columns, searchTerm, activeFilters, getCellValue]);
@@ -4849,6 +4014,60 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
 
   const visibleRowIndexes = filteredRowIndexes;
 
+  /* Kanban view */
+  const isKanbanView = activeViewDefinition?.id === "kanban";
+  const kanbanRowId = React.useCallback(
+    (row: T, index: number) => String(getRowId?.(row, index) ?? (row as any).id ?? index),
+    [getRowId]
+  );
+  const kanbanRecords = React.useMemo<KanbanRecord<T>[]>(
+    () => visibleRowIndexes.map((index) => ({ id: kanbanRowId(rows[index], index), index, row: rows[index] })),
+    [visibleRowIndexes, rows, kanbanRowId]
+  );
+
+  // Shows the card in its new stack straight away; if the host can't save
+  // it, the card goes back.
+  const moveKanbanCard = (record: KanbanRecord<T>, column: ColumnSpec<T>, value: unknown) => {
+    const key = String(column.key);
+    const setStackValue = (cell: unknown) => {
+      const index = latestRowsRef.current.findIndex((row, idx) => kanbanRowId(row, idx) === record.id);
+      if (index < 0) return null;
+      const next = latestRowsRef.current.slice();
+      next[index] = { ...next[index], [key]: deepClone(cell) };
+      latestRowsRef.current = next;
+      setRows(next);
+      return next;
+    };
+    const previous = (record.row as any)[key] ?? null;
+    const next = setStackValue(value);
+    if (!next) return;
+    if (!onUpdateRow) {
+      commit(next, latestColumnsRef.current);
+      return;
+    }
+    onUpdateRow(record.id, { [key]: value }).catch(() => setStackValue(previous));
+  };
+
+  const renderKanbanValue = (record: KanbanRecord<T>, column: ColumnSpec<T>) => {
+    const columnIndex = columns.findIndex((col) => col.key === column.key);
+    const value = columnIndex >= 0 ? getCellValue(record.index, columnIndex) : (record.row as any)[column.key];
+    return displayValue(value, column);
+  };
+
+  const kanbanElement = isKanbanView
+    ? h(KanbanBoard<T>, {
+        records: kanbanRecords,
+        columns: withHiddenColumns(columns),
+        config: kanbanConfig,
+        users,
+        sorted: Boolean(sortConfig),
+        renderValue: renderKanbanValue,
+        onConfigChange: setKanbanConfig,
+        onMoveCard: moveKanbanCard,
+        onOpenCard: (record: KanbanRecord<T>) => setDetailsModal({ rowIndex: record.index })
+      })
+    : null;
+
   const menuButtonClass = (active: boolean) =>
     mergeClasses(
       "inline-flex items-center gap-2 rounded-lg border px-3 py-1 text-xs uppercase tracking-wide text-zinc-600 transition hover:bg-zinc-100 dark:text-zinc-200 dark:hover:bg-neutral-800",
@@ -4869,19 +4088,139 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
 
   React.useEffect(() => {
     ensureFilterColumn();
+    // Hidden fields keep their filters, sort, grouping and colors.
+    const known = new Set([...columns, ...hiddenColumns.map((entry) => entry.column)].map((col) => String(col.key)));
     setActiveFilters((prev) =>
-      prev.filter((filter) => columns.some((col) => String(col.key) === filter.columnKey))
+      prev.every((filter) => known.has(filter.columnKey)) ? prev : prev.filter((filter) => known.has(filter.columnKey))
     );
-    if (sortConfig && !columns.some((col) => String(col.key) === sortConfig.columnKey)) {
+    if (sortConfig && !known.has(sortConfig.columnKey)) {
       setSortConfig(null);
     }
-    if (groupConfig && !columns.some((col) => String(col.key) === groupConfig.columnKey)) {
+    if (groupConfig && !known.has(groupConfig.columnKey)) {
       setGroupConfig(null);
     }
-    if (colorConfig && !columns.some((col) => String(col.key) === colorConfig.columnKey)) {
+    if (colorConfig && !known.has(colorConfig.columnKey)) {
       setColorConfig(null);
     }
-  }, [columns, ensureFilterColumn, sortConfig, groupConfig, colorConfig]);
+  }, [columns, hiddenColumns, ensureFilterColumn, sortConfig, groupConfig, colorConfig]);
+
+  const onQueryChangeRef = React.useRef(onQueryChange);
+  React.useEffect(() => {
+    onQueryChangeRef.current = onQueryChange;
+  }, [onQueryChange]);
+  const lastReportedQueryRef = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    if (!onQueryChangeRef.current) return;
+    const sorts: TableQueryState["sorts"] = [];
+    if (groupConfig && (!sortConfig || sortConfig.columnKey !== groupConfig.columnKey)) {
+      sorts.push({ columnKey: groupConfig.columnKey, direction: "asc" });
+    }
+    if (sortConfig) sorts.push(sortConfig);
+    const nextQuery: TableQueryState = {
+      filters: activeFilters,
+      sorts,
+      search: searchTerm.trim()
+    };
+    const serialized = JSON.stringify(nextQuery);
+    if (serialized === lastReportedQueryRef.current) return;
+    // Debounce so typing in the search box doesn't issue a request per keystroke.
+    const timer = setTimeout(() => {
+      lastReportedQueryRef.current = serialized;
+      onQueryChangeRef.current?.(nextQuery);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [activeFilters, sortConfig, groupConfig, searchTerm]);
+
+  // Shows a saved view: its field order, hidden fields and widths, filters,
+  // sort, grouping, colors and row height. Nothing reaches the host's data.
+  const applyViewConfig = React.useCallback((config: TableViewConfig) => {
+    const all = withHiddenColumns(latestColumnsRef.current);
+    const ordered = orderColumnsByKeys(all, config.fieldOrder);
+    const hidden = new Set(config.hiddenFields);
+    const currentWidths = new Map(
+      latestColumnsRef.current.map((col, idx) => [String(col.key), colWidthsRef.current[idx]])
+    );
+    hiddenColumnsRef.current.forEach((entry) => currentWidths.set(String(entry.column.key), entry.width));
+    const widthOf = (col: ColumnSpec<T>) => {
+      const key = String(col.key);
+      return clamp(config.fieldWidths[key] ?? currentWidths.get(key) ?? col.width ?? 160, minColumnWidth, MAX_COLUMN_WIDTH);
+    };
+    const visible = ordered.filter((col) => !hidden.has(String(col.key)));
+    replaceHiddenColumns(
+      ordered
+        .map((col, index) => ({ col, index }))
+        .filter(({ col }) => hidden.has(String(col.key)))
+        .map(({ col, index }) => ({ column: deepClone(col), index, styles: [], width: widthOf(col) }))
+    );
+    setColumns(visible);
+    latestColumnsRef.current = visible;
+    setColWidths(visible.map(widthOf));
+    setActiveFilters(config.filters);
+    setSortConfig(config.sorts[0] ?? null);
+    setGroupConfig(config.groupBy ? { columnKey: config.groupBy } : null);
+    setColorConfig(config.colorBy ? { columnKey: config.colorBy } : null);
+    setKanbanConfig({
+      stackBy: config.stackBy,
+      cardFields: config.cardFields,
+      coverField: config.coverField,
+      cardOrder: config.cardOrder
+    });
+    applyRowHeightPreset(config.rowHeight);
+  }, [withHiddenColumns, replaceHiddenColumns, minColumnWidth, applyRowHeightPreset]);
+
+  const appliedViewIdRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    if (!activeViewId) {
+      appliedViewIdRef.current = null;
+      return;
+    }
+    if (appliedViewIdRef.current === activeViewId) return;
+    const view = savedViews?.find((candidate) => candidate.id === activeViewId);
+    if (!view) return;
+    appliedViewIdRef.current = activeViewId;
+    applyViewConfig(view.config);
+  }, [activeViewId, savedViews, applyViewConfig]);
+
+  const currentViewConfig = React.useCallback((): TableViewConfig => {
+    const fieldWidths: Record<string, number> = {};
+    columns.forEach((col, idx) => {
+      fieldWidths[String(col.key)] = Math.round(colWidths[idx] ?? col.width ?? 160);
+    });
+    hiddenColumns.forEach((entry) => {
+      fieldWidths[String(entry.column.key)] = Math.round(entry.width);
+    });
+    return {
+      filters: activeFilters,
+      sorts: sortConfig ? [sortConfig] : [],
+      groupBy: groupConfig?.columnKey ?? null,
+      colorBy: colorConfig?.columnKey ?? null,
+      hiddenFields: hiddenColumns.map((entry) => String(entry.column.key)),
+      fieldOrder: withHiddenColumns(columns).map((col) => String(col.key)),
+      fieldWidths,
+      rowHeight: rowHeightPreset,
+      ...kanbanConfig
+    };
+  }, [columns, colWidths, hiddenColumns, activeFilters, sortConfig, groupConfig, colorConfig, rowHeightPreset, kanbanConfig, withHiddenColumns]);
+
+  const onViewConfigChangeRef = React.useRef(onViewConfigChange);
+  React.useEffect(() => {
+    onViewConfigChangeRef.current = onViewConfigChange;
+  }, [onViewConfigChange]);
+  const lastReportedViewConfigRef = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    if (!onViewConfigChangeRef.current) return;
+    const config = currentViewConfig();
+    const serialized = JSON.stringify(config);
+    if (serialized === lastReportedViewConfigRef.current) return;
+    // Debounced like the query, so dragging a column edge saves once.
+    const timer = setTimeout(() => {
+      lastReportedViewConfigRef.current = serialized;
+      onViewConfigChangeRef.current?.(config);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [currentViewConfig]);
 
   const toggleFieldsMenu = () => {
     if (fieldsMenuOpen) {
@@ -4957,26 +4296,18 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
 
   function hideAllVisibleColumns() {
     if (columns.length <= 1) return;
-    const entries = columns.map((col, idx) => {
-      const key = String(col.key);
-      return {
-        column: deepClone(col),
-        index: idx,
-        values: rows.map((row) => deepClone((row as any)[key])),
-        styles: rows.map((_row, rIdx) => getCellStyle(rIdx, idx)),
-        width: clamp(colWidths[idx] ?? col.width ?? 160, minColumnWidth, MAX_COLUMN_WIDTH)
-      };
-    });
+    const entries = columns.map((col, idx) => ({
+      column: deepClone(col),
+      index: idx,
+      styles: rows.map((_row, rIdx) => getCellStyle(rIdx, idx)),
+      width: clamp(colWidths[idx] ?? col.width ?? 160, minColumnWidth, MAX_COLUMN_WIDTH)
+    }));
     const nextRows = rows.map((row) => {
       const nextRow: any = { ...row };
-      columns.forEach((col) => {
-        const key = String(col.key);
-        delete nextRow[key];
-        dropColumnStyles(nextRow, key);
-      });
+      columns.forEach((col) => dropColumnStyles(nextRow, String(col.key)));
       return nextRow as T;
     });
-    setHiddenColumns((prev) => [...prev, ...entries]);
+    replaceHiddenColumns([...hiddenColumnsRef.current, ...entries]);
     setColumns([]);
     setRows(nextRows);
     latestRowsRef.current = nextRows;
@@ -4999,7 +4330,6 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       nextCols.splice(insertIndex, 0, columnClone);
       nextRows.forEach((row, rIdx) => {
         const nextRow: any = row;
-        nextRow[columnKey] = deepClone(entry.values[rIdx]);
         if (entry.styles[rIdx]) {
           const styles = { ...((nextRow[STYLE_FIELD] as Record<string, CellStyle>) ?? {}) };
           styles[columnKey] = { ...entry.styles[rIdx]! };
@@ -5020,11 +4350,11 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     setRows(nextRows);
     latestRowsRef.current = nextRows;
     setColWidths(nextWidths);
-    setHiddenColumns([]);
+    replaceHiddenColumns([]);
     commit(nextRows, nextCols);
   }
 
-  const hasActiveFilters = activeFilters.some((filter) => filter.term.trim().length > 0);
+  const hasActiveFilters = activeFilters.some((filter) => !operatorNeedsTerm(filter.operator) || filter.term.trim().length > 0);
 
   const handleFilterApply = () => {
     if (!filterDraftColumn) {
@@ -5033,15 +4363,18 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     }
     const trimmed = filterDraftValue.trim();
     setActiveFilters((prev) => {
-      const rest = prev.filter((filter) => filter.columnKey !== filterDraftColumn);
-      if (!trimmed) return rest;
+      // One filter per field and operator, so "> 10" and "< 20" can form a range.
+      const rest = prev.filter(
+        (filter) => !(filter.columnKey === filterDraftColumn && filter.operator === filterDraftOperator)
+      );
+      if (!trimmed && operatorNeedsTerm(filterDraftOperator)) return rest;
       return [...rest, { columnKey: filterDraftColumn, operator: filterDraftOperator, term: trimmed }];
     });
     setFilterMenuOpen(false);
   };
 
-  const handleFilterRemove = (columnKey: string) => {
-    setActiveFilters((prev) => prev.filter((filter) => filter.columnKey !== columnKey));
+  const handleFilterRemove = (columnKey: string, operator: TableFilterOperator) => {
+    setActiveFilters((prev) => prev.filter((filter) => !(filter.columnKey === columnKey && filter.operator === operator)));
   };
 
   const clearFilters = () => {
@@ -5691,6 +5024,55 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       case "multipleSelect":
       case "singleSelect":
         return null;
+      case "user": {
+        const multiple = Boolean(col.config?.user?.multiple);
+        const current = normalizeArrayInput(val).filter(
+          (entry): entry is { id: string; name?: string; email?: string } =>
+            Boolean(entry) && typeof entry === "object" && typeof (entry as { id?: unknown }).id === "string"
+        );
+        const selectedIds = new Set(current.map((entry) => entry.id));
+        const toCell = (user: { id: string; name: string; email?: string }) => ({ id: user.id, name: user.name, email: user.email ?? "" });
+        if (!multiple) {
+          return h("select", {
+            ...commonProps,
+            className: baseEditorClass,
+            defaultValue: current[0]?.id ?? "",
+            onChange: (e: any) => {
+              const user = users.find((candidate) => candidate.id === e.target.value);
+              setCellValue(r, c, user ? toCell(user) : null);
+            }
+          },
+            h("option", { value: "" }, "—"),
+            ...users.map((user) => h("option", { key: user.id, value: user.id }, user.name || user.email || user.id))
+          );
+        }
+        return h("div", {
+          ...commonProps,
+          tabIndex: -1,
+          className: "absolute left-0 top-0 z-20 max-h-56 min-w-full overflow-y-auto rounded-lg border border-zinc-200 bg-white py-1 text-sm shadow-lg outline-none ring-2 ring-blue-500 dark:border-neutral-700 dark:bg-neutral-900"
+        },
+          users.length
+            ? users.map((user) => h("label", {
+                key: user.id,
+                className: "flex items-center gap-2 px-3 py-1.5 hover:bg-zinc-50 dark:hover:bg-neutral-800",
+                onMouseDown: (e: React.MouseEvent) => e.preventDefault()
+              },
+                h("input", {
+                  type: "checkbox",
+                  checked: selectedIds.has(user.id),
+                  onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+                    const checked = e.currentTarget.checked;
+                    const next = checked
+                      ? [...current, toCell(user)]
+                      : current.filter((entry) => entry.id !== user.id);
+                    setCellValue(r, c, next);
+                  }
+                }),
+                h("span", null, user.name || user.email || user.id)
+              ))
+            : h("p", { className: "px-3 py-2 text-xs text-zinc-500 dark:text-neutral-400" }, "No users available")
+        );
+      }
       case "attachment":
         return h("input", {
           ...commonProps,
@@ -6448,7 +5830,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
   })() : null;
 
   const recordLinkDropdownElement = recordLinkDropdown ? (() => {
-    const { r, c, search, addedRecords } = recordLinkDropdown;
+    const { r, c, search, addedRecords, remoteRecords, loading } = recordLinkDropdown;
     const column = columns[c];
     if (!column) return null;
     const anchorElement = recordLinkDropdownAnchor?.element ?? undefined;
@@ -6457,7 +5839,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     const config = column.config?.linkToRecord ?? {};
     const allowCreate = config.allowCreate ?? true;
     const multiple = config.multiple ?? true;
-    const baseRecords = Array.isArray(config.records) ? config.records : [];
+    const baseRecords = remoteRecords ?? (Array.isArray(config.records) ? config.records : []);
     const extraRecords = Array.isArray(addedRecords) ? addedRecords : [];
     const deduped = new Map<string, LinkedRecordOption>();
     const registerRecord = (record: LinkedRecordOption | null | undefined) => {
@@ -6471,7 +5853,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       }
     };
     [...baseRecords, ...extraRecords].forEach(registerRecord);
-    if (deduped.size === 0) {
+    if (deduped.size === 0 && !remoteRecords) {
       const seen = new Set<string>();
       rows.forEach((row) => {
         const raw = (row as any)[column.key as keyof T];
@@ -6497,14 +5879,18 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     }
     const recordsList = Array.from(deduped.values());
     const selectedIds = new Set<string>();
+    const selectedTitles = new Map<string, string>();
     const rawValue = getCellValue(r, c);
     const pushId = (value: unknown) => {
       if (value == null) return;
       if (typeof value === "string") {
         selectedIds.add(value);
       } else if (typeof value === "object" && "id" in (value as Record<string, unknown>)) {
-        const id = (value as Record<string, unknown>).id;
-        if (typeof id === "string") selectedIds.add(id);
+        const { id, title } = value as { id?: unknown; title?: unknown };
+        if (typeof id === "string") {
+          selectedIds.add(id);
+          if (typeof title === "string") selectedTitles.set(id, title);
+        }
       } else {
         selectedIds.add(String(value));
       }
@@ -6523,7 +5909,10 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       }
       return false;
     };
-    const filteredRecords = recordsList.filter(matchesSearch);
+    // Server results are already filtered, possibly on fields the picker doesn't show.
+    const filteredRecords = remoteRecords ? recordsList : recordsList.filter(matchesSearch);
+    const toCellValue = (ids: string[]) =>
+      ids.map((id) => ({ id, title: deduped.get(id)?.title ?? selectedTitles.get(id) ?? id }));
     const dropdownMinWidth = Math.max(320, anchorRect?.width ?? 320);
 
     const toggleRecord = (record: LinkedRecordOption) => {
@@ -6535,33 +5924,45 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
         nextIds.clear();
         nextIds.add(record.id);
       }
-      const payload = multiple ? Array.from(nextIds) : Array.from(nextIds)[0] ?? null;
+      const nextValue = toCellValue(Array.from(nextIds));
+      const payload = multiple ? nextValue : nextValue[0] ?? null;
       setCellValue(r, c, payload ?? (multiple ? [] : null));
       if (!multiple) {
         commitEdit();
       }
     };
 
-    const handleCreateRecord = () => {
+    const handleCreateRecord = async () => {
       if (!allowCreate || typeof window === "undefined") return;
       const suggestion = search.trim();
       const result = window.prompt("Name for the new linked record:", suggestion);
       if (!result) return;
       const title = result.trim();
       if (!title) return;
-      const generatedId = `rec_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
-      const newRecord: LinkedRecordOption = {
-        id: generatedId,
-        title,
-        meta: { Source: "Created in grid" }
-      };
+      let newRecord: LinkedRecordOption;
+      if (onCreateLinkedRecord) {
+        try {
+          newRecord = await onCreateLinkedRecord(column, title);
+        } catch (error) {
+          console.error(error);
+          return;
+        }
+      } else {
+        newRecord = {
+          id: `rec_${Date.now()}_${Math.floor(Math.random() * 1000)}`,
+          title,
+          meta: { Source: "Created in grid" }
+        };
+      }
+      deduped.set(newRecord.id, newRecord);
       setRecordLinkDropdown((prev) => (prev ? {
         ...prev,
         search: "",
         addedRecords: [...prev.addedRecords.filter((entry) => entry.id !== newRecord.id), newRecord]
       } : prev));
-      const nextIds = multiple ? new Set([...selectedIds, generatedId]) : new Set<string>([generatedId]);
-      const payload = multiple ? Array.from(nextIds) : generatedId;
+      const nextIds = multiple ? new Set([...selectedIds, newRecord.id]) : new Set<string>([newRecord.id]);
+      const nextValue = toCellValue(Array.from(nextIds));
+      const payload = multiple ? nextValue : nextValue[0] ?? null;
       setCellValue(r, c, payload ?? (multiple ? [] : null));
       if (!multiple) {
         commitEdit();
@@ -6599,7 +6000,9 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
           h("div", {
             key: "empty",
             className: "rounded-lg border border-dashed border-zinc-300 px-3 py-4 text-center text-xs text-zinc-500 dark:border-neutral-700 dark:text-neutral-400"
-          }, normalizedSearch ? `No records found for "${search.trim()}".` : "No linked records available.")
+          }, loading
+            ? "Searching…"
+            : normalizedSearch ? `No records found for "${search.trim()}".` : "No linked records available.")
         ];
 
     return h(FloatingMenuSurface, {
@@ -7144,6 +6547,64 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       );
     };
 
+    const renderTimestampFormat = (
+      format: Required<TimestampFormat>,
+      setFormat: (format: Required<TimestampFormat>) => void
+    ) =>
+      h("div", { className: "space-y-2" },
+        h("div", { className: "text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" }, "Formatting"),
+        h("label", { className: "flex flex-col gap-1 text-sm" },
+          h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Date style"),
+          h("select", {
+            className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
+            value: format.dateStyle,
+            onChange: (event: React.ChangeEvent<HTMLSelectElement>) => setFormat({ ...format, dateStyle: event.currentTarget.value as "short" | "medium" | "long" })
+          },
+            h("option", { value: "short" }, "Short"),
+            h("option", { value: "medium" }, "Medium"),
+            h("option", { value: "long" }, "Long")
+          )
+        ),
+        h("label", { className: "flex flex-col gap-1 text-sm" },
+          h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Time style"),
+          h("select", {
+            className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
+            value: format.timeStyle,
+            onChange: (event: React.ChangeEvent<HTMLSelectElement>) => setFormat({ ...format, timeStyle: event.currentTarget.value as "short" | "medium" | "long" })
+          },
+            h("option", { value: "short" }, "Short"),
+            h("option", { value: "medium" }, "Medium"),
+            h("option", { value: "long" }, "Long")
+          )
+        ),
+        h("label", { className: "flex flex-col gap-1 text-sm" },
+          h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Timezone"),
+          h("input", {
+            type: "text",
+            placeholder: "Local timezone",
+            value: format.timezone ?? "",
+            onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
+              const value = event.currentTarget.value.trim();
+              setFormat({ ...format, timezone: value || "" });
+            },
+            className: "w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100"
+          })
+        )
+      );
+
+    const buildCreatedTimeContent = () => {
+      const format: Required<TimestampFormat> = {
+        dateStyle: draftConfig.createdTime?.format?.dateStyle ?? "short",
+        timeStyle: draftConfig.createdTime?.format?.timeStyle ?? "short",
+        timezone: draftConfig.createdTime?.format?.timezone ?? ""
+      };
+      return renderTimestampFormat(format, (next) => {
+        updateFieldConfigDraft((config) => {
+          config.createdTime = { ...(config.createdTime ?? {}), format: next };
+        });
+      });
+    };
+
     const buildLastModifiedContent = () => {
       const lastModified = {
         include: draftConfig.lastModifiedTime?.include ?? "all",
@@ -7171,8 +6632,12 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
               h("div", { className: "text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" }, "Choose fields"),
               h("div", { className: "max-h-48 overflow-y-auto rounded-lg border border-zinc-200 dark:border-neutral-700" },
                 ...columns.map((candidate, idx) => {
+                  if (idx === columnIndex) return null;
                   const fieldName = candidate.name ?? `Field ${idx + 1}`;
-                  const checked = lastModified.fields.includes(fieldName);
+                  // Fields are tracked by key; older configs listed names.
+                  const fieldKey = String(candidate.key);
+                  const checked =
+                    lastModified.fields.includes(fieldKey) || lastModified.fields.includes(fieldName);
                   return h("label", {
                     key: `last-mod-field-${idx}`,
                     className: "flex items-center gap-2 px-3 py-2 text-sm hover:bg-zinc-50 dark:hover:bg-neutral-800"
@@ -7182,8 +6647,9 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
                       checked,
                       onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
                         const nextFields = new Set(lastModified.fields);
-                        if (event.currentTarget.checked) nextFields.add(fieldName);
-                        else nextFields.delete(fieldName);
+                        nextFields.delete(fieldName);
+                        if (event.currentTarget.checked) nextFields.add(fieldKey);
+                        else nextFields.delete(fieldKey);
                         setLastModified({ fields: Array.from(nextFields) });
                       }
                     }),
@@ -7193,46 +6659,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
               )
             )
           : null,
-        h("div", { className: "space-y-2" },
-          h("div", { className: "text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" }, "Formatting"),
-          h("label", { className: "flex flex-col gap-1 text-sm" },
-            h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Date style"),
-            h("select", {
-              className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
-              value: lastModified.format.dateStyle,
-              onChange: (event: React.ChangeEvent<HTMLSelectElement>) => setLastModified({ format: { ...lastModified.format, dateStyle: event.currentTarget.value as "short" | "medium" | "long" } })
-            },
-              h("option", { value: "short" }, "Short"),
-              h("option", { value: "medium" }, "Medium"),
-              h("option", { value: "long" }, "Long")
-            )
-          ),
-          h("label", { className: "flex flex-col gap-1 text-sm" },
-            h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Time style"),
-            h("select", {
-              className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
-              value: lastModified.format.timeStyle,
-              onChange: (event: React.ChangeEvent<HTMLSelectElement>) => setLastModified({ format: { ...lastModified.format, timeStyle: event.currentTarget.value as "short" | "medium" | "long" } })
-            },
-              h("option", { value: "short" }, "Short"),
-              h("option", { value: "medium" }, "Medium"),
-              h("option", { value: "long" }, "Long")
-            )
-          ),
-          h("label", { className: "flex flex-col gap-1 text-sm" },
-            h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Timezone"),
-            h("input", {
-              type: "text",
-              placeholder: "Local timezone",
-              value: lastModified.format.timezone ?? "",
-              onChange: (event: React.ChangeEvent<HTMLInputElement>) => {
-                const value = event.currentTarget.value.trim();
-                setLastModified({ format: { ...lastModified.format, timezone: value || "" } });
-              },
-              className: "w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100"
-            })
-          )
-        )
+        renderTimestampFormat(lastModified.format, (format) => setLastModified({ format }))
       );
     };
 
@@ -7452,10 +6879,94 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       );
     };
 
+    const linkedFieldSelect = (value: string, onChange: (next: string) => void) => {
+      const linkedFieldOptions = columns
+        .map((candidate, idx) => candidate.type === "linkToRecord" ? { id: String(candidate.key ?? idx), name: candidate.name ?? `Field ${idx + 1}` } : null)
+        .filter((entry): entry is { id: string; name: string } => Boolean(entry));
+      return h("label", { className: "flex flex-col gap-1 text-sm" },
+        h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Linked record field"),
+        h("select", {
+          className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
+          value,
+          onChange: (event: React.ChangeEvent<HTMLSelectElement>) => onChange(event.currentTarget.value)
+        },
+          h("option", { value: "" }, "Choose a linked record field"),
+          ...linkedFieldOptions.map((opt) => h("option", { key: opt.id, value: opt.name }, opt.name))
+        )
+      );
+    };
+
+    const buildRollupContent = () => {
+      const rollupConfig = {
+        sourceLinkedField: draftConfig.rollup?.sourceLinkedField ?? "",
+        sourceField: draftConfig.rollup?.sourceField ?? "",
+        aggregation: draftConfig.rollup?.aggregation ?? "SUM",
+        separator: draftConfig.rollup?.separator ?? ", "
+      };
+      const setRollupConfig = (partial: Partial<typeof rollupConfig>) => {
+        updateFieldConfigDraft((config) => {
+          const next = { ...(config.rollup ?? {}) };
+          Object.assign(next, partial);
+          config.rollup = next;
+        });
+      };
+      return h("div", { className: "space-y-4" },
+        linkedFieldSelect(rollupConfig.sourceLinkedField, (next) => setRollupConfig({ sourceLinkedField: next })),
+        h("label", { className: "flex flex-col gap-1 text-sm" },
+          h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Field you want to roll up"),
+          h("input", {
+            type: "text",
+            placeholder: "Amount",
+            value: rollupConfig.sourceField,
+            onChange: (event: React.ChangeEvent<HTMLInputElement>) => setRollupConfig({ sourceField: event.currentTarget.value }),
+            className: "w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100"
+          })
+        ),
+        h("label", { className: "flex flex-col gap-1 text-sm" },
+          h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Aggregation"),
+          h("select", {
+            className: "rounded-lg border border-zinc-300 px-3 py-1.5 text-sm dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100",
+            value: rollupConfig.aggregation,
+            onChange: (event: React.ChangeEvent<HTMLSelectElement>) =>
+              setRollupConfig({ aggregation: event.currentTarget.value as RollupAggregation })
+          },
+            ...ROLLUP_AGGREGATIONS.map((aggregation) => h("option", { key: aggregation, value: aggregation }, `${aggregation}(values)`))
+          )
+        ),
+        rollupConfig.aggregation === "ARRAYJOIN"
+          ? h("label", { className: "flex flex-col gap-1 text-sm" },
+              h("span", { className: "font-medium text-zinc-700 dark:text-neutral-100" }, "Separator"),
+              h("input", {
+                type: "text",
+                value: rollupConfig.separator,
+                onChange: (event: React.ChangeEvent<HTMLInputElement>) => setRollupConfig({ separator: event.currentTarget.value }),
+                className: "w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200 dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100"
+              })
+            )
+          : null
+      );
+    };
+
+    const buildCountContent = () =>
+      h("div", { className: "space-y-4" },
+        linkedFieldSelect(draftConfig.count?.sourceLinkedField ?? "", (next) =>
+          updateFieldConfigDraft((config) => {
+            config.count = { ...(config.count ?? {}), sourceLinkedField: next };
+          })
+        ),
+        h("div", {
+          className: "rounded-lg border border-dashed border-zinc-300 px-3 py-2 text-xs text-zinc-500 dark:border-neutral-700 dark:text-neutral-400"
+        }, "Counts the records linked through the selected field.")
+      );
+
     const buildFormulaContent = () => {
       const expression = draftConfig.formula?.expression ?? "";
       const analysis = analyzeFormulaExpression(expression, columns);
-      formulaValidation = { isValid: analysis.isValid, errors: analysis.errors };
+      const circularError = analysis.isValid
+        ? findCircularFormulaReference(columns, formulaColumnKey(column, columnIndex), expression)
+        : null;
+      const formulaErrors = circularError ? [...analysis.errors, circularError] : analysis.errors;
+      formulaValidation = { isValid: formulaErrors.length === 0, errors: formulaErrors };
       const handleFormulaChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
         const value = event.currentTarget.value;
         const nextAnalysis = analyzeFormulaExpression(value, columns);
@@ -7509,9 +7020,9 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
           : h("div", {
               className: "rounded-lg border border-dashed border-zinc-300 px-3 py-2 text-xs text-zinc-500 dark:border-neutral-700 dark:text-neutral-400"
             }, "Reference other fields by wrapping the field name in braces, e.g. {Quantity}."),
-        analysis.errors.length
+        formulaErrors.length
           ? h("div", { className: "space-y-1 rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-sm text-red-700 dark:border-red-500/40 dark:bg-red-500/10 dark:text-red-200" },
-              ...analysis.errors.map((error, idx) => h("div", { key: `formula-error-${idx}` }, error))
+              ...formulaErrors.map((error, idx) => h("div", { key: `formula-error-${idx}` }, error))
             )
           : h("div", {
               className: "rounded-lg border border-emerald-300 bg-emerald-50 px-3 py-2 text-sm text-emerald-700 dark:border-emerald-500/40 dark:bg-emerald-500/10 dark:text-emerald-200"
@@ -7538,6 +7049,9 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       case "attachment":
         typeContent = buildAttachmentContent();
         break;
+      case "createdTime":
+        typeContent = buildCreatedTimeContent();
+        break;
       case "lastModifiedTime":
         typeContent = buildLastModifiedContent();
         break;
@@ -7547,6 +7061,12 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       case "lookup":
         typeContent = buildLookupContent();
         break;
+      case "rollup":
+        typeContent = buildRollupContent();
+        break;
+      case "count":
+        typeContent = buildCountContent();
+        break;
       case "formula":
         typeContent = buildFormulaContent();
         break;
@@ -7735,16 +7255,40 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       ),
       onClick: () => {
         setActiveView(view.instanceId);
+        if (view.savedView) onSelectView?.(view.instanceId);
         setViewsDropdownOpen(false);
       },
       title: view.displayName,
       "aria-label": view.displayName
     },
       h(view.icon, { className: mergeClasses("h-4 w-4 shrink-0", view.colorClass) }),
-      h("span", { className: "truncate" }, view.displayName)
+      h("span", { className: "truncate" }, view.displayName),
+      view.savedView?.visibility === "personal"
+        ? h(FaUser, { className: "ml-auto h-3 w-3 shrink-0 text-zinc-400", title: "Personal view" })
+        : view.savedView && !view.savedView.editable
+          ? h(FaLock, { className: "ml-auto h-3 w-3 shrink-0 text-zinc-400", title: "Only editors can change this view" })
+          : null
     );
   };
 
+  const handleCreateView = (type: ViewType) => {
+    const definition = VIEW_DEFINITIONS.find((def) => def.id === type);
+    const name = window.prompt("Name the new view", definition?.name ?? "Grid")?.trim();
+    if (!name) return;
+    onCreateView?.({
+      name,
+      type,
+      visibility: newViewPersonal ? "personal" : "collaborative",
+      config: currentViewConfig()
+    });
+    setViewsDropdownOpen(false);
+  };
+
+  const activeSavedView = activeViewDefinition?.savedView;
+  const collaborativeViews = availableViews.filter((view) => view.savedView?.visibility === "collaborative");
+  const personalViews = availableViews.filter((view) => view.savedView?.visibility === "personal");
+  const sectionHeadingClass = "px-1 pb-1 pt-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300";
+
   const viewsDropdownElement = viewsDropdownOpen ? h("div", {
     id: viewsDropdownId,
     ref: viewsDropdownRef,
@@ -7759,11 +7303,72 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     "aria-label": "Table views"
   },
     h("p", { className: "px-1 pb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" }, "Table views"),
-    h("div", { className: "flex flex-col gap-1" },
-      ...primaryViews.map(renderViewButton)
-    ),
-    secondaryViews.length ? h("div", { className: "my-2 h-px bg-zinc-200 dark:bg-neutral-800" }) : null,
-    secondaryViews.length ? h("div", { className: "flex flex-col gap-1" }, ...secondaryViews.map(renderViewButton)) : null
+    ...(savedViews
+      ? [
+          collaborativeViews.length ? h("p", { className: sectionHeadingClass }, "Collaborative") : null,
+          collaborativeViews.length ? h("div", { className: "flex flex-col gap-1" }, ...collaborativeViews.map(renderViewButton)) : null,
+          personalViews.length ? h("p", { className: sectionHeadingClass }, "My views") : null,
+          personalViews.length ? h("div", { className: "flex flex-col gap-1" }, ...personalViews.map(renderViewButton)) : null,
+          savedViews.length
+            ? null
+            : h("p", { className: "px-3 py-2 text-sm text-zinc-500 dark:text-neutral-400" }, "No saved views yet"),
+          activeSavedView?.editable
+            ? h("div", { className: "mt-1 flex gap-1 px-1" },
+                h("button", {
+                  type: "button",
+                  className: "flex items-center gap-1 rounded px-2 py-1 text-xs text-zinc-600 hover:bg-zinc-100 dark:text-zinc-300 dark:hover:bg-neutral-800",
+                  onClick: () => {
+                    const name = window.prompt("Rename view", activeSavedView.name)?.trim();
+                    if (name && name !== activeSavedView.name) onRenameView?.(activeSavedView.id, name);
+                  }
+                }, h(FaPencilAlt, { className: "h-3 w-3" }), "Rename"),
+                h("button", {
+                  type: "button",
+                  className: "flex items-center gap-1 rounded px-2 py-1 text-xs text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-500/10",
+                  onClick: () => {
+                    if (window.confirm(`Delete the view "${activeSavedView.name}"?`)) {
+                      onDeleteView?.(activeSavedView.id);
+                      setViewsDropdownOpen(false);
+                    }
+                  }
+                }, h(FaTrash, { className: "h-3 w-3" }), "Delete")
+              )
+            : null,
+          onCreateView ? h("div", { className: "my-2 h-px bg-zinc-200 dark:bg-neutral-800" }) : null,
+          onCreateView ? h("p", { className: sectionHeadingClass }, "Create view") : null,
+          onCreateView
+            ? h("div", { className: "grid grid-cols-2 gap-1" },
+                ...VIEW_DEFINITIONS.map((def) =>
+                  h("button", {
+                    key: def.id,
+                    type: "button",
+                    className: "flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm text-zinc-600 hover:bg-zinc-100 dark:text-zinc-200 dark:hover:bg-neutral-800",
+                    onClick: () => handleCreateView(def.id)
+                  },
+                    h(def.icon, { className: mergeClasses("h-3.5 w-3.5 shrink-0", def.colorClass) }),
+                    h("span", { className: "truncate" }, def.name)
+                  )
+                )
+              )
+            : null,
+          onCreateView
+            ? h("label", { className: "mt-2 flex items-center gap-2 px-1 text-xs text-zinc-600 dark:text-zinc-300" },
+                h("input", {
+                  type: "checkbox",
+                  checked: newViewPersonal,
+                  onChange: (event: React.ChangeEvent<HTMLInputElement>) => setNewViewPersonal(event.currentTarget.checked)
+                }),
+                "Personal view (only visible to me)"
+              )
+            : null
+        ]
+      : [
+          h("div", { className: "flex flex-col gap-1" },
+            ...primaryViews.map(renderViewButton)
+          ),
+          secondaryViews.length ? h("div", { className: "my-2 h-px bg-zinc-200 dark:bg-neutral-800" }) : null,
+          secondaryViews.length ? h("div", { className: "flex flex-col gap-1" }, ...secondaryViews.map(renderViewButton)) : null
+        ])
   ) : null;
 
   const filteredFieldAgentActions = React.useMemo(() => {
@@ -8038,14 +7643,15 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
       "Operator",
       h("select", {
         value: filterDraftOperator,
-        onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setFilterDraftOperator(e.target.value as "contains" | "equals"),
+        onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setFilterDraftOperator(e.target.value as TableFilterOperator),
         className: "mt-1 w-full rounded-lg border border-zinc-300 bg-white px-3 py-1 text-sm text-zinc-700 focus:border-blue-500 focus:outline-none dark:border-neutral-700 dark:bg-neutral-900 dark:text-neutral-100"
       },
-        h("option", { value: "contains" }, "Contains"),
-        h("option", { value: "equals" }, "Equals")
+        ...TABLE_FILTER_OPERATORS.map((op) =>
+          h("option", { key: `filter-operator-${op.value}`, value: op.value }, op.label)
+        )
       )
     ),
-    h("label", { className: "mb-2 block text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" },
+    operatorNeedsTerm(filterDraftOperator) && h("label", { className: "mb-2 block text-xs font-semibold uppercase tracking-wide text-zinc-500 dark:text-neutral-300" },
       "Value",
       h("input", {
         value: filterDraftValue,
@@ -8057,16 +7663,16 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     hasActiveFilters ? h("div", { className: "mt-2 space-y-1" },
       ...activeFilters.map((filter) => {
         const columnName = columns.find((col) => String(col.key) === filter.columnKey)?.name ?? filter.columnKey;
-        const comparator = filter.operator === "equals" ? "=" : "contains";
+        const comparator = TABLE_FILTER_OPERATORS.find((op) => op.value === filter.operator)?.symbol ?? filter.operator;
         return h("div", {
-          key: `active-filter-${filter.columnKey}`,
+          key: `active-filter-${filter.columnKey}-${filter.operator}`,
           className: "flex items-center justify-between rounded-lg bg-zinc-100 px-3 py-1 text-xs text-zinc-600 dark:bg-neutral-800 dark:text-neutral-200"
         },
-          h("span", null, `${columnName} ${comparator} "${filter.term}"`),
+          h("span", null, operatorNeedsTerm(filter.operator) ? `${columnName} ${comparator} "${filter.term}"` : `${columnName} ${comparator}`),
           h("button", {
             type: "button",
             className: "ml-2 text-xs text-zinc-400 hover:text-rose-500",
-            onClick: () => handleFilterRemove(filter.columnKey)
+            onClick: () => handleFilterRemove(filter.columnKey, filter.operator)
           }, "×")
         );
       })
@@ -8411,7 +8017,8 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     h("button", { className: "rounded-lg border px-3 py-1 text-sm", onClick: () => setSearchTerm("") }, "Clear")
   );
 
-  const tableContent = h("div", { className: "relative overflow-auto rounded-xl border", ref: tableContainerRef, onScroll: handleScroll },
+  // Kept mounted under other views so the grid's drag handles and measurements survive.
+  const tableContent = h("div", { className: mergeClasses("relative overflow-auto rounded-xl border", isKanbanView && "hidden"), ref: tableContainerRef, onScroll: handleScroll },
     header,
     body,
     columnResizeGuideLine,
@@ -8443,16 +8050,16 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
         if (confirmAction.type === "deleteRows") {
           const { count } = confirmAction.range;
           return h("p", { className: "mt-3 text-sm text-zinc-600 dark:text-neutral-300" },
-            count === 1 ? "Are you sure you want to delete this row? This action cannot be undone."
-              : `Are you sure you want to delete ${count} rows? This action cannot be undone.`
+            count === 1 ? "Are you sure you want to delete this row? It will move to the trash, where it can be restored."
+              : `Are you sure you want to delete ${count} rows? They will move to the trash, where they can be restored.`
           );
         }
         if (confirmAction.type === "deleteColumns") {
           const names = confirmAction.columns.map((col) => String(col?.name ?? "Untitled")).join(", ");
           return h("p", { className: "mt-3 text-sm text-zinc-600 dark:text-neutral-300" },
             confirmAction.columns.length === 1
-              ? `Delete the field "${names}"? This will remove its values from all rows.`
-              : `Delete ${confirmAction.columns.length} fields (${names})? This will remove their values from all rows.`
+              ? `Delete the field "${names}"? It will move to the trash with its values, where it can be restored.`
+              : `Delete ${confirmAction.columns.length} fields (${names})? They will move to the trash with their values, where they can be restored.`
           );
         }
         const optionLabel = String(confirmAction.option.label ?? confirmAction.option.id ?? "");
@@ -8510,7 +8117,16 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
           type: "button"
         }, "x")
       ),
-      h("div", { className: "prose max-w-none text-sm dark:prose-invert" }, modalDetailsContent ?? h("div", null, "No details available."))
+      h("div", { className: "prose max-w-none text-sm dark:prose-invert" }, modalDetailsContent ?? h("div", null, "No details available.")),
+      onLoadRowHistory && activeModalRow.id
+        ? h(RecordHistoryPanel<T>, {
+            key: String(activeModalRow.id),
+            rowId: String(activeModalRow.id),
+            columns,
+            onLoad: onLoadRowHistory,
+            onRestore: onRestoreRow
+          })
+        : null
     )
   ) : null;
 
@@ -8519,6 +8135,7 @@ function InteractiveTableImpl<T extends Record<string, any> = any>(
     { className: mergeClasses(cx("container","rounded-2xl border p-2 bg-white dark:bg-neutral-950/80 flex-1")) },
     toolbar,
     searchBox,
+    kanbanElement,
     tableContent
   );
 
@@ -0,0 +1,278 @@
+import { query } from "./db";
+import { AccessDeniedError, roleAtLeast, type TableAccess } from "./permissions";
+import { getTableMetadata, listColumns } from "./tableService";
+import {
+  DEFAULT_VIEW_CONFIG,
+  isViewType,
+  normalizeViewConfig,
+  type SavedView,
+  type TableViewConfig,
+  type ViewType,
+  type ViewVisibility,
+} from "./viewConfig";
+
+// Saved views, stored per table. Collaborative views are seen by everyone with
+// access to the table and changed by editors; a personal view is seen and
+// changed only by the user who made it. A view's config only names fields, so
+// fields deleted since it was saved are dropped when it is read.
+
+export const TABLE_VIEWS_DDL = `
+  CREATE TABLE IF NOT EXISTS table_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL REFERENCES table_metadata(table_name) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    view_type TEXT NOT NULL DEFAULT 'grid',
+    visibility TEXT NOT NULL DEFAULT 'collaborative'
+      CHECK (visibility IN ('personal', 'collaborative')),
+    owner_id TEXT,
+    position INTEGER NOT NULL DEFAULT 0,
+    config JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_by TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_table_views_table ON table_views (table_name, position);
+`;
+
+export type ViewInput = {
+  name?: string;
+  type?: ViewType;
+  visibility?: ViewVisibility;
+  config?: Partial<TableViewConfig>;
+};
+
+/** A view request that cannot be carried out. */
+export class ViewError extends Error {
+  constructor(message: string, readonly status: 400 | 404 = 400) {
+    super(message);
+    this.name = "ViewError";
+  }
+}
+
+type ViewRow = Omit<SavedView, "type" | "editable"> & { view_type: string };
+
+const VIEW_COLUMNS = `
+  id::text AS id, table_name, name, view_type, visibility, owner_id, position,
+  config, created_by, created_at, updated_at
+`;
+
+const MAX_VIEW_NAME_LENGTH = 100;
+
+let ensureViewsTablePromise: Promise<void> | null = null;
+
+export async function ensureViewsTable() {
+  if (!ensureViewsTablePromise) {
+    ensureViewsTablePromise = query(TABLE_VIEWS_DDL)
+      .then(() => undefined)
+      .catch((error) => {
+        ensureViewsTablePromise = null;
+        throw error;
+      });
+  }
+  return ensureViewsTablePromise;
+}
+
+function canEditView(view: Pick<ViewRow, "visibility" | "owner_id">, access?: TableAccess) {
+  if (view.visibility === "personal") {
+    return Boolean(access?.user && view.owner_id === access.user.id);
+  }
+  return roleAtLeast(access?.role, "editor");
+}
+
+// Checks the table exists (the view rows reference it) and returns the keys of
+// its fields, which view configs are pruned to.
+async function loadFieldKeys(tableName: string): Promise<Set<string>> {
+  if (!(await getTableMetadata(tableName))) {
+    throw new ViewError(`Unknown table: ${tableName}`, 404);
+  }
+  await ensureViewsTable();
+  return new Set((await listColumns(tableName)).map((column) => String(column.key)));
+}
+
+function pruneConfig(input: unknown, fields: Set<string>): TableViewConfig {
+  const config = normalizeViewConfig(input);
+  const known = (key: string | null) => (key && fields.has(key) ? key : null);
+  return {
+    ...config,
+    filters: config.filters.filter((filter) => fields.has(filter.columnKey)),
+    sorts: config.sorts.filter((sort) => fields.has(sort.columnKey)),
+    groupBy: known(config.groupBy),
+    colorBy: known(config.colorBy),
+    hiddenFields: config.hiddenFields.filter((key) => fields.has(key)),
+    fieldOrder: config.fieldOrder.filter((key) => fields.has(key)),
+    fieldWidths: Object.fromEntries(
+      Object.entries(config.fieldWidths).filter(([key]) => fields.has(key))
+    ),
+    stackBy: known(config.stackBy),
+    cardFields: config.cardFields.filter((key) => fields.has(key)),
+    coverField: known(config.coverField),
+  };
+}
+
+function toSavedView(row: ViewRow, fields: Set<string>, access?: TableAccess): SavedView {
+  const { view_type, ...rest } = row;
+  return {
+    ...rest,
+    type: isViewType(view_type) ? view_type : "grid",
+    config: pruneConfig(row.config, fields),
+    editable: canEditView(row, access),
+  };
+}
+
+function viewName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) throw new ViewError("name is required");
+  if (name.length > MAX_VIEW_NAME_LENGTH) {
+    throw new ViewError(`name cannot be longer than ${MAX_VIEW_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+function viewType(value: unknown): ViewType {
+  if (!isViewType(value)) throw new ViewError(`Unknown view type: ${String(value)}`);
+  return value;
+}
+
+function viewVisibility(value: unknown): ViewVisibility {
+  if (value !== "personal" && value !== "collaborative") {
+    throw new ViewError("visibility must be personal or collaborative");
+  }
+  return value;
+}
+
+function assertCanHold(visibility: ViewVisibility, access?: TableAccess) {
+  if (visibility === "personal" && !access?.user) {
+    throw new ViewError("Personal views need a signed-in user");
+  }
+  if (visibility === "collaborative" && !roleAtLeast(access?.role, "editor")) {
+    throw new AccessDeniedError("editor access is required to change collaborative views");
+  }
+}
+
+/** The table's collaborative views and the caller's personal ones, in order. */
+export async function listViews(tableName: string, access?: TableAccess): Promise<SavedView[]> {
+  const fields = await loadFieldKeys(tableName);
+  const { rows } = await query<ViewRow>(
+    `
+      SELECT ${VIEW_COLUMNS}
+      FROM table_views
+      WHERE table_name = $1
+        AND (visibility = 'collaborative' OR owner_id = $2)
+      ORDER BY position, created_at;
+    `,
+    [tableName, access?.user?.id ?? null]
+  );
+  return rows.map((row) => toSavedView(row, fields, access));
+}
+
+async function findView(tableName: string, viewId: string, access?: TableAccess): Promise<ViewRow> {
+  const { rows } = await query<ViewRow>(
+    `
+      SELECT ${VIEW_COLUMNS}
+      FROM table_views
+      WHERE table_name = $1 AND id::text = $2
+        AND (visibility = 'collaborative' OR owner_id = $3);
+    `,
+    [tableName, viewId, access?.user?.id ?? null]
+  );
+  if (!rows.length) throw new ViewError(`View ${viewId} not found`, 404);
+  return rows[0];
+}
+
+export async function getView(tableName: string, viewId: string, access?: TableAccess): Promise<SavedView> {
+  const fields = await loadFieldKeys(tableName);
+  return toSavedView(await findView(tableName, viewId, access), fields, access);
+}
+
+/** Adds a view after the existing ones. Collaborative views need editor access. */
+export async function createView(
+  tableName: string,
+  input: ViewInput,
+  access?: TableAccess
+): Promise<SavedView> {
+  const fields = await loadFieldKeys(tableName);
+  const name = viewName(input.name);
+  const type = input.type === undefined ? "grid" : viewType(input.type);
+  const visibility = input.visibility === undefined ? "collaborative" : viewVisibility(input.visibility);
+  assertCanHold(visibility, access);
+  const config = pruneConfig({ ...DEFAULT_VIEW_CONFIG, ...input.config }, fields);
+
+  const { rows } = await query<ViewRow>(
+    `
+      INSERT INTO table_views (table_name, name, view_type, visibility, owner_id, position, config, created_by)
+      VALUES (
+        $1, $2, $3, $4, $5,
+        (SELECT COALESCE(MAX(position), -1) + 1 FROM table_views WHERE table_name = $1),
+        $6::jsonb, $7
+      )
+      RETURNING ${VIEW_COLUMNS};
+    `,
+    [
+      tableName,
+      name,
+      type,
+      visibility,
+      visibility === "personal" ? access?.user?.id ?? null : null,
+      JSON.stringify(config),
+      access?.user?.id ?? null,
+    ]
+  );
+  return toSavedView(rows[0], fields, access);
+}
+
+/**
+ * Changes a view's name, type, config or visibility. Making a personal view
+ * collaborative (or back) needs the rights for both kinds.
+ */
+export async function updateView(
+  tableName: string,
+  viewId: string,
+  input: ViewInput,
+  access?: TableAccess
+): Promise<SavedView> {
+  const fields = await loadFieldKeys(tableName);
+  const current = await findView(tableName, viewId, access);
+  if (!canEditView(current, access)) {
+    throw new AccessDeniedError("editor access is required to change collaborative views");
+  }
+  const visibility =
+    input.visibility === undefined ? current.visibility : viewVisibility(input.visibility);
+  if (visibility !== current.visibility) assertCanHold(visibility, access);
+
+  const { rows } = await query<ViewRow>(
+    `
+      UPDATE table_views
+      SET name = $3, view_type = $4, visibility = $5, owner_id = $6, config = $7::jsonb,
+          updated_at = NOW()
+      WHERE table_name = $1 AND id::text = $2
+      RETURNING ${VIEW_COLUMNS};
+    `,
+    [
+      tableName,
+      viewId,
+      input.name === undefined ? current.name : viewName(input.name),
+      input.type === undefined ? current.view_type : viewType(input.type),
+      visibility,
+      visibility === "personal" ? current.owner_id ?? access?.user?.id ?? null : null,
+      JSON.stringify(
+        input.config === undefined
+          ? pruneConfig(current.config, fields)
+          : pruneConfig({ ...normalizeViewConfig(current.config), ...input.config }, fields)
+      ),
+    ]
+  );
+  return toSavedView(rows[0], fields, access);
+}
+
+export async function deleteView(tableName: string, viewId: string, access?: TableAccess) {
+  await loadFieldKeys(tableName);
+  const current = await findView(tableName, viewId, access);
+  if (!canEditView(current, access)) {
+    throw new AccessDeniedError("editor access is required to change collaborative views");
+  }
+  await query(`DELETE FROM table_views WHERE table_name = $1 AND id::text = $2;`, [
+    tableName,
+    viewId,
+  ]);
+}
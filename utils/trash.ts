@@ -0,0 +1,204 @@
+import { randomUUID } from "crypto";
+import type { PoolClient } from "pg";
+import { query, withTransaction } from "./db";
+import type { Role } from "./permissions";
+
+// Deleted rows, fields and tables are kept here for a retention period before
+// the purge job removes them for good. A row or field is stored as a snapshot
+// in `payload`; a table keeps its data in place under a trash name, and its
+// metadata rides along in `payload` so a restore can put it all back.
+
+export const TRASH_DDL = `
+  CREATE TABLE IF NOT EXISTS trash_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    kind TEXT NOT NULL CHECK (kind IN ('row', 'column', 'table')),
+    table_name TEXT NOT NULL,
+    project_tag TEXT NOT NULL DEFAULT '',
+    item_key TEXT NOT NULL,
+    label TEXT NOT NULL DEFAULT '',
+    payload JSONB NOT NULL,
+    deleted_by TEXT,
+    deleted_by_name TEXT,
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_trash_items_table ON trash_items (table_name, kind);
+  CREATE INDEX IF NOT EXISTS idx_trash_items_expires ON trash_items (expires_at);
+`;
+
+export type TrashKind = "row" | "column" | "table";
+
+export type TrashItem = {
+  id: string;
+  kind: TrashKind;
+  table_name: string;
+  project_tag: string;
+  item_key: string;
+  label: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+  deleted_at: string;
+  expires_at: string;
+};
+
+export type TrashItemWithPayload = TrashItem & { payload: Record<string, unknown> };
+
+/** Role on the item's table needed to see and restore it. */
+export const TRASH_ROLES: Record<TrashKind, Role> = {
+  row: "editor",
+  column: "schemaEditor",
+  table: "owner",
+};
+
+/** A restore that cannot go ahead: the item is gone or its place is taken. */
+export class TrashRestoreError extends Error {
+  constructor(message: string, readonly status: 404 | 409 = 409) {
+    super(message);
+    this.name = "TrashRestoreError";
+  }
+}
+
+const RETENTION_MS =
+  (Number(process.env.TRASH_RETENTION_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+const ITEM_COLUMNS = `
+  id::text AS id, kind, table_name, project_tag, item_key, label,
+  deleted_by, deleted_by_name, deleted_at, expires_at
+`;
+
+let ensureTrashTablePromise: Promise<void> | null = null;
+
+export async function ensureTrashTable() {
+  if (!ensureTrashTablePromise) {
+    ensureTrashTablePromise = query(TRASH_DDL)
+      .then(() => undefined)
+      .catch((error) => {
+        ensureTrashTablePromise = null;
+        throw error;
+      });
+  }
+  return ensureTrashTablePromise;
+}
+
+const TRASH_STORAGE_NAME = /^trash_[0-9a-f]{16}$/;
+
+/** The name a trashed table's data is kept under until it is purged. */
+export function trashStorageName(): string {
+  return `trash_${randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+export async function putInTrash(
+  client: PoolClient,
+  input: {
+    kind: TrashKind;
+    tableName: string;
+    projectTag: string;
+    itemKey: string;
+    label: string;
+    payload: Record<string, unknown>;
+    actor?: { id: string; name: string } | null;
+  }
+): Promise<string> {
+  await ensureTrashTable();
+  const { rows } = await client.query<{ id: string }>(
+    `
+      INSERT INTO trash_items
+        (kind, table_name, project_tag, item_key, label, payload, deleted_by, deleted_by_name, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7, $8, NOW() + $9 * INTERVAL '1 millisecond')
+      RETURNING id::text AS id;
+    `,
+    [
+      input.kind,
+      input.tableName,
+      input.projectTag,
+      input.itemKey,
+      input.label,
+      JSON.stringify(input.payload),
+      input.actor?.id ?? null,
+      input.actor?.name ?? null,
+      RETENTION_MS,
+    ]
+  );
+  return rows[0].id;
+}
+
+/** Items still in the trash, most recently deleted first. */
+export async function listTrashItems(filter?: {
+  tableName?: string;
+  kind?: TrashKind;
+}): Promise<TrashItem[]> {
+  await ensureTrashTable();
+  const { rows } = await query<TrashItem>(
+    `
+      SELECT ${ITEM_COLUMNS}
+      FROM trash_items
+      WHERE expires_at > NOW()
+        AND ($1::text IS NULL OR table_name = $1)
+        AND ($2::text IS NULL OR kind = $2)
+      ORDER BY deleted_at DESC;
+    `,
+    [filter?.tableName ?? null, filter?.kind ?? null]
+  );
+  return rows;
+}
+
+export async function getTrashItem(id: string): Promise<TrashItem | null> {
+  await ensureTrashTable();
+  const { rows } = await query<TrashItem>(
+    `SELECT ${ITEM_COLUMNS} FROM trash_items WHERE id::text = $1 AND expires_at > NOW();`,
+    [id]
+  );
+  return rows[0] ?? null;
+}
+
+/** Removes an item from the trash for a restore; rolled back with the restore. */
+export async function takeFromTrash(
+  client: PoolClient,
+  id: string
+): Promise<TrashItemWithPayload> {
+  await ensureTrashTable();
+  const { rows } = await client.query<TrashItemWithPayload>(
+    `
+      DELETE FROM trash_items
+      WHERE id::text = $1 AND expires_at > NOW()
+      RETURNING ${ITEM_COLUMNS}, payload;
+    `,
+    [id]
+  );
+  if (!rows.length) {
+    throw new TrashRestoreError(`Trash item ${id} not found`, 404);
+  }
+  return rows[0];
+}
+
+/**
+ * Permanently deletes items past their retention, dropping the data of
+ * trashed tables. Returns how many of each kind went and the tables they
+ * came from, so the caller can prune their attachment files.
+ */
+export async function purgeExpiredTrash(): Promise<{
+  purged: Record<TrashKind, number>;
+  tables: string[];
+}> {
+  await ensureTrashTable();
+  return withTransaction(async (client) => {
+    const { rows } = await client.query<{
+      kind: TrashKind;
+      table_name: string;
+      storage_table: string | null;
+    }>(`
+      DELETE FROM trash_items
+      WHERE expires_at <= NOW()
+      RETURNING kind, table_name, payload->>'storageTable' AS storage_table;
+    `);
+    const purged: Record<TrashKind, number> = { row: 0, column: 0, table: 0 };
+    for (const row of rows) {
+      purged[row.kind] += 1;
+      if (row.kind === "table" && TRASH_STORAGE_NAME.test(row.storage_table ?? "")) {
+        await client.query(`DROP TABLE IF EXISTS "${row.storage_table}" CASCADE;`);
+      }
+    }
+    return { purged, tables: Array.from(new Set(rows.map((row) => row.table_name))) };
+  });
+}
@@ -0,0 +1,241 @@
+import type { PoolClient } from "pg";
+import { ensureAuthTables, resolveTableRoles, UserValidationError, type AuthUser } from "./auth";
+import { query } from "./db";
+
+// The user directory behind `user`, `createdBy` and `lastModifiedBy` fields.
+// Accounts live in the `users` table owned by auth.ts; this module is the
+// read side the grid and tableService use, plus the notifications sent when
+// someone is added to a user field.
+
+export type DirectoryUser = {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl?: string;
+};
+
+/** What a user cell stores for each person: enough to render without a lookup. */
+export type UserCellValue = { id: string; name: string; email: string };
+
+export type UserNotification = {
+  id: string;
+  kind: "userFieldAdded";
+  table_name: string;
+  row_id: string;
+  column_key: string | null;
+  message: string;
+  actor_id: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+type DirectoryRow = {
+  id: string;
+  name: string;
+  email: string;
+  avatar_url: string | null;
+  is_admin: boolean;
+  disabled: boolean;
+};
+
+const DIRECTORY_COLUMNS = `id::text AS id, name, email, avatar_url, is_admin, disabled`;
+
+function toDirectoryUser(row: DirectoryRow): DirectoryUser {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    ...(row.avatar_url ? { avatarUrl: row.avatar_url } : {}),
+  };
+}
+
+export function toUserCellValue(user: { id: string; name: string; email: string }): UserCellValue {
+  return { id: user.id, name: user.name, email: user.email };
+}
+
+/** Ids of the people in a user cell, which holds one value or a list of them. */
+export function userIdsInCell(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : value == null || value === "" ? [] : [value];
+  const ids = entries
+    .map((entry) => {
+      if (typeof entry === "string") return entry;
+      if (entry && typeof entry === "object") {
+        const id = (entry as { id?: unknown }).id;
+        return typeof id === "string" ? id : null;
+      }
+      return null;
+    })
+    .filter((id): id is string => Boolean(id));
+  return Array.from(new Set(ids));
+}
+
+export async function listDirectoryUsers(options?: {
+  search?: string;
+  includeDisabled?: boolean;
+}): Promise<Array<DirectoryUser & { isAdmin: boolean; disabled: boolean }>> {
+  await ensureAuthTables();
+  const search = options?.search?.trim() ?? "";
+  const { rows } = await query<DirectoryRow>(
+    `
+      SELECT ${DIRECTORY_COLUMNS}
+      FROM users
+      WHERE ($1::boolean OR NOT disabled)
+        AND ($2 = '' OR name ILIKE '%' || $2 || '%' OR email ILIKE '%' || $2 || '%')
+      ORDER BY lower(name), lower(email);
+    `,
+    [options?.includeDisabled ?? false, search]
+  );
+  return rows.map((row) => ({
+    ...toDirectoryUser(row),
+    isAdmin: row.is_admin,
+    disabled: row.disabled,
+  }));
+}
+
+/** Active users with these ids, in the order given; unknown ids are skipped. */
+export async function getDirectoryUsers(ids: string[]): Promise<DirectoryUser[]> {
+  if (!ids.length) return [];
+  await ensureAuthTables();
+  const { rows } = await query<DirectoryRow>(
+    `SELECT ${DIRECTORY_COLUMNS} FROM users WHERE id::text = ANY($1::text[]) AND NOT disabled;`,
+    [ids]
+  );
+  const byId = new Map(rows.map((row) => [row.id, toDirectoryUser(row)]));
+  return ids.map((id) => byId.get(id)).filter((user): user is DirectoryUser => Boolean(user));
+}
+
+export async function updateUser(
+  userId: string,
+  input: { name?: string; avatarUrl?: string | null; isAdmin?: boolean; disabled?: boolean }
+): Promise<DirectoryUser & { isAdmin: boolean; disabled: boolean }> {
+  await ensureAuthTables();
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new UserValidationError("Name cannot be empty");
+  }
+  const { rows } = await query<DirectoryRow>(
+    `
+      UPDATE users
+      SET name = COALESCE($2, name),
+          avatar_url = CASE WHEN $3::boolean THEN $4 ELSE avatar_url END,
+          is_admin = COALESCE($5, is_admin),
+          disabled = COALESCE($6, disabled),
+          updated_at = NOW()
+      WHERE id::text = $1
+      RETURNING ${DIRECTORY_COLUMNS};
+    `,
+    [
+      userId,
+      input.name?.trim() ?? null,
+      input.avatarUrl !== undefined,
+      input.avatarUrl?.trim() || null,
+      input.isAdmin ?? null,
+      input.disabled ?? null,
+    ]
+  );
+  if (!rows.length) {
+    throw new UserValidationError(`User ${userId} not found`);
+  }
+  if (input.disabled) {
+    await query(`DELETE FROM user_sessions WHERE user_id::text = $1;`, [userId]);
+  }
+  return { ...toDirectoryUser(rows[0]), isAdmin: rows[0].is_admin, disabled: rows[0].disabled };
+}
+
+/**
+ * Tells people they were added to a user field. Only users who can open the
+ * table are notified, and never the person who made the change.
+ */
+export async function notifyAddedUsers(
+  client: PoolClient,
+  input: {
+    tableName: string;
+    rowId: string;
+    columnKey: string;
+    columnName: string;
+    userIds: string[];
+    actor?: { id: string; name: string } | null;
+  }
+): Promise<number> {
+  const candidates = input.userIds.filter((id) => id !== input.actor?.id);
+  if (!candidates.length) return 0;
+  await ensureAuthTables();
+
+  const [{ rows: users }, { rows: tables }] = await Promise.all([
+    client.query<AuthUser>(
+      `
+        SELECT id::text AS id, email, name, is_admin
+        FROM users
+        WHERE id::text = ANY($1::text[]) AND NOT disabled;
+      `,
+      [candidates]
+    ),
+    client.query<{ table_name: string; project_tag: string; display_name: string }>(
+      `SELECT table_name, project_tag, display_name FROM table_metadata WHERE table_name = $1;`,
+      [input.tableName]
+    ),
+  ]);
+  const table = tables[0];
+  if (!table || !users.length) return 0;
+
+  const recipients: string[] = [];
+  for (const user of users) {
+    if ((await resolveTableRoles(user, [table])).has(table.table_name)) {
+      recipients.push(user.id);
+    }
+  }
+  if (!recipients.length) return 0;
+
+  const by = input.actor ? `${input.actor.name} added you` : "You were added";
+  await client.query(
+    `
+      INSERT INTO user_notifications
+        (user_id, kind, table_name, row_id, column_key, message, actor_id)
+      SELECT recipient::uuid, 'userFieldAdded', $2, $3, $4, $5, $6
+      FROM unnest($1::text[]) AS recipient;
+    `,
+    [
+      recipients,
+      input.tableName,
+      input.rowId,
+      input.columnKey,
+      `${by} to ${input.columnName} in ${table.display_name || table.table_name}`,
+      input.actor?.id ?? null,
+    ]
+  );
+  return recipients.length;
+}
+
+export async function listNotifications(
+  userId: string,
+  options?: { unreadOnly?: boolean; limit?: number }
+): Promise<UserNotification[]> {
+  await ensureAuthTables();
+  const { rows } = await query<UserNotification>(
+    `
+      SELECT id::text AS id, kind, table_name, row_id, column_key, message, actor_id,
+             read_at, created_at
+      FROM user_notifications
+      WHERE user_id::text = $1 AND (NOT $2::boolean OR read_at IS NULL)
+      ORDER BY created_at DESC
+      LIMIT $3;
+    `,
+    [userId, options?.unreadOnly ?? false, Math.max(1, Math.min(options?.limit ?? 50, 200))]
+  );
+  return rows;
+}
+
+/** Marks the given notifications, or all of them when `ids` is omitted, as read. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  await ensureAuthTables();
+  const { rowCount } = await query(
+    `
+      UPDATE user_notifications
+      SET read_at = NOW()
+      WHERE user_id::text = $1
+        AND read_at IS NULL
+        AND ($2::text[] IS NULL OR id::text = ANY($2::text[]));
+    `,
+    [userId, ids ?? null]
+  );
+  return rowCount ?? 0;
+}
@@ -0,0 +1,142 @@
+import { normalizeTableQuery, type TableFilter, type TableSort } from "./tableQuery";
+
+// Saved views: a named layout of a table (filters, sort, grouping, visible
+// fields and their order and widths, row height, row colors) that the grid
+// applies on top of the data. Kept free of server imports so the grid and the
+// views API read configs the same way.
+
+export const VIEW_TYPES = [
+  "grid",
+  "calendar",
+  "gallery",
+  "kanban",
+  "timeline",
+  "list",
+  "gantt",
+  "form",
+  "section",
+] as const;
+
+export type ViewType = (typeof VIEW_TYPES)[number];
+
+/** Collaborative views are shared with everyone on the table; personal ones only with their owner. */
+export type ViewVisibility = "personal" | "collaborative";
+
+export const VIEW_ROW_HEIGHTS = ["short", "medium", "tall", "extraTall"] as const;
+
+export type ViewRowHeight = (typeof VIEW_ROW_HEIGHTS)[number];
+
+export type TableViewConfig = {
+  filters: TableFilter[];
+  sorts: TableSort[];
+  // Field the rows are grouped by.
+  groupBy: string | null;
+  // Single- or multiple-select field whose option colors tint the rows.
+  colorBy: string | null;
+  hiddenFields: string[];
+  // Every field in display order, hidden ones included; fields added since the
+  // view was saved keep their place in the table.
+  fieldOrder: string[];
+  fieldWidths: Record<string, number>;
+  rowHeight: ViewRowHeight;
+  // Kanban: the single select or user field cards are stacked by, the fields
+  // shown under a card's title, the attachment field whose first image covers
+  // the card, and the ids of rows placed by hand, in order.
+  stackBy: string | null;
+  cardFields: string[];
+  coverField: string | null;
+  cardOrder: string[];
+};
+
+export type SavedView = {
+  id: string;
+  table_name: string;
+  name: string;
+  type: ViewType;
+  visibility: ViewVisibility;
+  // The user a personal view belongs to; null for collaborative views.
+  owner_id: string | null;
+  position: number;
+  config: TableViewConfig;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  // Whether the requesting user may change or delete the view.
+  editable: boolean;
+};
+
+export const DEFAULT_VIEW_CONFIG: TableViewConfig = {
+  filters: [],
+  sorts: [],
+  groupBy: null,
+  colorBy: null,
+  hiddenFields: [],
+  fieldOrder: [],
+  fieldWidths: {},
+  rowHeight: "short",
+  stackBy: null,
+  cardFields: [],
+  coverField: null,
+  cardOrder: [],
+};
+
+const FIELD_KEY = /^[a-zA-Z_][0-9a-zA-Z_]*$/;
+const MAX_FIELD_WIDTH = 4096;
+const MAX_CARD_ORDER = 10000;
+const MAX_ROW_ID_LENGTH = 200;
+
+export function isViewType(value: unknown): value is ViewType {
+  return typeof value === "string" && (VIEW_TYPES as readonly string[]).includes(value);
+}
+
+function fieldKey(value: unknown): string | null {
+  return typeof value === "string" && FIELD_KEY.test(value) ? value : null;
+}
+
+function fieldKeys(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(fieldKey).filter((key): key is string => key !== null)));
+}
+
+function rowIds(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const ids = value.filter(
+    (id): id is string => typeof id === "string" && id.length > 0 && id.length <= MAX_ROW_ID_LENGTH
+  );
+  return Array.from(new Set(ids)).slice(0, MAX_CARD_ORDER);
+}
+
+/** Reads a stored or submitted config, dropping anything malformed. */
+export function normalizeViewConfig(input: unknown): TableViewConfig {
+  const source = (input && typeof input === "object" ? input : {}) as Record<string, unknown>;
+  const { filters, sorts } = normalizeTableQuery(source);
+  const widths = (source.fieldWidths && typeof source.fieldWidths === "object"
+    ? source.fieldWidths
+    : {}) as Record<string, unknown>;
+  const fieldWidths: Record<string, number> = {};
+  for (const [key, width] of Object.entries(widths).sort(([a], [b]) => a.localeCompare(b))) {
+    if (fieldKey(key) && typeof width === "number" && Number.isFinite(width) && width > 0) {
+      fieldWidths[key] = Math.min(Math.round(width), MAX_FIELD_WIDTH);
+    }
+  }
+  return {
+    filters,
+    sorts,
+    groupBy: fieldKey(source.groupBy),
+    colorBy: fieldKey(source.colorBy),
+    hiddenFields: fieldKeys(source.hiddenFields),
+    fieldOrder: fieldKeys(source.fieldOrder),
+    fieldWidths,
+    rowHeight: (VIEW_ROW_HEIGHTS as readonly unknown[]).includes(source.rowHeight)
+      ? (source.rowHeight as ViewRowHeight)
+      : DEFAULT_VIEW_CONFIG.rowHeight,
+    stackBy: fieldKey(source.stackBy),
+    cardFields: fieldKeys(source.cardFields),
+    coverField: fieldKey(source.coverField),
+    cardOrder: rowIds(source.cardOrder),
+  };
+}
+
+export function sameViewConfig(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeViewConfig(a)) === JSON.stringify(normalizeViewConfig(b));
+}